@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+import { useAuthStore } from '@/stores/authStore';
+import { useCodesPromoStore, type CodePromoDetail } from '@/stores/codesPromoStore';
+import { useCategoriesStore } from '@/stores/categoriesStore';
+import { useUsersStore } from '@/stores/usersStore';
+import { formatCodePromo, verifierValiditeCodePromo } from '@/app/lib/codesPromo';
+import { CodePromoFormModal } from '@/components/codes-promo/code-promo-form-modal';
+
+const formatPrix = (prix: number) => `${prix.toLocaleString('fr-FR')} FCFA`;
+
+const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('fr-FR', { day: '2-digit', month: 'short', year: 'numeric' });
+
+const formatValidite = (code: CodePromoDetail) => {
+    if (code.date_debut && code.date_fin) return `${formatDate(code.date_debut)} – ${formatDate(code.date_fin)}`;
+    if (code.date_debut) return `Dès le ${formatDate(code.date_debut)}`;
+    if (code.date_fin) return `Jusqu'au ${formatDate(code.date_fin)}`;
+    return 'Sans limite';
+};
+
+const formatPortee = (code: CodePromoDetail) => {
+    if (code.boutique) return { label: `Boutique : ${code.boutique.name}`, variant: 'default' as const };
+    if (code.categorie) return { label: `Catégorie : ${code.categorie.nom}`, variant: 'secondary' as const };
+    return { label: 'Plateforme', variant: 'outline' as const };
+};
+
+export default function CodesPromoPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    // La modale est remontée (key) à chaque ouverture pour repartir du code choisi
+    const [modal, setModal] = useState<{ open: boolean; code: CodePromoDetail | null; key: number }>({
+        open: false,
+        code: null,
+        key: 0,
+    });
+    const [isInitialLoading, setIsInitialLoading] = useState(true);
+
+    // ============================================
+    // STORES
+    // ============================================
+
+    const estAdmin = useAuthStore((state) => state.user?.role === 'Administrateur');
+    const userId = useAuthStore((state) => state.user?.id);
+    const { codes, fetchCodes, deleteCode, updateCode, isLoading } = useCodesPromoStore();
+    const { categories, fetchCategories } = useCategoriesStore();
+    const { users, fetchUsers } = useUsersStore();
+
+    const boutiques = users.filter(u => u.role === 'Boutique');
+
+    useEffect(() => {
+        // Une boutique ne gère que ses propres codes : pas besoin des référentiels
+        Promise.all(estAdmin ? [fetchCodes(), fetchCategories(), fetchUsers()] : [fetchCodes()])
+            .finally(() => setIsInitialLoading(false));
+    }, [estAdmin, fetchCodes, fetchCategories, fetchUsers]);
+
+    // ============================================
+    // HANDLERS
+    // ============================================
+
+    const ouvrirModal = (code: CodePromoDetail | null) => {
+        setModal(prev => ({ open: true, code, key: prev.key + 1 }));
+    };
+
+    const handleDelete = (code: CodePromoDetail) => {
+        toast(`Supprimer le code "${code.code}" ?`, {
+            action: {
+                label: "Supprimer",
+                onClick: async () => {
+                    try {
+                        await deleteCode(code.id);
+                        toast.success("Code promo supprimé");
+                    } catch (err) {
+                        toast.error(err instanceof Error ? err.message : "Erreur lors de la suppression du code");
+                    }
+                },
+            },
+            dismissible: true,
+            duration: 15000,
+        });
+    };
+
+    const handleToggleActive = async (code: CodePromoDetail) => {
+        try {
+            await updateCode(code.id, { is_active: !code.is_active });
+        } catch {
+            toast.error("Erreur lors de la modification du statut");
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    if (isInitialLoading) {
+        return (
+            <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+                <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                        <Skeleton className="h-9 w-48" />
+                        <Skeleton className="h-4 w-80" />
+                    </div>
+                    <Skeleton className="h-10 w-44" />
+                </div>
+                <Card>
+                    <CardContent className="space-y-3 pt-4">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const utilisables = codes.filter(c => !verifierValiditeCodePromo(c));
+
+    return (
+        <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+            {/* En-tête de page */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Codes promo</h1>
+                    <p className="text-muted-foreground">
+                        {estAdmin
+                            ? 'Remises saisies par les acheteurs au checkout'
+                            : 'Remises sur les articles de votre boutique, saisies par les acheteurs au checkout'}
+                    </p>
+                </div>
+                <Button onClick={() => ouvrirModal(null)} disabled={isLoading}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Créer un code
+                </Button>
+            </div>
+
+            {/* Statistiques */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Codes utilisables</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {utilisables.length} / {codes.length}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Utilisations</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {codes.reduce((sum, c) => sum + c.utilisations, 0)}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Remises accordées</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {formatPrix(codes.reduce((sum, c) => sum + c.montant_remises, 0))}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Tableau des codes */}
+            <Card>
+                <CardContent className="pt-4">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Code</TableHead>
+                                <TableHead>Portée</TableHead>
+                                <TableHead>Remise</TableHead>
+                                <TableHead>Conditions</TableHead>
+                                <TableHead>Validité</TableHead>
+                                <TableHead>Utilisations</TableHead>
+                                <TableHead>Statut</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {codes.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                                        Aucun code promo pour le moment.
+                                    </TableCell>
+                                </TableRow>
+                            ) : codes.map((code) => {
+                                const portee = formatPortee(code);
+                                const indisponible = verifierValiditeCodePromo(code);
+                                // Une boutique ne gère pas les codes d'un administrateur (financés par la plateforme)
+                                const modifiable = estAdmin || code.createur?.id === userId;
+                                return (
+                                    <TableRow key={code.id} className={indisponible ? 'opacity-60' : ''}>
+                                        <TableCell>
+                                            <p className="font-mono font-medium">{code.code}</p>
+                                            {code.description && (
+                                                <p className="text-xs text-muted-foreground">{code.description}</p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={portee.variant}>{portee.label}</Badge>
+                                        </TableCell>
+                                        <TableCell className="font-mono">{formatCodePromo(code)}</TableCell>
+                                        <TableCell className="text-sm">
+                                            {code.montant_min > 0 && <p>Dès {formatPrix(code.montant_min)}</p>}
+                                            <p className="text-muted-foreground">
+                                                {code.limite_par_utilisateur === null
+                                                    ? 'Sans limite par acheteur'
+                                                    : `${code.limite_par_utilisateur} par acheteur`}
+                                            </p>
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            <p>{formatValidite(code)}</p>
+                                            {indisponible && code.is_active && (
+                                                <p className="text-xs text-muted-foreground">{indisponible}</p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <p>
+                                                {code.utilisations}
+                                                {code.limite_utilisation !== null && ` / ${code.limite_utilisation}`}
+                                            </p>
+                                            {code.montant_remises > 0 && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    {formatPrix(code.montant_remises)}
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                disabled={!modifiable}
+                                                onClick={() => handleToggleActive(code)}
+                                            >
+                                                <Badge variant={code.is_active ? 'default' : 'secondary'}>
+                                                    {code.is_active ? 'Actif' : 'Inactif'}
+                                                </Badge>
+                                            </Button>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" disabled={!modifiable} onClick={() => ouvrirModal(code)}>
+                                                <Edit className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" disabled={!modifiable} onClick={() => handleDelete(code)}>
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <CodePromoFormModal
+                key={modal.key}
+                isOpen={modal.open}
+                onClose={() => setModal(prev => ({ ...prev, open: false }))}
+                code={modal.code}
+                estBoutique={!estAdmin}
+                categories={categories}
+                boutiques={boutiques}
+            />
+        </div>
+    );
+}
@@ -4,6 +4,7 @@
 import React from 'react';
 import { useCommandesStore } from '@/stores/commandesStore';
 import { type Commande } from '@/stores/types/common';
+import { type CommandeStatutValue } from '@/app/lib/commandeStatuts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -44,6 +45,7 @@ export default function CommandesPage() {
         fetchCommandes,
         deleteCommande,
         updateStatut,
+        getStatutsPossibles,
     } = useCommandesStore();
 
     // ========== STATE LOCAL ==========
@@ -89,7 +91,7 @@ export default function CommandesPage() {
     };
 
     const handleUpdateStatut = async (commande: Commande, nouveauStatut: string) => {
-        await updateStatut(commande.id, nouveauStatut as any);
+        await updateStatut(commande.id, nouveauStatut as CommandeStatutValue);
     };
 
     // ========== STATS CALCULÉES ==========
@@ -330,6 +332,7 @@ export default function CommandesPage() {
                         onView={handleView}
                         onDelete={handleDelete}
                         onUpdateStatut={handleUpdateStatut}
+                        getStatutsPossibles={getStatutsPossibles}
                     />
                 </CardContent>
             </Card>
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+import { useCommissionsStore, type RegleCommission } from '@/stores/commissionsStore';
+import { useCategoriesStore } from '@/stores/categoriesStore';
+import { useUsersStore } from '@/stores/usersStore';
+import { formatRegleCommission } from '@/app/lib/commissions';
+import { CommissionFormModal } from '@/components/commissions/commission-form-modal';
+
+const formatPrix = (prix: number) => `${prix.toLocaleString('fr-FR')} FCFA`;
+
+const formatTranche = (regle: RegleCommission) =>
+    regle.prix_max === null
+        ? `≥ ${formatPrix(regle.prix_min)}`
+        : `${formatPrix(regle.prix_min)} – ${formatPrix(regle.prix_max)}`;
+
+const formatPortee = (regle: RegleCommission) => {
+    if (regle.boutique) return { label: `Boutique : ${regle.boutique.name}`, variant: 'default' as const };
+    if (regle.categorie) return { label: `Catégorie : ${regle.categorie.nom}`, variant: 'secondary' as const };
+    return { label: 'Plateforme', variant: 'outline' as const };
+};
+
+export default function CommissionsPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    // La modale est remontée (key) à chaque ouverture pour repartir de la règle choisie
+    const [modal, setModal] = useState<{ open: boolean; regle: RegleCommission | null; key: number }>({
+        open: false,
+        regle: null,
+        key: 0,
+    });
+    const [isInitialLoading, setIsInitialLoading] = useState(true);
+
+    // ============================================
+    // STORES
+    // ============================================
+
+    const { regles, fetchRegles, deleteRegle, updateRegle, isLoading } = useCommissionsStore();
+    const { categories, fetchCategories } = useCategoriesStore();
+    const { users, fetchUsers } = useUsersStore();
+
+    const boutiques = users.filter(u => u.role === 'Boutique');
+
+    useEffect(() => {
+        Promise.all([fetchRegles(), fetchCategories(), fetchUsers()])
+            .finally(() => setIsInitialLoading(false));
+    }, [fetchRegles, fetchCategories, fetchUsers]);
+
+    // ============================================
+    // HANDLERS
+    // ============================================
+
+    const ouvrirModal = (regle: RegleCommission | null) => {
+        setModal(prev => ({ open: true, regle, key: prev.key + 1 }));
+    };
+
+    const handleDelete = (regle: RegleCommission) => {
+        toast(`Supprimer la règle "${regle.nom}" ?`, {
+            action: {
+                label: "Supprimer",
+                onClick: async () => {
+                    try {
+                        await deleteRegle(regle.id);
+                        toast.success("Règle supprimée");
+                    } catch {
+                        toast.error("Erreur lors de la suppression de la règle");
+                    }
+                },
+            },
+            dismissible: true,
+            duration: 15000,
+        });
+    };
+
+    const handleToggleActive = async (regle: RegleCommission) => {
+        try {
+            await updateRegle(regle.id, { is_active: !regle.is_active });
+        } catch {
+            toast.error("Erreur lors de la modification du statut");
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    if (isInitialLoading) {
+        return (
+            <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+                <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                        <Skeleton className="h-9 w-48" />
+                        <Skeleton className="h-4 w-80" />
+                    </div>
+                    <Skeleton className="h-10 w-44" />
+                </div>
+                <Card>
+                    <CardContent className="space-y-3 pt-4">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const globales = regles.filter(r => !r.boutique_id && !r.categorie_id);
+
+    return (
+        <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+            {/* En-tête de page */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Commissions</h1>
+                    <p className="text-muted-foreground">
+                        Barème des frais de service prélevés sur chaque article vendu
+                    </p>
+                </div>
+                <Button onClick={() => ouvrirModal(null)} disabled={isLoading}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Ajouter une règle
+                </Button>
+            </div>
+
+            {/* Statistiques */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Règles plateforme</CardDescription>
+                        <CardTitle className="text-3xl font-bold">{globales.length}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Exceptions par catégorie</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {regles.filter(r => r.categorie_id).length}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Exceptions par boutique</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {regles.filter(r => r.boutique_id).length}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Tableau du barème */}
+            <Card>
+                <CardContent className="pt-4">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Nom</TableHead>
+                                <TableHead>Portée</TableHead>
+                                <TableHead>Tranche de prix unitaire</TableHead>
+                                <TableHead>Frais</TableHead>
+                                <TableHead>Statut</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {regles.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                                        Aucune règle : aucun frais de service n&apos;est prélevé.
+                                    </TableCell>
+                                </TableRow>
+                            ) : regles.map((regle) => {
+                                const portee = formatPortee(regle);
+                                return (
+                                    <TableRow key={regle.id} className={regle.is_active ? '' : 'opacity-60'}>
+                                        <TableCell className="font-medium">{regle.nom}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={portee.variant}>{portee.label}</Badge>
+                                        </TableCell>
+                                        <TableCell>{formatTranche(regle)}</TableCell>
+                                        <TableCell className="font-mono">{formatRegleCommission(regle)}</TableCell>
+                                        <TableCell>
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => handleToggleActive(regle)}
+                                            >
+                                                <Badge variant={regle.is_active ? 'default' : 'secondary'}>
+                                                    {regle.is_active ? 'Active' : 'Inactive'}
+                                                </Badge>
+                                            </Button>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button variant="ghost" size="icon" onClick={() => ouvrirModal(regle)}>
+                                                <Edit className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="icon" onClick={() => handleDelete(regle)}>
+                                                <Trash2 className="h-4 w-4 text-destructive" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <CommissionFormModal
+                key={modal.key}
+                isOpen={modal.open}
+                onClose={() => setModal(prev => ({ ...prev, open: false }))}
+                regle={modal.regle}
+                categories={categories}
+                boutiques={boutiques}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Check, HandCoins } from "lucide-react";
+
+import { useEncaissementsStore, type StatutRemise } from '@/stores/encaissementsStore';
+import { ReceptionRemiseModal, type CibleReception } from '@/components/encaissements/reception-remise-modal';
+
+const formatMontant = (montant: number) => `${montant.toLocaleString('fr-FR')} FCFA`;
+
+const formatEcart = (ecart: number) => `${ecart > 0 ? '+' : ''}${formatMontant(ecart)}`;
+
+const getStatutConfig = (statut: StatutRemise) => {
+    switch (statut) {
+        case 'Confirmée':
+            return { label: 'Confirmée', variant: 'default' as const };
+        case 'Écart':
+            return { label: 'Écart', variant: 'destructive' as const };
+        default:
+            return { label: 'À confirmer', variant: 'secondary' as const };
+    }
+};
+
+export default function EncaissementsPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [statut, setStatut] = useState<StatutRemise | 'tous'>('En attente');
+    // La modale est remontée (key) à chaque ouverture pour repartir d'un formulaire vide
+    const [reception, setReception] = useState<{
+        open: boolean;
+        cible: CibleReception | null;
+        key: number;
+    }>({ open: false, cible: null, key: 0 });
+    const [isInitialLoading, setIsInitialLoading] = useState(true);
+
+    // ============================================
+    // STORES
+    // ============================================
+
+    const {
+        caisses,
+        encaissements,
+        remises,
+        remisesEnAttente,
+        fetchEncaissements,
+        fetchRemises,
+        isLoading,
+    } = useEncaissementsStore();
+
+    useEffect(() => {
+        fetchEncaissements({ en_caisse: true }).finally(() => setIsInitialLoading(false));
+    }, [fetchEncaissements]);
+
+    useEffect(() => {
+        fetchRemises(statut === 'tous' ? {} : { statut });
+    }, [fetchRemises, statut]);
+
+    // ============================================
+    // HANDLERS
+    // ============================================
+
+    const ouvrirReception = (cible: CibleReception) => {
+        setReception(prev => ({ open: true, cible, key: prev.key + 1 }));
+    };
+
+    const apresReception = () => {
+        fetchEncaissements({ en_caisse: true });
+        fetchRemises(statut === 'tous' ? {} : { statut });
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    if (isInitialLoading) {
+        return (
+            <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+                <div className="space-y-2">
+                    <Skeleton className="h-9 w-48" />
+                    <Skeleton className="h-4 w-80" />
+                </div>
+                <Card>
+                    <CardContent className="space-y-3 pt-4">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const totalEnCaisse = caisses.reduce((somme, c) => somme + c.en_caisse, 0);
+    const ecartsEncaissement = encaissements.filter(e => e.montant !== e.montant_attendu);
+
+    return (
+        <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+            {/* En-tête de page */}
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">Encaissements</h1>
+                <p className="text-muted-foreground">
+                    Espèces encaissées par les livreurs à la livraison et remises en fin de journée
+                </p>
+            </div>
+
+            {/* Statistiques */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Espèces chez les livreurs</CardDescription>
+                        <CardTitle className="text-3xl font-bold">{formatMontant(totalEnCaisse)}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Remises à confirmer</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {remisesEnAttente.nombre} · {formatMontant(remisesEnAttente.montant)}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card className={ecartsEncaissement.length > 0 ? 'border-orange-300' : undefined}>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Encaissements en écart (non remis)</CardDescription>
+                        <CardTitle className="text-3xl font-bold text-orange-600">{ecartsEncaissement.length}</CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Caisses des livreurs */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Caisses des livreurs</CardTitle>
+                    <CardDescription>
+                        Espèces encaissées et pas encore remises, par livreur
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Livreur</TableHead>
+                                <TableHead className="text-right">Livraisons</TableHead>
+                                <TableHead className="text-right">Attendu</TableHead>
+                                <TableHead className="text-right">En caisse</TableHead>
+                                <TableHead className="text-right">Écart</TableHead>
+                                <TableHead>Depuis le</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {caisses.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                                        {isLoading ? 'Chargement...' : 'Aucune espèce en attente de remise.'}
+                                    </TableCell>
+                                </TableRow>
+                            ) : caisses.map((caisse) => (
+                                <TableRow key={caisse.livreur_id}>
+                                    <TableCell>
+                                        <div className="font-medium">{caisse.livreur?.name ?? '—'}</div>
+                                        <div className="font-mono text-sm text-muted-foreground">{caisse.livreur?.phone}</div>
+                                    </TableCell>
+                                    <TableCell className="text-right">{caisse.nombre}</TableCell>
+                                    <TableCell className="text-right font-mono">{formatMontant(caisse.attendu)}</TableCell>
+                                    <TableCell className="text-right font-mono font-medium">{formatMontant(caisse.en_caisse)}</TableCell>
+                                    <TableCell className="text-right">
+                                        {caisse.ecart === 0 ? (
+                                            <span className="text-muted-foreground">—</span>
+                                        ) : (
+                                            <Badge variant="outline" className="text-orange-600 border-orange-600">
+                                                {formatEcart(caisse.ecart)}
+                                            </Badge>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        {new Date(caisse.depuis).toLocaleDateString('fr-FR')}
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button size="sm" variant="outline" onClick={() => ouvrirReception({ type: 'caisse', caisse })}>
+                                            <HandCoins className="mr-2 h-4 w-4" />
+                                            Recevoir
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+
+                    {ecartsEncaissement.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                            <h3 className="text-sm font-semibold text-orange-600">Écarts à la livraison</h3>
+                            {ecartsEncaissement.map((e) => (
+                                <div key={e.id} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-mono">{e.commande?.numero ?? '—'}</span>
+                                        <span className="text-muted-foreground">{e.livreur?.name}</span>
+                                    </div>
+                                    <span>
+                                        {formatMontant(e.montant)} encaissés pour {formatMontant(e.montant_attendu)}
+                                        <span className="ml-2 font-semibold text-orange-600">
+                                            {formatEcart(e.montant - e.montant_attendu)}
+                                        </span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Remises */}
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <div className="space-y-1.5">
+                            <CardTitle>Remises</CardTitle>
+                            <CardDescription>
+                                Remises déclarées par les livreurs ou reçues par un administrateur
+                            </CardDescription>
+                        </div>
+                        <Select value={statut} onValueChange={(v) => setStatut(v as StatutRemise | 'tous')}>
+                            <SelectTrigger className="w-48">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="En attente">À confirmer</SelectItem>
+                                <SelectItem value="Confirmée">Confirmées</SelectItem>
+                                <SelectItem value="Écart">En écart</SelectItem>
+                                <SelectItem value="tous">Toutes</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Référence</TableHead>
+                                <TableHead>Livreur</TableHead>
+                                <TableHead className="text-right">Encaissé</TableHead>
+                                <TableHead className="text-right">Déclaré</TableHead>
+                                <TableHead className="text-right">Reçu</TableHead>
+                                <TableHead>Statut</TableHead>
+                                <TableHead>Date</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {remises.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                                        Aucune remise.
+                                    </TableCell>
+                                </TableRow>
+                            ) : remises.map((remise) => {
+                                const config = getStatutConfig(remise.statut);
+
+                                return (
+                                    <TableRow key={remise.id}>
+                                        <TableCell>
+                                            <div className="font-mono text-sm">{remise.reference}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {remise.encaissements.length} livraison(s)
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="font-medium">{remise.livreur?.name ?? '—'}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatMontant(remise.montant_attendu)}</TableCell>
+                                        <TableCell className="text-right font-mono">{formatMontant(remise.montant_declare)}</TableCell>
+                                        <TableCell className="text-right font-mono">
+                                            {remise.montant_recu !== null ? formatMontant(remise.montant_recu) : '—'}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={config.variant}>{config.label}</Badge>
+                                            {remise.note && (
+                                                <div className="mt-1 max-w-48 text-xs text-muted-foreground">{remise.note}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {new Date(remise.created_at).toLocaleDateString('fr-FR')}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {remise.statut === 'En attente' && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    title="Confirmer la réception"
+                                                    onClick={() => ouvrirReception({ type: 'remise', remise })}
+                                                >
+                                                    <Check className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <ReceptionRemiseModal
+                key={reception.key}
+                isOpen={reception.open}
+                onClose={() => setReception(prev => ({ ...prev, open: false }))}
+                cible={reception.cible}
+                onRecu={apresReception}
+            />
+        </div>
+    );
+}
@@ -91,6 +91,7 @@ export default async function DashboardLayout({
 
         // Status
         solde: profile.solde,
+        solde_en_attente: profile.solde_en_attente ?? 0,
         is_verified: profile.is_verified,
         is_active: profile.is_active,
 
@@ -2,10 +2,26 @@
 'use client';
 
 import React from 'react';
-import { useLivraisonsStore, type Livraison } from '@/stores/livraisonsStore';
+import { toast } from "sonner";
+import {
+    useLivraisonsStore,
+    type Livraison,
+    type LivreurDispatch,
+    type ResultatDispatchLot,
+} from '@/stores/livraisonsStore';
+import { useZonesLivraisonStore } from '@/stores/zonesLivraisonStore';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
 import {
     AlertDialog,
     AlertDialogAction,
@@ -24,9 +40,12 @@ import {
     Package,
     MapPin,
     Calendar,
+    Zap,
+    Pencil,
 } from "lucide-react";
 import { LivraisonsTable } from "@/components/livraisons/livraisons-table";
 import { LivraisonViewModal } from "@/components/livraisons/livraison-view-modal";
+import { LivreurProfilModal } from "@/components/livraisons/livreur-profil-modal";
 import { Skeleton } from "@/components/ui/skeleton";
 
 // ============================================
@@ -41,7 +60,12 @@ export default function LivraisonsPage() {
         stats,
         fetchLivraisons,
         deleteLivraison,
+        livreurs,
+        fetchLivreurs,
+        dispatcherEnAttente,
+        updateProfilLivreur,
     } = useLivraisonsStore();
+    const { zones, fetchZones } = useZonesLivraisonStore();
 
     // ========== STATE LOCAL ==========
     const [isViewModalOpen, setIsViewModalOpen] = React.useState(false);
@@ -49,12 +73,21 @@ export default function LivraisonsPage() {
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = React.useState(false);
     const [livraisonToDelete, setLivraisonToDelete] = React.useState<Livraison | undefined>(undefined);
     const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+    const [isDispatching, setIsDispatching] = React.useState(false);
+    const [resultatDispatch, setResultatDispatch] = React.useState<ResultatDispatchLot | null>(null);
+    const [profilModal, setProfilModal] = React.useState<{ open: boolean; livreur: LivreurDispatch | null; key: number }>({
+        open: false,
+        livreur: null,
+        key: 0,
+    });
 
     // ========== EFFECTS ==========
 
     React.useEffect(() => {
         fetchLivraisons().finally(() => setIsInitialLoading(false));
-    }, [fetchLivraisons]);
+        fetchLivreurs();
+        fetchZones();
+    }, [fetchLivraisons, fetchLivreurs, fetchZones]);
 
     // ========== HANDLERS ==========
 
@@ -85,6 +118,27 @@ export default function LivraisonsPage() {
         setLivraisonToDelete(undefined);
     };
 
+    const handleDispatchEnAttente = async () => {
+        setIsDispatching(true);
+        try {
+            const resultat = await dispatcherEnAttente();
+            setResultatDispatch(resultat);
+            toast.success(`${resultat.assignees.length} livraison(s) assignée(s)`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erreur lors du dispatch');
+        } finally {
+            setIsDispatching(false);
+        }
+    };
+
+    const handleToggleDisponible = async (livreur: LivreurDispatch, disponible: boolean) => {
+        try {
+            await updateProfilLivreur(livreur.id, { disponible });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erreur lors de la mise à jour');
+        }
+    };
+
     const formatDate = (dateString: string) => {
         if (!dateString) return '—';
         const date = new Date(dateString);
@@ -166,6 +220,8 @@ export default function LivraisonsPage() {
         return s.includes('cours') || s.includes('attribu');
     });
 
+    const nbSansLivreur = livraisons.filter(l => l.statut === 'En attente' && !l.livreur_id).length;
+
     return (
         <div className="flex flex-col gap-6 p-6">
             {/* ========== EN-TÊTE ========== */}
@@ -176,8 +232,48 @@ export default function LivraisonsPage() {
                         Suivez et gérez toutes les livraisons de la plateforme
                     </p>
                 </div>
+                <Button onClick={handleDispatchEnAttente} disabled={isDispatching || nbSansLivreur === 0}>
+                    <Zap className="mr-2 h-4 w-4" />
+                    {isDispatching ? 'Assignation...' : `Assigner les livraisons en attente (${nbSansLivreur})`}
+                </Button>
             </div>
 
+            {/* ========== RÉSULTAT DU DISPATCH ========== */}
+            {resultatDispatch && (
+                <Card>
+                    <CardHeader className="pb-3">
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="text-base">Dernier dispatch</CardTitle>
+                            <Button variant="ghost" size="sm" onClick={() => setResultatDispatch(null)}>
+                                Fermer
+                            </Button>
+                        </div>
+                        <CardDescription>
+                            {resultatDispatch.assignees.length} assignée(s), {resultatDispatch.non_assignees.length} restée(s) en attente
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {[...resultatDispatch.assignees, ...resultatDispatch.non_assignees].map((r) => (
+                            <div key={r.livraison_id} className="flex items-start justify-between gap-4 rounded-md border px-3 py-2 text-sm">
+                                <div>
+                                    <span className="font-mono">{r.numero ?? r.livraison_id.slice(0, 8)}</span>
+                                    <p className="text-xs text-muted-foreground">{r.raisons.join(' · ')}</p>
+                                </div>
+                                {r.livreur ? (
+                                    <Badge variant="outline" className="shrink-0 text-green-600 border-green-300 bg-green-50">
+                                        {r.livreur.name} · {r.score}
+                                    </Badge>
+                                ) : (
+                                    <Badge variant="outline" className="shrink-0 text-amber-600 border-amber-300 bg-amber-50">
+                                        Sans livreur
+                                    </Badge>
+                                )}
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
             {/* ========== STATISTIQUES ========== */}
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                 {/* Total */}
@@ -312,6 +408,83 @@ export default function LivraisonsPage() {
                 </div>
             )}
 
+            {/* ========== LIVREURS ========== */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Livreurs</CardTitle>
+                    <CardDescription>
+                        Secteurs, charge et ponctualité pris en compte par le dispatch automatique
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Livreur</TableHead>
+                                <TableHead>Secteurs</TableHead>
+                                <TableHead className="text-right">Charge</TableHead>
+                                <TableHead className="text-right">À l&apos;heure</TableHead>
+                                <TableHead>Disponible</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {livreurs.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                                        Aucun livreur actif.
+                                    </TableCell>
+                                </TableRow>
+                            ) : livreurs.map((livreur) => {
+                                const secteurs = [
+                                    ...livreur.villes,
+                                    ...zones.filter(z => livreur.zone_ids.includes(z.id)).map(z => z.nom),
+                                ];
+                                return (
+                                    <TableRow key={livreur.id}>
+                                        <TableCell>
+                                            <div className="font-medium">{livreur.name}</div>
+                                            <div className="font-mono text-sm text-muted-foreground">{livreur.phone}</div>
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {secteurs.length > 0
+                                                ? secteurs.join(', ')
+                                                : <span className="text-muted-foreground">Partout</span>}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <span className={livreur.charge >= livreur.capacite ? 'font-semibold text-orange-600' : ''}>
+                                                {livreur.charge} / {livreur.capacite}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {livreur.ponctualite === null
+                                                ? <span className="text-muted-foreground">—</span>
+                                                : `${Math.round(livreur.ponctualite * 100)} % (${livreur.livrees})`}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Switch
+                                                checked={livreur.disponible}
+                                                onCheckedChange={(checked) => handleToggleDisponible(livreur, checked)}
+                                            />
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => setProfilModal(prev => ({ open: true, livreur, key: prev.key + 1 }))}
+                                            >
+                                                <Pencil className="mr-2 h-4 w-4" />
+                                                Secteurs
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
             {/* ========== TABLEAU DES LIVRAISONS ========== */}
             <Card>
                 <CardHeader>
@@ -334,7 +507,16 @@ export default function LivraisonsPage() {
             <LivraisonViewModal
                 open={isViewModalOpen}
                 onClose={handleCloseViewModal}
-                livraison={selectedLivraison}
+                livraison={livraisons.find(l => l.id === selectedLivraison?.id) ?? selectedLivraison}
+            />
+
+            {/* ========== MODAL DES SECTEURS D'UN LIVREUR ========== */}
+            <LivreurProfilModal
+                key={profilModal.key}
+                isOpen={profilModal.open}
+                onClose={() => setProfilModal(prev => ({ ...prev, open: false }))}
+                livreur={profilModal.livreur}
+                zones={zones}
             />
 
             {/* ========== DIALOG DE CONFIRMATION DE SUPPRESSION ========== */}
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { ChartAreaInteractive } from "@/components/chart-area-interactive";
 import { SectionCards } from "@/components/section-cards";
 import { RecentOrdersTable } from "@/components/recent-orders-table";
+import { ReturnsToBoutiqueTable, type DeliveryToReturn } from "@/components/returns-to-boutique-table";
 import { useAuthStore, useIsAdmin, useUserName } from '@/stores/authStore';
 
 interface DashboardData {
@@ -34,10 +35,14 @@ interface DashboardData {
       users: { name: string; email: string } | null
     }[]
   }
+  livraisons: {
+    toReturn: DeliveryToReturn[]
+  }
   alerts: {
     pendingOrders: number
     pendingClaims: number
     pendingDeliveries: number
+    returnsToBoutique: number
     outOfStock: number
     urgentCount: number
   }
@@ -137,6 +142,10 @@ export default function DashboardPage() {
         )}
       </div>
 
+      {!loading && (stats?.livraisons.toReturn.length ?? 0) > 0 && (
+        <ReturnsToBoutiqueTable deliveries={stats?.livraisons.toReturn} />
+      )}
+
       {loading ? (
         <div className="mx-4 lg:mx-6 h-64 animate-pulse rounded-xl bg-muted" />
       ) : (
@@ -0,0 +1,315 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Check, FileText, X } from "lucide-react";
+
+import { useRetraitsStore, type Retrait, type StatutRetrait } from '@/stores/retraitsStore';
+import { RetraitTraitementModal, type ActionRetrait } from '@/components/retraits/retrait-traitement-modal';
+import { RecuRetraitModal } from '@/components/retraits/recu-retrait-modal';
+
+const formatMontant = (montant: number) => `${montant.toLocaleString('fr-FR')} FCFA`;
+
+const getStatutConfig = (statut: StatutRetrait) => {
+    switch (statut) {
+        case 'Validé':
+            return { label: 'Versé', variant: 'default' as const };
+        case 'Echoué':
+            return { label: 'Refusé', variant: 'destructive' as const };
+        default:
+            return { label: 'En attente', variant: 'secondary' as const };
+    }
+};
+
+export default function RetraitsPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [statut, setStatut] = useState<StatutRetrait | 'tous'>('En attente');
+    const [selection, setSelection] = useState<Set<string>>(new Set());
+    // Les modales sont remontées (key) à chaque ouverture pour repartir d'un formulaire vide
+    const [traitement, setTraitement] = useState<{
+        open: boolean;
+        action: ActionRetrait;
+        retraits: Retrait[];
+        key: number;
+    }>({ open: false, action: 'valider', retraits: [], key: 0 });
+    const [recu, setRecu] = useState<Retrait | null>(null);
+    const [isInitialLoading, setIsInitialLoading] = useState(true);
+
+    // ============================================
+    // STORES
+    // ============================================
+
+    const { retraits, enAttente, fetchRetraits, isLoading } = useRetraitsStore();
+
+    useEffect(() => {
+        fetchRetraits(statut === 'tous' ? {} : { statut })
+            .finally(() => setIsInitialLoading(false));
+    }, [fetchRetraits, statut]);
+
+    // ============================================
+    // HANDLERS
+    // ============================================
+
+    const enAttenteAffiches = retraits.filter(r => r.statut === 'En attente');
+    const selectionnes = enAttenteAffiches.filter(r => selection.has(r.id));
+
+    const changerStatut = (valeur: StatutRetrait | 'tous') => {
+        setStatut(valeur);
+        setSelection(new Set());
+    };
+
+    const basculerSelection = (id: string, coche: boolean) => {
+        setSelection(prev => {
+            const suivante = new Set(prev);
+            if (coche) suivante.add(id);
+            else suivante.delete(id);
+            return suivante;
+        });
+    };
+
+    const basculerTout = (coche: boolean) => {
+        setSelection(coche ? new Set(enAttenteAffiches.map(r => r.id)) : new Set());
+    };
+
+    const ouvrirTraitement = (action: ActionRetrait, cibles: Retrait[]) => {
+        setTraitement(prev => ({ open: true, action, retraits: cibles, key: prev.key + 1 }));
+    };
+
+    const apresTraitement = () => {
+        setSelection(new Set());
+        fetchRetraits(statut === 'tous' ? {} : { statut });
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    if (isInitialLoading) {
+        return (
+            <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+                <div className="space-y-2">
+                    <Skeleton className="h-9 w-48" />
+                    <Skeleton className="h-4 w-80" />
+                </div>
+                <Card>
+                    <CardContent className="space-y-3 pt-4">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const totalSelection = selectionnes.reduce((somme, r) => somme + r.montant, 0);
+
+    return (
+        <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+            {/* En-tête de page */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Retraits</h1>
+                    <p className="text-muted-foreground">
+                        Demandes de versement des boutiques vers leur compte mobile money
+                    </p>
+                </div>
+                <Select value={statut} onValueChange={(v) => changerStatut(v as StatutRetrait | 'tous')}>
+                    <SelectTrigger className="w-48">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="En attente">En attente</SelectItem>
+                        <SelectItem value="Validé">Versés</SelectItem>
+                        <SelectItem value="Echoué">Refusés</SelectItem>
+                        <SelectItem value="tous">Tous</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {/* Statistiques */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Demandes à traiter</CardDescription>
+                        <CardTitle className="text-3xl font-bold">{enAttente.nombre}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Montant réservé</CardDescription>
+                        <CardTitle className="text-3xl font-bold">{formatMontant(enAttente.montant)}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Sélection</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {selectionnes.length} · {formatMontant(totalSelection)}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Actions groupées */}
+            {selectionnes.length > 0 && (
+                <div className="flex items-center justify-end gap-2">
+                    <Button variant="outline" onClick={() => ouvrirTraitement('rejeter', selectionnes)}>
+                        <X className="mr-2 h-4 w-4" />
+                        Refuser la sélection
+                    </Button>
+                    <Button onClick={() => ouvrirTraitement('valider', selectionnes)}>
+                        <Check className="mr-2 h-4 w-4" />
+                        Valider en lot ({selectionnes.length})
+                    </Button>
+                </div>
+            )}
+
+            {/* Tableau des retraits */}
+            <Card>
+                <CardContent className="pt-4">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-10">
+                                    <Checkbox
+                                        checked={
+                                            enAttenteAffiches.length > 0 && selectionnes.length === enAttenteAffiches.length
+                                                ? true
+                                                : selectionnes.length > 0 ? 'indeterminate' : false
+                                        }
+                                        onCheckedChange={(value) => basculerTout(!!value)}
+                                        disabled={enAttenteAffiches.length === 0}
+                                        aria-label="Tout sélectionner"
+                                    />
+                                </TableHead>
+                                <TableHead>Référence</TableHead>
+                                <TableHead>Boutique</TableHead>
+                                <TableHead>Versement</TableHead>
+                                <TableHead className="text-right">Montant</TableHead>
+                                <TableHead>Statut</TableHead>
+                                <TableHead>Date</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {retraits.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                                        {isLoading ? 'Chargement...' : 'Aucune demande de retrait.'}
+                                    </TableCell>
+                                </TableRow>
+                            ) : retraits.map((retrait) => {
+                                const config = getStatutConfig(retrait.statut);
+                                const enAttenteRetrait = retrait.statut === 'En attente';
+
+                                return (
+                                    <TableRow key={retrait.id}>
+                                        <TableCell>
+                                            <Checkbox
+                                                checked={selection.has(retrait.id)}
+                                                onCheckedChange={(value) => basculerSelection(retrait.id, !!value)}
+                                                disabled={!enAttenteRetrait}
+                                                aria-label="Sélectionner ce retrait"
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="font-mono text-sm">{retrait.reference}</div>
+                                            {retrait.lot && (
+                                                <div className="text-xs text-muted-foreground">Lot {retrait.lot}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="font-medium">{retrait.user?.name ?? '—'}</div>
+                                            <div className="text-sm text-muted-foreground">{retrait.user?.email}</div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <div>{retrait.methode === 'airtel_money' ? 'Airtel Money' : 'Moov Money'}</div>
+                                            <div className="font-mono text-sm text-muted-foreground">{retrait.telephone}</div>
+                                        </TableCell>
+                                        <TableCell className="text-right font-mono">{formatMontant(retrait.montant)}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={config.variant}>{config.label}</Badge>
+                                            {retrait.motif_rejet && (
+                                                <div className="mt-1 max-w-48 text-xs text-muted-foreground">
+                                                    {retrait.motif_rejet}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {new Date(retrait.created_at).toLocaleDateString('fr-FR')}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {enAttenteRetrait ? (
+                                                <>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        title="Valider"
+                                                        onClick={() => ouvrirTraitement('valider', [retrait])}
+                                                    >
+                                                        <Check className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        title="Refuser"
+                                                        onClick={() => ouvrirTraitement('rejeter', [retrait])}
+                                                    >
+                                                        <X className="h-4 w-4 text-destructive" />
+                                                    </Button>
+                                                </>
+                                            ) : retrait.recu && (
+                                                <Button variant="ghost" size="icon" title="Reçu" onClick={() => setRecu(retrait)}>
+                                                    <FileText className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <RetraitTraitementModal
+                key={traitement.key}
+                isOpen={traitement.open}
+                onClose={() => setTraitement(prev => ({ ...prev, open: false }))}
+                action={traitement.action}
+                retraits={traitement.retraits}
+                onTraite={apresTraitement}
+            />
+
+            <RecuRetraitModal
+                isOpen={recu !== null}
+                onClose={() => setRecu(null)}
+                retrait={recu}
+            />
+        </div>
+    );
+}
@@ -2,7 +2,16 @@
 'use client';
 
 import React from 'react';
-import { useTransactionsStore, type Transaction, type PaiementStatut } from '@/stores/transactionsStore';
+import {
+    useTransactionsStore,
+    type Transaction,
+    type PaiementStatut,
+    type PaiementMethode,
+    type TypeAnomalie,
+    type AnomalieRapprochement,
+} from '@/stores/transactionsStore';
+import { useSoldesStore, type TypeMouvement, type CompteSolde } from '@/stores/soldesStore';
+import { useUsersStore } from '@/stores/usersStore';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -26,11 +35,35 @@ import {
     User,
     Calendar,
     Hash,
+    Wallet,
+    AlertTriangle,
+    Upload,
+    Download,
+    FileCheck2,
 } from "lucide-react";
-import { TransactionsTable } from "@/components/transactions/transactions-table";
+import { toast } from "sonner";
+import { TransactionsTable, ReleveSoldeTable } from "@/components/transactions/transactions-table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
 
 // ============================================
 // HELPERS
@@ -69,6 +102,8 @@ const getMethodeConfig = (methode: string) => {
     switch (methode) {
         case 'carte': return { label: 'Carte bancaire', icon: CreditCard };
         case 'mobile_money': return { label: 'Mobile Money', icon: Smartphone };
+        case 'airtel_money': return { label: 'Airtel Money', icon: Smartphone };
+        case 'moov_money': return { label: 'Moov Money', icon: Smartphone };
         case 'especes': return { label: 'Espèces', icon: Banknote };
         default: return { label: methode, icon: CreditCard };
     }
@@ -262,6 +297,522 @@ function TransactionViewModal({ open, onClose, transaction }: TransactionViewMod
     );
 }
 
+// ============================================
+// RELEVÉ DES SOLDES
+// ============================================
+
+const TYPES_MOUVEMENT: { value: TypeMouvement; label: string }[] = [
+    { value: 'vente', label: 'Ventes' },
+    { value: 'frais_service', label: 'Frais de service' },
+    { value: 'liberation', label: 'Libérations' },
+    { value: 'annulation', label: 'Annulations' },
+    { value: 'remboursement', label: 'Remboursements' },
+    { value: 'retrait', label: 'Retraits' },
+    { value: 'ajustement', label: 'Ajustements' },
+    { value: 'ouverture', label: "Soldes d'ouverture" },
+];
+
+function ReleveSoldeSection() {
+    const {
+        titulaire,
+        mouvements,
+        fondsEnAttente,
+        ecarts,
+        isLoading,
+        fetchReleve,
+        fetchEcarts,
+        regulariser,
+    } = useSoldesStore();
+    const { users, fetchUsers } = useUsersStore();
+
+    const [userId, setUserId] = React.useState<string>('');
+    const [compte, setCompte] = React.useState<CompteSolde>('portefeuille');
+    const [type, setType] = React.useState<TypeMouvement | 'tous'>('tous');
+    const [regularisationId, setRegularisationId] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        fetchUsers();
+        fetchEcarts();
+    }, [fetchUsers, fetchEcarts]);
+
+    React.useEffect(() => {
+        if (userId) {
+            fetchReleve(userId, { compte, type: type === 'tous' ? undefined : type });
+        }
+    }, [userId, compte, type, fetchReleve]);
+
+    const handleRegulariser = async (id: string) => {
+        setRegularisationId(id);
+        try {
+            const ecart = await regulariser(id);
+            toast.success(`Écart de ${formatMontant(ecart)} passé au grand livre`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Régularisation impossible');
+        } finally {
+            setRegularisationId(null);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-6">
+            {/* Écarts entre users.solde et le grand livre */}
+            {ecarts.length > 0 && (
+                <Card className="border-orange-300">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2 text-orange-600">
+                            <AlertTriangle className="h-5 w-5" />
+                            Soldes non rapprochés ({ecarts.length})
+                        </CardTitle>
+                        <CardDescription>
+                            Ces soldes ont été modifiés sans passer par le grand livre. La régularisation
+                            conserve le solde actuel et ajoute la ligne d&apos;ajustement manquante.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {ecarts.map((ecart) => (
+                            <div key={ecart.user_id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                                <div className="flex flex-col">
+                                    <span className="text-sm font-medium">{ecart.user?.name ?? ecart.user_id}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        Solde {formatMontant(ecart.solde)} · grand livre {formatMontant(ecart.solde_grand_livre)}
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="text-sm font-semibold text-orange-600">
+                                        {ecart.ecart > 0 ? '+' : ''}{formatMontant(ecart.ecart)}
+                                    </span>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={regularisationId === ecart.user_id}
+                                        onClick={() => handleRegulariser(ecart.user_id)}
+                                    >
+                                        Régulariser
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Relevé de solde</CardTitle>
+                    <CardDescription>
+                        Mouvements du portefeuille d&apos;un utilisateur, avec le solde après chaque opération
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <Select value={userId} onValueChange={setUserId}>
+                            <SelectTrigger className="w-72">
+                                <SelectValue placeholder="Choisir un utilisateur" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {users.map((user) => (
+                                    <SelectItem key={user.id} value={user.id}>
+                                        {user.name} ({user.role})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        <Select value={compte} onValueChange={(v) => setCompte(v as CompteSolde)}>
+                            <SelectTrigger className="w-52">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="portefeuille">Solde disponible</SelectItem>
+                                <SelectItem value="sequestre">Solde en attente</SelectItem>
+                            </SelectContent>
+                        </Select>
+
+                        <Select value={type} onValueChange={(v) => setType(v as TypeMouvement | 'tous')}>
+                            <SelectTrigger className="w-52">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="tous">Tous les mouvements</SelectItem>
+                                {TYPES_MOUVEMENT.map((t) => (
+                                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        {titulaire && titulaire.id === userId && (
+                            <div className="ml-auto flex items-center gap-6">
+                                <div className="flex items-center gap-2">
+                                    <Wallet className="h-4 w-4 text-muted-foreground" />
+                                    <span className="text-sm text-muted-foreground">Disponible</span>
+                                    <span className="text-lg font-bold">{formatMontant(titulaire.solde)}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Clock className="h-4 w-4 text-muted-foreground" />
+                                    <span className="text-sm text-muted-foreground">En attente</span>
+                                    <span className="text-lg font-bold text-yellow-600">
+                                        {formatMontant(titulaire.solde_en_attente)}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Gains en séquestre : libérés après livraison et délai de litige */}
+                    {userId && compte === 'sequestre' && fondsEnAttente.length > 0 && (
+                        <div className="space-y-2">
+                            {fondsEnAttente.map((fonds) => (
+                                <div key={fonds.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-mono text-sm">{fonds.commande?.numero ?? '—'}</span>
+                                        {fonds.commande && (
+                                            <Badge variant="outline" className="text-xs">{fonds.commande.statut}</Badge>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <span className="text-xs text-muted-foreground">
+                                            {fonds.liberable_at
+                                                ? `Libérable le ${formatDate(fonds.liberable_at)}`
+                                                : 'En attente de livraison'}
+                                        </span>
+                                        <span className="text-sm font-medium">{formatMontant(fonds.montant)}</span>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {userId ? (
+                        <ReleveSoldeTable mouvements={mouvements} isLoading={isLoading} />
+                    ) : (
+                        <p className="py-8 text-center text-sm text-muted-foreground">
+                            Sélectionnez un utilisateur pour afficher son relevé.
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+// ============================================
+// RAPPROCHEMENT DES RELEVÉS FOURNISSEURS
+// ============================================
+
+const TYPES_ANOMALIE: Record<TypeAnomalie, { label: string; className: string }> = {
+    absent_plateforme: { label: 'Inconnu sur la plateforme', className: 'text-red-600 border-red-600' },
+    absent_releve: { label: 'Absent du relevé', className: 'text-orange-600 border-orange-600' },
+    doublon: { label: 'Doublon', className: 'text-purple-600 border-purple-600' },
+    ecart_montant: { label: 'Écart de montant', className: 'text-red-600 border-red-600' },
+    statut_divergent: { label: 'Statut divergent', className: 'text-yellow-600 border-yellow-600' },
+    commande_sans_paiement_valide: { label: 'Commande sans paiement validé', className: 'text-orange-600 border-orange-600' },
+};
+
+const METHODES_RAPPROCHEMENT: PaiementMethode[] = ['airtel_money', 'moov_money', 'especes'];
+
+/**
+ * Télécharge les anomalies au format CSV (séparateur ;, lisible par Excel)
+ */
+function exporterAnomalies(anomalies: AnomalieRapprochement[], nomFichier: string) {
+    const colonnes = [
+        'Type', 'Ligne', 'Référence', 'Transaction', 'Montant relevé', 'Montant plateforme',
+        'Statut relevé', 'Statut plateforme', 'Commande', 'Message',
+    ];
+    const echapper = (valeur: string | number | null) => {
+        const texte = valeur === null ? '' : String(valeur);
+        return /[;"\n]/.test(texte) ? `"${texte.replace(/"/g, '""')}"` : texte;
+    };
+
+    const lignes = anomalies.map((a) => [
+        TYPES_ANOMALIE[a.type].label,
+        a.ligne,
+        a.reference,
+        a.transaction_id,
+        a.montant_releve,
+        a.montant_plateforme,
+        a.statut_releve,
+        a.statut_plateforme,
+        a.commande?.numero ?? null,
+        a.message,
+    ].map(echapper).join(';'));
+
+    const blob = new Blob(['\uFEFF' + [colonnes.join(';'), ...lignes].join('\n')], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const lien = document.createElement('a');
+    lien.href = url;
+    lien.download = nomFichier;
+    lien.click();
+    URL.revokeObjectURL(url);
+}
+
+function AnomaliesTable({ anomalies }: { anomalies: AnomalieRapprochement[] }) {
+    if (anomalies.length === 0) {
+        return (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+                Aucune anomalie.
+            </p>
+        );
+    }
+
+    return (
+        <div className="rounded-md border">
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Anomalie</TableHead>
+                        <TableHead>Référence</TableHead>
+                        <TableHead className="text-right">Relevé</TableHead>
+                        <TableHead className="text-right">Plateforme</TableHead>
+                        <TableHead>Commande</TableHead>
+                        <TableHead>Détail</TableHead>
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {anomalies.map((a, i) => (
+                        <TableRow key={`${a.type}-${a.paiement_id ?? a.ligne}-${i}`}>
+                            <TableCell>
+                                <Badge variant="outline" className={`text-xs ${TYPES_ANOMALIE[a.type].className}`}>
+                                    {TYPES_ANOMALIE[a.type].label}
+                                </Badge>
+                            </TableCell>
+                            <TableCell>
+                                <div className="flex flex-col">
+                                    <span className="font-mono text-xs">{a.reference ?? '—'}</span>
+                                    {a.transaction_id && (
+                                        <span className="font-mono text-xs text-muted-foreground">{a.transaction_id}</span>
+                                    )}
+                                </div>
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                                {a.montant_releve !== null ? formatMontant(a.montant_releve) : '—'}
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                                {a.montant_plateforme !== null ? formatMontant(a.montant_plateforme) : '—'}
+                            </TableCell>
+                            <TableCell className="font-mono text-xs">{a.commande?.numero ?? '—'}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{a.message}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
+
+function RapprochementSection() {
+    const {
+        rapport,
+        commandesSansPaiement,
+        rapprocher,
+        fetchCommandesSansPaiement,
+        clearRapport,
+    } = useTransactionsStore();
+
+    const [methode, setMethode] = React.useState<PaiementMethode>('airtel_money');
+    const [fichier, setFichier] = React.useState<File | null>(null);
+    const [dateDebut, setDateDebut] = React.useState('');
+    const [dateFin, setDateFin] = React.useState('');
+    const [filtre, setFiltre] = React.useState<TypeAnomalie | 'toutes'>('toutes');
+    const [isRapprochement, setIsRapprochement] = React.useState(false);
+
+    React.useEffect(() => {
+        fetchCommandesSansPaiement();
+    }, [fetchCommandesSansPaiement]);
+
+    const handleRapprocher = async () => {
+        if (!fichier) {
+            toast.error('Choisissez le relevé CSV du fournisseur');
+            return;
+        }
+
+        setIsRapprochement(true);
+        try {
+            const resultat = await rapprocher({
+                methode,
+                contenu: await fichier.text(),
+                date_debut: dateDebut ? new Date(`${dateDebut}T00:00:00`).toISOString() : undefined,
+                date_fin: dateFin ? new Date(`${dateFin}T23:59:59`).toISOString() : undefined,
+            });
+            setFiltre('toutes');
+            toast.success(`${resultat.resume.rapprochees} paiement(s) rapproché(s), ${resultat.anomalies.length} anomalie(s)`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Rapprochement impossible');
+        } finally {
+            setIsRapprochement(false);
+        }
+    };
+
+    const anomalies = rapport
+        ? rapport.anomalies.filter((a) => filtre === 'toutes' || a.type === filtre)
+        : [];
+
+    return (
+        <div className="flex flex-col gap-6">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Rapprochement des règlements</CardTitle>
+                    <CardDescription>
+                        Importez le relevé CSV du fournisseur (colonnes référence ou transaction_id, montant,
+                        et si possible statut et date) pour le comparer aux paiements enregistrés
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="space-y-2">
+                            <Label>Fournisseur</Label>
+                            <Select value={methode} onValueChange={(v) => setMethode(v as PaiementMethode)}>
+                                <SelectTrigger className="w-48">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {METHODES_RAPPROCHEMENT.map((m) => (
+                                        <SelectItem key={m} value={m}>{getMethodeConfig(m).label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="releve_fournisseur">Relevé (CSV)</Label>
+                            <Input
+                                id="releve_fournisseur"
+                                type="file"
+                                accept=".csv,text/csv"
+                                className="w-72"
+                                onChange={(e) => setFichier(e.target.files?.[0] ?? null)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="date_debut">Du</Label>
+                            <Input id="date_debut" type="date" value={dateDebut} onChange={(e) => setDateDebut(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="date_fin">Au</Label>
+                            <Input id="date_fin" type="date" value={dateFin} onChange={(e) => setDateFin(e.target.value)} />
+                        </div>
+                        <Button onClick={handleRapprocher} disabled={isRapprochement || !fichier}>
+                            <Upload className="mr-2 h-4 w-4" />
+                            {isRapprochement ? 'Rapprochement...' : 'Rapprocher'}
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {rapport ? (
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="space-y-1.5">
+                                <CardTitle className="flex items-center gap-2">
+                                    <FileCheck2 className="h-5 w-5" />
+                                    Rapport {getMethodeConfig(rapport.methode).label}
+                                </CardTitle>
+                                <CardDescription>
+                                    {rapport.periode.debut && rapport.periode.fin
+                                        ? `Période du ${formatDate(rapport.periode.debut)} au ${formatDate(rapport.periode.fin)}`
+                                        : 'Période inconnue : les paiements absents du relevé ne sont pas recherchés'}
+                                </CardDescription>
+                            </div>
+                            <div className="flex gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={rapport.anomalies.length === 0}
+                                    onClick={() => exporterAnomalies(
+                                        rapport.anomalies,
+                                        `rapprochement-${rapport.methode}-${new Date().toISOString().slice(0, 10)}.csv`
+                                    )}
+                                >
+                                    <Download className="mr-2 h-4 w-4" />
+                                    Exporter
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={clearRapport}>
+                                    Fermer
+                                </Button>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-4">
+                            <div className="rounded-md border p-3">
+                                <p className="text-xs text-muted-foreground">Lignes du relevé</p>
+                                <p className="text-xl font-bold">{rapport.resume.lignes}</p>
+                            </div>
+                            <div className="rounded-md border p-3">
+                                <p className="text-xs text-muted-foreground">Paiements rapprochés</p>
+                                <p className="text-xl font-bold">{rapport.resume.rapprochees}</p>
+                            </div>
+                            <div className="rounded-md border p-3">
+                                <p className="text-xs text-muted-foreground">Montant réglé</p>
+                                <p className="text-xl font-bold">{formatMontant(rapport.resume.montant_releve)}</p>
+                            </div>
+                            <div className="rounded-md border p-3">
+                                <p className="text-xs text-muted-foreground">Montant rapproché sans écart</p>
+                                <p className="text-xl font-bold text-green-600">{formatMontant(rapport.resume.montant_rapproche)}</p>
+                            </div>
+                        </div>
+
+                        {rapport.erreurs.length > 0 && (
+                            <div className="rounded-md border border-orange-300 p-3 text-xs text-orange-600">
+                                <p className="font-medium">{rapport.erreurs.length} ligne(s) ignorée(s)</p>
+                                {rapport.erreurs.slice(0, 5).map((erreur) => (
+                                    <p key={erreur}>{erreur}</p>
+                                ))}
+                            </div>
+                        )}
+
+                        <Select value={filtre} onValueChange={(v) => setFiltre(v as TypeAnomalie | 'toutes')}>
+                            <SelectTrigger className="w-72">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="toutes">Toutes les anomalies ({rapport.anomalies.length})</SelectItem>
+                                {(Object.keys(TYPES_ANOMALIE) as TypeAnomalie[]).map((t) => (
+                                    <SelectItem key={t} value={t}>
+                                        {TYPES_ANOMALIE[t].label} ({rapport.resume.anomalies[t]})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+
+                        <AnomaliesTable anomalies={anomalies} />
+                    </CardContent>
+                </Card>
+            ) : (
+                <Card className={commandesSansPaiement.length > 0 ? 'border-orange-300' : undefined}>
+                    <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="space-y-1.5">
+                                <CardTitle className="flex items-center gap-2">
+                                    <AlertTriangle className="h-5 w-5 text-orange-600" />
+                                    Commandes réglées sans paiement validé ({commandesSansPaiement.length})
+                                </CardTitle>
+                                <CardDescription>
+                                    Commandes rattachées à un paiement en attente ou échoué (espèces : une fois la commande livrée)
+                                </CardDescription>
+                            </div>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={commandesSansPaiement.length === 0}
+                                onClick={() => exporterAnomalies(
+                                    commandesSansPaiement,
+                                    `commandes-sans-paiement-${new Date().toISOString().slice(0, 10)}.csv`
+                                )}
+                            >
+                                <Download className="mr-2 h-4 w-4" />
+                                Exporter
+                            </Button>
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <AnomaliesTable anomalies={commandesSansPaiement} />
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
+
 // ============================================
 // COMPOSANT PRINCIPAL
 // ============================================
@@ -344,7 +895,7 @@ export default function TransactionsPage() {
                 <div>
                     <h1 className="text-3xl font-bold tracking-tight">Transactions</h1>
                     <p className="text-muted-foreground">
-                        Suivi de tous les paiements effectués sur la plateforme
+                        Suivi des paiements et des soldes de la plateforme
                     </p>
                 </div>
             </div>
@@ -432,22 +983,40 @@ export default function TransactionsPage() {
                 </Card>
             </div>
 
-            {/* ========== TABLEAU DES TRANSACTIONS ========== */}
-            <Card>
-                <CardHeader>
-                    <CardTitle>Toutes les transactions</CardTitle>
-                    <CardDescription>
-                        Consultez l&apos;historique complet des paiements de la plateforme
-                    </CardDescription>
-                </CardHeader>
-                <CardContent>
-                    <TransactionsTable
-                        transactions={transactions}
-                        isLoading={isLoading}
-                        onView={handleView}
-                    />
-                </CardContent>
-            </Card>
+            <Tabs defaultValue="paiements">
+                <TabsList>
+                    <TabsTrigger value="paiements">Paiements</TabsTrigger>
+                    <TabsTrigger value="soldes">Soldes</TabsTrigger>
+                    <TabsTrigger value="rapprochement">Rapprochement</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="paiements" className="mt-4">
+                    {/* ========== TABLEAU DES TRANSACTIONS ========== */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Toutes les transactions</CardTitle>
+                            <CardDescription>
+                                Consultez l&apos;historique complet des paiements de la plateforme
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <TransactionsTable
+                                transactions={transactions}
+                                isLoading={isLoading}
+                                onView={handleView}
+                            />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="soldes" className="mt-4">
+                    <ReleveSoldeSection />
+                </TabsContent>
+
+                <TabsContent value="rapprochement" className="mt-4">
+                    <RapprochementSection />
+                </TabsContent>
+            </Tabs>
 
             {/* ========== MODAL DE DÉTAILS ========== */}
             <TransactionViewModal
@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardDescription, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+
+import { useZonesLivraisonStore } from '@/stores/zonesLivraisonStore';
+import type { ZoneLivraison } from '@/app/lib/zonesLivraison';
+import { ZoneFormModal } from '@/components/zones/zone-form-modal';
+
+const formatPrix = (prix: number) => `${prix.toLocaleString('fr-FR')} FCFA`;
+
+const formatTarif = (zone: ZoneLivraison) =>
+    zone.supplement_boutique > 0
+        ? `${formatPrix(zone.prix_base)} + ${formatPrix(zone.supplement_boutique)} / boutique`
+        : formatPrix(zone.prix_base);
+
+export default function ZonesLivraisonPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    // La modale est remontée (key) à chaque ouverture pour repartir de la zone choisie
+    const [modal, setModal] = useState<{ open: boolean; zone: ZoneLivraison | null; key: number }>({
+        open: false,
+        zone: null,
+        key: 0,
+    });
+    const [isInitialLoading, setIsInitialLoading] = useState(true);
+
+    // ============================================
+    // STORES
+    // ============================================
+
+    const { zones, fetchZones, deleteZone, updateZone, isLoading } = useZonesLivraisonStore();
+
+    useEffect(() => {
+        fetchZones().finally(() => setIsInitialLoading(false));
+    }, [fetchZones]);
+
+    // ============================================
+    // HANDLERS
+    // ============================================
+
+    const ouvrirModal = (zone: ZoneLivraison | null) => {
+        setModal(prev => ({ open: true, zone, key: prev.key + 1 }));
+    };
+
+    const handleDelete = (zone: ZoneLivraison) => {
+        toast(`Supprimer la zone "${zone.nom}" ?`, {
+            description: "Pour la retirer du checkout sans toucher à l'historique, désactivez-la plutôt.",
+            action: {
+                label: "Supprimer",
+                onClick: async () => {
+                    try {
+                        await deleteZone(zone.id);
+                        toast.success("Zone supprimée");
+                    } catch {
+                        toast.error("Erreur lors de la suppression de la zone");
+                    }
+                },
+            },
+            dismissible: true,
+            duration: 15000,
+        });
+    };
+
+    const handleToggleActive = async (zone: ZoneLivraison) => {
+        try {
+            await updateZone(zone.id, { is_active: !zone.is_active });
+        } catch {
+            toast.error("Erreur lors de la modification du statut");
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    if (isInitialLoading) {
+        return (
+            <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+                <div className="flex items-center justify-between">
+                    <div className="space-y-2">
+                        <Skeleton className="h-9 w-48" />
+                        <Skeleton className="h-4 w-80" />
+                    </div>
+                    <Skeleton className="h-10 w-44" />
+                </div>
+                <Card>
+                    <CardContent className="space-y-3 pt-4">
+                        {Array.from({ length: 5 }).map((_, i) => (
+                            <Skeleton key={i} className="h-12 w-full" />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    const villes = new Set(zones.map(z => z.ville.toLowerCase()));
+
+    return (
+        <div className="flex flex-col gap-4 p-4 md:gap-6 md:p-6">
+            {/* En-tête de page */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Zones de livraison</h1>
+                    <p className="text-muted-foreground">
+                        Grille tarifaire appliquée aux commandes livrées à domicile
+                    </p>
+                </div>
+                <Button onClick={() => ouvrirModal(null)} disabled={isLoading}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Ajouter une zone
+                </Button>
+            </div>
+
+            {/* Statistiques */}
+            <div className="grid gap-4 md:grid-cols-3">
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Zones actives</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {zones.filter(z => z.is_active).length}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Villes couvertes</CardDescription>
+                        <CardTitle className="text-3xl font-bold">{villes.size}</CardTitle>
+                    </CardHeader>
+                </Card>
+                <Card>
+                    <CardHeader className="pb-2">
+                        <CardDescription>Zones avec livraison gratuite</CardDescription>
+                        <CardTitle className="text-3xl font-bold">
+                            {zones.filter(z => z.seuil_gratuite !== null).length}
+                        </CardTitle>
+                    </CardHeader>
+                </Card>
+            </div>
+
+            {/* Tableau des zones */}
+            <Card>
+                <CardContent className="pt-4">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Zone</TableHead>
+                                <TableHead>Quartiers</TableHead>
+                                <TableHead>Tarif</TableHead>
+                                <TableHead>Plafond</TableHead>
+                                <TableHead>Gratuit dès</TableHead>
+                                <TableHead>Statut</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {zones.length === 0 ? (
+                                <TableRow>
+                                    <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
+                                        Aucune zone : la livraison à domicile est indisponible.
+                                    </TableCell>
+                                </TableRow>
+                            ) : zones.map((zone) => (
+                                <TableRow key={zone.id} className={zone.is_active ? '' : 'opacity-60'}>
+                                    <TableCell>
+                                        <div className="font-medium">{zone.nom}</div>
+                                        <div className="text-sm text-muted-foreground">{zone.ville}</div>
+                                    </TableCell>
+                                    <TableCell className="max-w-xs">
+                                        <div className="flex flex-wrap gap-1">
+                                            {zone.quartiers.length === 0 ? (
+                                                <span className="text-sm text-muted-foreground">Toute la ville</span>
+                                            ) : zone.quartiers.map((q) => (
+                                                <Badge key={q} variant="outline">{q}</Badge>
+                                            ))}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell className="font-mono">{formatTarif(zone)}</TableCell>
+                                    <TableCell>{zone.plafond !== null ? formatPrix(zone.plafond) : '—'}</TableCell>
+                                    <TableCell>
+                                        {zone.seuil_gratuite !== null ? formatPrix(zone.seuil_gratuite) : '—'}
+                                    </TableCell>
+                                    <TableCell>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => handleToggleActive(zone)}
+                                        >
+                                            <Badge variant={zone.is_active ? 'default' : 'secondary'}>
+                                                {zone.is_active ? 'Active' : 'Inactive'}
+                                            </Badge>
+                                        </Button>
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button variant="ghost" size="icon" onClick={() => ouvrirModal(zone)}>
+                                            <Edit className="h-4 w-4" />
+                                        </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => handleDelete(zone)}>
+                                            <Trash2 className="h-4 w-4 text-destructive" />
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <ZoneFormModal
+                key={modal.key}
+                isOpen={modal.open}
+                onClose={() => setModal(prev => ({ ...prev, open: false }))}
+                zone={modal.zone}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,207 @@
+// app/lib/codesPromo.ts
+/**
+ * Codes promo
+ *
+ * Un code accorde une remise en pourcentage (plafonnée par remise_max) ou d'un
+ * montant fixe sur les articles de sa portée : toute la plateforme, une
+ * catégorie ou les articles d'une boutique. Il n'est valable qu'entre
+ * date_debut et date_fin, à partir d'un montant minimum d'articles éligibles,
+ * et dans la limite d'utilisations globale et par acheteur.
+ *
+ * La remise est répartie au prorata sur les lignes éligibles et réduit leur
+ * prix de vente. Elle est financée par la boutique pour ses propres codes
+ * (frais de service et part boutique calculés sur le prix remisé), par la
+ * plateforme pour les codes d'un administrateur (la boutique touche sa part
+ * sur le prix plein). L'utilisation est enregistrée sur la commande parente
+ * (commandes.code_promo_id, remise_code_promo) et sur chaque ligne, avec qui
+ * a financé la remise (commande_articles.remise_financee_par).
+ *
+ * Module partagé API / dashboard : il ne doit rien importer de spécifique au serveur.
+ */
+
+import { z } from "zod";
+
+export const TYPES_CODE_PROMO = ["pourcentage", "fixe"] as const;
+
+export type TypeCodePromo = (typeof TYPES_CODE_PROMO)[number];
+
+export type FinanceurRemise = "boutique" | "plateforme";
+
+/**
+ * Un code est saisi sans distinction de casse ni espaces superflus
+ */
+export function normaliserCodePromo(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/**
+ * Validation d'un code envoyé à l'API (création / mise à jour)
+ */
+export const codePromoSchema = z.object({
+    code: z.string()
+        .trim()
+        .min(3)
+        .max(50)
+        .regex(/^[A-Za-z0-9_-]+$/, "Le code ne contient que des lettres, chiffres, - et _")
+        .transform(normaliserCodePromo),
+    description: z.string().max(255).nullable().default(null),
+    type: z.enum(TYPES_CODE_PROMO),
+    valeur: z.number().positive(),
+    remise_max: z.number().int().positive().nullable().default(null),
+    montant_min: z.number().int().min(0).default(0),
+    limite_utilisation: z.number().int().positive().nullable().default(null),
+    limite_par_utilisateur: z.number().int().positive().nullable().default(1),
+    date_debut: z.string().datetime().nullable().default(null),
+    date_fin: z.string().datetime().nullable().default(null),
+    categorie_id: z.string().uuid().nullable().default(null),
+    boutique_id: z.string().uuid().nullable().default(null),
+    is_active: z.boolean().default(true),
+});
+
+/**
+ * Contrôles croisés communs à la création et à la mise à jour
+ * Retourne le message d'erreur, ou null si le code est cohérent
+ */
+export function verifierCodePromo(code: {
+    type: string;
+    valeur: number;
+    remise_max: number | null;
+    date_debut: string | null;
+    date_fin: string | null;
+    categorie_id: string | null;
+    boutique_id: string | null;
+}): string | null {
+    if (code.type === "pourcentage" && code.valeur > 100) {
+        return "Un pourcentage ne peut pas dépasser 100";
+    }
+    if (code.type === "fixe" && !Number.isInteger(code.valeur)) {
+        return "Une remise fixe s'exprime en FCFA entiers";
+    }
+    if (code.type === "fixe" && code.remise_max !== null) {
+        return "Le plafond ne s'applique qu'aux remises en pourcentage";
+    }
+    if (code.date_debut && code.date_fin && new Date(code.date_fin) <= new Date(code.date_debut)) {
+        return "La date de fin doit être postérieure à la date de début";
+    }
+    if (code.categorie_id && code.boutique_id) {
+        return "Un code vise soit une catégorie, soit une boutique, pas les deux";
+    }
+    return null;
+}
+
+export interface CodePromo {
+    id: string;
+    code: string;
+    description: string | null;
+    type: TypeCodePromo;
+    valeur: number;                       // % (pourcentage) ou FCFA (fixe)
+    remise_max: number | null;            // plafond d'une remise en pourcentage
+    montant_min: number;                  // montant minimum des articles éligibles
+    limite_utilisation: number | null;    // null = illimité
+    limite_par_utilisateur: number | null;
+    date_debut: string | null;
+    date_fin: string | null;
+    categorie_id: string | null;
+    boutique_id: string | null;
+    createur_id: string;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Qui finance la remise d'un code : la boutique pour les codes qu'elle a créés
+ * sur ses articles, la plateforme pour ceux d'un administrateur (même ciblés
+ * sur une boutique)
+ */
+export function financeurCodePromo(code: Pick<CodePromo, "boutique_id" | "createur_id">): FinanceurRemise {
+    return code.boutique_id && code.createur_id === code.boutique_id ? "boutique" : "plateforme";
+}
+
+export interface LigneCodePromo {
+    prix_unitaire: number;
+    quantite: number;
+    categorie_id?: string | null;
+    boutique_id?: string | null;
+}
+
+/**
+ * Une ligne entre-t-elle dans la portée du code ?
+ */
+export function ligneEligible(code: Pick<CodePromo, "categorie_id" | "boutique_id">, ligne: LigneCodePromo): boolean {
+    if (code.boutique_id) return ligne.boutique_id === code.boutique_id;
+    if (code.categorie_id) return ligne.categorie_id === code.categorie_id;
+    return true;
+}
+
+/**
+ * Période de validité : message d'erreur, ou null si le code est utilisable à `date`
+ */
+export function verifierValiditeCodePromo(
+    code: Pick<CodePromo, "is_active" | "date_debut" | "date_fin">,
+    date: Date = new Date()
+): string | null {
+    if (!code.is_active) return "Ce code promo n'est plus actif";
+    if (code.date_debut && new Date(code.date_debut) > date) return "Ce code promo n'est pas encore valable";
+    if (code.date_fin && new Date(code.date_fin) < date) return "Ce code promo a expiré";
+    return null;
+}
+
+/**
+ * Remise accordée par un code sur des lignes de commande
+ * `parLigne` donne la part de chaque ligne (0 hors portée) ; la dernière ligne
+ * éligible porte l'arrondi pour que la somme vaille exactement `montant`.
+ */
+export function calculerRemiseCodePromo(
+    code: Pick<CodePromo, "type" | "valeur" | "remise_max" | "montant_min" | "categorie_id" | "boutique_id">,
+    lignes: LigneCodePromo[]
+): { ok: true; montant: number; parLigne: number[] } | { ok: false; error: string } {
+    const eligibles = lignes.map((ligne) => ligneEligible(code, ligne));
+    const montantEligible = lignes.reduce(
+        (sum, ligne, index) => sum + (eligibles[index] ? ligne.prix_unitaire * ligne.quantite : 0),
+        0
+    );
+
+    if (montantEligible === 0) {
+        return { ok: false, error: "Aucun article de la commande n'est concerné par ce code promo" };
+    }
+
+    if (montantEligible < code.montant_min) {
+        return {
+            ok: false,
+            error: `Ce code promo nécessite ${code.montant_min.toLocaleString("fr-FR")} FCFA d'articles éligibles`,
+        };
+    }
+
+    let montant = code.type === "pourcentage"
+        ? Math.round((montantEligible * code.valeur) / 100)
+        : code.valeur;
+
+    if (code.remise_max !== null) montant = Math.min(montant, code.remise_max);
+    // La remise ne peut pas dépasser le montant des articles concernés
+    montant = Math.min(montant, montantEligible);
+
+    const derniere = eligibles.lastIndexOf(true);
+    let reparti = 0;
+    const parLigne = lignes.map((ligne, index) => {
+        if (!eligibles[index]) return 0;
+        if (index === derniere) return montant - reparti;
+
+        const part = Math.floor((ligne.prix_unitaire * ligne.quantite * montant) / montantEligible);
+        reparti += part;
+        return part;
+    });
+
+    return { ok: true, montant, parLigne };
+}
+
+/**
+ * Libellé lisible d'une remise, ex. "10 % (max 5 000 FCFA)" ou "2 000 FCFA"
+ */
+export function formatCodePromo(code: Pick<CodePromo, "type" | "valeur" | "remise_max">): string {
+    if (code.type === "fixe") return `${code.valeur.toLocaleString("fr-FR")} FCFA`;
+
+    return code.remise_max !== null
+        ? `${code.valeur} % (max ${code.remise_max.toLocaleString("fr-FR")} FCFA)`
+        : `${code.valeur} %`;
+}
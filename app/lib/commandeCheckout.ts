@@ -0,0 +1,483 @@
+// app/lib/commandeCheckout.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { enregistrerHistoriqueCommande } from "./commandeHistorique";
+import { attacherSousCommandes } from "./sousCommandes";
+import { genererNumeroCommande, genererNumerosSousCommandes } from "./numeroCommande";
+import type { CommissionRegle } from "./commissions";
+import type { ZoneLivraison } from "./zonesLivraison";
+import {
+    normaliserCodePromo,
+    verifierValiditeCodePromo,
+    type CodePromo,
+} from "./codesPromo";
+import {
+    calculerTarification,
+    prixCatalogue,
+    prixUnitaireArticle,
+    type LigneATarifer,
+    type Tarification,
+} from "./tarification";
+
+/**
+ * Passage de commande, commun à /api/commandes/create (articles envoyés par
+ * le client) et /api/panier/checkout (articles du panier) :
+ * 1. verifierLignes : contrôle article par article (existence, disponibilité,
+ *    stock, prix), avec une erreur précise par ligne ;
+ * 2. chargerContexteTarification + calculerTarification (app/lib/tarification) :
+ *    montants, remise du code promo, frais de service et de livraison ;
+ * 3. passerCommande : écriture atomique de la commande ainsi tarifée.
+ * Le devis (/api/commandes/quote) s'arrête à l'étape 2.
+ */
+
+export type CodeErreurLigne =
+    | "ARTICLE_INTROUVABLE"
+    | "ARTICLE_INDISPONIBLE"
+    | "VARIATION_INTROUVABLE"
+    | "STOCK_INSUFFISANT"
+    | "PRIX_MODIFIE";
+
+export interface LigneDemandee {
+    article_id: string;
+    variation_id?: string | null;
+    quantite: number;
+    prix_attendu?: number | null; // prix unitaire vu par le client, s'il est connu
+}
+
+export interface ErreurLigne {
+    index: number; // position de la ligne dans la demande
+    article_id: string;
+    variation_id: string | null;
+    code: CodeErreurLigne;
+    message: string;
+    stock_disponible?: number;
+    prix_attendu?: number;
+    prix_actuel?: number;
+}
+
+export type LigneVerifiee = LigneATarifer;
+
+type ArticleCheckout = {
+    id: string;
+    nom: string;
+    prix: number;
+    prix_promotion: number | null;
+    is_promotion: boolean;
+    is_active: boolean;
+    user_id: string;
+    categorie_id: string | null;
+    variations: { id: string; prix: number; stock: number }[] | null;
+};
+
+/**
+ * Vérifie toutes les lignes et retourne les lignes valides avec leur prix
+ * actuel, ainsi qu'une erreur par ligne invalide (toutes les lignes sont
+ * contrôlées, pas seulement la première en erreur).
+ *
+ * Le stock est vérifié sur les quantités cumulées par variation ; la fonction
+ * SQL le revérifie sous verrou au moment d'écrire la commande.
+ */
+export async function verifierLignes(lignes: LigneDemandee[]): Promise<{
+    lignes: LigneVerifiee[];
+    erreurs: ErreurLigne[];
+}> {
+    const articleIds = [...new Set(lignes.map((l) => l.article_id))];
+
+    const { data: articles, error } = await supabaseAdmin
+        .from("articles")
+        .select(`
+            id,
+            nom,
+            prix,
+            prix_promotion,
+            is_promotion,
+            is_active,
+            user_id,
+            categorie_id,
+            variations (id, prix, stock)
+        `)
+        .in("id", articleIds);
+
+    if (error) {
+        throw new Error(`Erreur récupération articles: ${error.message}`);
+    }
+
+    const stockRestant = new Map<string, number>();
+    const verifiees: LigneVerifiee[] = [];
+    const erreurs: ErreurLigne[] = [];
+
+    lignes.forEach((ligne, index) => {
+        const article = (articles as ArticleCheckout[] | null)?.find((a) => a.id === ligne.article_id);
+        const base = {
+            index,
+            article_id: ligne.article_id,
+            variation_id: ligne.variation_id ?? null,
+        };
+
+        if (!article) {
+            erreurs.push({ ...base, code: "ARTICLE_INTROUVABLE", message: `Article ${ligne.article_id} introuvable` });
+            return;
+        }
+
+        if (!article.is_active) {
+            erreurs.push({
+                ...base,
+                code: "ARTICLE_INDISPONIBLE",
+                message: `« ${article.nom} » n'est plus disponible`,
+            });
+            return;
+        }
+
+        let variation = null;
+        if (ligne.variation_id) {
+            variation = article.variations?.find((v) => v.id === ligne.variation_id) ?? null;
+
+            if (!variation) {
+                erreurs.push({
+                    ...base,
+                    code: "VARIATION_INTROUVABLE",
+                    message: `Variation ${ligne.variation_id} introuvable pour « ${article.nom} »`,
+                });
+                return;
+            }
+
+            const disponible = stockRestant.get(variation.id) ?? variation.stock;
+            if (disponible < ligne.quantite) {
+                erreurs.push({
+                    ...base,
+                    code: "STOCK_INSUFFISANT",
+                    message: `Stock insuffisant pour « ${article.nom} » (disponible : ${Math.max(disponible, 0)})`,
+                    stock_disponible: Math.max(disponible, 0),
+                });
+                return;
+            }
+            stockRestant.set(variation.id, disponible - ligne.quantite);
+        }
+
+        const prixUnitaire = prixUnitaireArticle(article, variation);
+
+        if (ligne.prix_attendu != null && ligne.prix_attendu !== prixUnitaire) {
+            erreurs.push({
+                ...base,
+                code: "PRIX_MODIFIE",
+                message: `Le prix de « ${article.nom} » est passé de ${ligne.prix_attendu} à ${prixUnitaire} FCFA`,
+                prix_attendu: ligne.prix_attendu,
+                prix_actuel: prixUnitaire,
+            });
+            return;
+        }
+
+        verifiees.push({
+            article_id: article.id,
+            variation_id: variation?.id ?? null,
+            quantite: ligne.quantite,
+            prix_unitaire: prixUnitaire,
+            prix_catalogue: prixCatalogue(article, variation),
+            boutique_id: article.user_id,
+            categorie_id: article.categorie_id,
+        });
+    });
+
+    return { lignes: verifiees, erreurs };
+}
+
+export interface ContexteTarification {
+    regles: CommissionRegle[];
+    zone: ZoneLivraison | null;
+    codePromo: CodePromo | null;
+    erreurCodePromo: string | null; // code saisi mais refusé (inconnu, expiré, épuisé)
+}
+
+type Echec = { ok: false; status: number; error: string; details?: string };
+
+/**
+ * Code promo saisi par l'acheteur, s'il est utilisable : actif, dans sa
+ * période de validité et sous ses limites d'utilisation (les commandes
+ * annulées ne comptent pas). La fonction SQL revérifie les limites sous verrou.
+ */
+async function chargerCodePromo(
+    saisi: string,
+    acheteurId: string
+): Promise<{ codePromo: CodePromo | null; erreur: string | null }> {
+    const { data: code } = await supabaseAdmin
+        .from("codes_promo")
+        .select("*")
+        .eq("code", normaliserCodePromo(saisi))
+        .maybeSingle();
+
+    if (!code) return { codePromo: null, erreur: "Code promo inconnu" };
+
+    const invalide = verifierValiditeCodePromo(code);
+    if (invalide) return { codePromo: null, erreur: invalide };
+
+    const utilisations = (userId?: string) => {
+        let query = supabaseAdmin
+            .from("commandes")
+            .select("id", { count: "exact", head: true })
+            .eq("code_promo_id", code.id)
+            .neq("statut", "Annulée");
+        if (userId) query = query.eq("user_id", userId);
+        return query;
+    };
+
+    const [{ count: total }, { count: parAcheteur }] = await Promise.all([
+        utilisations(),
+        utilisations(acheteurId),
+    ]);
+
+    if (code.limite_utilisation !== null && (total ?? 0) >= code.limite_utilisation) {
+        return { codePromo: null, erreur: "Ce code promo a atteint sa limite d'utilisation" };
+    }
+
+    if (code.limite_par_utilisateur !== null && (parAcheteur ?? 0) >= code.limite_par_utilisateur) {
+        return { codePromo: null, erreur: "Vous avez déjà utilisé ce code promo" };
+    }
+
+    // valeur est un numeric Postgres
+    return { codePromo: { ...code, valeur: Number(code.valeur) }, erreur: null };
+}
+
+/**
+ * Barème des frais de service en vigueur, zone de livraison choisie
+ * (obligatoire pour une livraison à domicile) et code promo éventuel
+ */
+export async function chargerContexteTarification(
+    livraison: {
+        isLivrable: boolean;
+        zone_livraison_id?: string | null;
+        code_promo?: string | null;
+    },
+    acheteurId?: string
+): Promise<({ ok: true } & ContexteTarification) | Echec> {
+    let zone: ZoneLivraison | null = null;
+    if (livraison.isLivrable && livraison.zone_livraison_id) {
+        const { data: zoneData } = await supabaseAdmin
+            .from("zones_livraison")
+            .select("*")
+            .eq("id", livraison.zone_livraison_id)
+            .eq("is_active", true)
+            .single();
+
+        if (!zoneData) {
+            return { ok: false, status: 400, error: "Zone de livraison introuvable" };
+        }
+        zone = zoneData;
+    }
+
+    // valeur est un numeric Postgres
+    const { data: regles, error: reglesError } = await supabaseAdmin
+        .from("commission_regles")
+        .select("*")
+        .eq("is_active", true);
+
+    if (reglesError) {
+        console.error("Erreur récupération barème commissions:", reglesError);
+        return { ok: false, status: 500, error: "Impossible de calculer les frais de service" };
+    }
+
+    const { codePromo, erreur: erreurCodePromo } = livraison.code_promo && acheteurId
+        ? await chargerCodePromo(livraison.code_promo, acheteurId)
+        : { codePromo: null, erreur: null };
+
+    return {
+        ok: true,
+        zone,
+        regles: (regles || []).map((r) => ({ ...r, valeur: Number(r.valeur) })),
+        codePromo,
+        erreurCodePromo,
+    };
+}
+
+export interface CommandeAPasser {
+    acheteur: { id: string; role: string };
+    commentaire: string;
+    isLivrable: boolean;
+    adresse_livraison: string;
+    zone_livraison_id?: string | null;
+    code_promo?: string | null;
+    lignes: LigneVerifiee[];
+}
+
+export type ResultatCommande =
+    | { ok: true; commandeId: string; numero: string; tarification: Tarification }
+    | Echec;
+
+/**
+ * Tarifie puis crée la commande (parente, sous-commandes par boutique,
+ * articles, stocks, soldes) dans une seule transaction Postgres.
+ * Les lignes doivent avoir été vérifiées avant.
+ */
+export async function passerCommande(commande: CommandeAPasser): Promise<ResultatCommande> {
+    const contexte = await chargerContexteTarification(commande, commande.acheteur.id);
+    if (!contexte.ok) return contexte;
+
+    // Récupérer l'admin (optionnel — les frais seront appliqués s'il existe)
+    const { data: admin } = await supabaseAdmin
+        .from("users")
+        .select("id, solde")
+        .eq("role", "Administrateur")
+        .single();
+
+    // Montants, frais de service (figés sur chaque ligne) et de livraison
+    const tarification = calculerTarification(commande.lignes, contexte.regles, contexte.zone, contexte.codePromo);
+
+    // Un code refusé n'est pas ignoré en silence : l'acheteur le retire ou le corrige
+    const erreurCodePromo = contexte.erreurCodePromo ?? tarification.erreur_code_promo;
+    if (commande.code_promo && erreurCodePromo) {
+        return { ok: false, status: 400, error: erreurCodePromo };
+    }
+
+    // Numéro séquentiel unique (compteur par année en base)
+    let numeroCommande: string;
+    let numerosSousCommandes: string[];
+    try {
+        numeroCommande = await genererNumeroCommande();
+        numerosSousCommandes = await genererNumerosSousCommandes(
+            numeroCommande,
+            tarification.boutiques.map((b) => b.boutique_id)
+        );
+    } catch (err) {
+        console.error("Erreur numérotation commande:", err);
+        return { ok: false, status: 500, error: "Impossible d'attribuer un numéro de commande" };
+    }
+
+    // Une sous-commande par boutique : son prix est le montant de ses
+    // articles (la livraison reste portée par la commande parente)
+    const sousCommandes = tarification.boutiques.map((boutique, index) => ({
+        vendeur_id: boutique.boutique_id,
+        numero: numerosSousCommandes[index],
+        prix: boutique.montant_articles,
+    }));
+
+    // Gains à créditer en séquestre (solde en attente), rattachés à chaque
+    // sous-commande : libérés après sa livraison, annulés si elle est annulée
+    // ou remboursée
+    const soldes = sousCommandes.flatMap((sc) => {
+        const lignes = tarification.lignes.filter((l) => l.boutique_id === sc.vendeur_id);
+        const credits = [{
+            vendeur_id: sc.vendeur_id,
+            user_id: sc.vendeur_id,
+            type: "vente",
+            amount: lignes.reduce((sum, ca) => sum + ca.benefice, 0),
+        }];
+
+        // Créditer l'admin seulement s'il existe : frais de service, moins les
+        // remises des codes promo financés par la plateforme (crédit négatif possible)
+        if (admin) {
+            credits.push({
+                vendeur_id: sc.vendeur_id,
+                user_id: admin.id,
+                type: "frais_service",
+                amount: lignes.reduce((sum, ca) => sum + ca.sous_total - ca.benefice, 0),
+            });
+        }
+
+        return credits;
+    });
+
+    // Transaction atomique : commande, articles, stocks et soldes sont
+    // écrits par une seule fonction Postgres qui annule tout en cas d'erreur
+    const { data: commandeId, error: checkoutError } = await supabaseAdmin.rpc(
+        "create_commande_atomique",
+        {
+            p_commande: {
+                numero: numeroCommande,
+                user_id: commande.acheteur.id,
+                commentaire: commande.commentaire,
+                isLivrable: commande.isLivrable,
+                prix: tarification.total,
+                adresse_livraison: commande.adresse_livraison,
+                zone_livraison_id: contexte.zone?.id ?? null,
+                frais_livraison: tarification.frais_livraison,
+                code_promo_id: tarification.code_promo?.id ?? null,
+                remise_code_promo: tarification.remise_code_promo,
+                sous_commandes: sousCommandes,
+            },
+            p_articles: tarification.lignes.map((ca) => ({
+                vendeur_id: ca.boutique_id,
+                article_id: ca.article_id,
+                variation_id: ca.variation_id,
+                quantite: ca.quantite,
+                prix_unitaire: ca.prix_unitaire,
+                frais_service: ca.frais_service,
+                commission_regle_id: ca.commission_regle_id,
+                remise_code_promo: ca.remise_code_promo,
+                remise_financee_par: ca.remise_financee_par,
+            })),
+            p_soldes: soldes,
+        }
+    );
+
+    if (checkoutError || !commandeId) {
+        console.error("Transaction error:", checkoutError);
+
+        // Limite du code promo atteinte entre-temps par une autre commande
+        if (checkoutError?.code === "P0001") {
+            return { ok: false, status: 409, error: checkoutError.message };
+        }
+
+        // Stock pris par un autre acheteur entre la vérification et le verrouillage
+        if (checkoutError?.code === "23514") {
+            return {
+                ok: false,
+                status: 409,
+                error: "Stock insuffisant",
+                details: checkoutError.message,
+            };
+        }
+
+        return {
+            ok: false,
+            status: 500,
+            error: "Erreur lors de la création de la commande",
+            details: checkoutError?.message,
+        };
+    }
+
+    const { data: enfants } = await supabaseAdmin
+        .from("commandes")
+        .select("id")
+        .eq("parent_id", commandeId);
+
+    for (const cmdId of [commandeId, ...(enfants || []).map((e) => e.id)]) {
+        await enregistrerHistoriqueCommande({
+            commande_id: cmdId,
+            ancien_statut: null,
+            nouveau_statut: "En attente",
+            acteur_id: commande.acheteur.id,
+            acteur_role: commande.acheteur.role,
+            source: "commande",
+            note: cmdId === commandeId ? "Commande créée" : "Sous-commande créée",
+        });
+    }
+
+    return { ok: true, commandeId, numero: numeroCommande, tarification };
+}
+
+/**
+ * Commande complète (acheteur, articles, sous-commandes) renvoyée après création
+ */
+export async function chargerCommandeCreee(commandeId: string, numero: string) {
+    const { data: commandeComplete, error: fetchError } = await supabaseAdmin
+        .from("commandes")
+        .select(`
+          *,
+            users!commandes_user_id_fkey (id, name, email),
+            commande_articles (
+            *,
+            articles (*),
+            variations (*)
+            )
+        `)
+        .eq("id", commandeId)
+        .single();
+
+    if (fetchError) {
+        console.warn("Erreur récupération commande complète:", fetchError);
+    }
+
+    const [commandeAvecSousCommandes] = commandeComplete
+        ? await attacherSousCommandes([commandeComplete])
+        : [null];
+
+    return commandeAvecSousCommandes || { id: commandeId, numero };
+}
@@ -0,0 +1,233 @@
+// app/lib/commandeExpiration.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierUtilisateur } from "./notifications";
+import { appliquerStatutCommande } from "./sousCommandes";
+import { STATUT_PAIEMENT } from "./paiements";
+
+/**
+ * Expiration des commandes impayées
+ *
+ * Le stock est décrémenté au checkout : une commande jamais réglée le
+ * bloquerait indéfiniment. Passé le délai DELAI_EXPIRATION_COMMANDE_HEURES
+ * (24 h par défaut), une commande encore "En attente" sans paiement validé est
+ * annulée (stock et crédits restitués), le motif est enregistré sur la commande
+ * et l'acheteur est prévenu. Appelé par /api/cron/expirer-commandes.
+ *
+ * Les commandes payables en espèces sont réglées à la livraison : elles ont
+ * leur propre délai, DELAI_EXPIRATION_ESPECES_JOURS (7 jours par défaut),
+ * au-delà duquel une commande qu'aucune boutique n'a prise en charge est
+ * annulée.
+ *
+ * Ne sont pas concernées :
+ * - celles dont un paiement mobile money a été initié pendant le délai ;
+ * - celles dont une boutique a déjà commencé la préparation.
+ * Ces commandes ignorées ne bloquent pas les suivantes : la lecture se poursuit
+ * au-delà d'elles, page après page.
+ */
+
+export const DELAI_EXPIRATION_COMMANDE_HEURES = Math.max(
+    Number(process.env.DELAI_EXPIRATION_COMMANDE_HEURES ?? 24) || 0,
+    1
+);
+
+export const DELAI_EXPIRATION_ESPECES_JOURS = Math.max(
+    Number(process.env.DELAI_EXPIRATION_ESPECES_JOURS ?? 7) || 0,
+    1
+);
+
+export const MOTIF_EXPIRATION = "Commande non payée dans le délai imparti";
+
+export const MOTIF_EXPIRATION_ESPECES = "Commande payable à la livraison non prise en charge dans le délai imparti";
+
+const TAILLE_PAGE = 200;
+
+export interface ResultatExpiration {
+    delai_heures: number;
+    delai_especes_jours: number;
+    expirees: { id: string; numero: string }[];
+    ignorees: {
+        especes: number;
+        paiement_en_cours: number;
+        en_preparation: number;
+    };
+    erreurs: { id: string; numero: string; error: string }[];
+}
+
+type Tentative = {
+    id: string;
+    commande_id: string | null;
+    methode: string;
+    statut: string;
+    created_at: string;
+};
+
+type CommandeEnAttente = {
+    id: string;
+    numero: string;
+    statut: string;
+    user_id: string;
+    paiement_id: string | null;
+    created_at: string;
+};
+
+/**
+ * Annule les commandes acheteur (parentes) restées impayées au-delà du délai
+ * Annule au plus `limite` commandes, les plus anciennes d'abord : un appel
+ * suivant reprend les restantes.
+ */
+export async function expirerCommandesImpayees(options: { delaiHeures?: number; limite?: number } = {}): Promise<ResultatExpiration> {
+    const delaiHeures = options.delaiHeures ?? DELAI_EXPIRATION_COMMANDE_HEURES;
+    const limite = options.limite ?? 200;
+    const limiteDate = new Date(Date.now() - delaiHeures * 3600 * 1000).toISOString();
+    const limiteEspeces = new Date(Date.now() - DELAI_EXPIRATION_ESPECES_JOURS * 24 * 3600 * 1000).toISOString();
+
+    const resultat: ResultatExpiration = {
+        delai_heures: delaiHeures,
+        delai_especes_jours: DELAI_EXPIRATION_ESPECES_JOURS,
+        expirees: [],
+        ignorees: { especes: 0, paiement_en_cours: 0, en_preparation: 0 },
+        erreurs: [],
+    };
+
+    // Curseur (created_at, id) : chaque page reprend après la dernière commande lue
+    let curseur: { created_at: string; id: string } | null = null;
+
+    while (resultat.expirees.length < limite) {
+        let requete = supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut, user_id, paiement_id, created_at")
+            .is("parent_id", null)
+            .eq("statut", "En attente")
+            .lt("created_at", limiteDate);
+
+        if (curseur) {
+            requete = requete.or(
+                `created_at.gt."${curseur.created_at}",and(created_at.eq."${curseur.created_at}",id.gt.${curseur.id})`
+            );
+        }
+
+        const { data: commandes, error } = await requete
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .limit(TAILLE_PAGE);
+
+        if (error) {
+            throw new Error(`Lecture des commandes impayées impossible: ${error.message}`);
+        }
+
+        if (!commandes || commandes.length === 0) break;
+
+        await expirerPage(commandes, { limite, limiteDate, limiteEspeces }, resultat);
+
+        if (commandes.length < TAILLE_PAGE) break;
+        const derniere = commandes[commandes.length - 1];
+        curseur = { created_at: derniere.created_at, id: derniere.id };
+    }
+
+    return resultat;
+}
+
+/**
+ * Traite une page de commandes "En attente" au-delà du délai
+ */
+async function expirerPage(
+    commandes: CommandeEnAttente[],
+    limites: { limite: number; limiteDate: string; limiteEspeces: string },
+    resultat: ResultatExpiration
+) {
+    const { limite, limiteDate, limiteEspeces } = limites;
+    const ids = commandes.map((c) => c.id);
+    const paiementIds = commandes.map((c) => c.paiement_id).filter((id): id is string => !!id);
+
+    const [{ data: tentatives }, { data: lies }, { data: sousCommandes }] = await Promise.all([
+        supabaseAdmin
+            .from("paiements")
+            .select("id, commande_id, methode, statut, created_at")
+            .in("commande_id", ids),
+        paiementIds.length > 0
+            ? supabaseAdmin
+                .from("paiements")
+                .select("id, commande_id, methode, statut, created_at")
+                .in("id", paiementIds)
+            : Promise.resolve({ data: [] as Tentative[] }),
+        supabaseAdmin
+            .from("commandes")
+            .select("parent_id, statut")
+            .in("parent_id", ids),
+    ]);
+
+    for (const commande of commandes) {
+        if (resultat.expirees.length >= limite) return;
+
+        const paiements = [
+            ...(tentatives || []).filter((t) => t.commande_id === commande.id),
+            ...(lies || []).filter((p) => p.id === commande.paiement_id),
+        ];
+
+        // Réglée entre-temps : le statut suivra
+        if (paiements.some((p) => p.statut === STATUT_PAIEMENT.VALIDE)) continue;
+
+        // Paiement à la livraison : délai propre, plus long
+        const especes = paiements.some((p) => p.methode === "especes" && p.statut === STATUT_PAIEMENT.EN_ATTENTE);
+        if (especes && commande.created_at >= limiteEspeces) {
+            resultat.ignorees.especes++;
+            continue;
+        }
+
+        if (!especes && paiements.some((p) => p.statut === STATUT_PAIEMENT.EN_ATTENTE && p.created_at >= limiteDate)) {
+            resultat.ignorees.paiement_en_cours++;
+            continue;
+        }
+
+        const enfants = (sousCommandes || []).filter((sc) => sc.parent_id === commande.id);
+        if (enfants.some((sc) => sc.statut !== "En attente" && sc.statut !== "Annulée")) {
+            resultat.ignorees.en_preparation++;
+            continue;
+        }
+
+        const motif = especes ? MOTIF_EXPIRATION_ESPECES : MOTIF_EXPIRATION;
+
+        try {
+            const annulees = await appliquerStatutCommande({
+                commande,
+                statut: "Annulée",
+                roles: ["Administrateur"],
+                acteur: null,
+                source: "systeme",
+                note: motif,
+            });
+
+            // Déjà modifiée par ailleurs depuis la lecture
+            if (annulees.length === 0) continue;
+
+            const { error: motifError } = await supabaseAdmin
+                .from("commandes")
+                .update({ motif_annulation: motif })
+                .eq("id", commande.id)
+                .eq("statut", "Annulée");
+
+            if (motifError) {
+                console.error("Erreur enregistrement motif d'annulation:", motifError);
+            }
+
+            await notifierUtilisateur({
+                user_id: commande.user_id,
+                type: "commande",
+                titre: "Commande annulée",
+                message: especes
+                    ? `Votre commande ${commande.numero}, payable à la livraison, n'a pas été prise en charge sous ${resultat.delai_especes_jours} jours : elle a été annulée.`
+                    : `Votre commande ${commande.numero} a été annulée faute de paiement sous ${resultat.delai_heures} h. Les articles ont été remis en vente.`,
+                lien: `/commandes/${commande.id}`,
+            });
+
+            resultat.expirees.push({ id: commande.id, numero: commande.numero });
+        } catch (err) {
+            console.error(`Erreur expiration commande ${commande.numero}:`, err);
+            resultat.erreurs.push({
+                id: commande.id,
+                numero: commande.numero,
+                error: err instanceof Error ? err.message : "Erreur inconnue",
+            });
+        }
+    }
+}
@@ -0,0 +1,42 @@
+// app/lib/commandeHistorique.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Origine d'un changement de statut de commande
+ */
+export type SourceHistorique = "commande" | "livraison" | "remboursement" | "systeme";
+
+export interface ChangementStatutCommande {
+    commande_id: string;
+    ancien_statut: string | null;
+    nouveau_statut: string;
+    acteur_id?: string | null;
+    acteur_role?: string | null;
+    source: SourceHistorique;
+    note?: string | null;
+}
+
+/**
+ * Enregistre un changement de statut dans commande_historiques
+ *
+ * L'historique ne doit jamais faire échouer l'opération principale :
+ * en cas d'erreur, on la journalise et on continue.
+ */
+export async function enregistrerHistoriqueCommande(changement: ChangementStatutCommande) {
+    const { error } = await supabaseAdmin
+        .from("commande_historiques")
+        .insert({
+            commande_id: changement.commande_id,
+            ancien_statut: changement.ancien_statut,
+            nouveau_statut: changement.nouveau_statut,
+            acteur_id: changement.acteur_id ?? null,
+            acteur_role: changement.acteur_role ?? null,
+            source: changement.source,
+            note: changement.note ?? null,
+            created_at: new Date().toISOString(),
+        });
+
+    if (error) {
+        console.error("Erreur enregistrement historique commande:", error);
+    }
+}
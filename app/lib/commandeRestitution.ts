@@ -0,0 +1,26 @@
+// app/lib/commandeRestitution.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Statuts qui déclenchent la restitution d'une commande
+ */
+export const STATUTS_RESTITUTION = ["Annulée", "Remboursée"];
+
+/**
+ * Remet en stock les articles d'une commande annulée ou remboursée et annule
+ * les crédits de solde faits au checkout (fonction SQL restituer_commande).
+ *
+ * Idempotent : retourne false si la commande avait déjà été restituée.
+ */
+export async function restituerCommande(commandeId: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin.rpc("restituer_commande", {
+        p_commande_id: commandeId,
+    });
+
+    if (error) {
+        console.error("Erreur restitution commande:", error);
+        return false;
+    }
+
+    return data === true;
+}
@@ -0,0 +1,125 @@
+// app/lib/commandeStatuts.ts
+/**
+ * Machine à états du cycle de vie d'une commande
+ *
+ * Source unique des transitions autorisées entre les valeurs de l'enum
+ * commandes_statut, et des rôles qui peuvent déclencher chacune d'elles.
+ * Utilisée par l'API (update-status) et par le dashboard (store + modals),
+ * ce fichier ne doit donc rien importer de spécifique au serveur.
+ */
+
+export const COMMANDE_STATUTS = [
+    "En attente",
+    "En préparation",
+    "Prête pour livraison",
+    "En cours de livraison",
+    "Livrée",
+    "Annulée",
+    "Remboursée",
+] as const;
+
+export type CommandeStatutValue = (typeof COMMANDE_STATUTS)[number];
+
+export type RoleCommande = "Client" | "Boutique" | "Livreur" | "Administrateur";
+
+export interface TransitionCommande {
+    vers: CommandeStatutValue;
+    roles: RoleCommande[];
+}
+
+/**
+ * Transitions autorisées depuis chaque statut
+ * Un statut sans transition est final.
+ */
+export const TRANSITIONS_COMMANDE: Record<CommandeStatutValue, TransitionCommande[]> = {
+    "En attente": [
+        { vers: "En préparation", roles: ["Boutique", "Administrateur"] },
+        { vers: "Annulée", roles: ["Client", "Boutique", "Administrateur"] },
+    ],
+    "En préparation": [
+        { vers: "Prête pour livraison", roles: ["Boutique", "Administrateur"] },
+        { vers: "Annulée", roles: ["Boutique", "Administrateur"] },
+    ],
+    "Prête pour livraison": [
+        { vers: "En cours de livraison", roles: ["Livreur", "Administrateur"] },
+        { vers: "Annulée", roles: ["Administrateur"] },
+    ],
+    "En cours de livraison": [
+        { vers: "Livrée", roles: ["Livreur", "Administrateur"] },
+        // Retour en attente d'expédition (livraison reportée ou échouée)
+        { vers: "Prête pour livraison", roles: ["Livreur", "Administrateur"] },
+    ],
+    "Livrée": [
+        { vers: "Remboursée", roles: ["Administrateur"] },
+    ],
+    "Annulée": [
+        { vers: "Remboursée", roles: ["Administrateur"] },
+    ],
+    "Remboursée": [],
+};
+
+export function isCommandeStatut(value: unknown): value is CommandeStatutValue {
+    return typeof value === "string" && (COMMANDE_STATUTS as readonly string[]).includes(value);
+}
+
+/**
+ * Statuts atteignables depuis `statut` par un utilisateur ayant l'un des `roles`
+ */
+export function getStatutsSuivants(
+    statut: string,
+    roles: RoleCommande[]
+): CommandeStatutValue[] {
+    if (!isCommandeStatut(statut)) return [];
+
+    return TRANSITIONS_COMMANDE[statut]
+        .filter((t) => t.roles.some((role) => roles.includes(role)))
+        .map((t) => t.vers);
+}
+
+/**
+ * Vérifie si le passage `de` → `vers` est permis pour l'un des `roles`
+ */
+export function peutChangerStatut(
+    de: string,
+    vers: string,
+    roles: RoleCommande[]
+): boolean {
+    return getStatutsSuivants(de, roles).includes(vers as CommandeStatutValue);
+}
+
+export function isStatutFinal(statut: string): boolean {
+    return isCommandeStatut(statut) && TRANSITIONS_COMMANDE[statut].length === 0;
+}
+
+/**
+ * Ordre de progression normal d'une commande (hors annulation / remboursement)
+ */
+const PROGRESSION_COMMANDE: CommandeStatutValue[] = [
+    "En attente",
+    "En préparation",
+    "Prête pour livraison",
+    "En cours de livraison",
+    "Livrée",
+];
+
+/**
+ * Statut d'une commande parente déduit de ceux de ses sous-commandes
+ *
+ * - les sous-commandes annulées ou remboursées sont ignorées tant qu'il en reste d'actives ;
+ * - parmi les actives, on retient la moins avancée (la commande n'est « Livrée »
+ *   que lorsque toutes les boutiques ont été livrées) ;
+ * - si aucune n'est active : « Remboursée » si au moins une l'a été, sinon « Annulée ».
+ */
+export function statutCommandeParente(statuts: string[]): CommandeStatutValue | null {
+    const valides = statuts.filter(isCommandeStatut);
+    if (valides.length === 0) return null;
+
+    const actives = valides.filter((s) => PROGRESSION_COMMANDE.includes(s));
+    if (actives.length === 0) {
+        return valides.includes("Remboursée") ? "Remboursée" : "Annulée";
+    }
+
+    return actives.reduce((moinsAvance, s) =>
+        PROGRESSION_COMMANDE.indexOf(s) < PROGRESSION_COMMANDE.indexOf(moinsAvance) ? s : moinsAvance
+    );
+}
@@ -0,0 +1,123 @@
+// app/lib/commissions.ts
+/**
+ * Barème des frais de service (commission de la plateforme)
+ *
+ * Chaque règle s'applique à une tranche de prix unitaire [prix_min, prix_max[
+ * et prélève soit un montant fixe par unité, soit un pourcentage du prix.
+ * Une règle peut viser une boutique ou une catégorie ; sinon elle est globale.
+ * Priorité : boutique > catégorie > global.
+ *
+ * Module partagé API / dashboard : il ne doit rien importer de spécifique au serveur.
+ */
+
+import { z } from "zod";
+
+export const TYPES_COMMISSION = ["fixe", "pourcentage"] as const;
+
+export type TypeCommission = (typeof TYPES_COMMISSION)[number];
+
+/**
+ * Validation d'une règle envoyée à l'API (création / mise à jour)
+ */
+export const regleCommissionSchema = z.object({
+    nom: z.string().min(1).max(255),
+    type: z.enum(TYPES_COMMISSION),
+    valeur: z.number().min(0),
+    prix_min: z.number().int().min(0).default(0),
+    prix_max: z.number().int().positive().nullable().default(null),
+    categorie_id: z.string().uuid().nullable().default(null),
+    boutique_id: z.string().uuid().nullable().default(null),
+    is_active: z.boolean().default(true),
+});
+
+/**
+ * Contrôles croisés communs à la création et à la mise à jour
+ * Retourne le message d'erreur, ou null si la règle est cohérente
+ */
+export function verifierRegleCommission(regle: {
+    type: string;
+    valeur: number;
+    prix_min: number;
+    prix_max: number | null;
+    categorie_id: string | null;
+    boutique_id: string | null;
+}): string | null {
+    if (regle.type === "pourcentage" && regle.valeur > 100) {
+        return "Un pourcentage ne peut pas dépasser 100";
+    }
+    if (regle.prix_max !== null && regle.prix_max <= regle.prix_min) {
+        return "prix_max doit être supérieur à prix_min";
+    }
+    if (regle.categorie_id && regle.boutique_id) {
+        return "Une règle vise soit une catégorie, soit une boutique, pas les deux";
+    }
+    return null;
+}
+
+export interface CommissionRegle {
+    id: string;
+    nom: string;
+    type: TypeCommission;
+    valeur: number;          // FCFA par unité (fixe) ou % du prix unitaire (pourcentage)
+    prix_min: number;        // inclus
+    prix_max: number | null; // exclu, null = sans limite
+    categorie_id: string | null;
+    boutique_id: string | null;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface LigneCommission {
+    prix_unitaire: number;
+    quantite: number;
+    categorie_id?: string | null;
+    boutique_id?: string | null;
+}
+
+function dansLaTranche(regle: CommissionRegle, prix: number): boolean {
+    return prix >= regle.prix_min && (regle.prix_max === null || prix < regle.prix_max);
+}
+
+/**
+ * Règle applicable à une ligne de commande, ou null si aucune ne correspond
+ */
+export function trouverRegleCommission(
+    regles: CommissionRegle[],
+    ligne: LigneCommission
+): CommissionRegle | null {
+    const candidates = regles.filter((r) => r.is_active && dansLaTranche(r, ligne.prix_unitaire));
+
+    return (
+        candidates.find((r) => ligne.boutique_id && r.boutique_id === ligne.boutique_id) ??
+        candidates.find((r) => !r.boutique_id && ligne.categorie_id && r.categorie_id === ligne.categorie_id) ??
+        candidates.find((r) => !r.boutique_id && !r.categorie_id) ??
+        null
+    );
+}
+
+/**
+ * Frais de service d'une ligne (toutes unités confondues), arrondis au FCFA
+ */
+export function calculerFraisService(
+    regle: CommissionRegle | null,
+    ligne: LigneCommission
+): number {
+    if (!regle) return 0;
+
+    const parUnite = regle.type === "pourcentage"
+        ? Math.round((ligne.prix_unitaire * regle.valeur) / 100)
+        : regle.valeur;
+
+    // La commission ne peut pas dépasser le prix de l'article
+    return Math.min(parUnite, ligne.prix_unitaire) * ligne.quantite;
+}
+
+/**
+ * Libellé lisible d'une règle, ex. "500 FCFA / unité" ou "5 %"
+ */
+export function formatRegleCommission(regle: Pick<CommissionRegle, "type" | "valeur">): string {
+    return regle.type === "pourcentage"
+        ? `${regle.valeur} %`
+        : `${regle.valeur.toLocaleString("fr-FR")} FCFA / unité`;
+}
@@ -0,0 +1,436 @@
+// app/lib/dispatchLivreurs.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { appliquerStatutCommande } from "./sousCommandes";
+import { enregistrerEvenementsLivraison } from "./livraisonEvenements";
+import { genererCodeRemise } from "./preuveLivraison";
+
+/**
+ * Dispatch automatique des livreurs
+ *
+ * Chaque livreur actif est noté sur 100 pour une livraison :
+ * - secteur (40) : la zone de livraison, à défaut la ville, doit faire partie
+ *   de ses secteurs (livreurs_profils). Un livreur sans secteur attitré reste
+ *   candidat partout, avec moins de points ; hors secteur, il est écarté ;
+ * - charge (30) : livraisons ouvertes rapportées à sa capacité, au-delà de
+ *   laquelle il est écarté ;
+ * - ponctualité (30) : part des livraisons des PONCTUALITE_JOURS derniers
+ *   jours remises au plus tard le jour prévu.
+ * Un livreur marqué indisponible est écarté.
+ *
+ * Le mieux noté est assigné comme le ferait un administrateur (statut "En
+ * cours de livraison", étape du suivi, code de remise, statut de la commande).
+ * Chaque décision, automatique ou manuelle, est journalisée dans
+ * attributions_livreur avec ses motifs et le classement des candidats.
+ *
+ * Déclenché à la création d'une livraison (sauf DISPATCH_AUTO_LIVRAISONS=false),
+ * depuis le dashboard pour une livraison ou pour toutes celles en attente.
+ */
+
+export const DISPATCH_AUTO_LIVRAISONS = process.env.DISPATCH_AUTO_LIVRAISONS !== "false";
+
+export const CAPACITE_PAR_DEFAUT = 8;
+export const PONCTUALITE_JOURS = 90;
+
+const POIDS = { secteur: 40, charge: 30, ponctualite: 30 };
+
+// Sans historique, un nouveau livreur n'est ni favorisé ni pénalisé
+const PONCTUALITE_PAR_DEFAUT = 0.7;
+
+const STATUTS_OUVERTS = ["En attente", "En cours de livraison", "Reportée"];
+
+type Echec = { ok: false; status: number; error: string };
+
+export interface CandidatLivreur {
+    id: string;
+    name: string;
+    phone: string | null;
+    villes: string[];
+    zone_ids: string[];
+    disponible: boolean;
+    capacite: number;
+    charge: number;                 // livraisons ouvertes
+    ponctualite: number | null;     // taux sur la période, null sans historique
+    livrees: number;                // livraisons prises en compte pour le taux
+}
+
+export interface EvaluationLivreur {
+    livreur_id: string;
+    name: string;
+    eligible: boolean;
+    score: number | null;
+    raisons: string[];
+}
+
+export interface DecisionDispatch {
+    livreur: CandidatLivreur | null;
+    score: number | null;
+    raisons: string[];
+    candidats: EvaluationLivreur[];
+}
+
+type LivraisonADispatcher = {
+    id: string;
+    statut: string;
+    ville: string;
+    zone_livraison_id: string | null;
+    livreur_id: string | null;
+    user_id: string | null;
+    commande_id: string;
+};
+
+type Acteur = { id: string; role: string } | null;
+
+const normaliser = (texte: string) =>
+    texte.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+/**
+ * Livreurs actifs avec leurs secteurs, leur charge et leur ponctualité
+ */
+export async function chargerCandidats(): Promise<CandidatLivreur[]> {
+    const { data: livreurs, error } = await supabaseAdmin
+        .from("users")
+        .select("id, name, phone, profil:livreurs_profils (villes, zone_ids, disponible, capacite)")
+        .eq("role", "Livreur")
+        .eq("is_active", true)
+        .order("name", { ascending: true });
+
+    if (error) {
+        throw new Error(`Lecture des livreurs impossible: ${error.message}`);
+    }
+
+    if (!livreurs || livreurs.length === 0) return [];
+
+    const ids = livreurs.map((l) => l.id);
+    const depuis = new Date(Date.now() - PONCTUALITE_JOURS * 24 * 3600 * 1000).toISOString();
+
+    const [{ data: ouvertes }, { data: livrees }] = await Promise.all([
+        supabaseAdmin
+            .from("livraisons")
+            .select("livreur_id")
+            .in("livreur_id", ids)
+            .in("statut", STATUTS_OUVERTS),
+        supabaseAdmin
+            .from("livraisons")
+            .select("livreur_id, date_livraison, preuve_at, updated_at")
+            .in("livreur_id", ids)
+            .eq("statut", "Livrée")
+            .gte("updated_at", depuis),
+    ]);
+
+    return livreurs.map((livreur) => {
+        const profil = livreur.profil as unknown as {
+            villes: string[] | null;
+            zone_ids: string[] | null;
+            disponible: boolean;
+            capacite: number;
+        } | null;
+
+        const historique = (livrees || []).filter((l) => l.livreur_id === livreur.id);
+        // À l'heure : remise au plus tard le jour prévu
+        const aLHeure = historique.filter((l) =>
+            (l.preuve_at ?? l.updated_at).slice(0, 10) <= l.date_livraison.slice(0, 10)
+        ).length;
+
+        return {
+            id: livreur.id,
+            name: livreur.name,
+            phone: livreur.phone,
+            villes: profil?.villes ?? [],
+            zone_ids: profil?.zone_ids ?? [],
+            disponible: profil?.disponible ?? true,
+            capacite: profil?.capacite ?? CAPACITE_PAR_DEFAUT,
+            charge: (ouvertes || []).filter((l) => l.livreur_id === livreur.id).length,
+            ponctualite: historique.length > 0 ? aLHeure / historique.length : null,
+            livrees: historique.length,
+        };
+    });
+}
+
+/**
+ * Note un livreur pour une livraison (score null : écarté)
+ */
+export function evaluerLivreur(
+    livraison: Pick<LivraisonADispatcher, "ville" | "zone_livraison_id">,
+    candidat: CandidatLivreur
+): EvaluationLivreur {
+    const evaluation = (eligible: boolean, score: number | null, raisons: string[]): EvaluationLivreur => ({
+        livreur_id: candidat.id,
+        name: candidat.name,
+        eligible,
+        score,
+        raisons,
+    });
+
+    if (!candidat.disponible) {
+        return evaluation(false, null, ["Indisponible"]);
+    }
+
+    if (candidat.charge >= candidat.capacite) {
+        return evaluation(false, null, [`Capacité atteinte (${candidat.charge}/${candidat.capacite})`]);
+    }
+
+    const raisons: string[] = [];
+    let secteur: number;
+
+    if (livraison.zone_livraison_id && candidat.zone_ids.includes(livraison.zone_livraison_id)) {
+        secteur = POIDS.secteur;
+        raisons.push("Couvre la zone de livraison");
+    } else if (candidat.villes.some((v) => normaliser(v) === normaliser(livraison.ville))) {
+        secteur = POIDS.secteur * 0.75;
+        raisons.push(`Couvre la ville (${livraison.ville})`);
+    } else if (candidat.zone_ids.length === 0 && candidat.villes.length === 0) {
+        secteur = POIDS.secteur * 0.4;
+        raisons.push("Sans secteur attitré");
+    } else {
+        return evaluation(false, null, ["Hors de ses secteurs"]);
+    }
+
+    const charge = POIDS.charge * (1 - candidat.charge / candidat.capacite);
+    raisons.push(`${candidat.charge} livraison(s) ouverte(s) sur ${candidat.capacite}`);
+
+    const taux = candidat.ponctualite ?? PONCTUALITE_PAR_DEFAUT;
+    raisons.push(candidat.ponctualite === null
+        ? "Pas encore d'historique de ponctualité"
+        : `${Math.round(candidat.ponctualite * 100)} % à l'heure sur ${candidat.livrees} livraison(s)`);
+
+    return evaluation(true, Math.round(secteur + charge + POIDS.ponctualite * taux), raisons);
+}
+
+/**
+ * Classe les candidats et retient le mieux noté
+ * À score égal, le moins chargé l'emporte.
+ */
+export function choisirLivreur(
+    livraison: Pick<LivraisonADispatcher, "ville" | "zone_livraison_id">,
+    candidats: CandidatLivreur[]
+): DecisionDispatch {
+    const classement = candidats
+        .map((candidat) => ({ candidat, evaluation: evaluerLivreur(livraison, candidat) }))
+        .sort((a, b) =>
+            (b.evaluation.score ?? -1) - (a.evaluation.score ?? -1)
+            || a.candidat.charge - b.candidat.charge
+            || a.candidat.name.localeCompare(b.candidat.name)
+        );
+
+    const meilleur = classement.find((c) => c.evaluation.eligible);
+    const evaluations = classement.map((c) => c.evaluation);
+
+    if (!meilleur) {
+        return {
+            livreur: null,
+            score: null,
+            raisons: [candidats.length === 0 ? "Aucun livreur actif" : "Aucun livreur disponible pour ce secteur"],
+            candidats: evaluations,
+        };
+    }
+
+    return {
+        livreur: meilleur.candidat,
+        score: meilleur.evaluation.score,
+        raisons: meilleur.evaluation.raisons,
+        candidats: evaluations,
+    };
+}
+
+/**
+ * Journalise une attribution (ou l'absence de livreur éligible)
+ * Ne fait jamais échouer l'opération appelante.
+ */
+export async function journaliserAttribution(attribution: {
+    livraison_id: string;
+    livreur_id: string | null;
+    mode: "auto" | "manuel";
+    score: number | null;
+    raisons: string[];
+    candidats: EvaluationLivreur[];
+    acteur_id: string | null;
+}) {
+    const { error } = await supabaseAdmin
+        .from("attributions_livreur")
+        .insert({ ...attribution, created_at: new Date().toISOString() });
+
+    if (error) {
+        console.error("Erreur journalisation attribution livreur:", error);
+    }
+}
+
+/**
+ * Journalise une assignation manuelle avec l'évaluation du livreur retenu,
+ * et la recommandation du dispatch si elle diffère
+ */
+export async function journaliserAttributionManuelle(
+    livraison: Pick<LivraisonADispatcher, "id" | "ville" | "zone_livraison_id">,
+    livreurId: string,
+    acteurId: string
+) {
+    try {
+        const candidats = await chargerCandidats();
+        const decision = choisirLivreur(livraison, candidats);
+        const retenu = decision.candidats.find((c) => c.livreur_id === livreurId);
+
+        const raisons = ["Choix manuel", ...(retenu?.raisons ?? ["Livreur inactif ou inconnu"])];
+        if (decision.livreur && decision.livreur.id !== livreurId) {
+            raisons.push(`Recommandé : ${decision.livreur.name} (${decision.score})`);
+        }
+
+        await journaliserAttribution({
+            livraison_id: livraison.id,
+            livreur_id: livreurId,
+            mode: "manuel",
+            score: retenu?.score ?? null,
+            raisons,
+            candidats: decision.candidats,
+            acteur_id: acteurId,
+        });
+    } catch (err) {
+        console.error("Erreur journalisation attribution manuelle:", err);
+    }
+}
+
+/**
+ * Assigne `livreur` à une livraison en attente, comme une assignation manuelle
+ * Échoue (409) si la livraison a été assignée entre-temps.
+ */
+async function assignerLivreur(
+    livraison: LivraisonADispatcher,
+    livreur: CandidatLivreur,
+    acteur: Acteur
+): Promise<{ ok: true } | Echec> {
+    const { data: assignees, error } = await supabaseAdmin
+        .from("livraisons")
+        .update({
+            livreur_id: livreur.id,
+            statut: "En cours de livraison",
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", livraison.id)
+        .eq("statut", "En attente")
+        .is("livreur_id", null)
+        .select("id");
+
+    if (error) {
+        console.error("Erreur assignation livreur:", error);
+        return { ok: false, status: 500, error: "Impossible d'assigner le livreur" };
+    }
+
+    if (!assignees || assignees.length === 0) {
+        return { ok: false, status: 409, error: "Livraison déjà assignée ou plus en attente" };
+    }
+
+    const auteur = { acteur_id: acteur?.id ?? null, acteur_role: acteur?.role ?? "Système" };
+    await enregistrerEvenementsLivraison([
+        { livraison_id: livraison.id, type: "assignee", ...auteur },
+    ]);
+
+    await genererCodeRemise(livraison);
+
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("id, numero, statut")
+        .eq("id", livraison.commande_id)
+        .single();
+
+    if (commande) {
+        await appliquerStatutCommande({
+            commande,
+            statut: "En cours de livraison",
+            roles: ["Administrateur"],
+            acteur,
+            source: "livraison",
+            note: `Livreur assigné : ${livreur.name}`,
+        });
+    }
+
+    return { ok: true };
+}
+
+export interface ResultatDispatch {
+    livraison_id: string;
+    livreur: { id: string; name: string } | null;
+    score: number | null;
+    raisons: string[];
+}
+
+/**
+ * Choisit, assigne et journalise le livreur d'une livraison
+ * `candidats` permet de partager les charges entre plusieurs appels (lot) :
+ * la charge du livreur retenu y est incrémentée.
+ */
+export async function dispatcherLivraison(
+    livraison: LivraisonADispatcher,
+    acteur: Acteur,
+    candidats?: CandidatLivreur[]
+): Promise<{ ok: true; resultat: ResultatDispatch } | Echec> {
+    if (livraison.statut !== "En attente" || livraison.livreur_id) {
+        return { ok: false, status: 409, error: "Livraison déjà assignée ou plus en attente" };
+    }
+
+    const liste = candidats ?? await chargerCandidats();
+    const decision = choisirLivreur(livraison, liste);
+
+    if (decision.livreur) {
+        const assignation = await assignerLivreur(livraison, decision.livreur, acteur);
+        if (!assignation.ok) return assignation;
+        decision.livreur.charge += 1;
+    }
+
+    await journaliserAttribution({
+        livraison_id: livraison.id,
+        livreur_id: decision.livreur?.id ?? null,
+        mode: "auto",
+        score: decision.score,
+        raisons: decision.raisons,
+        candidats: decision.candidats,
+        acteur_id: acteur?.id ?? null,
+    });
+
+    return {
+        ok: true,
+        resultat: {
+            livraison_id: livraison.id,
+            livreur: decision.livreur ? { id: decision.livreur.id, name: decision.livreur.name } : null,
+            score: decision.score,
+            raisons: decision.raisons,
+        },
+    };
+}
+
+export const CHAMPS_DISPATCH = "id, statut, ville, zone_livraison_id, livreur_id, user_id, commande_id";
+
+/**
+ * Assigne toutes les livraisons en attente sans livreur, les plus urgentes
+ * d'abord. Traite au plus `limite` livraisons : un appel suivant reprend les
+ * restantes.
+ */
+export async function dispatcherLivraisonsEnAttente(acteur: Acteur, limite = 100) {
+    const { data: livraisons, error } = await supabaseAdmin
+        .from("livraisons")
+        .select(`${CHAMPS_DISPATCH}, commandes (numero)`)
+        .eq("statut", "En attente")
+        .is("livreur_id", null)
+        .order("date_livraison", { ascending: true })
+        .limit(limite);
+
+    if (error) {
+        throw new Error(`Lecture des livraisons en attente impossible: ${error.message}`);
+    }
+
+    const candidats = await chargerCandidats();
+    const assignees: (ResultatDispatch & { numero: string | null })[] = [];
+    const nonAssignees: (ResultatDispatch & { numero: string | null })[] = [];
+
+    for (const livraison of livraisons || []) {
+        const numero = (livraison.commandes as { numero?: string } | null)?.numero ?? null;
+        const dispatch = await dispatcherLivraison(livraison, acteur, candidats);
+
+        if (!dispatch.ok) {
+            nonAssignees.push({ livraison_id: livraison.id, numero, livreur: null, score: null, raisons: [dispatch.error] });
+        } else if (dispatch.resultat.livreur) {
+            assignees.push({ ...dispatch.resultat, numero });
+        } else {
+            nonAssignees.push({ ...dispatch.resultat, numero });
+        }
+    }
+
+    return { assignees, non_assignees: nonAssignees };
+}
@@ -0,0 +1,390 @@
+// app/lib/encaissements.ts
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierAdministrateurs, notifierUtilisateur } from "./notifications";
+import { appliquerNotificationPaiement, STATUT_PAIEMENT } from "./paiements";
+
+/**
+ * Encaissement des paiements en espèces à la livraison
+ *
+ * Quand le livreur passe une livraison à « Livrée » et que la commande est
+ * payée en espèces, il saisit le montant encaissé. Le montant attendu est le
+ * prix de la sous-commande, plus les frais de livraison de la commande
+ * parente pour le premier encaissement. Le paiement passe à Validé quand
+ * toutes les sous-commandes encore actives ont été encaissées.
+ *
+ * Les espèces restent dans la caisse du livreur jusqu'à leur remise en fin
+ * de journée (fonction SQL declarer_remise_especes) ; un administrateur
+ * confirme ensuite le montant reçu. Tout écart (à l'encaissement ou à la
+ * remise) est signalé aux administrateurs.
+ */
+
+export const STATUTS_REMISE = ["En attente", "Confirmée", "Écart"] as const;
+
+export type StatutRemise = (typeof STATUTS_REMISE)[number];
+
+type Echec = { ok: false; status: number; error: string; details?: string };
+
+export interface EncaissementAttendu {
+    commande: { id: string; numero: string };
+    paiement: { id: string; reference: string; montant: number };
+    racineId: string;
+    montant: number;
+}
+
+export interface Encaissement {
+    id: string;
+    livraison_id: string;
+    commande_id: string;
+    paiement_id: string | null;
+    livreur_id: string;
+    montant_attendu: number;
+    montant: number;
+    remise_id: string | null;
+    created_at: string;
+}
+
+export interface CaisseLivreur {
+    livreur: { id: string; name: string; phone: string | null } | null;
+    livreur_id: string;
+    en_caisse: number;       // espèces encaissées non remises
+    attendu: number;         // ce qu'elles auraient dû être
+    ecart: number;           // en_caisse - attendu
+    nombre: number;
+    depuis: string;          // plus ancien encaissement non remis
+}
+
+export type ResultatRemise = { ok: true; remise: Record<string, unknown> } | Echec;
+
+const SELECT_REMISE = `
+    *,
+    livreur:users!remises_especes_livreur_id_fkey (id, name, phone),
+    confirmateur:users!remises_especes_confirme_par_fkey (id, name)
+`;
+
+// Sous-commandes dont les espèces ne seront jamais encaissées
+const STATUTS_SANS_ENCAISSEMENT = ["Annulée", "Remboursée"];
+
+/**
+ * Référence lisible d'une remise d'espèces, ex. ESP-261019-4F2A9C
+ */
+export function genererReferenceRemise(date = new Date()): string {
+    const jour = date.toISOString().slice(2, 10).replace(/-/g, "");
+    return `ESP-${jour}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+async function chargerRemise(remiseId: string) {
+    const { data } = await supabaseAdmin
+        .from("remises_especes")
+        .select(SELECT_REMISE)
+        .eq("id", remiseId)
+        .single();
+
+    return data;
+}
+
+/**
+ * Montant en espèces à encaisser à la livraison d'une commande, ou null si
+ * elle n'est pas payée en espèces (ou déjà réglée)
+ */
+export async function encaissementAttendu(commandeId: string): Promise<EncaissementAttendu | null> {
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("id, numero, prix, parent_id, frais_livraison, paiement_id")
+        .eq("id", commandeId)
+        .single();
+
+    if (!commande) return null;
+
+    const { data: racine } = commande.parent_id
+        ? await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, prix, parent_id, frais_livraison, paiement_id")
+            .eq("id", commande.parent_id)
+            .single()
+        : { data: commande };
+
+    if (!racine?.paiement_id) return null;
+
+    const { data: paiement } = await supabaseAdmin
+        .from("paiements")
+        .select("id, reference, methode, statut, montant")
+        .eq("id", racine.paiement_id)
+        .single();
+
+    if (!paiement || paiement.methode !== "especes" || paiement.statut !== STATUT_PAIEMENT.EN_ATTENTE) {
+        return null;
+    }
+
+    // Livraison de la commande parente elle-même : tout est encaissé en une fois
+    if (!commande.parent_id) {
+        return {
+            commande: { id: commande.id, numero: commande.numero },
+            paiement: { id: paiement.id, reference: paiement.reference, montant: paiement.montant },
+            racineId: racine.id,
+            montant: paiement.montant,
+        };
+    }
+
+    const { count } = await supabaseAdmin
+        .from("encaissements")
+        .select("id", { count: "exact", head: true })
+        .eq("paiement_id", paiement.id);
+
+    return {
+        commande: { id: commande.id, numero: commande.numero },
+        paiement: { id: paiement.id, reference: paiement.reference, montant: paiement.montant },
+        racineId: racine.id,
+        montant: commande.prix + (count ? 0 : racine.frais_livraison),
+    };
+}
+
+/**
+ * Enregistre les espèces encaissées par le livreur pour une livraison
+ */
+export async function enregistrerEncaissement(params: {
+    livraisonId: string;
+    livreurId: string;
+    attendu: EncaissementAttendu;
+    montant: number;
+}): Promise<{ ok: true; encaissement: Encaissement } | Echec> {
+    const { data: encaissement, error } = await supabaseAdmin
+        .from("encaissements")
+        .insert({
+            livraison_id: params.livraisonId,
+            commande_id: params.attendu.commande.id,
+            paiement_id: params.attendu.paiement.id,
+            livreur_id: params.livreurId,
+            montant_attendu: params.attendu.montant,
+            montant: params.montant,
+            created_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error || !encaissement) {
+        // unique_violation : livraison déjà encaissée
+        if (error?.code === "23505") {
+            return { ok: false, status: 409, error: "Un encaissement est déjà enregistré pour cette livraison" };
+        }
+        console.error("Erreur enregistrement encaissement:", error);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer l'encaissement" };
+    }
+
+    return { ok: true, encaissement: encaissement as Encaissement };
+}
+
+/**
+ * Supprime un encaissement dont la livraison n'a pas pu être mise à jour
+ */
+export async function annulerEncaissement(encaissementId: string) {
+    const { error } = await supabaseAdmin
+        .from("encaissements")
+        .delete()
+        .eq("id", encaissementId)
+        .is("remise_id", null);
+
+    if (error) {
+        console.error("Erreur annulation encaissement:", error);
+    }
+}
+
+/**
+ * Une fois la livraison enregistrée : signale un écart d'encaissement et
+ * valide le paiement en espèces si toutes les sous-commandes actives ont été
+ * encaissées
+ */
+export async function finaliserEncaissement(encaissement: Encaissement, attendu: EncaissementAttendu) {
+    const ecart = encaissement.montant - encaissement.montant_attendu;
+
+    if (ecart !== 0) {
+        await notifierAdministrateurs({
+            type: "systeme",
+            titre: "Écart d'encaissement",
+            message: `Commande ${attendu.commande.numero} : ${encaissement.montant} FCFA encaissés pour ${encaissement.montant_attendu} FCFA attendus (écart ${ecart > 0 ? "+" : ""}${ecart} FCFA).`,
+            lien: "/dashboard/encaissements",
+        });
+    }
+
+    const [{ data: sousCommandes }, { data: encaissements }] = await Promise.all([
+        supabaseAdmin
+            .from("commandes")
+            .select("id, statut")
+            .eq("parent_id", attendu.racineId),
+        supabaseAdmin
+            .from("encaissements")
+            .select("id, commande_id, montant")
+            .eq("paiement_id", attendu.paiement.id),
+    ]);
+
+    const encaissees = new Set((encaissements || []).map((e) => e.commande_id));
+    const aEncaisser = (sousCommandes && sousCommandes.length > 0 ? sousCommandes : [{ id: attendu.racineId, statut: "" }])
+        .filter((c) => !STATUTS_SANS_ENCAISSEMENT.includes(c.statut));
+
+    if (!aEncaisser.every((c) => encaissees.has(c.id))) return;
+
+    try {
+        await appliquerNotificationPaiement("especes", {
+            reference: attendu.paiement.reference,
+            statut: "valide",
+            details: {
+                encaissements: (encaissements || []).map((e) => e.id),
+                montant_encaisse: (encaissements || []).reduce((somme, e) => somme + e.montant, 0),
+            },
+        });
+    } catch (err) {
+        console.error("Erreur validation paiement en espèces:", err);
+    }
+}
+
+/**
+ * Espèces en caisse par livreur (encaissements non encore remis)
+ */
+export async function caissesLivreurs(livreurId?: string): Promise<CaisseLivreur[]> {
+    let query = supabaseAdmin
+        .from("encaissements")
+        .select("livreur_id, montant, montant_attendu, created_at, livreur:users!encaissements_livreur_id_fkey (id, name, phone)")
+        .is("remise_id", null);
+
+    if (livreurId) query = query.eq("livreur_id", livreurId);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Lecture des encaissements impossible: ${error.message}`);
+
+    const caisses = new Map<string, CaisseLivreur>();
+
+    for (const e of (data || []) as unknown as (Encaissement & { livreur: CaisseLivreur["livreur"] })[]) {
+        const caisse = caisses.get(e.livreur_id) ?? {
+            livreur: e.livreur,
+            livreur_id: e.livreur_id,
+            en_caisse: 0,
+            attendu: 0,
+            ecart: 0,
+            nombre: 0,
+            depuis: e.created_at,
+        };
+
+        caisse.en_caisse += e.montant;
+        caisse.attendu += e.montant_attendu;
+        caisse.ecart = caisse.en_caisse - caisse.attendu;
+        caisse.nombre++;
+        if (e.created_at < caisse.depuis) caisse.depuis = e.created_at;
+
+        caisses.set(e.livreur_id, caisse);
+    }
+
+    return [...caisses.values()].sort((a, b) => b.en_caisse - a.en_caisse);
+}
+
+/**
+ * Déclare la remise de toutes les espèces en caisse d'un livreur
+ */
+export async function declarerRemise(demande: {
+    livreur: { id: string; name: string };
+    montantDeclare: number;
+    note?: string | null;
+    acteur: { id: string; role: string };
+}): Promise<ResultatRemise> {
+    const reference = genererReferenceRemise();
+
+    const { data: remiseId, error } = await supabaseAdmin.rpc("declarer_remise_especes", {
+        p_livreur_id: demande.livreur.id,
+        p_reference: reference,
+        p_montant_declare: demande.montantDeclare,
+        p_note: demande.note ?? null,
+    });
+
+    if (error || !remiseId) {
+        if (error?.code === "P0002") {
+            return { ok: false, status: 409, error: "Aucune espèce en caisse à remettre" };
+        }
+        if (error?.code === "23514") {
+            return { ok: false, status: 400, error: "Montant remis invalide", details: error.message };
+        }
+        console.error("Erreur déclaration remise:", error);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer la remise" };
+    }
+
+    const remise = await chargerRemise(remiseId as string);
+
+    if (demande.acteur.role !== "Administrateur" && remise) {
+        const ecart = remise.montant_declare - remise.montant_attendu;
+
+        await notifierAdministrateurs({
+            type: "systeme",
+            titre: "Remise d'espèces à confirmer",
+            message: `${demande.livreur.name} remet ${remise.montant_declare} FCFA (${reference})${ecart !== 0 ? `, pour ${remise.montant_attendu} FCFA encaissés` : ""}.`,
+            lien: "/dashboard/encaissements",
+        });
+    }
+
+    return { ok: true, remise: remise ?? { id: remiseId, reference } };
+}
+
+/**
+ * Confirme le montant reçu d'une remise : Confirmée s'il correspond aux
+ * encaissements remis, Écart sinon
+ */
+export async function confirmerRemise(
+    remiseId: string,
+    reception: { montantRecu: number; note?: string | null },
+    acteur: { id: string; name: string }
+): Promise<ResultatRemise> {
+    const remise = await chargerRemise(remiseId);
+    if (!remise) {
+        return { ok: false, status: 404, error: "Remise introuvable" };
+    }
+
+    if (remise.statut !== "En attente") {
+        return { ok: false, status: 409, error: `Remise ${remise.reference} déjà confirmée (${remise.statut})` };
+    }
+
+    const ecart = reception.montantRecu - remise.montant_attendu;
+    const statut: StatutRemise = ecart === 0 ? "Confirmée" : "Écart";
+    const maintenant = new Date().toISOString();
+
+    const { data: modifiees, error } = await supabaseAdmin
+        .from("remises_especes")
+        .update({
+            montant_recu: reception.montantRecu,
+            statut,
+            note: reception.note ?? remise.note,
+            confirme_par: acteur.id,
+            confirme_at: maintenant,
+            updated_at: maintenant,
+        })
+        .eq("id", remiseId)
+        // Ne confirme que si la remise n'a pas été traitée entre-temps
+        .eq("statut", "En attente")
+        .select("id");
+
+    if (error) {
+        console.error("Erreur confirmation remise:", error);
+        return { ok: false, status: 500, error: "Impossible de confirmer la remise" };
+    }
+
+    if (!modifiees || modifiees.length === 0) {
+        return { ok: false, status: 409, error: `Remise ${remise.reference} déjà confirmée` };
+    }
+
+    await notifierUtilisateur({
+        user_id: remise.livreur_id,
+        type: "systeme",
+        titre: ecart === 0 ? "Remise d'espèces confirmée" : "Écart sur votre remise d'espèces",
+        message: ecart === 0
+            ? `Votre remise ${remise.reference} de ${reception.montantRecu} FCFA a été confirmée.`
+            : `Votre remise ${remise.reference} : ${reception.montantRecu} FCFA reçus pour ${remise.montant_attendu} FCFA encaissés (écart ${ecart > 0 ? "+" : ""}${ecart} FCFA).`,
+    });
+
+    if (ecart !== 0) {
+        const livreur = remise.livreur as { name: string } | null;
+        await notifierAdministrateurs({
+            type: "systeme",
+            titre: "Écart de remise d'espèces",
+            message: `Remise ${remise.reference} de ${livreur?.name ?? "livreur"} : écart de ${ecart > 0 ? "+" : ""}${ecart} FCFA.`,
+            lien: "/dashboard/encaissements",
+        });
+    }
+
+    return { ok: true, remise: (await chargerRemise(remiseId)) ?? remise };
+}
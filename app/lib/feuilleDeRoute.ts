@@ -0,0 +1,320 @@
+// app/lib/feuilleDeRoute.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { encaissementAttendu } from "./encaissements";
+import { enregistrerEvenementsLivraison } from "./livraisonEvenements";
+
+/**
+ * Feuille de route d'un livreur
+ *
+ * Pour une journée, les livraisons du livreur (hors annulées) deviennent des
+ * arrêts : une collecte par boutique (tous ses colis du jour), puis une remise
+ * par livraison, regroupées par ville puis quartier. Le quartier est celui de
+ * la zone de livraison cité dans l'adresse, à défaut le nom de la zone.
+ *
+ * Le livreur peut réordonner ses arrêts et les marquer effectués : seuls ces
+ * choix sont enregistrés (tournee_arrets), la liste des arrêts est recalculée
+ * à chaque lecture. Une collecte reste toujours avant les remises de sa
+ * boutique. Marquer une collecte effectuée ajoute l'étape "colis récupéré" au
+ * suivi de ses livraisons ; une remise est effectuée d'office une fois la
+ * livraison "Livrée" (la clôture exige toujours la preuve de remise).
+ */
+
+export type TypeArret = "collecte" | "remise";
+
+interface ArretBase {
+    cle: string;                // collecte:<boutique_id> ou remise:<livraison_id>
+    type: TypeArret;
+    fait_at: string | null;
+}
+
+export interface ArretCollecte extends ArretBase {
+    type: "collecte";
+    boutique: { id: string; name: string; phone: string | null; adresse: string | null };
+    livraisons: { id: string; numero: string | null }[];
+}
+
+export interface ArretRemise extends ArretBase {
+    type: "remise";
+    ville: string;
+    quartier: string;
+    boutique_id: string | null;
+    livraison: {
+        id: string;
+        numero: string | null;
+        statut: string;
+        adresse: string;
+        details: string;
+        phone: string;
+        client: string | null;
+        date_livraison: string;
+        tentatives: number;         // tentatives échouées
+    };
+    especes: number | null;     // à encaisser (commande payée en espèces), sinon null
+}
+
+export type ArretTournee = ArretCollecte | ArretRemise;
+
+export interface FeuilleDeRoute {
+    date: string;
+    livreur: { id: string; name: string; phone: string | null };
+    arrets: ArretTournee[];
+    especes_total: number;
+}
+
+type Echec = { ok: false; status: number; error: string };
+
+const normaliser = (texte: string) =>
+    texte.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+
+/**
+ * Jour (AAAA-MM-JJ) valide, sinon null
+ */
+export function lireDateTournee(valeur: unknown): string | null {
+    if (typeof valeur !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(valeur)) return null;
+    return isNaN(Date.parse(`${valeur}T00:00:00.000Z`)) ? null : valeur;
+}
+
+/**
+ * Place chaque collecte avant la première remise de sa boutique
+ */
+function collectesDAbord(arrets: ArretTournee[]): ArretTournee[] {
+    const resultat = [...arrets];
+
+    for (const collecte of arrets.filter((a): a is ArretCollecte => a.type === "collecte")) {
+        const position = resultat.indexOf(collecte);
+        const premiereRemise = resultat.findIndex(
+            (a) => a.type === "remise" && a.boutique_id === collecte.boutique.id
+        );
+
+        if (premiereRemise !== -1 && premiereRemise < position) {
+            resultat.splice(position, 1);
+            resultat.splice(premiereRemise, 0, collecte);
+        }
+    }
+
+    return resultat;
+}
+
+/**
+ * Construit la feuille de route d'un livreur pour `date` (AAAA-MM-JJ)
+ */
+export async function construireFeuilleDeRoute(livreurId: string, date: string): Promise<FeuilleDeRoute | null> {
+    const { data: livreur } = await supabaseAdmin
+        .from("users")
+        .select("id, name, phone")
+        .eq("id", livreurId)
+        .eq("role", "Livreur")
+        .single();
+
+    if (!livreur) return null;
+
+    const debut = `${date}T00:00:00.000Z`;
+    const fin = new Date(Date.parse(debut) + 24 * 3600 * 1000).toISOString();
+
+    const [{ data: livraisons, error }, { data: choix }] = await Promise.all([
+        supabaseAdmin
+            .from("livraisons")
+            .select(`
+        id,
+        statut,
+        adresse,
+        details,
+        ville,
+        phone,
+        date_livraison,
+        commande_id,
+        preuve_at,
+        tentatives,
+        users (name),
+        zone_livraison:zones_livraison (nom, quartiers),
+        commandes (numero, vendeur_id, commande_articles (articles (user_id)))
+        `)
+            .eq("livreur_id", livreurId)
+            .neq("statut", "Annulée")
+            .gte("date_livraison", debut)
+            .lt("date_livraison", fin)
+            .order("date_livraison", { ascending: true }),
+        supabaseAdmin
+            .from("tournee_arrets")
+            .select("cle, ordre, fait_at")
+            .eq("livreur_id", livreurId)
+            .eq("date_tournee", date),
+    ]);
+
+    if (error) {
+        throw new Error(`Lecture des livraisons du livreur impossible: ${error.message}`);
+    }
+
+    const lignes = (livraisons || []).map((l) => {
+        const commande = l.commandes as unknown as {
+            numero: string;
+            vendeur_id: string | null;
+            commande_articles: { articles: { user_id: string } | null }[] | null;
+        } | null;
+        const zone = l.zone_livraison as unknown as { nom: string; quartiers: string[] | null } | null;
+        const adresse = normaliser(l.adresse);
+
+        return {
+            livraison: l,
+            numero: commande?.numero ?? null,
+            // Sous-commande : vendeur_id ; commande mono-boutique : auteur des articles
+            boutiqueId: commande?.vendeur_id
+                ?? commande?.commande_articles?.find((ca) => ca.articles)?.articles?.user_id
+                ?? null,
+            quartier: zone?.quartiers?.find((q) => adresse.includes(normaliser(q)))
+                ?? zone?.nom
+                ?? "Autres quartiers",
+        };
+    });
+
+    const boutiqueIds = [...new Set(lignes.map((l) => l.boutiqueId).filter((id): id is string => !!id))];
+    const { data: boutiques } = boutiqueIds.length > 0
+        ? await supabaseAdmin.from("users").select("id, name, phone, address").in("id", boutiqueIds)
+        : { data: [] };
+
+    const especes = await Promise.all(lignes.map(async ({ livraison }) =>
+        livraison.statut === "Livrée" ? null : (await encaissementAttendu(livraison.commande_id))?.montant ?? null
+    ));
+
+    const choixParCle = new Map((choix || []).map((c) => [c.cle, c]));
+
+    const collectes: ArretCollecte[] = (boutiques || [])
+        .map((boutique) => ({
+            cle: `collecte:${boutique.id}`,
+            type: "collecte" as const,
+            fait_at: choixParCle.get(`collecte:${boutique.id}`)?.fait_at ?? null,
+            boutique: { id: boutique.id, name: boutique.name, phone: boutique.phone, adresse: boutique.address },
+            livraisons: lignes
+                .filter((l) => l.boutiqueId === boutique.id)
+                .map((l) => ({ id: l.livraison.id, numero: l.numero })),
+        }))
+        .sort((a, b) => a.boutique.name.localeCompare(b.boutique.name));
+
+    const remises: ArretRemise[] = lignes
+        .map((ligne, index) => ({
+            cle: `remise:${ligne.livraison.id}`,
+            type: "remise" as const,
+            // Une livraison remise au client vaut arrêt effectué
+            fait_at: choixParCle.get(`remise:${ligne.livraison.id}`)?.fait_at
+                ?? (ligne.livraison.statut === "Livrée" ? ligne.livraison.preuve_at ?? ligne.livraison.date_livraison : null),
+            ville: ligne.livraison.ville,
+            quartier: ligne.quartier,
+            boutique_id: ligne.boutiqueId,
+            livraison: {
+                id: ligne.livraison.id,
+                numero: ligne.numero,
+                statut: ligne.livraison.statut,
+                adresse: ligne.livraison.adresse,
+                details: ligne.livraison.details,
+                phone: ligne.livraison.phone,
+                client: (ligne.livraison.users as unknown as { name: string } | null)?.name ?? null,
+                date_livraison: ligne.livraison.date_livraison,
+                tentatives: ligne.livraison.tentatives,
+            },
+            especes: especes[index],
+        }))
+        // Tournée par défaut : ville, puis quartier, puis heure prévue
+        .sort((a, b) =>
+            normaliser(a.ville).localeCompare(normaliser(b.ville))
+            || a.quartier.localeCompare(b.quartier)
+            || a.livraison.date_livraison.localeCompare(b.livraison.date_livraison)
+        );
+
+    // Ordre choisi par le livreur ; un arrêt apparu depuis garde sa place par défaut, après
+    const parDefaut: ArretTournee[] = [...collectes, ...remises];
+    const rang = (arret: ArretTournee) =>
+        choixParCle.get(arret.cle)?.ordre ?? parDefaut.length + parDefaut.indexOf(arret);
+
+    return {
+        date,
+        livreur,
+        arrets: collectesDAbord([...parDefaut].sort((a, b) => rang(a) - rang(b))),
+        especes_total: remises.reduce((total, r) => total + (r.especes ?? 0), 0),
+    };
+}
+
+/**
+ * Enregistre l'ordre des arrêts choisi par le livreur
+ * `cles` doit reprendre exactement les arrêts de la feuille, collectes avant
+ * les remises de leur boutique.
+ */
+export async function ordonnerArrets(
+    feuille: FeuilleDeRoute,
+    cles: string[]
+): Promise<{ ok: true } | Echec> {
+    const attendues = feuille.arrets.map((a) => a.cle);
+
+    if (cles.length !== attendues.length || new Set(cles).size !== cles.length || !cles.every((c) => attendues.includes(c))) {
+        return { ok: false, status: 409, error: "La feuille de route a changé : rechargez-la avant de réordonner" };
+    }
+
+    const arrets = cles.map((cle) => feuille.arrets.find((a) => a.cle === cle) as ArretTournee);
+    if (collectesDAbord(arrets).some((arret, index) => arret !== arrets[index])) {
+        return { ok: false, status: 400, error: "Une collecte doit précéder les remises de sa boutique" };
+    }
+
+    const maintenant = new Date().toISOString();
+    const { error } = await supabaseAdmin
+        .from("tournee_arrets")
+        .upsert(cles.map((cle, ordre) => ({
+            livreur_id: feuille.livreur.id,
+            date_tournee: feuille.date,
+            cle,
+            ordre,
+            updated_at: maintenant,
+        })), { onConflict: "livreur_id,date_tournee,cle" });
+
+    if (error) {
+        console.error("Erreur ordre des arrêts:", error);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer l'ordre des arrêts" };
+    }
+
+    return { ok: true };
+}
+
+/**
+ * Marque un arrêt effectué (ou le rouvre)
+ */
+export async function marquerArret(
+    feuille: FeuilleDeRoute,
+    cle: string,
+    fait: boolean,
+    acteur: { id: string; role: string }
+): Promise<{ ok: true } | Echec> {
+    const arret = feuille.arrets.find((a) => a.cle === cle);
+    if (!arret) {
+        return { ok: false, status: 404, error: "Arrêt introuvable sur cette feuille de route" };
+    }
+
+    const maintenant = new Date().toISOString();
+    const { error } = await supabaseAdmin
+        .from("tournee_arrets")
+        .upsert({
+            livreur_id: feuille.livreur.id,
+            date_tournee: feuille.date,
+            cle,
+            fait_at: fait ? maintenant : null,
+            updated_at: maintenant,
+        }, { onConflict: "livreur_id,date_tournee,cle" });
+
+    if (error) {
+        console.error("Erreur arrêt de tournée:", error);
+        return { ok: false, status: 500, error: "Impossible de mettre à jour l'arrêt" };
+    }
+
+    if (fait && !arret.fait_at && arret.type === "collecte") {
+        const ouvertes = arret.livraisons.filter((l) => {
+            const remise = feuille.arrets.find((a) => a.cle === `remise:${l.id}`) as ArretRemise | undefined;
+            return remise && remise.livraison.statut !== "Livrée";
+        });
+
+        await enregistrerEvenementsLivraison(ouvertes.map((l) => ({
+            livraison_id: l.id,
+            type: "recuperee" as const,
+            acteur_id: acteur.id,
+            acteur_role: acteur.role,
+        })));
+    }
+
+    return { ok: true };
+}
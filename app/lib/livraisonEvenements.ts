@@ -0,0 +1,138 @@
+// app/lib/livraisonEvenements.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Suivi des livraisons
+ *
+ * livraisons.statut ne garde que l'état courant : chaque étape est en plus
+ * enregistrée dans livraison_evenements, avec sa date et son auteur. Les
+ * changements de statut (création, assignation, livraison, report,
+ * annulation) sont tracés par les routes /api/livraisons ; le livreur saisit
+ * lui-même les étapes intermédiaires (colis récupéré, en route) via
+ * /api/livraisons/{id}/evenements, et les tentatives échouées, avec leur
+ * motif, via /api/livraisons/{id}/tentatives.
+ *
+ * La chronologie est consultable sans connexion sur /suivi, sans nom, adresse
+ * ni téléphone : seuls le type d'étape, la date et le rôle de l'auteur sont
+ * exposés.
+ */
+
+export const TYPES_EVENEMENT_LIVRAISON = [
+    "creee",
+    "assignee",
+    "recuperee",
+    "en_transit",
+    "tentative_echouee",
+    "reportee",
+    "livree",
+    "annulee",
+] as const;
+
+export type TypeEvenementLivraison = (typeof TYPES_EVENEMENT_LIVRAISON)[number];
+
+/**
+ * Étapes saisies par le livreur, sans changement de statut de la livraison
+ */
+export const EVENEMENTS_LIVREUR = ["recuperee", "en_transit"] as const;
+
+export const LIBELLES_EVENEMENT_LIVRAISON: Record<TypeEvenementLivraison, string> = {
+    creee: "Livraison programmée",
+    assignee: "Livreur assigné",
+    recuperee: "Colis récupéré auprès de la boutique",
+    en_transit: "Colis en route",
+    tentative_echouee: "Tentative de livraison échouée",
+    reportee: "Livraison reportée",
+    livree: "Colis livré",
+    annulee: "Livraison annulée",
+};
+
+const EVENEMENT_PAR_STATUT: Record<string, TypeEvenementLivraison> = {
+    "En cours de livraison": "en_transit",
+    "Livrée": "livree",
+    "Annulée": "annulee",
+    "Reportée": "reportee",
+};
+
+/**
+ * Événement correspondant au passage d'une livraison à `statut`
+ * (null pour "En attente", qui n'est pas une étape du suivi)
+ */
+export function evenementPourStatut(statut: string): TypeEvenementLivraison | null {
+    return EVENEMENT_PAR_STATUT[statut] ?? null;
+}
+
+export interface NouvelEvenementLivraison {
+    livraison_id: string;
+    type: TypeEvenementLivraison;
+    acteur_id?: string | null;
+    acteur_role?: string | null;
+    note?: string | null;
+}
+
+export interface EvenementLivraison {
+    id: string;
+    livraison_id: string;
+    type: TypeEvenementLivraison;
+    acteur_id: string | null;
+    acteur_role: string | null;
+    note: string | null;
+    created_at: string;
+}
+
+/**
+ * Enregistre une ou plusieurs étapes du suivi
+ *
+ * Comme l'historique des commandes, le suivi ne doit jamais faire échouer
+ * l'opération principale : en cas d'erreur, on la journalise et on continue.
+ */
+export async function enregistrerEvenementsLivraison(evenements: NouvelEvenementLivraison[]) {
+    if (evenements.length === 0) return;
+
+    const maintenant = Date.now();
+    const { error } = await supabaseAdmin
+        .from("livraison_evenements")
+        .insert(evenements.map((evenement, index) => ({
+            livraison_id: evenement.livraison_id,
+            type: evenement.type,
+            acteur_id: evenement.acteur_id ?? null,
+            acteur_role: evenement.acteur_role ?? null,
+            note: evenement.note ?? null,
+            // Plusieurs étapes simultanées (assignation puis départ) restent ordonnées
+            created_at: new Date(maintenant + index).toISOString(),
+        })));
+
+    if (error) {
+        console.error("Erreur enregistrement événement livraison:", error);
+    }
+}
+
+/**
+ * Chronologie de plusieurs livraisons, de la plus ancienne étape à la plus récente
+ */
+export async function chargerEvenementsLivraisons(livraisonIds: string[]): Promise<EvenementLivraison[]> {
+    if (livraisonIds.length === 0) return [];
+
+    const { data, error } = await supabaseAdmin
+        .from("livraison_evenements")
+        .select("id, livraison_id, type, acteur_id, acteur_role, note, created_at")
+        .in("livraison_id", livraisonIds)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw new Error(`Lecture du suivi des livraisons impossible: ${error.message}`);
+    }
+
+    return (data || []) as EvenementLivraison[];
+}
+
+/**
+ * Auteur d'une étape tel qu'affiché publiquement : le rôle, jamais la personne
+ */
+export function acteurPublic(role: string | null): string {
+    switch (role) {
+        case "Livreur": return "Livreur";
+        case "Boutique": return "Boutique";
+        case "Administrateur": return "Service client";
+        default: return "Ewuang";
+    }
+}
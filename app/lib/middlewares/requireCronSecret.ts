@@ -0,0 +1,32 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Protège les routes appelées par un planificateur (cron) : le secret
+ * CRON_SECRET doit être transmis dans l'en-tête Authorization
+ * ("Bearer <secret>", convention des crons Vercel) ou x-cron-secret.
+ * Sans CRON_SECRET configuré, la route est fermée.
+ */
+export function requireCronSecret(req: NextApiRequest, res: NextApiResponse): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        console.error("[requireCronSecret] CRON_SECRET non configuré");
+        res.status(503).json({ error: "Tâche planifiée non configurée" });
+        return false;
+    }
+
+    const header = req.headers["x-cron-secret"];
+    const fourni = req.headers.authorization?.replace("Bearer ", "")
+        ?? (Array.isArray(header) ? header[0] : header)
+        ?? "";
+
+    const attendu = Buffer.from(secret);
+    const recu = Buffer.from(fourni);
+
+    if (attendu.length !== recu.length || !timingSafeEqual(attendu, recu)) {
+        res.status(401).json({ error: "Non autorisé" });
+        return false;
+    }
+
+    return true;
+}
@@ -0,0 +1,158 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { createHash } from "crypto";
+import { supabaseAdmin } from "../supabaseAdmin";
+
+/**
+ * Support de l'en-tête Idempotency-Key pour les requêtes qui ne doivent
+ * s'exécuter qu'une fois (création de commande, paiements, soldes).
+ *
+ * Une requête rejouée par le même utilisateur avec la même clé, dans la
+ * fenêtre de validité, reçoit la réponse d'origine sans être ré-exécutée.
+ * Les conflits (409) et erreurs serveur (5xx) libèrent la clé pour qu'un
+ * nouvel essai soit possible, de même qu'une réponse envoyée sans passer par
+ * res.json (erreur non interceptée du handler). Une réservation restée sans
+ * réponse au-delà de DELAI_ABANDON_MINUTES (processus arrêté en cours de
+ * traitement) est considérée comme abandonnée et reprise par le nouvel essai.
+ * Sans en-tête, la requête s'exécute normalement.
+ */
+
+const DUREE_VALIDITE_HEURES = Number(process.env.IDEMPOTENCY_TTL_HEURES) || 24;
+
+const DELAI_ABANDON_MINUTES = Math.max(Number(process.env.IDEMPOTENCY_ABANDON_MINUTES ?? 5) || 0, 1);
+
+function empreinteRequete(req: NextApiRequest, portee: string): string {
+    return createHash("sha256")
+        .update(JSON.stringify({ portee, method: req.method, query: req.query, body: req.body ?? null }))
+        .digest("hex");
+}
+
+function estConserve(statut: number): boolean {
+    return statut < 500 && statut !== 409;
+}
+
+/**
+ * À appeler après requireUserAuth. Retourne false si la réponse a déjà été
+ * envoyée (réponse rejouée, requête en cours ou clé réutilisée) : le handler
+ * doit alors s'arrêter.
+ *
+ * @param portee identifiant de la route protégée, ex. "commandes/create"
+ */
+export async function requireIdempotency(
+    req: NextApiRequest,
+    res: NextApiResponse,
+    { userId, portee }: { userId: string; portee: string }
+): Promise<boolean> {
+    const header = req.headers["idempotency-key"];
+    const cle = Array.isArray(header) ? header[0] : header;
+    if (!cle) return true;
+
+    if (cle.length > 255) {
+        res.status(400).json({ error: "Idempotency-Key trop longue (255 caractères max.)" });
+        return false;
+    }
+
+    const empreinte = empreinteRequete(req, portee);
+
+    // Réserver la clé : la contrainte unique (user_id, cle) départage les requêtes simultanées
+    const reserver = () =>
+        supabaseAdmin
+            .from("idempotency_keys")
+            .insert({ cle, user_id: userId, portee, empreinte })
+            .select("id")
+            .single();
+
+    let { data: reservation, error } = await reserver();
+
+    if (error?.code === "23505") {
+        const { data: existante } = await supabaseAdmin
+            .from("idempotency_keys")
+            .select("*")
+            .eq("user_id", userId)
+            .eq("cle", cle)
+            .single();
+
+        const creee = existante ? new Date(existante.created_at).getTime() : 0;
+        const expiree = creee < Date.now() - DUREE_VALIDITE_HEURES * 3600 * 1000;
+        const abandonnee = creee < Date.now() - DELAI_ABANDON_MINUTES * 60 * 1000;
+
+        if (existante && !expiree) {
+            if (existante.portee !== portee || existante.empreinte !== empreinte) {
+                res.status(422).json({
+                    error: "Cette Idempotency-Key a déjà été utilisée pour une autre requête",
+                });
+                return false;
+            }
+
+            if (existante.statut_http !== null) {
+                res.setHeader("Idempotent-Replayed", "true");
+                res.status(existante.statut_http).json(existante.reponse);
+                return false;
+            }
+        }
+
+        if (existante && (expiree || abandonnee)) {
+            // Clé expirée ou réservation abandonnée : on la recycle. La réponse
+            // d'une requête qui aboutirait entre-temps n'est pas effacée.
+            let recyclage = supabaseAdmin.from("idempotency_keys").delete().eq("id", existante.id);
+            if (!expiree) recyclage = recyclage.is("statut_http", null);
+            await recyclage;
+            ({ data: reservation, error } = await reserver());
+        }
+
+        // Requête en cours, ou reprise gagnée par un essai simultané
+        if (existante && error?.code === "23505") {
+            res.status(409).json({
+                error: "Une requête avec cette Idempotency-Key est déjà en cours de traitement",
+            });
+            return false;
+        }
+    }
+
+    if (error || !reservation) {
+        // La clé ne doit pas bloquer la requête si la table est indisponible
+        console.error("[requireIdempotency] Réservation impossible:", error);
+        return true;
+    }
+
+    const reservationId = reservation.id;
+    let repondu = false;
+
+    const liberer = () =>
+        supabaseAdmin
+            .from("idempotency_keys")
+            .delete()
+            .eq("id", reservationId);
+
+    // Réponse envoyée sans res.json (erreur non interceptée du handler) : la
+    // clé est libérée plutôt que de rester réservée sans réponse
+    res.once("finish", () => {
+        if (repondu) return;
+        Promise.resolve(liberer()).then(({ error: releaseError }) => {
+            if (releaseError) console.error("[requireIdempotency] Libération impossible:", releaseError);
+        });
+    });
+
+    // Mémoriser la réponse avant de l'envoyer, pour qu'un nouvel essai
+    // arrivant juste après la reçoive à coup sûr
+    const envoyer = res.json.bind(res);
+    res.json = (corps: unknown) => {
+        const statut = res.statusCode;
+        repondu = true;
+        const enregistrement = estConserve(statut)
+            ? supabaseAdmin
+                .from("idempotency_keys")
+                .update({ statut_http: statut, reponse: corps ?? null })
+                .eq("id", reservationId)
+            : liberer();
+
+        Promise.resolve(enregistrement)
+            .then(({ error: saveError }) => {
+                if (saveError) console.error("[requireIdempotency] Enregistrement impossible:", saveError);
+            })
+            .finally(() => envoyer(corps));
+
+        return res;
+    };
+
+    return true;
+}
@@ -0,0 +1,82 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { createHash } from "crypto";
+import { supabaseAdmin } from "../supabaseAdmin";
+
+/**
+ * Limite de débit des routes publiques (sans authentification).
+ *
+ * Chaque requête est comptée dans limites_requetes par (portee, cle) : au-delà
+ * de `limite` requêtes sur la fenêtre glissante, la route répond 429 avec un
+ * en-tête Retry-After. Les instances serverless ne partagent pas leur mémoire,
+ * d'où le comptage en base. Si la table est indisponible, la requête passe.
+ */
+
+export interface LimiteDebit {
+    cle: string;
+    limite: number;
+    fenetreMinutes: number;
+}
+
+/**
+ * Empreinte de l'adresse IP du client : l'adresse elle-même n'est pas conservée
+ */
+export function empreinteClient(req: NextApiRequest): string {
+    const header = req.headers["x-forwarded-for"];
+    const transmise = Array.isArray(header) ? header[0] : header;
+    const adresse = transmise?.split(",")[0].trim() || req.socket.remoteAddress || "inconnue";
+
+    return createHash("sha256").update(adresse).digest("hex");
+}
+
+/**
+ * Retourne false si la réponse 429 a déjà été envoyée : le handler doit
+ * alors s'arrêter. Toutes les limites sont vérifiées avant d'en compter une.
+ *
+ * @param portee identifiant de la route protégée, ex. "suivi"
+ */
+export async function requireRateLimit(
+    req: NextApiRequest,
+    res: NextApiResponse,
+    { portee, limites }: { portee: string; limites: LimiteDebit[] }
+): Promise<boolean> {
+    try {
+        const comptes = await Promise.all(limites.map(async (limite) => {
+            const depuis = new Date(Date.now() - limite.fenetreMinutes * 60 * 1000).toISOString();
+
+            // Purge au fil de l'eau des requêtes sorties de la fenêtre
+            await supabaseAdmin
+                .from("limites_requetes")
+                .delete()
+                .eq("portee", portee)
+                .eq("cle", limite.cle)
+                .lt("created_at", depuis);
+
+            const { count, error } = await supabaseAdmin
+                .from("limites_requetes")
+                .select("id", { count: "exact", head: true })
+                .eq("portee", portee)
+                .eq("cle", limite.cle)
+                .gte("created_at", depuis);
+
+            if (error) throw error;
+            return count ?? 0;
+        }));
+
+        const depassee = limites.find((limite, index) => comptes[index] >= limite.limite);
+        if (depassee) {
+            res.setHeader("Retry-After", String(depassee.fenetreMinutes * 60));
+            res.status(429).json({ error: "Trop de requêtes. Réessayez dans quelques minutes." });
+            return false;
+        }
+
+        const { error } = await supabaseAdmin
+            .from("limites_requetes")
+            .insert(limites.map((limite) => ({ portee, cle: limite.cle })));
+
+        if (error) throw error;
+    } catch (err) {
+        console.error("[requireRateLimit] Comptage impossible:", err);
+    }
+
+    return true;
+}
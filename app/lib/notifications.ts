@@ -0,0 +1,66 @@
+// app/lib/notifications.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Types de notification (voir /api/notifications/send)
+ */
+export type TypeNotification =
+    | "commande"
+    | "livraison"
+    | "message"
+    | "promotion"
+    | "alerte_stock"
+    | "avis"
+    | "systeme";
+
+export interface NouvelleNotification {
+    user_id: string;
+    type: TypeNotification;
+    titre: string;
+    message: string;
+    lien?: string | null;
+}
+
+/**
+ * Envoie une notification in-app à un utilisateur
+ *
+ * Comme l'historique des commandes, une notification ne doit jamais faire
+ * échouer l'opération qui la déclenche : l'erreur est journalisée.
+ */
+export async function notifierUtilisateur(notification: NouvelleNotification) {
+    const { error } = await supabaseAdmin
+        .from("notifications")
+        .insert({
+            user_id: notification.user_id,
+            type: notification.type,
+            titre: notification.titre,
+            message: notification.message,
+            lien: notification.lien ?? null,
+            is_read: false,
+            created_at: new Date().toISOString(),
+        });
+
+    if (error) {
+        console.error("Erreur envoi notification:", error);
+    }
+}
+
+/**
+ * Envoie la même notification à tous les administrateurs actifs
+ */
+export async function notifierAdministrateurs(notification: Omit<NouvelleNotification, "user_id">) {
+    const { data: admins, error } = await supabaseAdmin
+        .from("users")
+        .select("id")
+        .eq("role", "Administrateur")
+        .eq("is_active", true);
+
+    if (error) {
+        console.error("Erreur récupération administrateurs:", error);
+        return;
+    }
+
+    for (const admin of admins || []) {
+        await notifierUtilisateur({ ...notification, user_id: admin.id });
+    }
+}
@@ -0,0 +1,109 @@
+// app/lib/numeroCommande.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Numéros de commande
+ *
+ * Le numéro séquentiel vient d'un compteur par année en base
+ * (prochain_numero_commande), donc unique même pour des checkouts simultanés ;
+ * commandes.numero porte en plus une contrainte d'unicité.
+ *
+ * Le format est configurable par variables d'environnement :
+ * - FORMAT_NUMERO_COMMANDE (défaut "CMD-{AA}-{SEQ}")
+ *   {AAAA} année, {AA} année sur 2 chiffres, {SEQ} numéro sur 5 chiffres
+ *   ({SEQ:6} pour 6 chiffres) ; {SEQ} et l'année ({AA} ou {AAAA}) sont
+ *   obligatoires, sinon le format par défaut s'applique ;
+ * - FORMAT_NUMERO_SOUS_COMMANDE (défaut "{NUMERO}-{N}")
+ *   {NUMERO} numéro de la commande parente, {N} rang de la boutique,
+ *   {BOUTIQUE} préfixe tiré du nom de la boutique, ex. "{BOUTIQUE}-{NUMERO}-{N}".
+ */
+
+const FORMAT_COMMANDE_DEFAUT = "CMD-{AA}-{SEQ}";
+const FORMAT_SOUS_COMMANDE_DEFAUT = "{NUMERO}-{N}";
+
+// Sans ces jetons, deux commandes pourraient recevoir le même numéro
+function formatValide(format: string | undefined, jetons: RegExp[], defaut: string): string {
+    if (!format) return defaut;
+    if (jetons.every((jeton) => jeton.test(format))) return format;
+
+    console.warn(`[numeroCommande] Format "${format}" ignoré : jetons obligatoires absents`);
+    return defaut;
+}
+
+const FORMAT_COMMANDE = formatValide(
+    process.env.FORMAT_NUMERO_COMMANDE,
+    // Le compteur repart à 1 chaque année : l'année est indispensable
+    [/\{SEQ(:\d+)?\}/, /\{AA(AA)?\}/],
+    FORMAT_COMMANDE_DEFAUT
+);
+
+const FORMAT_SOUS_COMMANDE = formatValide(
+    process.env.FORMAT_NUMERO_SOUS_COMMANDE,
+    [/\{NUMERO\}/, /\{N\}/],
+    FORMAT_SOUS_COMMANDE_DEFAUT
+);
+
+/**
+ * Préfixe d'une boutique pour les numéros de sous-commande : 4 premières
+ * lettres ou chiffres de son nom, sans accents, en majuscules
+ */
+export function prefixeBoutique(nom: string | null | undefined): string {
+    const prefixe = (nom ?? "")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-zA-Z0-9]/g, "")
+        .toUpperCase()
+        .slice(0, 4);
+
+    return prefixe || "BTQ";
+}
+
+/**
+ * Attribue le prochain numéro de commande de l'année
+ * Lève une erreur si le compteur est inaccessible (pas de numéro de secours,
+ * qui pourrait entrer en collision).
+ */
+export async function genererNumeroCommande(date = new Date()): Promise<string> {
+    const annee = date.getFullYear();
+
+    const { data: sequence, error } = await supabaseAdmin.rpc("prochain_numero_commande", {
+        p_annee: annee,
+    });
+
+    if (error || typeof sequence !== "number") {
+        throw new Error(`Attribution du numéro de commande impossible: ${error?.message ?? "réponse invalide"}`);
+    }
+
+    return FORMAT_COMMANDE
+        .replace(/\{AAAA\}/g, String(annee))
+        .replace(/\{AA\}/g, String(annee).slice(-2))
+        .replace(/\{SEQ(?::(\d+))?\}/g, (_, largeur) =>
+            String(sequence).padStart(Number(largeur ?? 5), "0")
+        );
+}
+
+/**
+ * Numéros des sous-commandes d'une commande, une par boutique (dans l'ordre donné)
+ */
+export async function genererNumerosSousCommandes(
+    numero: string,
+    boutiqueIds: string[]
+): Promise<string[]> {
+    let noms = new Map<string, string>();
+
+    if (FORMAT_SOUS_COMMANDE.includes("{BOUTIQUE}")) {
+        const { data: boutiques } = await supabaseAdmin
+            .from("users")
+            .select("id, name")
+            .in("id", boutiqueIds);
+
+        noms = new Map((boutiques || []).map((b) => [b.id, b.name]));
+    }
+
+    return boutiqueIds.map((boutiqueId, index) =>
+        FORMAT_SOUS_COMMANDE
+            .replace(/\{NUMERO\}/g, numero)
+            .replace(/\{N\}/g, String(index + 1))
+            .replace(/\{BOUTIQUE\}/g, prefixeBoutique(noms.get(boutiqueId)))
+    );
+}
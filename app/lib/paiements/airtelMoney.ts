@@ -0,0 +1,114 @@
+// app/lib/paiements/airtelMoney.ts
+import {
+    lireJson,
+    normaliserTelephone,
+    signatureValide,
+    type FournisseurPaiement,
+} from "./fournisseur";
+
+/**
+ * Airtel Money (API Collection d'Airtel Africa) : l'acheteur reçoit une demande
+ * USSD sur son téléphone, le résultat arrive ensuite sur le webhook.
+ *
+ * Variables : AIRTEL_API_URL, AIRTEL_CLIENT_ID, AIRTEL_CLIENT_SECRET,
+ * AIRTEL_WEBHOOK_SECRET, AIRTEL_PAYS (GA), AIRTEL_DEVISE (XAF).
+ */
+
+const API_URL = process.env.AIRTEL_API_URL || "https://openapi.airtel.africa";
+const PAYS = process.env.AIRTEL_PAYS || "GA";
+const DEVISE = process.env.AIRTEL_DEVISE || "XAF";
+
+let jeton: { valeur: string; expireA: number } | null = null;
+
+async function obtenirJeton(): Promise<string> {
+    if (jeton && jeton.expireA > Date.now()) return jeton.valeur;
+
+    const response = await fetch(`${API_URL}/auth/oauth2/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+            client_id: process.env.AIRTEL_CLIENT_ID,
+            client_secret: process.env.AIRTEL_CLIENT_SECRET,
+            grant_type: "client_credentials",
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Authentification Airtel Money refusée (${response.status})`);
+    }
+
+    const data = await response.json();
+    // Marge d'une minute avant l'expiration annoncée
+    jeton = {
+        valeur: data.access_token,
+        expireA: Date.now() + (Number(data.expires_in) - 60) * 1000,
+    };
+    return jeton.valeur;
+}
+
+export const airtelMoney: FournisseurPaiement = {
+    methode: "airtel_money",
+    libelle: "Airtel Money",
+    telephoneRequis: true,
+
+    async initier(demande) {
+        const response = await fetch(`${API_URL}/merchant/v1/payments/`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${await obtenirJeton()}`,
+                "X-Country": PAYS,
+                "X-Currency": DEVISE,
+            },
+            body: JSON.stringify({
+                reference: demande.description,
+                subscriber: {
+                    country: PAYS,
+                    currency: DEVISE,
+                    msisdn: normaliserTelephone(demande.telephone ?? ""),
+                },
+                transaction: {
+                    amount: demande.montant,
+                    country: PAYS,
+                    currency: DEVISE,
+                    id: demande.reference,
+                },
+            }),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok || !data?.status?.success) {
+            return {
+                statut: "echoue",
+                message: data?.status?.message || "Airtel Money a refusé la demande de paiement",
+                details: { reponse: data },
+            };
+        }
+
+        return {
+            statut: "en_attente",
+            transaction_id: data.data?.transaction?.id ?? null,
+            message: "Validez le paiement avec votre code secret Airtel Money sur votre téléphone",
+            details: { reponse: data },
+        };
+    },
+
+    lireNotification(requete) {
+        if (!signatureValide(requete, process.env.AIRTEL_WEBHOOK_SECRET)) return null;
+
+        const corps = lireJson(requete.corps);
+        const transaction = corps?.transaction as
+            | { id?: string; status_code?: string; airtel_money_id?: string; message?: string }
+            | undefined;
+        if (!transaction?.id) return null;
+
+        // TS = transaction réussie, TF = transaction échouée
+        return {
+            reference: transaction.id,
+            statut: transaction.status_code === "TS" ? "valide" : "echoue",
+            transaction_id: transaction.airtel_money_id ?? null,
+            details: { message: transaction.message, status_code: transaction.status_code },
+        };
+    },
+};
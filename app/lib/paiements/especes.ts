@@ -0,0 +1,19 @@
+// app/lib/paiements/especes.ts
+import type { FournisseurPaiement } from "./fournisseur";
+
+/**
+ * Paiement en espèces à la livraison : rien n'est débité à la commande,
+ * le paiement reste en attente jusqu'à l'encaissement par le livreur.
+ */
+export const especes: FournisseurPaiement = {
+    methode: "especes",
+    libelle: "Espèces à la livraison",
+    telephoneRequis: false,
+
+    async initier() {
+        return {
+            statut: "en_attente",
+            message: "Vous réglerez le montant en espèces au livreur",
+        };
+    },
+};
@@ -0,0 +1,97 @@
+// app/lib/paiements/fournisseur.ts
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Contrat commun des fournisseurs de paiement (Airtel Money, Moov Money,
+ * espèces à la livraison, simulateur local) et utilitaires partagés.
+ */
+
+export const METHODES_PAIEMENT = ["airtel_money", "moov_money", "especes", "mock"] as const;
+
+export type MethodePaiement = (typeof METHODES_PAIEMENT)[number];
+
+/**
+ * Valeurs de l'enum Postgres paiement_statut
+ */
+export const STATUT_PAIEMENT = {
+    EN_ATTENTE: "En attente",
+    VALIDE: "Validé",
+    ECHOUE: "Echoué",
+    REMBOURSE: "Remboursée",
+} as const;
+
+export interface DemandePaiement {
+    reference: string;       // paiements.reference, renvoyée par le fournisseur dans le webhook
+    montant: number;         // FCFA
+    telephone: string | null;
+    description: string;
+}
+
+export interface ResultatInitiation {
+    statut: "en_attente" | "valide" | "echoue";
+    transaction_id?: string | null;
+    message?: string;        // instruction ou erreur à afficher à l'acheteur
+    details?: Record<string, unknown>;
+}
+
+export interface NotificationPaiement {
+    reference: string;
+    statut: "valide" | "echoue";
+    transaction_id?: string | null;
+    details?: Record<string, unknown>;
+}
+
+export interface RequeteWebhook {
+    headers: Record<string, string | string[] | undefined>;
+    corps: string;           // corps brut, tel que signé par le fournisseur
+}
+
+export interface FournisseurPaiement {
+    methode: MethodePaiement;
+    libelle: string;
+    telephoneRequis: boolean;
+    initier(demande: DemandePaiement): Promise<ResultatInitiation>;
+    /**
+     * Vérifie la signature du webhook et en extrait le résultat ;
+     * null si la signature est invalide ou le contenu illisible.
+     * Absent pour les méthodes sans confirmation externe (espèces).
+     */
+    lireNotification?(requete: RequeteWebhook): NotificationPaiement | null;
+}
+
+/**
+ * Signature HMAC-SHA256 (hex) d'un corps de webhook
+ */
+export function signerCorps(corps: string, secret: string): string {
+    return createHmac("sha256", secret).update(corps).digest("hex");
+}
+
+/**
+ * Compare la signature reçue (en-tête X-Signature) à celle attendue, en temps constant
+ */
+export function signatureValide(requete: RequeteWebhook, secret: string | undefined): boolean {
+    const header = requete.headers["x-signature"];
+    const signature = Array.isArray(header) ? header[0] : header;
+    if (!secret || !signature) return false;
+
+    const attendue = Buffer.from(signerCorps(requete.corps, secret), "hex");
+    const recue = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+
+    return attendue.length === recue.length && timingSafeEqual(attendue, recue);
+}
+
+/**
+ * Numéro gabonais sans indicatif ni séparateurs, ex. "+241 077 12 34 56" → "077123456"
+ */
+export function normaliserTelephone(telephone: string): string {
+    return telephone.replace(/\D/g, "").replace(/^(00)?241/, "");
+}
+
+export function lireJson(corps: string): Record<string, unknown> | null {
+    try {
+        const valeur = JSON.parse(corps);
+        return valeur && typeof valeur === "object" ? valeur : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,173 @@
+// app/lib/paiements/index.ts
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "../supabaseAdmin";
+import { notifierAdministrateurs, notifierUtilisateur } from "../notifications";
+import { airtelMoney } from "./airtelMoney";
+import { moovMoney } from "./moovMoney";
+import { especes } from "./especes";
+import { mock, mockActive } from "./mock";
+import {
+    STATUT_PAIEMENT,
+    type FournisseurPaiement,
+    type MethodePaiement,
+    type NotificationPaiement,
+} from "./fournisseur";
+
+export * from "./fournisseur";
+
+/**
+ * Paiements des commandes
+ *
+ * Une commande acheteur (parente) peut avoir plusieurs tentatives de paiement
+ * (paiements.commande_id) ; commandes.paiement_id désigne celle qui l'a réglée,
+ * posée quand le fournisseur confirme le paiement (ou dès le choix des espèces).
+ * Une tentative mobile money remplacée reste en attente : l'acheteur peut encore
+ * la valider sur son téléphone, et sa confirmation tardive est enregistrée.
+ */
+
+const FOURNISSEURS: Record<MethodePaiement, FournisseurPaiement> = {
+    airtel_money: airtelMoney,
+    moov_money: moovMoney,
+    especes,
+    mock,
+};
+
+/**
+ * Référence d'une tentative de paiement, transmise au fournisseur,
+ * ex. PAY-CMD-26-00123-4F2A9C
+ */
+export function genererReferencePaiement(numeroCommande: string): string {
+    return `PAY-${numeroCommande}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Fournisseur d'une méthode, ou null si elle est inconnue ou désactivée
+ */
+export function fournisseurPaiement(methode: string): FournisseurPaiement | null {
+    if (methode === "mock" && !mockActive()) return null;
+    return FOURNISSEURS[methode as MethodePaiement] ?? null;
+}
+
+/**
+ * Rattache un paiement à sa commande (commandes.paiement_id), sans écraser
+ * un autre paiement déjà validé pour cette commande
+ */
+export async function lierPaiementCommande(paiementId: string, commandeId: string) {
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("id, numero, paiement_id")
+        .eq("id", commandeId)
+        .single();
+
+    if (!commande || commande.paiement_id === paiementId) return;
+
+    if (commande.paiement_id) {
+        const { data: actuel } = await supabaseAdmin
+            .from("paiements")
+            .select("statut")
+            .eq("id", commande.paiement_id)
+            .single();
+
+        if (actuel?.statut === STATUT_PAIEMENT.VALIDE) {
+            // Confirmation tardive d'une tentative remplacée : la commande est payée deux fois
+            console.warn(`Commande ${commande.numero} déjà réglée : paiement ${paiementId} à rembourser`);
+            await notifierAdministrateurs({
+                type: "systeme",
+                titre: "Commande payée deux fois",
+                message: `La commande ${commande.numero}, déjà réglée, a reçu un second paiement validé : il doit être remboursé.`,
+                lien: "/dashboard/commandes",
+            });
+            return;
+        }
+    }
+
+    const { error } = await supabaseAdmin
+        .from("commandes")
+        .update({ paiement_id: paiementId, updated_at: new Date().toISOString() })
+        .eq("id", commandeId);
+
+    if (error) {
+        console.error("Erreur rattachement paiement commande:", error);
+    }
+}
+
+/**
+ * Applique le résultat envoyé par un fournisseur (webhook) : passe le paiement
+ * à Validé ou Echoué, rattache la commande et prévient l'acheteur.
+ *
+ * Seul un paiement de la méthode `methode` est recherché : un fournisseur ne
+ * peut pas confirmer le paiement d'un autre (ni des espèces).
+ *
+ * Idempotent : un paiement qui n'est plus en attente n'est pas modifié, les
+ * webhooks rejoués sont donc sans effet.
+ */
+export async function appliquerNotificationPaiement(
+    methode: MethodePaiement,
+    notification: NotificationPaiement
+): Promise<{
+    trouve: boolean;
+    modifie: boolean;
+}> {
+    const { data: paiement } = await supabaseAdmin
+        .from("paiements")
+        .select("id, user_id, montant, statut, details, commande_id, commande:commandes!paiements_commande_id_fkey (numero, statut)")
+        .eq("reference", notification.reference)
+        .eq("methode", methode)
+        .single();
+
+    if (!paiement) return { trouve: false, modifie: false };
+    if (paiement.statut !== STATUT_PAIEMENT.EN_ATTENTE) return { trouve: true, modifie: false };
+
+    const valide = notification.statut === "valide";
+
+    const { data: modifies, error } = await supabaseAdmin
+        .from("paiements")
+        .update({
+            statut: valide ? STATUT_PAIEMENT.VALIDE : STATUT_PAIEMENT.ECHOUE,
+            transaction_id: notification.transaction_id ?? undefined,
+            details: {
+                ...(paiement.details as Record<string, unknown> | null),
+                notification: notification.details ?? null,
+                notifie_at: new Date().toISOString(),
+            },
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", paiement.id)
+        .eq("statut", STATUT_PAIEMENT.EN_ATTENTE)
+        .select("id");
+
+    if (error) {
+        throw new Error(`Mise à jour du paiement impossible: ${error.message}`);
+    }
+
+    // Un autre webhook l'a traité entre-temps
+    if (!modifies || modifies.length === 0) return { trouve: true, modifie: false };
+
+    if (valide && paiement.commande_id) {
+        await lierPaiementCommande(paiement.id, paiement.commande_id);
+    }
+
+    const commande = paiement.commande as unknown as { numero: string; statut: string } | null;
+    const numero = commande?.numero;
+
+    // Paiement arrivé après l'annulation (expiration de la commande impayée)
+    if (valide && commande?.statut === "Annulée") {
+        await notifierAdministrateurs({
+            type: "systeme",
+            titre: "Paiement reçu pour une commande annulée",
+            message: `Le paiement de ${paiement.montant} FCFA pour la commande ${commande.numero}, déjà annulée, a été confirmé : il doit être remboursé.`,
+            lien: "/dashboard/commandes",
+        });
+    }
+    await notifierUtilisateur({
+        user_id: paiement.user_id,
+        type: "commande",
+        titre: valide ? "Paiement confirmé" : "Paiement échoué",
+        message: valide
+            ? `Votre paiement de ${paiement.montant} FCFA${numero ? ` pour la commande ${numero}` : ""} a été confirmé.`
+            : `Votre paiement${numero ? ` pour la commande ${numero}` : ""} n'a pas abouti. Vous pouvez réessayer.`,
+        lien: paiement.commande_id ? `/commandes/${paiement.commande_id}` : null,
+    });
+
+    return { trouve: true, modifie: true };
+}
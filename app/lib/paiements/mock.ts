@@ -0,0 +1,46 @@
+// app/lib/paiements/mock.ts
+import { randomUUID } from "crypto";
+import { lireJson, signatureValide, type FournisseurPaiement } from "./fournisseur";
+
+/**
+ * Fournisseur simulé pour tester tout le parcours hors ligne : l'initiation
+ * réussit toujours, le résultat est envoyé par /api/paiements/mock/simuler
+ * (signé avec MOCK_PAIEMENT_SECRET, comme un vrai webhook).
+ * Désactivé en production sauf si PAIEMENTS_MOCK=true, et toujours désactivé
+ * sans MOCK_PAIEMENT_SECRET : un secret par défaut serait connu de tous.
+ */
+
+export const MOCK_PAIEMENT_SECRET = process.env.MOCK_PAIEMENT_SECRET;
+
+export function mockActive(): boolean {
+    if (!MOCK_PAIEMENT_SECRET) return false;
+    return process.env.PAIEMENTS_MOCK === "true" || process.env.NODE_ENV !== "production";
+}
+
+export const mock: FournisseurPaiement = {
+    methode: "mock",
+    libelle: "Paiement simulé",
+    telephoneRequis: false,
+
+    async initier() {
+        return {
+            statut: "en_attente",
+            transaction_id: `MOCK-${randomUUID()}`,
+            message: "Paiement simulé : confirmez-le via /api/paiements/mock/simuler",
+        };
+    },
+
+    lireNotification(requete) {
+        if (!signatureValide(requete, MOCK_PAIEMENT_SECRET)) return null;
+
+        const corps = lireJson(requete.corps);
+        if (typeof corps?.reference !== "string") return null;
+
+        return {
+            reference: corps.reference,
+            statut: corps.statut === "valide" ? "valide" : "echoue",
+            transaction_id: typeof corps.transaction_id === "string" ? corps.transaction_id : null,
+            details: { simule: true },
+        };
+    },
+};
@@ -0,0 +1,73 @@
+// app/lib/paiements/moovMoney.ts
+import {
+    lireJson,
+    normaliserTelephone,
+    signatureValide,
+    type FournisseurPaiement,
+} from "./fournisseur";
+
+/**
+ * Moov Money, via l'API de paiement de l'agrégateur configuré : demande de
+ * débit envoyée au téléphone de l'acheteur, résultat reçu sur le webhook.
+ *
+ * Variables : MOOV_API_URL, MOOV_API_KEY, MOOV_WEBHOOK_SECRET.
+ */
+
+const API_URL = process.env.MOOV_API_URL || "";
+
+export const moovMoney: FournisseurPaiement = {
+    methode: "moov_money",
+    libelle: "Moov Money",
+    telephoneRequis: true,
+
+    async initier(demande) {
+        if (!API_URL) {
+            return { statut: "echoue", message: "Moov Money n'est pas configuré" };
+        }
+
+        const response = await fetch(`${API_URL}/payments`, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "Authorization": `Bearer ${process.env.MOOV_API_KEY}`,
+            },
+            body: JSON.stringify({
+                reference: demande.reference,
+                montant: demande.montant,
+                telephone: normaliserTelephone(demande.telephone ?? ""),
+                description: demande.description,
+            }),
+        });
+
+        const data = await response.json().catch(() => null);
+
+        if (!response.ok) {
+            return {
+                statut: "echoue",
+                message: data?.message || "Moov Money a refusé la demande de paiement",
+                details: { reponse: data },
+            };
+        }
+
+        return {
+            statut: "en_attente",
+            transaction_id: data?.transaction_id ?? null,
+            message: "Validez le paiement avec votre code secret Moov Money sur votre téléphone",
+            details: { reponse: data },
+        };
+    },
+
+    lireNotification(requete) {
+        if (!signatureValide(requete, process.env.MOOV_WEBHOOK_SECRET)) return null;
+
+        const corps = lireJson(requete.corps);
+        if (typeof corps?.reference !== "string") return null;
+
+        return {
+            reference: corps.reference,
+            statut: corps.statut === "SUCCESS" ? "valide" : "echoue",
+            transaction_id: typeof corps.transaction_id === "string" ? corps.transaction_id : null,
+            details: { statut: corps.statut, message: corps.message },
+        };
+    },
+};
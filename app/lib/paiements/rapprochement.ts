@@ -0,0 +1,459 @@
+// app/lib/paiements/rapprochement.ts
+import { supabaseAdmin } from "../supabaseAdmin";
+import { STATUT_PAIEMENT } from "./fournisseur";
+
+/**
+ * Rapprochement des paiements avec les relevés des fournisseurs
+ *
+ * Le relevé de règlement (CSV exporté du back-office Airtel Money, Moov
+ * Money...) est comparé aux paiements enregistrés, ligne par ligne, sur
+ * paiements.reference puis paiements.transaction_id. Le rapprochement est
+ * recalculé à chaque import : rien n'est modifié en base, les anomalies sont
+ * à traiter à la main (webhook manqué, remboursement, réclamation fournisseur).
+ */
+
+export const TYPES_ANOMALIE = [
+    "absent_plateforme",            // réglé par le fournisseur, inconnu chez nous
+    "absent_releve",                // validé chez nous, absent du relevé
+    "doublon",                      // même paiement réglé plusieurs fois
+    "ecart_montant",                // montant réglé différent du montant enregistré
+    "statut_divergent",             // réglé mais non validé chez nous, ou l'inverse
+    "commande_sans_paiement_valide" // commande réglée sans paiement validé
+] as const;
+
+export type TypeAnomalie = (typeof TYPES_ANOMALIE)[number];
+
+export interface LigneReleve {
+    ligne: number;                  // numéro de ligne dans le fichier (en-tête = 1)
+    reference: string | null;
+    transaction_id: string | null;
+    montant: number | null;
+    statut: string | null;
+    date: string | null;
+    regle: boolean;                 // false si le fournisseur indique un échec
+}
+
+export interface AnomalieRapprochement {
+    type: TypeAnomalie;
+    ligne: number | null;
+    reference: string | null;
+    transaction_id: string | null;
+    montant_releve: number | null;
+    montant_plateforme: number | null;
+    statut_releve: string | null;
+    statut_plateforme: string | null;
+    paiement_id: string | null;
+    commande: { id: string; numero: string; statut: string } | null;
+    message: string;
+}
+
+export interface RapportRapprochement {
+    methode: string;
+    periode: { debut: string | null; fin: string | null };
+    resume: {
+        lignes: number;
+        rapprochees: number;
+        montant_releve: number;
+        montant_rapproche: number;
+        anomalies: Record<TypeAnomalie, number>;
+    };
+    anomalies: AnomalieRapprochement[];
+    erreurs: string[];              // lignes du fichier ignorées
+}
+
+type Echec = { ok: false; status: number; error: string; details?: string };
+
+// Noms de colonnes acceptés (en minuscules, sans accents) pour chaque champ
+const COLONNES: Record<"reference" | "transaction_id" | "montant" | "statut" | "date", string[]> = {
+    reference: ["reference", "ref", "merchant_reference", "reference_marchand", "external_id", "order_id"],
+    transaction_id: ["transaction_id", "transaction", "txn_id", "id_transaction", "financial_transaction_id"],
+    montant: ["montant", "amount", "montant_regle", "settled_amount"],
+    statut: ["statut", "status", "etat"],
+    date: ["date", "date_transaction", "transaction_date", "created_at", "settled_at"],
+};
+
+// Statuts fournisseur considérés comme réglés ; une colonne statut absente vaut réglé
+const STATUTS_REGLES = ["success", "successful", "succes", "ts", "completed", "settled", "valide", "paye", "ok"];
+
+// Taille maximale des listes passées à .in() (longueur d'URL PostgREST)
+const TAILLE_LOT = 200;
+
+type PaiementRapproche = {
+    id: string;
+    reference: string;
+    transaction_id: string | null;
+    montant: number;
+    methode: string;
+    statut: string;
+    created_at: string;
+    commande: { id: string; numero: string; statut: string } | null;
+};
+
+const SELECT_PAIEMENT = `
+    id, reference, transaction_id, montant, methode, statut, created_at,
+    commande:commandes!paiements_commande_id_fkey (id, numero, statut)
+`;
+
+function normaliser(valeur: string): string {
+    return valeur
+        .trim()
+        .toLowerCase()
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[\s-]+/g, "_");
+}
+
+/**
+ * Découpe un CSV (séparateur ; ou , détecté sur l'en-tête, champs entre
+ * guillemets, guillemets doublés) en lignes de cellules
+ */
+export function lireCsv(contenu: string): string[][] {
+    const texte = contenu.replace(/^\uFEFF/, "");
+    const premiereLigne = texte.split(/\r?\n/, 1)[0] ?? "";
+    const separateur = (premiereLigne.match(/;/g)?.length ?? 0) > (premiereLigne.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+    const lignes: string[][] = [];
+    let ligne: string[] = [];
+    let cellule = "";
+    let guillemets = false;
+
+    for (let i = 0; i < texte.length; i++) {
+        const c = texte[i];
+
+        if (guillemets) {
+            if (c === '"' && texte[i + 1] === '"') {
+                cellule += '"';
+                i++;
+            } else if (c === '"') {
+                guillemets = false;
+            } else {
+                cellule += c;
+            }
+        } else if (c === '"') {
+            guillemets = true;
+        } else if (c === separateur) {
+            ligne.push(cellule);
+            cellule = "";
+        } else if (c === "\n" || c === "\r") {
+            if (c === "\r" && texte[i + 1] === "\n") i++;
+            ligne.push(cellule);
+            lignes.push(ligne);
+            ligne = [];
+            cellule = "";
+        } else {
+            cellule += c;
+        }
+    }
+
+    if (cellule !== "" || ligne.length > 0) {
+        ligne.push(cellule);
+        lignes.push(ligne);
+    }
+
+    return lignes.filter((l) => l.some((cellule) => cellule.trim() !== ""));
+}
+
+/**
+ * Montant en FCFA entiers : "1 500", "1500,00" ou "1500.00"
+ */
+function lireMontant(valeur: string): number | null {
+    const nettoye = valeur.replace(/[\s\u00a0\u202f]|FCFA|XAF/gi, "");
+    if (!nettoye) return null;
+
+    const decimal = nettoye.includes(".") ? nettoye.replace(/,/g, "") : nettoye.replace(",", ".");
+    const montant = Number(decimal);
+    return Number.isFinite(montant) ? Math.round(montant) : null;
+}
+
+/**
+ * Lit un relevé de règlement : repère les colonnes sur l'en-tête, puis
+ * convertit chaque ligne. Les lignes sans identifiant ni montant lisible sont
+ * écartées et signalées dans erreurs.
+ */
+export function lireReleve(contenu: string): { lignes: LigneReleve[]; erreurs: string[] } | Echec {
+    const [entete, ...corps] = lireCsv(contenu);
+
+    if (!entete) {
+        return { ok: false, status: 400, error: "Le fichier est vide" };
+    }
+
+    const noms = entete.map(normaliser);
+    const index = Object.fromEntries(
+        Object.entries(COLONNES).map(([champ, alias]) => [champ, noms.findIndex((n) => alias.includes(n))])
+    ) as Record<keyof typeof COLONNES, number>;
+
+    if (index.reference < 0 && index.transaction_id < 0) {
+        return {
+            ok: false,
+            status: 400,
+            error: "Colonne de référence introuvable",
+            details: `Colonnes attendues : ${[...COLONNES.reference, ...COLONNES.transaction_id].join(", ")}`,
+        };
+    }
+
+    if (index.montant < 0) {
+        return {
+            ok: false,
+            status: 400,
+            error: "Colonne de montant introuvable",
+            details: `Colonnes attendues : ${COLONNES.montant.join(", ")}`,
+        };
+    }
+
+    const cellule = (cellules: string[], i: number) => (i >= 0 ? cellules[i]?.trim() || null : null);
+
+    const lignes: LigneReleve[] = [];
+    const erreurs: string[] = [];
+
+    corps.forEach((cellules, i) => {
+        const numero = i + 2;
+        const reference = cellule(cellules, index.reference);
+        const transactionId = cellule(cellules, index.transaction_id);
+        const montantBrut = cellule(cellules, index.montant);
+        const montant = montantBrut ? lireMontant(montantBrut) : null;
+        const statut = cellule(cellules, index.statut);
+
+        if (!reference && !transactionId) {
+            erreurs.push(`Ligne ${numero} : aucune référence`);
+            return;
+        }
+
+        if (montant === null) {
+            erreurs.push(`Ligne ${numero} : montant illisible (${montantBrut ?? "vide"})`);
+            return;
+        }
+
+        lignes.push({
+            ligne: numero,
+            reference,
+            transaction_id: transactionId,
+            montant,
+            statut,
+            date: cellule(cellules, index.date),
+            regle: !statut || STATUTS_REGLES.includes(normaliser(statut)),
+        });
+    });
+
+    return { lignes, erreurs };
+}
+
+async function paiementsParColonne(colonne: "reference" | "transaction_id", valeurs: string[]) {
+    const paiements: PaiementRapproche[] = [];
+
+    for (let i = 0; i < valeurs.length; i += TAILLE_LOT) {
+        const { data, error } = await supabaseAdmin
+            .from("paiements")
+            .select(SELECT_PAIEMENT)
+            .in(colonne, valeurs.slice(i, i + TAILLE_LOT));
+
+        if (error) throw new Error(`Lecture des paiements impossible: ${error.message}`);
+        paiements.push(...((data || []) as unknown as PaiementRapproche[]));
+    }
+
+    return paiements;
+}
+
+/**
+ * Commandes acheteur rattachées à un paiement (commandes.paiement_id) qui
+ * n'est ni validé ni remboursé. Un paiement en espèces reste en attente
+ * jusqu'à l'encaissement : il n'est signalé qu'une fois la commande livrée.
+ */
+export async function commandesSansPaiementValide(): Promise<AnomalieRapprochement[]> {
+    const { data, error } = await supabaseAdmin
+        .from("commandes")
+        .select(`
+            id, numero, statut,
+            paiement:paiements!commandes_paiement_id_fkey (id, reference, transaction_id, montant, methode, statut)
+        `)
+        .is("parent_id", null)
+        .not("paiement_id", "is", null);
+
+    if (error) throw new Error(`Lecture des commandes impossible: ${error.message}`);
+
+    type CommandePayee = {
+        id: string;
+        numero: string;
+        statut: string;
+        paiement: { id: string; reference: string; transaction_id: string | null; montant: number; methode: string; statut: string } | null;
+    };
+
+    return ((data || []) as unknown as CommandePayee[])
+        .filter(({ statut, paiement }) =>
+            paiement &&
+            paiement.statut !== STATUT_PAIEMENT.VALIDE &&
+            paiement.statut !== STATUT_PAIEMENT.REMBOURSE &&
+            (paiement.methode !== "especes" || statut === "Livrée")
+        )
+        .map(({ id, numero, statut, paiement }) => ({
+            type: "commande_sans_paiement_valide" as const,
+            ligne: null,
+            reference: paiement?.reference ?? null,
+            transaction_id: paiement?.transaction_id ?? null,
+            montant_releve: null,
+            montant_plateforme: paiement?.montant ?? null,
+            statut_releve: null,
+            statut_plateforme: paiement?.statut ?? null,
+            paiement_id: paiement?.id ?? null,
+            commande: { id, numero, statut },
+            message: `Commande ${numero} (${statut}) réglée par un paiement ${paiement?.statut}`,
+        }));
+}
+
+/**
+ * Rapproche un relevé de règlement des paiements d'une méthode.
+ *
+ * Sans période explicite, les paiements validés absents du relevé sont
+ * cherchés entre la première et la dernière date du fichier ; sans date
+ * exploitable, ce contrôle est ignoré.
+ */
+export async function rapprocherReleve(params: {
+    methode: string;
+    contenu: string;
+    dateDebut?: string | null;
+    dateFin?: string | null;
+}): Promise<{ ok: true; rapport: RapportRapprochement } | Echec> {
+    const releve = lireReleve(params.contenu);
+    if ("ok" in releve) return releve;
+
+    const { lignes, erreurs } = releve;
+
+    if (lignes.length === 0) {
+        return { ok: false, status: 400, error: "Aucune ligne exploitable dans le fichier", details: erreurs.join(" ; ") };
+    }
+
+    const references = [...new Set(lignes.flatMap((l) => [l.reference, l.transaction_id]).filter((v): v is string => !!v))];
+
+    const [parReference, parTransaction] = await Promise.all([
+        paiementsParColonne("reference", references),
+        paiementsParColonne("transaction_id", references),
+    ]);
+
+    const indexReference = new Map(parReference.map((p) => [p.reference, p]));
+    const indexTransaction = new Map(
+        parTransaction.filter((p) => p.transaction_id).map((p) => [p.transaction_id as string, p])
+    );
+
+    const trouver = (valeur: string | null) =>
+        valeur ? indexReference.get(valeur) ?? indexTransaction.get(valeur) ?? null : null;
+
+    const anomalies: AnomalieRapprochement[] = [];
+    const rapproches = new Map<string, LigneReleve>();
+    let montantRapproche = 0;
+
+    const anomalie = (
+        type: TypeAnomalie,
+        ligne: LigneReleve | null,
+        paiement: PaiementRapproche | null,
+        message: string
+    ) => anomalies.push({
+        type,
+        ligne: ligne?.ligne ?? null,
+        reference: paiement?.reference ?? ligne?.reference ?? null,
+        transaction_id: paiement?.transaction_id ?? ligne?.transaction_id ?? null,
+        montant_releve: ligne?.montant ?? null,
+        montant_plateforme: paiement?.montant ?? null,
+        statut_releve: ligne?.statut ?? null,
+        statut_plateforme: paiement?.statut ?? null,
+        paiement_id: paiement?.id ?? null,
+        commande: paiement?.commande ?? null,
+        message,
+    });
+
+    for (const ligne of lignes) {
+        const paiement = trouver(ligne.reference) ?? trouver(ligne.transaction_id);
+
+        if (!paiement) {
+            if (ligne.regle) {
+                anomalie("absent_plateforme", ligne, null, `Ligne ${ligne.ligne} réglée par le fournisseur sans paiement correspondant`);
+            }
+            continue;
+        }
+
+        const premiere = rapproches.get(paiement.id);
+        if (premiere) {
+            anomalie("doublon", ligne, paiement, `Paiement ${paiement.reference} déjà présent ligne ${premiere.ligne}`);
+            continue;
+        }
+        rapproches.set(paiement.id, ligne);
+
+        const valide = paiement.statut === STATUT_PAIEMENT.VALIDE || paiement.statut === STATUT_PAIEMENT.REMBOURSE;
+
+        if (ligne.regle && !valide) {
+            anomalie("statut_divergent", ligne, paiement, `Réglé par le fournisseur mais ${paiement.statut} sur la plateforme`);
+            continue;
+        }
+
+        if (!ligne.regle) {
+            if (valide) {
+                anomalie("statut_divergent", ligne, paiement, `Validé sur la plateforme mais ${ligne.statut} chez le fournisseur`);
+            }
+            continue;
+        }
+
+        if (paiement.methode !== params.methode) {
+            anomalie("statut_divergent", ligne, paiement, `Paiement enregistré en ${paiement.methode}, pas en ${params.methode}`);
+            continue;
+        }
+
+        if (ligne.montant !== paiement.montant) {
+            anomalie(
+                "ecart_montant",
+                ligne,
+                paiement,
+                `Réglé ${ligne.montant} FCFA pour ${paiement.montant} FCFA enregistrés (écart ${(ligne.montant ?? 0) - paiement.montant})`
+            );
+            continue;
+        }
+
+        montantRapproche += paiement.montant;
+    }
+
+    // Paiements validés sur la période qui ne figurent pas dans le relevé
+    const dates = lignes
+        .map((l) => (l.date ? new Date(l.date) : null))
+        .filter((d): d is Date => !!d && !isNaN(d.getTime()))
+        .sort((a, b) => a.getTime() - b.getTime());
+
+    const debut = params.dateDebut ?? dates[0]?.toISOString() ?? null;
+    const fin = params.dateFin ?? dates[dates.length - 1]?.toISOString() ?? null;
+
+    if (debut && fin) {
+        const { data: valides, error } = await supabaseAdmin
+            .from("paiements")
+            .select(SELECT_PAIEMENT)
+            .eq("methode", params.methode)
+            .in("statut", [STATUT_PAIEMENT.VALIDE, STATUT_PAIEMENT.REMBOURSE])
+            .gte("created_at", debut)
+            .lte("created_at", fin);
+
+        if (error) throw new Error(`Lecture des paiements impossible: ${error.message}`);
+
+        for (const paiement of (valides || []) as unknown as PaiementRapproche[]) {
+            if (!rapproches.has(paiement.id)) {
+                anomalie("absent_releve", null, paiement, `Paiement validé le ${paiement.created_at.slice(0, 10)} absent du relevé`);
+            }
+        }
+    }
+
+    anomalies.push(...(await commandesSansPaiementValide()));
+
+    const compteur = Object.fromEntries(TYPES_ANOMALIE.map((t) => [t, 0])) as Record<TypeAnomalie, number>;
+    for (const a of anomalies) compteur[a.type]++;
+
+    return {
+        ok: true,
+        rapport: {
+            methode: params.methode,
+            periode: { debut, fin },
+            resume: {
+                lignes: lignes.length,
+                rapprochees: rapproches.size,
+                montant_releve: lignes.filter((l) => l.regle).reduce((somme, l) => somme + (l.montant ?? 0), 0),
+                montant_rapproche: montantRapproche,
+                anomalies: compteur,
+            },
+            anomalies,
+            erreurs,
+        },
+    };
+}
@@ -0,0 +1,203 @@
+// app/lib/preuveLivraison.ts
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierUtilisateur } from "./notifications";
+import { getPreuveLivraisonUrl } from "../../lib/upload";
+
+/**
+ * Preuve de livraison
+ *
+ * Au départ du colis (passage "En cours de livraison"), un code de remise à
+ * 6 chiffres est tiré et envoyé à l'acheteur par notification ; seul son
+ * hachage est conservé (codes_remise). Pour passer la livraison à "Livrée",
+ * le livreur doit saisir ce code, ou avoir déposé une photo du colis remis ou
+ * la signature du client (/api/livraisons/{id}/preuve, bucket privé
+ * preuves-livraison). Au-delà de MAX_ESSAIS_CODE_REMISE codes erronés, seule
+ * une photo ou une signature est acceptée. Un administrateur peut clôturer
+ * sans preuve : la livraison est alors marquée comme telle.
+ *
+ * La preuve retenue est enregistrée sur la livraison (preuve_type,
+ * preuve_fichier, preuve_at, preuve_par) et présentée lors du traitement des
+ * réclamations.
+ */
+
+export const MAX_ESSAIS_CODE_REMISE = 5;
+
+export const TYPES_PREUVE_LIVRAISON = ["code", "photo", "signature", "administrateur"] as const;
+
+export type TypePreuveLivraison = (typeof TYPES_PREUVE_LIVRAISON)[number];
+
+export const LIBELLES_PREUVE_LIVRAISON: Record<TypePreuveLivraison, string> = {
+    code: "Code de remise saisi",
+    photo: "Photo du colis remis",
+    signature: "Signature du client",
+    administrateur: "Clôturée par un administrateur, sans preuve",
+};
+
+type Echec = { ok: false; status: number; error: string };
+
+export interface PreuveLivraison {
+    type: TypePreuveLivraison;
+    libelle: string;
+    url: string | null;   // URL signée de la photo / signature
+    at: string | null;
+    par: string | null;
+}
+
+function hacherCode(code: string): string {
+    return createHash("sha256").update(code).digest("hex");
+}
+
+/**
+ * Tire le code de remise d'une livraison et l'envoie à l'acheteur
+ * Sans effet si un code a déjà été émis (le colis repart après un report).
+ * Ne fait jamais échouer l'opération appelante.
+ */
+export async function genererCodeRemise(livraison: { id: string; user_id: string | null; commande_id: string }) {
+    const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+
+    const { error } = await supabaseAdmin
+        .from("codes_remise")
+        .insert({ livraison_id: livraison.id, code_hash: hacherCode(code) });
+
+    if (error?.code === "23505") return;
+
+    if (error) {
+        console.error("Erreur génération code de remise:", error);
+        return;
+    }
+
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("numero, user_id")
+        .eq("id", livraison.commande_id)
+        .single();
+
+    const acheteurId = livraison.user_id ?? commande?.user_id;
+    if (!acheteurId) return;
+
+    await notifierUtilisateur({
+        user_id: acheteurId,
+        type: "livraison",
+        titre: "Votre colis est en route",
+        message: `Code de remise de la commande ${commande?.numero ?? ""} : ${code}. Ne le communiquez au livreur qu'à la réception de votre colis.`,
+        lien: `/commandes/${livraison.commande_id}`,
+    });
+}
+
+/**
+ * Contrôle la preuve exigée pour passer une livraison à "Livrée"
+ * Retourne les champs à enregistrer sur la livraison et, pour un code de
+ * remise, son id : l'appelant ne le consomme (consommerCodeRemise) qu'une fois
+ * la livraison enregistrée, pour qu'un échec ensuite ne le grille pas.
+ */
+export async function verifierPreuveRemise(params: {
+    livraison: { id: string; preuve_type: string | null; preuve_fichier: string | null };
+    code?: string;
+    acteur: { id: string; role: string };
+}): Promise<{ ok: true; champs: Record<string, string>; codeRemiseId?: string } | Echec> {
+    const { livraison, code, acteur } = params;
+    const cloture = { preuve_at: new Date().toISOString(), preuve_par: acteur.id };
+
+    if (code) {
+        const { data: codeRemise } = await supabaseAdmin
+            .from("codes_remise")
+            .select("id, code_hash, essais, utilise_at")
+            .eq("livraison_id", livraison.id)
+            .maybeSingle();
+
+        if (!codeRemise || codeRemise.utilise_at) {
+            return {
+                ok: false,
+                status: 409,
+                error: "Aucun code de remise actif pour cette livraison : joignez une photo ou la signature du client",
+            };
+        }
+
+        // L'essai est compté avant la comparaison, atomiquement : des requêtes
+        // parallèles ne peuvent pas dépasser MAX_ESSAIS_CODE_REMISE
+        const { data: essais, error: essaiError } = await supabaseAdmin.rpc("essai_code_remise", {
+            p_code_id: codeRemise.id,
+            p_max: MAX_ESSAIS_CODE_REMISE,
+        });
+
+        if (essaiError) {
+            console.error("Erreur comptage essai code de remise:", essaiError);
+            return { ok: false, status: 500, error: "Impossible de vérifier le code de remise" };
+        }
+
+        if (typeof essais !== "number") {
+            return {
+                ok: false,
+                status: 429,
+                error: "Trop de codes erronés : joignez une photo ou la signature du client",
+            };
+        }
+
+        const attendu = Buffer.from(codeRemise.code_hash);
+        const recu = Buffer.from(hacherCode(code.trim()));
+
+        if (attendu.length !== recu.length || !timingSafeEqual(attendu, recu)) {
+            const restants = MAX_ESSAIS_CODE_REMISE - essais;
+            return {
+                ok: false,
+                status: 400,
+                error: `Code de remise incorrect (${restants} essai(s) restant(s))`,
+            };
+        }
+
+        return { ok: true, champs: { preuve_type: "code", ...cloture }, codeRemiseId: codeRemise.id };
+    }
+
+    // Photo ou signature déposée avant la clôture
+    if (livraison.preuve_fichier && livraison.preuve_type) {
+        return { ok: true, champs: { preuve_type: livraison.preuve_type, ...cloture } };
+    }
+
+    if (acteur.role === "Administrateur") {
+        return { ok: true, champs: { preuve_type: "administrateur", ...cloture } };
+    }
+
+    return {
+        ok: false,
+        status: 400,
+        error: "Saisissez le code de remise du client, ou joignez une photo ou sa signature",
+    };
+}
+
+/**
+ * Marque le code de remise comme utilisé, une fois la livraison clôturée
+ */
+export async function consommerCodeRemise(codeRemiseId: string, utiliseAt: string) {
+    const { error } = await supabaseAdmin
+        .from("codes_remise")
+        .update({ utilise_at: utiliseAt })
+        .eq("id", codeRemiseId)
+        .is("utilise_at", null);
+
+    if (error) {
+        console.error("Erreur consommation code de remise:", error);
+    }
+}
+
+/**
+ * Preuve de remise présentable (URL signée pour une photo ou une signature)
+ */
+export async function chargerPreuveLivraison(livraison: {
+    preuve_type: string | null;
+    preuve_fichier: string | null;
+    preuve_at: string | null;
+    preuve_par: string | null;
+}): Promise<PreuveLivraison | null> {
+    if (!livraison.preuve_type) return null;
+
+    const type = livraison.preuve_type as TypePreuveLivraison;
+
+    return {
+        type,
+        libelle: LIBELLES_PREUVE_LIVRAISON[type] ?? livraison.preuve_type,
+        url: livraison.preuve_fichier ? await getPreuveLivraisonUrl(livraison.preuve_fichier) : null,
+        at: livraison.preuve_at,
+        par: livraison.preuve_par,
+    };
+}
@@ -0,0 +1,325 @@
+// app/lib/remboursements.ts
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierUtilisateur } from "./notifications";
+import { STATUT_PAIEMENT } from "./paiements";
+import { appliquerStatutCommande } from "./sousCommandes";
+
+/**
+ * Remboursements des acheteurs
+ *
+ * Un remboursement porte sur tout ou partie des lignes d'une commande (par
+ * quantité), pour leur valeur ou un montant inférieur. La fonction SQL
+ * rembourser_commande fait l'opération en une transaction : quantités
+ * remboursées, remise en stock, reprise des parts boutique et frais de
+ * service, crédit de l'acheteur (portefeuille) et mise à jour du paiement.
+ * Les sous-commandes entièrement remboursées passent ensuite à « Remboursée ».
+ */
+
+export const MODES_REMBOURSEMENT = ["portefeuille", "methode_origine"] as const;
+
+export type ModeRemboursement = (typeof MODES_REMBOURSEMENT)[number];
+
+/**
+ * Statuts de sous-commande qui peuvent être remboursés
+ */
+export const STATUTS_REMBOURSABLES = ["Livrée", "Annulée", "Remboursée"];
+
+// Méthodes d'origine remboursées par un transfert dont on garde la référence
+const METHODES_AVEC_TRANSFERT = ["airtel_money", "moov_money"];
+
+type Echec = { ok: false; status: number; error: string; details?: string };
+
+export interface LigneARembourser {
+    commande_article_id: string;
+    quantite: number;
+    remise_en_stock?: boolean;   // false : article non retourné
+}
+
+export interface DemandeRemboursement {
+    commandeId?: string;         // à défaut, commande de la réclamation
+    reclamationId?: string | null;
+    lignes?: LigneARembourser[]; // à défaut, toutes les quantités restantes
+    montant?: number | null;     // à défaut, valeur des lignes
+    mode: ModeRemboursement;
+    motif?: string | null;       // à défaut, description de la réclamation
+    reference_transfert?: string | null;
+    acteur: { id: string; role: string };
+}
+
+export type ResultatRemboursement =
+    | { ok: true; remboursement: Record<string, unknown>; commandesRemboursees: string[] }
+    | Echec;
+
+type LigneCommande = {
+    id: string;
+    commande_id: string;
+    quantite: number;
+    quantite_remboursee: number;
+};
+
+type CommandeRemboursee = {
+    id: string;
+    numero: string;
+    statut: string;
+    parent_id: string | null;
+    vendeur_id: string | null;
+};
+
+/**
+ * Référence lisible d'un remboursement, ex. RMB-261019-4F2A9C
+ */
+export function genererReferenceRemboursement(date = new Date()): string {
+    const jour = date.toISOString().slice(2, 10).replace(/-/g, "");
+    return `RMB-${jour}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Commande parente (vue acheteur) et sous-commandes concernées par un
+ * remboursement : celles de la parente, ou la seule sous-commande visée
+ */
+async function chargerPerimetre(commandeId: string) {
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("id, numero, statut, parent_id, vendeur_id, user_id, paiement_id")
+        .eq("id", commandeId)
+        .single();
+
+    if (!commande) return null;
+
+    const { data: racine } = commande.parent_id
+        ? await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut, parent_id, vendeur_id, user_id, paiement_id")
+            .eq("id", commande.parent_id)
+            .single()
+        : { data: commande };
+
+    if (!racine) return null;
+
+    let commandes: CommandeRemboursee[] = [commande];
+    if (!commande.parent_id) {
+        const { data: enfants } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut, parent_id, vendeur_id")
+            .eq("parent_id", commande.id);
+
+        if (enfants && enfants.length > 0) commandes = enfants;
+    }
+
+    const { data: lignes } = await supabaseAdmin
+        .from("commande_articles")
+        .select("id, commande_id, quantite, quantite_remboursee")
+        .in("commande_id", commandes.map((c) => c.id));
+
+    return { racine, commandes, lignes: (lignes || []) as LigneCommande[] };
+}
+
+/**
+ * Rembourse tout ou partie d'une commande, éventuellement à la suite d'une
+ * réclamation (qui passe alors à « Remboursée »)
+ */
+export async function rembourserCommande(demande: DemandeRemboursement): Promise<ResultatRemboursement> {
+    let commandeId = demande.commandeId;
+    let motif = demande.motif?.trim() || null;
+
+    if (demande.reclamationId) {
+        const { data: reclamation } = await supabaseAdmin
+            .from("reclamations")
+            .select("id, commande_id, description, statut")
+            .eq("id", demande.reclamationId)
+            .single();
+
+        if (!reclamation) {
+            return { ok: false, status: 404, error: "Réclamation introuvable" };
+        }
+
+        if (reclamation.statut === "Remboursée") {
+            return { ok: false, status: 409, error: "Cette réclamation a déjà été remboursée" };
+        }
+
+        if (commandeId && commandeId !== reclamation.commande_id) {
+            return { ok: false, status: 400, error: "La réclamation ne porte pas sur cette commande" };
+        }
+
+        commandeId = reclamation.commande_id;
+        motif = motif ?? `Réclamation : ${reclamation.description}`;
+    }
+
+    if (!commandeId) {
+        return { ok: false, status: 400, error: "Commande ou réclamation requise" };
+    }
+
+    if (!motif) {
+        return { ok: false, status: 400, error: "Le motif du remboursement est obligatoire" };
+    }
+
+    const perimetre = await chargerPerimetre(commandeId);
+    if (!perimetre) {
+        return { ok: false, status: 404, error: "Commande introuvable" };
+    }
+
+    const { racine, commandes, lignes } = perimetre;
+
+    // L'acheteur doit avoir effectivement payé la commande
+    const { data: paiement } = racine.paiement_id
+        ? await supabaseAdmin
+            .from("paiements")
+            .select("id, methode, statut, montant")
+            .eq("id", racine.paiement_id)
+            .single()
+        : { data: null };
+
+    if (!paiement || paiement.statut !== STATUT_PAIEMENT.VALIDE) {
+        return { ok: false, status: 409, error: "Aucun paiement validé à rembourser pour cette commande" };
+    }
+
+    if (
+        demande.mode === "methode_origine" &&
+        METHODES_AVEC_TRANSFERT.includes(paiement.methode) &&
+        !demande.reference_transfert
+    ) {
+        return {
+            ok: false,
+            status: 400,
+            error: "La référence du transfert est obligatoire pour un remboursement par mobile money",
+        };
+    }
+
+    const aRembourser: LigneARembourser[] = demande.lignes ?? lignes
+        .filter((l) => l.quantite > l.quantite_remboursee)
+        .map((l) => ({ commande_article_id: l.id, quantite: l.quantite - l.quantite_remboursee }));
+
+    if (aRembourser.length === 0) {
+        return { ok: false, status: 400, error: "Aucune ligne à rembourser" };
+    }
+
+    const commandeDeLigne = new Map(lignes.map((l) => [l.id, l.commande_id]));
+
+    const horsCommande = aRembourser.find((a) => !commandeDeLigne.has(a.commande_article_id));
+    if (horsCommande) {
+        return {
+            ok: false,
+            status: 400,
+            error: `La ligne ${horsCommande.commande_article_id} n'appartient pas à la commande`,
+        };
+    }
+
+    // Seules les sous-commandes livrées ou annulées peuvent être remboursées
+    const idsConcernes = new Set(
+        aRembourser.map((a) => commandeDeLigne.get(a.commande_article_id) as string)
+    );
+    const nonRemboursable = commandes.find(
+        (c) => idsConcernes.has(c.id) && !STATUTS_REMBOURSABLES.includes(c.statut)
+    );
+
+    if (nonRemboursable) {
+        return {
+            ok: false,
+            status: 409,
+            error: `La commande ${nonRemboursable.numero} doit être livrée ou annulée pour être remboursée (statut : ${nonRemboursable.statut})`,
+        };
+    }
+
+    const reference = genererReferenceRemboursement();
+
+    const { data: remboursementId, error } = await supabaseAdmin.rpc("rembourser_commande", {
+        p_remboursement: {
+            reference,
+            commande_id: racine.id,
+            reclamation_id: demande.reclamationId ?? null,
+            paiement_id: paiement.id,
+            user_id: racine.user_id,
+            montant: demande.montant ?? null,
+            mode: demande.mode,
+            motif,
+            reference_transfert: demande.reference_transfert ?? null,
+            acteur_id: demande.acteur.id,
+        },
+        p_lignes: aRembourser.map((a) => ({
+            commande_article_id: a.commande_article_id,
+            quantite: a.quantite,
+            remise_en_stock: a.remise_en_stock !== false,
+        })),
+    });
+
+    if (error || !remboursementId) {
+        if (error?.code === "23514") {
+            return { ok: false, status: 400, error: "Remboursement invalide", details: error.message };
+        }
+        if (error?.code === "P0002") {
+            return { ok: false, status: 404, error: "Ligne de commande introuvable", details: error.message };
+        }
+        console.error("Erreur remboursement commande:", error);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer le remboursement" };
+    }
+
+    // Sous-commandes dont toutes les lignes sont désormais remboursées
+    const { data: lignesApres } = await supabaseAdmin
+        .from("commande_articles")
+        .select("commande_id, quantite, quantite_remboursee")
+        .in("commande_id", [...idsConcernes]);
+
+    const commandesRemboursees: string[] = [];
+    for (const commande of commandes) {
+        if (!idsConcernes.has(commande.id) || commande.statut === "Remboursée") continue;
+
+        const complete = (lignesApres || [])
+            .filter((l) => l.commande_id === commande.id)
+            .every((l) => l.quantite_remboursee >= l.quantite);
+
+        if (!complete) continue;
+
+        const modifiees = await appliquerStatutCommande({
+            commande: { id: commande.id, numero: commande.numero, statut: commande.statut },
+            statut: "Remboursée",
+            roles: ["Administrateur"],
+            acteur: demande.acteur,
+            source: "remboursement",
+            note: `Remboursement ${reference}`,
+        });
+        commandesRemboursees.push(...modifiees);
+    }
+
+    if (demande.reclamationId) {
+        const { error: reclamationError } = await supabaseAdmin
+            .from("reclamations")
+            .update({ statut: "Remboursée", updated_at: new Date().toISOString() })
+            .eq("id", demande.reclamationId);
+
+        if (reclamationError) {
+            console.error("Erreur mise à jour réclamation remboursée:", reclamationError);
+        }
+    }
+
+    const { data: remboursement } = await supabaseAdmin
+        .from("remboursements")
+        .select("*")
+        .eq("id", remboursementId as string)
+        .single();
+
+    const montant = (remboursement?.montant as number | undefined) ?? demande.montant ?? 0;
+
+    await notifierUtilisateur({
+        user_id: racine.user_id,
+        type: "commande",
+        titre: "Remboursement effectué",
+        message: demande.mode === "portefeuille"
+            ? `${montant} FCFA ont été crédités sur votre solde pour la commande ${racine.numero}.`
+            : `${montant} FCFA vous ont été remboursés par votre moyen de paiement pour la commande ${racine.numero}.`,
+        lien: `/commandes/${racine.id}`,
+    });
+
+    for (const commande of commandes) {
+        if (!idsConcernes.has(commande.id) || !commande.vendeur_id) continue;
+
+        await notifierUtilisateur({
+            user_id: commande.vendeur_id,
+            type: "commande",
+            titre: "Commande remboursée",
+            message: `Un remboursement (${reference}) a été accordé sur la commande ${commande.numero} : votre part a été reprise sur votre solde.`,
+        });
+    }
+
+    return { ok: true, remboursement: remboursement ?? { id: remboursementId, reference }, commandesRemboursees };
+}
@@ -0,0 +1,220 @@
+// app/lib/retraits.ts
+import { randomBytes } from "crypto";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierAdministrateurs, notifierUtilisateur } from "./notifications";
+import { normaliserTelephone, STATUT_PAIEMENT } from "./paiements";
+
+/**
+ * Retraits du solde des boutiques
+ *
+ * La boutique demande un retrait vers son numéro mobile money : le montant
+ * est aussitôt réservé (débité du solde, fonction SQL demander_retrait).
+ * Un administrateur effectue le virement puis valide la demande avec la
+ * référence de l'opérateur (un reçu est émis), ou la refuse : le montant est
+ * alors recrédité (rejeter_retrait). Les statuts sont ceux des paiements.
+ */
+
+export const METHODES_RETRAIT = ["airtel_money", "moov_money"] as const;
+
+export type MethodeRetrait = (typeof METHODES_RETRAIT)[number];
+
+export const MONTANT_MIN_RETRAIT = Number(process.env.RETRAIT_MONTANT_MIN) || 1000;
+
+const LIBELLES_METHODE: Record<MethodeRetrait, string> = {
+    airtel_money: "Airtel Money",
+    moov_money: "Moov Money",
+};
+
+type Echec = { ok: false; status: number; error: string; details?: string };
+
+export type ResultatRetrait = { ok: true; retrait: Record<string, unknown> } | Echec;
+
+const SELECT_RETRAIT = `
+    *,
+    user:users!retraits_user_id_fkey (id, name, email, phone),
+    traitant:users!retraits_traite_par_fkey (id, name)
+`;
+
+/**
+ * Référence lisible d'un retrait, ex. RET-261019-4F2A9C
+ */
+export function genererReferenceRetrait(date = new Date()): string {
+    const jour = date.toISOString().slice(2, 10).replace(/-/g, "");
+    return `RET-${jour}-${randomBytes(3).toString("hex").toUpperCase()}`;
+}
+
+async function chargerRetrait(retraitId: string) {
+    const { data } = await supabaseAdmin
+        .from("retraits")
+        .select(SELECT_RETRAIT)
+        .eq("id", retraitId)
+        .single();
+
+    return data;
+}
+
+/**
+ * Crée une demande de retrait et réserve le montant sur le solde
+ */
+export async function demanderRetrait(demande: {
+    user: { id: string; name: string };
+    montant: number;
+    methode: MethodeRetrait;
+    telephone: string;
+}): Promise<ResultatRetrait> {
+    if (demande.montant < MONTANT_MIN_RETRAIT) {
+        return { ok: false, status: 400, error: `Montant minimum de retrait : ${MONTANT_MIN_RETRAIT} FCFA` };
+    }
+
+    const reference = genererReferenceRetrait();
+
+    const { data: retraitId, error } = await supabaseAdmin.rpc("demander_retrait", {
+        p_user_id: demande.user.id,
+        p_montant: demande.montant,
+        p_methode: demande.methode,
+        p_telephone: normaliserTelephone(demande.telephone),
+        p_reference: reference,
+    });
+
+    if (error || !retraitId) {
+        if (error?.code === "23514") {
+            return { ok: false, status: 400, error: "Solde insuffisant", details: error.message };
+        }
+        console.error("Erreur demande de retrait:", error);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer la demande de retrait" };
+    }
+
+    const retrait = await chargerRetrait(retraitId as string);
+
+    await notifierUtilisateur({
+        user_id: demande.user.id,
+        type: "systeme",
+        titre: "Demande de retrait enregistrée",
+        message: `Votre demande de retrait ${reference} de ${demande.montant} FCFA vers ${LIBELLES_METHODE[demande.methode]} est en cours de traitement.`,
+    });
+
+    await notifierAdministrateurs({
+        type: "systeme",
+        titre: "Nouvelle demande de retrait",
+        message: `${demande.user.name} demande un retrait de ${demande.montant} FCFA (${reference}).`,
+        lien: "/dashboard/retraits",
+    });
+
+    return { ok: true, retrait: retrait ?? { id: retraitId, reference } };
+}
+
+/**
+ * Valide un retrait après le virement : enregistre la référence de
+ * l'opérateur, le justificatif éventuel, et émet le reçu
+ */
+export async function validerRetrait(
+    retraitId: string,
+    virement: { reference_transfert: string; recu_url?: string | null; lot?: string | null },
+    acteur: { id: string; name: string }
+): Promise<ResultatRetrait> {
+    const retrait = await chargerRetrait(retraitId);
+    if (!retrait) {
+        return { ok: false, status: 404, error: "Retrait introuvable" };
+    }
+
+    if (retrait.statut !== STATUT_PAIEMENT.EN_ATTENTE) {
+        return { ok: false, status: 409, error: `Retrait ${retrait.reference} déjà traité (${retrait.statut})` };
+    }
+
+    const maintenant = new Date().toISOString();
+    const beneficiaire = retrait.user as { id: string; name: string } | null;
+
+    const recu = {
+        numero: `RECU-${retrait.reference}`,
+        emis_le: maintenant,
+        beneficiaire: {
+            id: retrait.user_id,
+            nom: beneficiaire?.name ?? null,
+            telephone: retrait.telephone,
+        },
+        montant: retrait.montant,
+        methode: retrait.methode,
+        reference_retrait: retrait.reference,
+        reference_transfert: virement.reference_transfert,
+        lot: virement.lot ?? null,
+        valide_par: { id: acteur.id, nom: acteur.name },
+    };
+
+    const { data: modifies, error } = await supabaseAdmin
+        .from("retraits")
+        .update({
+            statut: STATUT_PAIEMENT.VALIDE,
+            reference_transfert: virement.reference_transfert,
+            recu_url: virement.recu_url ?? null,
+            recu,
+            lot: virement.lot ?? null,
+            traite_par: acteur.id,
+            traite_at: maintenant,
+            updated_at: maintenant,
+        })
+        .eq("id", retraitId)
+        // Ne valide que si la demande n'a pas été traitée entre-temps
+        .eq("statut", STATUT_PAIEMENT.EN_ATTENTE)
+        .select("id");
+
+    if (error) {
+        console.error("Erreur validation retrait:", error);
+        return { ok: false, status: 500, error: "Impossible de valider le retrait" };
+    }
+
+    if (!modifies || modifies.length === 0) {
+        return { ok: false, status: 409, error: `Retrait ${retrait.reference} déjà traité` };
+    }
+
+    await notifierUtilisateur({
+        user_id: retrait.user_id,
+        type: "systeme",
+        titre: "Retrait effectué",
+        message: `Votre retrait ${retrait.reference} de ${retrait.montant} FCFA a été versé sur le ${retrait.telephone} (référence ${virement.reference_transfert}).`,
+    });
+
+    return { ok: true, retrait: (await chargerRetrait(retraitId)) ?? retrait };
+}
+
+/**
+ * Refuse un retrait (administrateur) ou l'annule (boutique) : le montant
+ * réservé est recrédité sur le solde
+ */
+export async function rejeterRetrait(
+    retraitId: string,
+    motif: string,
+    acteur: { id: string; role: string }
+): Promise<ResultatRetrait> {
+    const { data: rejete, error } = await supabaseAdmin.rpc("rejeter_retrait", {
+        p_retrait_id: retraitId,
+        p_acteur_id: acteur.id,
+        p_motif: motif,
+    });
+
+    if (error) {
+        if (error.code === "P0002") {
+            return { ok: false, status: 404, error: "Retrait introuvable" };
+        }
+        console.error("Erreur refus retrait:", error);
+        return { ok: false, status: 500, error: "Impossible de refuser le retrait" };
+    }
+
+    const retrait = await chargerRetrait(retraitId);
+
+    if (rejete !== true || !retrait) {
+        return { ok: false, status: 409, error: "Ce retrait a déjà été traité" };
+    }
+
+    const annulation = acteur.id === retrait.user_id;
+
+    await notifierUtilisateur({
+        user_id: retrait.user_id,
+        type: "systeme",
+        titre: annulation ? "Retrait annulé" : "Retrait refusé",
+        message: annulation
+            ? `Votre demande de retrait ${retrait.reference} est annulée. ${retrait.montant} FCFA ont été recrédités sur votre solde.`
+            : `Votre demande de retrait ${retrait.reference} a été refusée : ${motif}. ${retrait.montant} FCFA ont été recrédités sur votre solde.`,
+    });
+
+    return { ok: true, retrait };
+}
@@ -0,0 +1,256 @@
+// app/lib/soldes.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierUtilisateur } from "./notifications";
+
+/**
+ * Grand livre des soldes
+ *
+ * users.solde n'est jamais modifié directement : chaque mouvement passe par la
+ * fonction SQL mouvement_solde, qui met à jour le solde et écrit l'opération
+ * en partie double dans mouvements_solde (portefeuille + contrepartie).
+ *
+ * Séquestre : les gains d'une commande sont d'abord crédités sur
+ * users.solde_en_attente (compte "sequestre"). Quand la commande est livrée,
+ * ils deviennent libérables après le délai de litige (DELAI_LITIGE_JOURS,
+ * 7 jours par défaut), puis passent sur le solde disponible
+ * (libererSoldesEchus, appelé par /api/cron/liberer-soldes).
+ */
+
+export const TYPES_MOUVEMENT = [
+    "vente",          // part boutique d'une commande
+    "frais_service",  // frais de service perçus par la plateforme
+    "liberation",     // passage du solde en attente au solde disponible
+    "annulation",     // reprise des crédits d'une commande annulée/remboursée
+    "remboursement",  // remboursement versé à un acheteur
+    "retrait",        // retrait du solde vers l'extérieur
+    "ajustement",     // opération manuelle d'un administrateur
+    "ouverture",      // reprise des soldes antérieurs au grand livre
+] as const;
+
+export type TypeMouvement = (typeof TYPES_MOUVEMENT)[number];
+
+export type CompteContrepartie = "encaissements" | "ajustements" | "decaissements";
+
+export interface NouveauMouvement {
+    user_id: string;
+    montant: number;            // positif = crédit, négatif = débit
+    type: TypeMouvement;
+    contrepartie: CompteContrepartie;
+    libelle?: string | null;
+    commande_id?: string | null;
+    paiement_id?: string | null;
+    acteur_id?: string | null;
+    solde_min?: number | null;  // refuse un solde final inférieur (ex. 0 pour un débit)
+}
+
+export type ResultatMouvement =
+    | { ok: true; solde: number }
+    | { ok: false; status: number; error: string; details?: string };
+
+/**
+ * Crédite ou débite un portefeuille et passe l'opération au grand livre,
+ * dans une seule transaction (fonction SQL mouvement_solde)
+ */
+export async function enregistrerMouvement(mouvement: NouveauMouvement): Promise<ResultatMouvement> {
+    const { data: solde, error } = await supabaseAdmin.rpc("mouvement_solde", {
+        p_user_id: mouvement.user_id,
+        p_montant: mouvement.montant,
+        p_type: mouvement.type,
+        p_contrepartie: mouvement.contrepartie,
+        p_libelle: mouvement.libelle ?? null,
+        p_commande_id: mouvement.commande_id ?? null,
+        p_paiement_id: mouvement.paiement_id ?? null,
+        p_acteur_id: mouvement.acteur_id ?? null,
+        p_solde_min: mouvement.solde_min ?? null,
+    });
+
+    if (error || typeof solde !== "number") {
+        // check_violation : solde minimum non respecté
+        if (error?.code === "23514") {
+            return { ok: false, status: 400, error: "Solde insuffisant", details: error.message };
+        }
+        // no_data_found
+        if (error?.code === "P0002") {
+            return { ok: false, status: 404, error: "Utilisateur introuvable" };
+        }
+
+        console.error("Erreur mouvement de solde:", error);
+        return { ok: false, status: 500, error: "Impossible de mettre à jour le solde" };
+    }
+
+    return { ok: true, solde };
+}
+
+// ============================================
+// SÉQUESTRE
+// ============================================
+
+const DELAI_LITIGE_JOURS = Math.max(Number(process.env.DELAI_LITIGE_JOURS ?? 7) || 0, 0);
+
+// Une réclamation ouverte suspend la libération des fonds de la commande
+const STATUTS_RECLAMATION_OUVERTE = ["En attente de traitement", "En cours"];
+
+// Seules les commandes livrées libèrent leurs fonds. Une commande remboursée
+// pour un montant partiel garde la part non remboursée.
+const STATUTS_LIBERABLES = ["Livrée", "Remboursée"];
+
+/**
+ * Démarre le délai de litige des crédits d'une commande qui vient d'être
+ * livrée. Sans délai (DELAI_LITIGE_JOURS=0), les fonds sont libérés aussitôt.
+ */
+export async function programmerLiberation(commandeId: string) {
+    const liberableAt = new Date(Date.now() + DELAI_LITIGE_JOURS * 24 * 3600 * 1000);
+
+    const { error } = await supabaseAdmin
+        .from("commande_soldes")
+        .update({ liberable_at: liberableAt.toISOString() })
+        .eq("commande_id", commandeId)
+        .is("libere_at", null)
+        .is("annule_at", null)
+        .is("liberable_at", null);
+
+    if (error) {
+        console.error("Erreur programmation libération:", error);
+        return;
+    }
+
+    if (DELAI_LITIGE_JOURS === 0) {
+        await libererSoldesEchus({ commandeId });
+    }
+}
+
+/**
+ * Commandes dont les fonds sont gelés par une réclamation ouverte : la
+ * commande visée et, pour une commande parente, ses sous-commandes
+ */
+async function commandesEnLitige(): Promise<string[]> {
+    const { data: reclamations, error } = await supabaseAdmin
+        .from("reclamations")
+        .select("commande_id")
+        .in("statut", STATUTS_RECLAMATION_OUVERTE);
+
+    if (error) {
+        throw new Error(`Lecture des réclamations ouvertes impossible: ${error.message}`);
+    }
+
+    const ids = [...new Set((reclamations || []).map((r) => r.commande_id))];
+    if (ids.length === 0) return [];
+
+    const { data: sousCommandes, error: sousError } = await supabaseAdmin
+        .from("commandes")
+        .select("id")
+        .in("parent_id", ids);
+
+    if (sousError) {
+        throw new Error(`Lecture des sous-commandes en litige impossible: ${sousError.message}`);
+    }
+
+    return [...new Set([...ids, ...(sousCommandes || []).map((c) => c.id)])];
+}
+
+/**
+ * Libère les crédits dont le délai de litige est écoulé, sauf si la commande
+ * n'est plus livrée ou si elle (ou sa commande parente) fait l'objet d'une
+ * réclamation ouverte. Ces crédits suspendus sont écartés dès la requête : ils
+ * n'occupent pas la page et ne retardent pas les crédits suivants.
+ * Prévient chaque bénéficiaire des fonds devenus disponibles.
+ */
+export async function libererSoldesEchus(options: { commandeId?: string; limite?: number } = {}): Promise<{
+    liberes: number;
+    montant: number;
+    suspendus: number;
+}> {
+    const maintenant = new Date().toISOString();
+    const enLitige = await commandesEnLitige();
+
+    // Tous les crédits échus, suspendus compris, pour compter les suspendus
+    let echusQuery = supabaseAdmin
+        .from("commande_soldes")
+        .select("id", { count: "exact", head: true })
+        .is("libere_at", null)
+        .is("annule_at", null)
+        .lte("liberable_at", maintenant);
+
+    let query = supabaseAdmin
+        .from("commande_soldes")
+        .select(
+            "id, user_id, montant, montant_rembourse, commande_id, commande:commandes!inner (id, numero, parent_id, statut)",
+            { count: "exact" }
+        )
+        .is("libere_at", null)
+        .is("annule_at", null)
+        .lte("liberable_at", maintenant)
+        .in("commande.statut", STATUTS_LIBERABLES)
+        .order("liberable_at", { ascending: true })
+        .limit(options.limite ?? 500);
+
+    if (enLitige.length > 0) {
+        query = query.not("commande_id", "in", `(${enLitige.join(",")})`);
+    }
+
+    if (options.commandeId) {
+        query = query.eq("commande_id", options.commandeId);
+        echusQuery = echusQuery.eq("commande_id", options.commandeId);
+    }
+
+    const [{ data: credits, count: liberables, error }, { count: echus }] = await Promise.all([
+        query,
+        echusQuery,
+    ]);
+
+    if (error) {
+        throw new Error(`Lecture des crédits à libérer impossible: ${error.message}`);
+    }
+
+    const suspendus = Math.max((echus ?? 0) - (liberables ?? 0), 0);
+
+    if (!credits || credits.length === 0) {
+        return { liberes: 0, montant: 0, suspendus };
+    }
+
+    type CommandeCredit = { id: string; numero: string; parent_id: string | null; statut: string };
+    const commandeDe = (credit: (typeof credits)[number]) =>
+        credit.commande as unknown as CommandeCredit;
+
+    let liberes = 0;
+    let montant = 0;
+    const parBeneficiaire = new Map<string, { montant: number; numeros: Set<string> }>();
+
+    for (const credit of credits) {
+        const commande = commandeDe(credit);
+
+        const { data: libere, error: rpcError } = await supabaseAdmin.rpc("liberer_credit_solde", {
+            p_credit_id: credit.id,
+        });
+
+        if (rpcError) {
+            console.error("Erreur libération crédit:", rpcError);
+            continue;
+        }
+
+        if (libere !== true) continue;
+
+        const net = credit.montant - credit.montant_rembourse;
+        liberes++;
+        montant += net;
+
+        const cumul = parBeneficiaire.get(credit.user_id) ?? { montant: 0, numeros: new Set<string>() };
+        cumul.montant += net;
+        cumul.numeros.add(commande.numero);
+        parBeneficiaire.set(credit.user_id, cumul);
+    }
+
+    for (const [userId, cumul] of parBeneficiaire) {
+        if (cumul.montant <= 0) continue;
+
+        const numeros = [...cumul.numeros];
+        await notifierUtilisateur({
+            user_id: userId,
+            type: "systeme",
+            titre: "Fonds disponibles",
+            message: `${cumul.montant} FCFA sont disponibles sur votre solde (commande${numeros.length > 1 ? "s" : ""} ${numeros.join(", ")}).`,
+        });
+    }
+
+    return { liberes, montant, suspendus };
+}
@@ -0,0 +1,201 @@
+// app/lib/sousCommandes.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import {
+    peutChangerStatut,
+    statutCommandeParente,
+    type CommandeStatutValue,
+    type RoleCommande,
+} from "./commandeStatuts";
+import { enregistrerHistoriqueCommande, type SourceHistorique } from "./commandeHistorique";
+import { restituerCommande, STATUTS_RESTITUTION } from "./commandeRestitution";
+import { programmerLiberation } from "./soldes";
+
+/**
+ * Une commande acheteur multi-boutiques est découpée en :
+ * - une commande parente (numéro vu par l'acheteur, prix total, paiement) ;
+ * - une sous-commande par boutique (vendeur_id, articles, statut et livraison propres).
+ *
+ * Le statut de la parente n'est jamais saisi directement : il est recalculé
+ * à partir de celui des sous-commandes.
+ */
+
+const SELECT_SOUS_COMMANDE = `
+    *,
+    vendeur:users!commandes_vendeur_id_fkey (id, name, phone, url_logo),
+    commande_articles (
+        *,
+        articles (id, nom, prix, image_principale, categorie_id),
+        variations (id, couleur, taille, prix)
+    ),
+    livraisons (*)
+`;
+
+type CommandeAvecArticles = {
+    id: string;
+    commande_articles?: unknown[] | null;
+};
+
+/**
+ * Ajoute `sous_commandes` à chaque commande de la liste et, pour les
+ * commandes parentes, regroupe les articles des sous-commandes dans
+ * `commande_articles` (les clients existants continuent de voir une seule commande).
+ */
+export async function attacherSousCommandes<T extends CommandeAvecArticles>(commandes: T[]) {
+    if (commandes.length === 0) return commandes;
+
+    const { data: sousCommandes, error } = await supabaseAdmin
+        .from("commandes")
+        .select(SELECT_SOUS_COMMANDE)
+        .in("parent_id", commandes.map((c) => c.id))
+        .order("numero", { ascending: true });
+
+    if (error) {
+        console.error("Erreur récupération sous-commandes:", error);
+        return commandes;
+    }
+
+    return commandes.map((commande) => {
+        const enfants = (sousCommandes || []).filter((sc) => sc.parent_id === commande.id);
+        if (enfants.length === 0) {
+            return { ...commande, sous_commandes: [] };
+        }
+
+        return {
+            ...commande,
+            sous_commandes: enfants,
+            commande_articles: enfants.flatMap((sc) => sc.commande_articles || []),
+        };
+    });
+}
+
+/**
+ * Recalcule le statut de la commande parente de `commandeId`
+ * (sans effet si la commande n'a pas de parente)
+ */
+export async function synchroniserCommandeParente(
+    commandeId: string,
+    acteur?: { id: string; role: string }
+) {
+    const { data: commande } = await supabaseAdmin
+        .from("commandes")
+        .select("parent_id")
+        .eq("id", commandeId)
+        .single();
+
+    if (!commande?.parent_id) return;
+
+    const [{ data: parent }, { data: enfants }] = await Promise.all([
+        supabaseAdmin
+            .from("commandes")
+            .select("id, statut")
+            .eq("id", commande.parent_id)
+            .single(),
+        supabaseAdmin
+            .from("commandes")
+            .select("statut")
+            .eq("parent_id", commande.parent_id),
+    ]);
+
+    if (!parent || !enfants) return;
+
+    const nouveauStatut = statutCommandeParente(enfants.map((e) => e.statut));
+    if (!nouveauStatut || nouveauStatut === parent.statut) return;
+
+    const { error } = await supabaseAdmin
+        .from("commandes")
+        .update({ statut: nouveauStatut, updated_at: new Date().toISOString() })
+        .eq("id", parent.id);
+
+    if (error) {
+        console.error("Erreur synchronisation commande parente:", error);
+        return;
+    }
+
+    await enregistrerHistoriqueCommande({
+        commande_id: parent.id,
+        ancien_statut: parent.statut,
+        nouveau_statut: nouveauStatut,
+        acteur_id: acteur?.id ?? null,
+        acteur_role: acteur?.role ?? null,
+        source: "systeme",
+        note: "Statut recalculé à partir des sous-commandes",
+    });
+}
+
+/**
+ * Applique un statut à une commande en tenant compte des sous-commandes :
+ * sur une commande parente, chaque sous-commande qui autorise la transition
+ * pour `roles` est modifiée ; sinon la commande elle-même.
+ * Enregistre l'historique, restitue stock et soldes ou démarre la libération
+ * des gains si besoin, puis recalcule la commande parente. Retourne les ids effectivement modifiés.
+ * Une annulation conserve `note` comme motif (motif_annulation) ; `acteur` est
+ * null pour une tâche planifiée.
+ */
+export async function appliquerStatutCommande(params: {
+    commande: { id: string; numero: string; statut: string };
+    statut: CommandeStatutValue;
+    roles: RoleCommande[];
+    acteur: { id: string; role: string } | null;
+    source: SourceHistorique;
+    note?: string | null;
+}): Promise<string[]> {
+    const { commande, statut, roles, acteur, source, note } = params;
+
+    const { data: sousCommandes } = await supabaseAdmin
+        .from("commandes")
+        .select("id, statut")
+        .eq("parent_id", commande.id);
+
+    const cibles = sousCommandes && sousCommandes.length > 0
+        ? sousCommandes
+        : [{ id: commande.id, statut: commande.statut }];
+
+    const modifiees: string[] = [];
+
+    for (const cible of cibles) {
+        if (!peutChangerStatut(cible.statut, statut, roles)) continue;
+
+        const { data: updated, error } = await supabaseAdmin
+            .from("commandes")
+            .update({
+                statut,
+                ...(statut === "Annulée" && note ? { motif_annulation: note } : {}),
+                updated_at: new Date().toISOString()
+            })
+            .eq("id", cible.id)
+            // Ne met à jour que si le statut n'a pas changé depuis la lecture
+            .eq("statut", cible.statut)
+            .select("id");
+
+        if (error || !updated || updated.length === 0) {
+            if (error) console.error("Erreur mise à jour statut commande:", error);
+            continue;
+        }
+
+        await enregistrerHistoriqueCommande({
+            commande_id: cible.id,
+            ancien_statut: cible.statut,
+            nouveau_statut: statut,
+            acteur_id: acteur?.id ?? null,
+            acteur_role: acteur?.role ?? null,
+            source,
+            note: note ?? (cible.id !== commande.id ? `Depuis la commande ${commande.numero}` : null),
+        });
+
+        if (STATUTS_RESTITUTION.includes(statut)) {
+            await restituerCommande(cible.id);
+        }
+
+        if (statut === "Livrée") {
+            await programmerLiberation(cible.id);
+        }
+
+        modifiees.push(cible.id);
+    }
+
+    if (modifiees.length > 0) {
+        await synchroniserCommandeParente(modifiees[0], acteur ?? undefined);
+    }
+
+    return modifiees;
+}
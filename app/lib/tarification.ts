@@ -0,0 +1,176 @@
+// app/lib/tarification.ts
+/**
+ * Calcul du montant d'une commande : prix unitaire de chaque ligne (promo ou
+ * variation), remise d'un code promo, frais de service (barème), frais de
+ * livraison par boutique et total. Utilisé à l'identique par le devis (/api/commandes/quote) et par le
+ * passage de commande, pour que le devis corresponde toujours à la commande.
+ *
+ * Module partagé API / dashboard : il ne doit rien importer de spécifique au serveur.
+ */
+
+import {
+    calculerFraisService,
+    trouverRegleCommission,
+    type CommissionRegle,
+} from "./commissions";
+import { repartirFraisLivraison, type ZoneLivraison } from "./zonesLivraison";
+import {
+    calculerRemiseCodePromo,
+    financeurCodePromo,
+    type CodePromo,
+    type FinanceurRemise,
+} from "./codesPromo";
+
+/**
+ * Prix unitaire appliqué : prix promo s'il existe, sinon prix de la
+ * variation (0 = prix de l'article), sinon prix de l'article
+ */
+export function prixUnitaireArticle(
+    article: { prix: number; prix_promotion: number | null; is_promotion: boolean },
+    variation?: { prix: number } | null
+): number {
+    if (article.is_promotion && article.prix_promotion) {
+        return article.prix_promotion;
+    }
+    return prixCatalogue(article, variation);
+}
+
+/**
+ * Prix hors promotion : celui de la variation (0 = prix de l'article), sinon de l'article
+ */
+export function prixCatalogue(
+    article: { prix: number },
+    variation?: { prix: number } | null
+): number {
+    return variation && variation.prix !== 0 ? variation.prix : article.prix;
+}
+
+export interface LigneATarifer {
+    article_id: string;
+    variation_id: string | null;
+    quantite: number;
+    prix_unitaire: number;   // prix appliqué (promo comprise)
+    prix_catalogue: number;  // prix hors promo, pour afficher la remise
+    boutique_id: string;
+    categorie_id: string | null;
+}
+
+export interface LigneTarifee extends LigneATarifer {
+    remise: number;          // (prix_catalogue - prix_unitaire) * quantite
+    remise_code_promo: number;
+    remise_financee_par: FinanceurRemise | null; // null sans remise de code promo
+    sous_total: number;      // prix_unitaire * quantite - remise_code_promo
+    frais_service: number;
+    commission_regle_id: string | null;
+    benefice: number;        // part de la boutique (sous_total - benefice revient à la plateforme)
+}
+
+export interface TarifBoutique {
+    boutique_id: string;
+    montant_articles: number;
+    frais_service: number;
+    frais_livraison: number;
+}
+
+export interface Tarification {
+    lignes: LigneTarifee[];
+    boutiques: TarifBoutique[];
+    montant_catalogue: number;
+    remises: number;
+    code_promo: { id: string; code: string } | null;
+    remise_code_promo: number;
+    erreur_code_promo: string | null; // code refusé (minimum, portée) : aucune remise
+    montant_articles: number;
+    frais_service: number;    // inclus dans montant_articles (prélevé sur la part boutique)
+    frais_livraison: number;
+    total: number;
+}
+
+/**
+ * Détail complet du montant d'une commande
+ *
+ * @param zone zone de livraison, null pour un retrait en boutique
+ * @param codePromo code saisi par l'acheteur, déjà contrôlé (validité, limites d'utilisation)
+ */
+export function calculerTarification(
+    lignes: LigneATarifer[],
+    regles: CommissionRegle[],
+    zone: Pick<ZoneLivraison, "prix_base" | "supplement_boutique" | "plafond" | "seuil_gratuite"> | null,
+    codePromo: CodePromo | null = null
+): Tarification {
+    const remiseCode = codePromo ? calculerRemiseCodePromo(codePromo, lignes) : null;
+    const remisesCode = remiseCode?.ok ? remiseCode.parLigne : lignes.map(() => 0);
+    const financeur = codePromo ? financeurCodePromo(codePromo) : null;
+
+    const lignesTarifees: LigneTarifee[] = lignes.map((ligne, index) => {
+        const remiseCodePromo = remisesCode[index];
+        const montantLigne = ligne.prix_unitaire * ligne.quantite;
+        const sousTotal = montantLigne - remiseCodePromo;
+        // Remise d'un code d'administrateur : la boutique est payée comme sans remise
+        const remiseBoutique = remiseCodePromo > 0 && financeur === "boutique";
+        const ligneCommission = {
+            prix_unitaire: ligne.prix_unitaire,
+            quantite: ligne.quantite,
+            categorie_id: ligne.categorie_id,
+            boutique_id: ligne.boutique_id,
+        };
+        const regle = trouverRegleCommission(regles, ligneCommission);
+        // Avec un code promo de la boutique, les frais portent sur le prix remisé
+        const frais = remiseBoutique
+            ? Math.min(
+                calculerFraisService(regle, {
+                    ...ligneCommission,
+                    prix_unitaire: Math.round(sousTotal / ligne.quantite),
+                }),
+                sousTotal
+            )
+            : calculerFraisService(regle, ligneCommission);
+
+        return {
+            ...ligne,
+            remise: Math.max(ligne.prix_catalogue - ligne.prix_unitaire, 0) * ligne.quantite,
+            remise_code_promo: remiseCodePromo,
+            remise_financee_par: remiseCodePromo > 0 ? financeur : null,
+            sous_total: sousTotal,
+            frais_service: frais,
+            commission_regle_id: regle?.id ?? null,
+            benefice: (remiseBoutique ? sousTotal : montantLigne) - frais,
+        };
+    });
+
+    const somme = (valeurs: number[]) => valeurs.reduce((sum, v) => sum + v, 0);
+
+    const montantArticles = somme(lignesTarifees.map((l) => l.sous_total));
+    const boutiqueIds = [...new Set(lignesTarifees.map((l) => l.boutique_id))];
+    const livraisons = zone
+        ? repartirFraisLivraison(zone, boutiqueIds.length, montantArticles)
+        : boutiqueIds.map(() => 0);
+
+    const boutiques = boutiqueIds.map((boutiqueId, index) => {
+        const lignesBoutique = lignesTarifees.filter((l) => l.boutique_id === boutiqueId);
+        return {
+            boutique_id: boutiqueId,
+            montant_articles: somme(lignesBoutique.map((l) => l.sous_total)),
+            frais_service: somme(lignesBoutique.map((l) => l.frais_service)),
+            frais_livraison: livraisons[index],
+        };
+    });
+
+    const remises = somme(lignesTarifees.map((l) => l.remise));
+    const remiseCodePromo = somme(remisesCode);
+    const fraisLivraison = somme(livraisons);
+
+    return {
+        lignes: lignesTarifees,
+        boutiques,
+        montant_catalogue: montantArticles + remises + remiseCodePromo,
+        remises,
+        code_promo: codePromo && remiseCode?.ok ? { id: codePromo.id, code: codePromo.code } : null,
+        remise_code_promo: remiseCodePromo,
+        erreur_code_promo: remiseCode && !remiseCode.ok ? remiseCode.error : null,
+        montant_articles: montantArticles,
+        frais_service: somme(lignesTarifees.map((l) => l.frais_service)),
+        frais_livraison: fraisLivraison,
+        total: montantArticles + fraisLivraison,
+    };
+}
@@ -0,0 +1,309 @@
+// app/lib/tentativesLivraison.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+import { notifierAdministrateurs, notifierUtilisateur } from "./notifications";
+import { enregistrerEvenementsLivraison } from "./livraisonEvenements";
+
+/**
+ * Tentatives de livraison échouées
+ *
+ * Quand le colis ne peut pas être remis, le livreur enregistre la tentative
+ * avec son motif : la livraison passe "Reportée", son compteur de tentatives
+ * augmente et l'acheteur est invité à choisir un nouveau créneau
+ * (/api/livraisons/{id}/replanifier), qui remet la livraison en route.
+ *
+ * À la TENTATIVES_AVANT_RETOUR-ième tentative échouée, la livraison n'est plus
+ * replanifiable : elle est marquée à retourner à la boutique (retour_at), et
+ * les administrateurs comme la boutique sont prévenus. La suite (annulation,
+ * remboursement) reste une décision d'administrateur.
+ */
+
+export const TENTATIVES_AVANT_RETOUR = Math.max(
+    Number(process.env.TENTATIVES_LIVRAISON_MAX ?? 3) || 0,
+    1
+);
+
+// Un nouveau créneau se choisit au plus tard ce nombre de jours à l'avance
+export const DELAI_REPLANIFICATION_JOURS = 14;
+
+export const MOTIFS_ECHEC_LIVRAISON = [
+    "absent",
+    "adresse_erronee",
+    "refus",
+    "injoignable",
+    "autre",
+] as const;
+
+export type MotifEchecLivraison = (typeof MOTIFS_ECHEC_LIVRAISON)[number];
+
+export const LIBELLES_MOTIF_ECHEC: Record<MotifEchecLivraison, string> = {
+    absent: "Client absent",
+    adresse_erronee: "Adresse erronée ou introuvable",
+    refus: "Colis refusé par le client",
+    injoignable: "Client injoignable",
+    autre: "Autre motif",
+};
+
+type Echec = { ok: false; status: number; error: string };
+
+export interface LivraisonTentative {
+    id: string;
+    statut: string;
+    commande_id: string;
+    user_id: string | null;
+    livreur_id: string | null;
+    tentatives: number;
+    retour_at: string | null;
+}
+
+export interface TentativeLivraison {
+    id: string;
+    livraison_id: string;
+    numero: number;
+    motif: MotifEchecLivraison;
+    note: string | null;
+    nouvelle_date: string | null;
+    replanifiee_at: string | null;
+    created_at: string;
+}
+
+const formatCreneau = (date: string) =>
+    new Date(date).toLocaleString("fr-FR", {
+        weekday: "long",
+        day: "2-digit",
+        month: "long",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+/**
+ * Acheteur et boutique de la commande livrée
+ * (commande mono-boutique : auteur des articles)
+ */
+async function partiesCommande(livraison: LivraisonTentative) {
+    const { data } = await supabaseAdmin
+        .from("commandes")
+        .select("numero, user_id, vendeur_id, commande_articles (articles (user_id))")
+        .eq("id", livraison.commande_id)
+        .single();
+
+    const articles = (data?.commande_articles ?? []) as unknown as { articles: { user_id: string } | null }[];
+
+    return {
+        numero: data?.numero ?? "",
+        acheteurId: livraison.user_id ?? data?.user_id ?? null,
+        boutiqueId: data?.vendeur_id ?? articles.find((ca) => ca.articles)?.articles?.user_id ?? null,
+    };
+}
+
+/**
+ * Enregistre une tentative de livraison échouée
+ */
+export async function enregistrerTentativeEchouee(params: {
+    livraison: LivraisonTentative;
+    motif: MotifEchecLivraison;
+    note?: string | null;
+    acteur: { id: string; role: string };
+}): Promise<{ ok: true; tentative: TentativeLivraison; retour: boolean } | Echec> {
+    const { livraison, motif, note, acteur } = params;
+
+    if (livraison.statut !== "En cours de livraison") {
+        return { ok: false, status: 409, error: "Seule une livraison en cours peut être signalée en échec" };
+    }
+
+    const numero = livraison.tentatives + 1;
+    const retour = numero >= TENTATIVES_AVANT_RETOUR;
+
+    // Le numéro est unique par livraison : deux signalements simultanés ne comptent qu'une fois
+    const { data: tentative, error: insertError } = await supabaseAdmin
+        .from("tentatives_livraison")
+        .insert({
+            livraison_id: livraison.id,
+            numero,
+            motif,
+            note: note || null,
+            acteur_id: acteur.id,
+        })
+        .select("id, livraison_id, numero, motif, note, nouvelle_date, replanifiee_at, created_at")
+        .single();
+
+    if (insertError?.code === "23505") {
+        return { ok: false, status: 409, error: "Cette tentative a déjà été enregistrée" };
+    }
+
+    if (insertError || !tentative) {
+        console.error("Erreur enregistrement tentative:", insertError);
+        return { ok: false, status: 500, error: "Impossible d'enregistrer la tentative" };
+    }
+
+    const maintenant = new Date().toISOString();
+    const { data: reportees, error: updateError } = await supabaseAdmin
+        .from("livraisons")
+        .update({
+            statut: "Reportée",
+            tentatives: numero,
+            retour_at: retour ? maintenant : null,
+            updated_at: maintenant,
+        })
+        .eq("id", livraison.id)
+        .eq("statut", "En cours de livraison")
+        .eq("tentatives", livraison.tentatives)
+        .select("id");
+
+    if (updateError || !reportees || reportees.length === 0) {
+        await supabaseAdmin.from("tentatives_livraison").delete().eq("id", tentative.id);
+
+        if (updateError) {
+            console.error("Erreur report livraison:", updateError);
+            return { ok: false, status: 500, error: "Impossible d'enregistrer la tentative" };
+        }
+        return { ok: false, status: 409, error: "La livraison a changé entre-temps : rechargez-la" };
+    }
+
+    const libelle = LIBELLES_MOTIF_ECHEC[motif];
+    const auteur = { acteur_id: acteur.id, acteur_role: acteur.role };
+
+    await enregistrerEvenementsLivraison([
+        {
+            livraison_id: livraison.id,
+            type: "tentative_echouee",
+            note: `Tentative ${numero} : ${libelle}${note ? ` — ${note}` : ""}`,
+            ...auteur,
+        },
+        {
+            livraison_id: livraison.id,
+            type: "reportee",
+            note: retour ? "Retour du colis à la boutique" : "En attente d'un nouveau créneau",
+            ...auteur,
+        },
+    ]);
+
+    const { numero: numeroCommande, acheteurId, boutiqueId } = await partiesCommande(livraison);
+
+    if (!retour) {
+        if (acheteurId) {
+            await notifierUtilisateur({
+                user_id: acheteurId,
+                type: "livraison",
+                titre: "Livraison manquée",
+                message: `Notre livreur n'a pas pu vous remettre la commande ${numeroCommande} (${libelle.toLowerCase()}). Choisissez un nouveau créneau de livraison.`,
+                lien: `/commandes/${livraison.commande_id}`,
+            });
+        }
+        return { ok: true, tentative: tentative as TentativeLivraison, retour };
+    }
+
+    if (acheteurId) {
+        await notifierUtilisateur({
+            user_id: acheteurId,
+            type: "livraison",
+            titre: "Livraison abandonnée",
+            message: `Après ${numero} tentatives, la commande ${numeroCommande} n'a pas pu vous être livrée et retourne à la boutique. Le service client va vous contacter.`,
+            lien: `/commandes/${livraison.commande_id}`,
+        });
+    }
+
+    if (boutiqueId) {
+        await notifierUtilisateur({
+            user_id: boutiqueId,
+            type: "livraison",
+            titre: "Colis en retour",
+            message: `La commande ${numeroCommande} n'a pas pu être livrée après ${numero} tentatives : le colis vous sera retourné.`,
+            lien: `/commandes/${livraison.commande_id}`,
+        });
+    }
+
+    await notifierAdministrateurs({
+        type: "livraison",
+        titre: "Livraison à retourner",
+        message: `Commande ${numeroCommande} : ${numero} tentatives échouées (dernière : ${libelle.toLowerCase()}). Colis à retourner à la boutique.`,
+        lien: "/dashboard/livraisons",
+    });
+
+    return { ok: true, tentative: tentative as TentativeLivraison, retour };
+}
+
+/**
+ * Contrôle le créneau choisi par l'acheteur : à venir, dans la limite de
+ * DELAI_REPLANIFICATION_JOURS
+ */
+export function creneauValide(date: string): boolean {
+    const creneau = Date.parse(date);
+    const maintenant = Date.now();
+    return creneau > maintenant && creneau <= maintenant + DELAI_REPLANIFICATION_JOURS * 24 * 3600 * 1000;
+}
+
+/**
+ * Programme une livraison reportée sur un nouveau créneau
+ * Avec un livreur toujours assigné, la livraison repart directement en cours.
+ */
+export async function replanifierLivraison(params: {
+    livraison: LivraisonTentative;
+    date: string;
+    acteur: { id: string; role: string };
+}): Promise<{ ok: true; statut: string } | Echec> {
+    const { livraison, date, acteur } = params;
+
+    if (livraison.retour_at) {
+        return { ok: false, status: 409, error: "Colis en retour vers la boutique : contactez le service client" };
+    }
+
+    if (livraison.statut !== "Reportée") {
+        return { ok: false, status: 409, error: "Seule une livraison reportée peut être replanifiée" };
+    }
+
+    if (!creneauValide(date)) {
+        return {
+            ok: false,
+            status: 400,
+            error: `Choisissez un créneau à venir, dans les ${DELAI_REPLANIFICATION_JOURS} prochains jours`,
+        };
+    }
+
+    const statut = livraison.livreur_id ? "En cours de livraison" : "En attente";
+    const maintenant = new Date().toISOString();
+
+    const { data: replanifiees, error } = await supabaseAdmin
+        .from("livraisons")
+        .update({ statut, date_livraison: date, updated_at: maintenant })
+        .eq("id", livraison.id)
+        .eq("statut", "Reportée")
+        .is("retour_at", null)
+        .select("id");
+
+    if (error) {
+        console.error("Erreur replanification livraison:", error);
+        return { ok: false, status: 500, error: "Impossible de replanifier la livraison" };
+    }
+
+    if (!replanifiees || replanifiees.length === 0) {
+        return { ok: false, status: 409, error: "La livraison a changé entre-temps : rechargez-la" };
+    }
+
+    if (livraison.tentatives > 0) {
+        await supabaseAdmin
+            .from("tentatives_livraison")
+            .update({ nouvelle_date: date, replanifiee_at: maintenant })
+            .eq("livraison_id", livraison.id)
+            .eq("numero", livraison.tentatives);
+    }
+
+    await enregistrerEvenementsLivraison([{
+        livraison_id: livraison.id,
+        type: "reportee",
+        note: `Nouveau créneau : ${formatCreneau(date)}`,
+        acteur_id: acteur.id,
+        acteur_role: acteur.role,
+    }]);
+
+    if (livraison.livreur_id) {
+        await notifierUtilisateur({
+            user_id: livraison.livreur_id,
+            type: "livraison",
+            titre: "Livraison replanifiée",
+            message: `Nouveau créneau de livraison : ${formatCreneau(date)}.`,
+            lien: "/livreur/feuille-de-route",
+        });
+    }
+
+    return { ok: true, statut };
+}
@@ -0,0 +1,88 @@
+// app/lib/zonesLivraison.ts
+/**
+ * Zones et grille tarifaire de livraison
+ *
+ * Une zone regroupe des communes / quartiers d'une ville et porte son tarif :
+ * un prix de base pour la première boutique, un supplément par boutique
+ * supplémentaire, un plafond éventuel et un seuil de gratuité (sur le montant
+ * des articles).
+ *
+ * Module partagé API / dashboard : il ne doit rien importer de spécifique au serveur.
+ */
+
+import { z } from "zod";
+
+export interface ZoneLivraison {
+    id: string;
+    nom: string;
+    ville: string;
+    quartiers: string[];
+    prix_base: number;
+    supplement_boutique: number;
+    plafond: number | null;
+    seuil_gratuite: number | null;
+    is_active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * Validation d'une zone envoyée à l'API (création / mise à jour)
+ */
+export const zoneLivraisonSchema = z.object({
+    nom: z.string().min(1).max(255),
+    ville: z.string().min(1).max(255),
+    quartiers: z.array(z.string().min(1).max(255)).default([]),
+    prix_base: z.number().int().min(0),
+    supplement_boutique: z.number().int().min(0).default(0),
+    plafond: z.number().int().positive().nullable().default(null),
+    seuil_gratuite: z.number().int().positive().nullable().default(null),
+    is_active: z.boolean().default(true),
+});
+
+/**
+ * Frais de livraison d'une commande pour une zone
+ *
+ * @param nombreBoutiques nombre de boutiques (donc de colis) de la commande
+ * @param montantArticles total des articles, pour le seuil de gratuité
+ */
+export function calculerFraisLivraison(
+    zone: Pick<ZoneLivraison, "prix_base" | "supplement_boutique" | "plafond" | "seuil_gratuite">,
+    nombreBoutiques: number,
+    montantArticles: number
+): number {
+    if (nombreBoutiques <= 0) return 0;
+
+    if (zone.seuil_gratuite !== null && montantArticles >= zone.seuil_gratuite) {
+        return 0;
+    }
+
+    const frais = zone.prix_base + zone.supplement_boutique * (nombreBoutiques - 1);
+
+    return zone.plafond !== null ? Math.min(frais, zone.plafond) : frais;
+}
+
+/**
+ * Répartit les frais de livraison entre les boutiques de la commande :
+ * prix de base pour la première, supplément pour les suivantes, réduits
+ * proportionnellement si le plafond s'applique (l'arrondi va à la première)
+ */
+export function repartirFraisLivraison(
+    zone: Pick<ZoneLivraison, "prix_base" | "supplement_boutique" | "plafond" | "seuil_gratuite">,
+    nombreBoutiques: number,
+    montantArticles: number
+): number[] {
+    const frais = calculerFraisLivraison(zone, nombreBoutiques, montantArticles);
+    const parts = Array.from({ length: nombreBoutiques }, (_, i) =>
+        i === 0 ? zone.prix_base : zone.supplement_boutique
+    );
+    const totalParts = parts.reduce((sum, p) => sum + p, 0);
+
+    if (totalParts === frais) return parts;
+    if (totalParts === 0) return parts.map(() => 0);
+
+    const reduites = parts.map((p) => Math.floor((p * frais) / totalParts));
+    reduites[0] += frais - reduites.reduce((sum, p) => sum + p, 0);
+
+    return reduites;
+}
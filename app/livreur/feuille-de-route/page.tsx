@@ -0,0 +1,324 @@
+'use client';
+
+import React from 'react';
+import { toast } from "sonner";
+import {
+    ArrowDown,
+    ArrowUp,
+    Banknote,
+    MapPin,
+    Phone,
+    Printer,
+    Store,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import {
+    useFeuilleDeRouteStore,
+    type ArretTournee,
+    type MotifEchecLivraison,
+} from '@/stores/feuilleDeRouteStore';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatMontant = (montant: number) =>
+    new Intl.NumberFormat('fr-FR', {
+        style: 'currency',
+        currency: 'XAF',
+        minimumFractionDigits: 0,
+    }).format(montant);
+
+const formatHeure = (date: string) =>
+    new Date(date).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+
+// Motifs courants ; "autre", qui exige une précision, reste disponible via l'API
+const MOTIFS_ECHEC: { value: MotifEchecLivraison; label: string }[] = [
+    { value: 'absent', label: 'Client absent' },
+    { value: 'injoignable', label: 'Client injoignable' },
+    { value: 'adresse_erronee', label: 'Adresse erronée' },
+    { value: 'refus', label: 'Colis refusé' },
+];
+
+// Intitulé du groupe d'un arrêt : les collectes, puis ville · quartier
+const secteur = (arret: ArretTournee) =>
+    arret.type === 'collecte' ? 'Collectes en boutique' : `${arret.ville} · ${arret.quartier}`;
+
+export default function FeuilleDeRoutePage() {
+    // ============================================
+    // ÉTAT
+    // ============================================
+
+    const {
+        feuille,
+        isLoading,
+        error,
+        fetchFeuille,
+        ordonnerArrets,
+        marquerArret,
+        signalerEchec,
+    } = useFeuilleDeRouteStore();
+    const [date, setDate] = React.useState(() => new Date().toISOString().slice(0, 10));
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    React.useEffect(() => {
+        fetchFeuille(date);
+    }, [date, fetchFeuille]);
+
+    // ============================================
+    // ACTIONS
+    // ============================================
+
+    const deplacer = async (index: number, sens: -1 | 1) => {
+        if (!feuille) return;
+        const cles = feuille.arrets.map(a => a.cle);
+        const cible = index + sens;
+        if (cible < 0 || cible >= cles.length) return;
+        [cles[index], cles[cible]] = [cles[cible], cles[index]];
+
+        setIsSaving(true);
+        try {
+            await ordonnerArrets(cles);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Impossible de déplacer l'arrêt");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const basculer = async (arret: ArretTournee, fait: boolean) => {
+        setIsSaving(true);
+        try {
+            await marquerArret(arret.cle, fait);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Impossible de mettre à jour l'arrêt");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const echouer = async (livraisonId: string, motif: MotifEchecLivraison) => {
+        setIsSaving(true);
+        try {
+            toast.success(await signalerEchec(livraisonId, motif));
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Impossible de signaler l'échec");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    const arrets = feuille?.arrets ?? [];
+    const faits = arrets.filter(a => a.fait_at).length;
+    const nbRemises = arrets.filter(a => a.type === 'remise').length;
+
+    return (
+        <main className="max-w-3xl mx-auto p-4 space-y-4 print:max-w-none print:p-0">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                    <h1 className="text-2xl font-bold">Feuille de route</h1>
+                    {feuille && (
+                        <p className="text-muted-foreground">
+                            {feuille.livreur.name} · {new Date(`${feuille.date}T00:00:00`).toLocaleDateString('fr-FR', {
+                                weekday: 'long',
+                                day: '2-digit',
+                                month: 'long',
+                                year: 'numeric',
+                            })}
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2 print:hidden">
+                    <Input
+                        type="date"
+                        value={date}
+                        onChange={(e) => e.target.value && setDate(e.target.value)}
+                        className="w-auto"
+                    />
+                    <Button variant="outline" onClick={() => window.print()} disabled={!feuille}>
+                        <Printer className="mr-2 h-4 w-4" />
+                        Imprimer
+                    </Button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {feuille && (
+                <Card>
+                    <CardContent className="grid grid-cols-3 gap-3 pt-6 text-center">
+                        <div>
+                            <p className="text-xs text-muted-foreground">Arrêts effectués</p>
+                            <p className="text-xl font-semibold">{faits} / {arrets.length}</p>
+                        </div>
+                        <div>
+                            <p className="text-xs text-muted-foreground">Colis à remettre</p>
+                            <p className="text-xl font-semibold">{nbRemises}</p>
+                        </div>
+                        <div>
+                            <p className="text-xs text-muted-foreground">Espèces à encaisser</p>
+                            <p className="text-xl font-semibold">{formatMontant(feuille.especes_total)}</p>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {isLoading && !feuille && <p className="text-sm text-muted-foreground">Chargement...</p>}
+
+            {feuille && arrets.length === 0 && (
+                <p className="text-sm text-muted-foreground">Aucune livraison prévue ce jour-là.</p>
+            )}
+
+            {arrets.map((arret, index) => {
+                const nouveauGroupe = index === 0 || secteur(arrets[index - 1]) !== secteur(arret);
+                return (
+                    <React.Fragment key={arret.cle}>
+                        {nouveauGroupe && (
+                            <h2 className="pt-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                                {secteur(arret)}
+                            </h2>
+                        )}
+                        <Card className={`break-inside-avoid ${arret.fait_at ? 'opacity-60 print:opacity-100' : ''}`}>
+                            <CardHeader className="pb-2">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-start gap-3">
+                                        <Checkbox
+                                            checked={!!arret.fait_at}
+                                            disabled={isSaving}
+                                            onCheckedChange={(checked) => basculer(arret, checked === true)}
+                                            className="mt-1"
+                                            aria-label="Arrêt effectué"
+                                        />
+                                        <div>
+                                            <CardTitle className="text-base">
+                                                {index + 1}. {arret.type === 'collecte'
+                                                    ? arret.boutique.name
+                                                    : arret.livraison.client ?? 'Client'}
+                                            </CardTitle>
+                                            <CardDescription>
+                                                {arret.type === 'collecte'
+                                                    ? `Collecte de ${arret.livraisons.length} colis`
+                                                    : `Commande ${arret.livraison.numero ?? '—'} · prévue à ${formatHeure(arret.livraison.date_livraison)}`}
+                                            </CardDescription>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-1 print:hidden">
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={isSaving || index === 0}
+                                            onClick={() => deplacer(index, -1)}
+                                            aria-label="Monter"
+                                        >
+                                            <ArrowUp className="h-4 w-4" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={isSaving || index === arrets.length - 1}
+                                            onClick={() => deplacer(index, 1)}
+                                            aria-label="Descendre"
+                                        >
+                                            <ArrowDown className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="space-y-1.5 text-sm">
+                                {arret.type === 'collecte' ? (
+                                    <>
+                                        {arret.boutique.adresse && (
+                                            <p className="flex items-start gap-2">
+                                                <Store className="h-4 w-4 mt-0.5 shrink-0" />
+                                                {arret.boutique.adresse}
+                                            </p>
+                                        )}
+                                        {arret.boutique.phone && (
+                                            <a href={`tel:${arret.boutique.phone}`} className="flex items-center gap-2 font-mono">
+                                                <Phone className="h-4 w-4" />
+                                                {arret.boutique.phone}
+                                            </a>
+                                        )}
+                                        <p className="font-mono text-xs text-muted-foreground">
+                                            {arret.livraisons.map(l => l.numero ?? '—').join(' · ')}
+                                        </p>
+                                    </>
+                                ) : (
+                                    <>
+                                        <p className="flex items-start gap-2">
+                                            <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+                                            <span>
+                                                {arret.livraison.adresse}
+                                                {arret.livraison.details && (
+                                                    <span className="text-muted-foreground"> — {arret.livraison.details}</span>
+                                                )}
+                                            </span>
+                                        </p>
+                                        <a href={`tel:${arret.livraison.phone}`} className="flex items-center gap-2 font-mono">
+                                            <Phone className="h-4 w-4" />
+                                            {arret.livraison.phone}
+                                        </a>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            {arret.especes !== null && (
+                                                <Badge variant="outline" className="text-orange-600 border-orange-300 bg-orange-50">
+                                                    <Banknote className="mr-1 h-3.5 w-3.5" />
+                                                    {formatMontant(arret.especes)} à encaisser
+                                                </Badge>
+                                            )}
+                                            <Badge variant="secondary">{arret.livraison.statut}</Badge>
+                                            {arret.livraison.tentatives > 0 && (
+                                                <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50">
+                                                    {arret.livraison.tentatives} échec{arret.livraison.tentatives > 1 ? 's' : ''}
+                                                </Badge>
+                                            )}
+                                        </div>
+                                        {arret.livraison.statut === 'En cours de livraison' && !arret.fait_at && (
+                                            <div className="print:hidden">
+                                                <Select
+                                                    value=""
+                                                    disabled={isSaving}
+                                                    onValueChange={(motif) => echouer(arret.livraison.id, motif as MotifEchecLivraison)}
+                                                >
+                                                    <SelectTrigger className="h-8 w-auto text-xs">
+                                                        <SelectValue placeholder="Signaler un échec de livraison" />
+                                                    </SelectTrigger>
+                                                    <SelectContent>
+                                                        {MOTIFS_ECHEC.map((m) => (
+                                                            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                        )}
+                                    </>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </React.Fragment>
+                );
+            })}
+        </main>
+    );
+}
@@ -0,0 +1,73 @@
+import { createClient } from "@/app/utils/supabase/serveur";
+import { redirect } from "next/navigation";
+import { AuthProvider } from "@/components/providers/auth-provider";
+import { User } from "@/stores/authStore";
+import { supabaseAdmin } from "../lib/supabaseAdmin";
+
+/**
+ * Layout de l'espace livreur - Server Component
+ *
+ * Même initialisation que le dashboard (session Supabase → authStore), sans
+ * sidebar : les pages sont consultées sur téléphone ou imprimées.
+ * Le rôle Livreur est vérifié par le middleware.
+ */
+export default async function LivreurLayout({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    const supabase = await createClient();
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+    if (!authUser || authError) {
+        redirect("/login");
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+        redirect("/login");
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+        .from("users")
+        .select("*")
+        .eq("auth_id", authUser.id)
+        .single();
+
+    if (!profile || profileError) {
+        redirect("/erreur");
+    }
+
+    if (!profile.is_active) {
+        redirect("/login");
+    }
+
+    const userData: User = {
+        id: profile.id,
+        auth_id: profile.auth_id,
+        name: profile.name,
+        email: profile.email,
+        role: profile.role as 'Client' | 'Boutique' | 'Livreur' | 'Administrateur',
+        url_logo: profile.url_logo,
+        phone: profile.phone,
+        address: profile.address,
+        description: profile.description,
+        heure_ouverture: profile.heure_ouverture,
+        heure_fermeture: profile.heure_fermeture,
+        solde: profile.solde,
+        solde_en_attente: profile.solde_en_attente ?? 0,
+        is_verified: profile.is_verified,
+        is_active: profile.is_active,
+        created_at: profile.created_at,
+        updated_at: profile.updated_at,
+    };
+
+    return (
+        <AuthProvider initialUser={userData} initialToken={session.access_token}>
+            <div className="min-h-screen bg-muted/30 print:bg-white">
+                {children}
+            </div>
+        </AuthProvider>
+    );
+}
@@ -2,6 +2,7 @@
 
 import { createClient } from "../utils/supabase/serveur";
 import { redirect } from "next/navigation";
+import { supabaseAdmin } from "../lib/supabaseAdmin";
 
 export async function loginAction(formData: FormData) {
     const email = formData.get("email") as string;
@@ -9,7 +10,7 @@ export async function loginAction(formData: FormData) {
 
     const supabase = await createClient();
 
-    const { error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await supabase.auth.signInWithPassword({
         email,
         password,
     });
@@ -44,8 +45,14 @@ export async function loginAction(formData: FormData) {
         return { error: errorMessage };
     }
 
-    // Succès → redirection
-    redirect("/dashboard");
+    // Succès → redirection (les livreurs arrivent sur leur feuille de route)
+    const { data: profile } = await supabaseAdmin
+        .from("users")
+        .select("role")
+        .eq("auth_id", data.user.id)
+        .single();
+
+    redirect(profile?.role === "Livreur" ? "/livreur/feuille-de-route" : "/dashboard");
 }
 
 export async function logoutAction() {
@@ -23,13 +23,21 @@ export default function Home() {
             />
             <span className="text-xl font-bold text-[#0b2545]">Ewuang</span>
           </div>
-          <Link
-            href="/login"
-            className="inline-flex items-center gap-2 bg-[#0b2545] text-white px-5 py-2.5 rounded-full text-sm font-medium hover:bg-[#0b2545]/90 transition-colors"
-          >
-            Se connecter
-            <ChevronRight className="w-4 h-4" />
-          </Link>
+          <div className="flex items-center gap-4">
+            <Link
+              href="/suivi"
+              className="text-sm font-medium text-[#0b2545] hover:underline"
+            >
+              Suivre une commande
+            </Link>
+            <Link
+              href="/login"
+              className="inline-flex items-center gap-2 bg-[#0b2545] text-white px-5 py-2.5 rounded-full text-sm font-medium hover:bg-[#0b2545]/90 transition-colors"
+            >
+              Se connecter
+              <ChevronRight className="w-4 h-4" />
+            </Link>
+          </div>
         </div>
       </header>
 
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import Image from "next/image";
+import Link from "next/link";
+import { Package, Search, Truck, CheckCircle, XCircle, Clock } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+
+// ============================================
+// TYPES (réponse de /api/suivi)
+// ============================================
+
+interface EtapeSuivi {
+    type: string;
+    libelle: string;
+    date: string;
+    acteur: string;
+}
+
+interface ColisSuivi {
+    numero: string;
+    statut_commande: string;
+    livraison: {
+        statut: string;
+        date_prevue: string;
+        evenements: EtapeSuivi[];
+    } | null;
+}
+
+interface Suivi {
+    numero: string;
+    statut: string;
+    date_commande: string;
+    colis: ColisSuivi[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('fr-FR', {
+        day: '2-digit',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+const getEtapeConfig = (type: string) => {
+    switch (type) {
+        case 'livree':
+            return { icon: CheckCircle, className: 'text-green-600 bg-green-50 border-green-300' };
+        case 'annulee':
+        case 'tentative_echouee':
+            return { icon: XCircle, className: 'text-red-600 bg-red-50 border-red-300' };
+        case 'reportee':
+            return { icon: Clock, className: 'text-amber-600 bg-amber-50 border-amber-300' };
+        case 'creee':
+            return { icon: Package, className: 'text-gray-600 bg-gray-50 border-gray-300' };
+        default:
+            return { icon: Truck, className: 'text-blue-600 bg-blue-50 border-blue-300' };
+    }
+};
+
+export default function SuiviPage() {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [numero, setNumero] = useState('');
+    const [telephone, setTelephone] = useState('');
+    const [suivi, setSuivi] = useState<Suivi | null>(null);
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    // ============================================
+    // RECHERCHE
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError('');
+        setSuivi(null);
+
+        try {
+            const response = await fetch('/api/suivi', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ numero: numero.trim(), telephone: telephone.trim() }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error
+                    || data.errors?.map((err: { message: string }) => err.message).join(', ')
+                    || 'Une erreur est survenue');
+                return;
+            }
+
+            setSuivi(data.suivi);
+        } catch {
+            setError('Service indisponible. Veuillez réessayer plus tard.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-[#e8fdf5] via-white to-[#f0fdf4]">
+            <header className="border-b border-gray-100 bg-white/80 backdrop-blur-md">
+                <div className="max-w-3xl mx-auto px-6 py-4">
+                    <Link href="/" className="flex items-center gap-3 w-fit">
+                        <Image src="/images/logo1.png" alt="Ewuang" width={40} height={40} />
+                        <span className="text-xl font-bold text-[#0b2545]">Ewuang</span>
+                    </Link>
+                </div>
+            </header>
+
+            <main className="max-w-3xl mx-auto px-6 py-10 space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-[#0b2545]">Suivre ma commande</h1>
+                    <p className="text-gray-600">
+                        Saisissez le numéro de votre commande et le téléphone utilisé pour la livraison.
+                    </p>
+                </div>
+
+                <Card>
+                    <CardContent className="pt-6">
+                        <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+                            <div className="space-y-2">
+                                <Label htmlFor="numero">Numéro de commande</Label>
+                                <Input
+                                    id="numero"
+                                    value={numero}
+                                    onChange={(e) => setNumero(e.target.value.toUpperCase())}
+                                    placeholder="Ex. CMD-26-00042"
+                                    className="font-mono"
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="telephone">Téléphone</Label>
+                                <Input
+                                    id="telephone"
+                                    type="tel"
+                                    value={telephone}
+                                    onChange={(e) => setTelephone(e.target.value)}
+                                    placeholder="Ex. 06 12 34 56"
+                                    required
+                                />
+                            </div>
+                            <Button type="submit" disabled={isLoading}>
+                                <Search className="mr-2 h-4 w-4" />
+                                {isLoading ? 'Recherche...' : 'Suivre'}
+                            </Button>
+                        </form>
+                        {error && <p className="mt-4 text-sm text-destructive">{error}</p>}
+                    </CardContent>
+                </Card>
+
+                {suivi && (
+                    <Card>
+                        <CardHeader>
+                            <div className="flex items-center justify-between gap-4">
+                                <CardTitle className="font-mono">{suivi.numero}</CardTitle>
+                                <Badge variant="outline">{suivi.statut}</Badge>
+                            </div>
+                            <CardDescription>Commandée le {formatDate(suivi.date_commande)}</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-8">
+                            {suivi.colis.map((colis, index) => (
+                                <div key={colis.numero} className="space-y-4">
+                                    {suivi.colis.length > 1 && (
+                                        <div className="flex items-center justify-between">
+                                            <p className="text-sm font-semibold">
+                                                Colis {index + 1} / {suivi.colis.length}
+                                                <span className="ml-2 font-mono text-muted-foreground">{colis.numero}</span>
+                                            </p>
+                                            <Badge variant="secondary">{colis.statut_commande}</Badge>
+                                        </div>
+                                    )}
+
+                                    {!colis.livraison ? (
+                                        <p className="text-sm text-muted-foreground">
+                                            La livraison n&apos;est pas encore programmée : la boutique prépare votre commande.
+                                        </p>
+                                    ) : (
+                                        <>
+                                            <p className="text-sm text-muted-foreground">
+                                                Livraison prévue le {formatDate(colis.livraison.date_prevue)}
+                                            </p>
+                                            <ol className="relative border-l border-gray-200 ml-3 space-y-6">
+                                                {[...colis.livraison.evenements].reverse().map((etape) => {
+                                                    const config = getEtapeConfig(etape.type);
+                                                    const Icon = config.icon;
+                                                    return (
+                                                        <li key={`${etape.type}-${etape.date}`} className="ml-6">
+                                                            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border ${config.className}`}>
+                                                                <Icon className="h-3.5 w-3.5" />
+                                                            </span>
+                                                            <p className="text-sm font-medium">{etape.libelle}</p>
+                                                            <p className="text-xs text-muted-foreground">
+                                                                {formatDate(etape.date)} · {etape.acteur}
+                                                            </p>
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ol>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                )}
+            </main>
+        </div>
+    );
+}
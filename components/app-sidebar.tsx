@@ -30,8 +30,12 @@ import {
   IconGpsFilled,
   IconLocation,
   IconTransactionDollar,
+  IconCash,
   IconMoneybag,
+  IconPercentage,
+  IconDiscount,
   IconBuildingCommunity,
+  IconMapPin,
 } from "@tabler/icons-react"
 
 import { NavDocuments } from "@/components/nav-documents"
@@ -86,11 +90,36 @@ const data = {
       url: "/dashboard/livraisons",
       icon: IconLocation,
     },
+    {
+      title: "Zones de livraison",
+      url: "/dashboard/zones",
+      icon: IconMapPin,
+    },
     {
       title: "Transactions",
       url: "/dashboard/transactions",
       icon: IconMoneybag,
     },
+    {
+      title: "Retraits",
+      url: "/dashboard/retraits",
+      icon: IconTransactionDollar,
+    },
+    {
+      title: "Encaissements",
+      url: "/dashboard/encaissements",
+      icon: IconCash,
+    },
+    {
+      title: "Commissions",
+      url: "/dashboard/commissions",
+      icon: IconPercentage,
+    },
+    {
+      title: "Codes promo",
+      url: "/dashboard/codes-promo",
+      icon: IconDiscount,
+    },
     {
       title: "Notifications",
       url: "/dashboard/notifications",
@@ -0,0 +1,378 @@
+// components/codes-promo/code-promo-form-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    useCodesPromoStore,
+    type CodePromoDetail,
+    type CodePromoInput,
+} from '@/stores/codesPromoStore';
+import { normaliserCodePromo, verifierCodePromo, type TypeCodePromo } from '@/app/lib/codesPromo';
+
+type Portee = 'global' | 'categorie' | 'boutique';
+
+interface CodePromoFormModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    code: CodePromoDetail | null; // null = création
+    estBoutique: boolean;         // une boutique ne crée que des codes sur ses propres articles
+    categories: { id: string; nom: string }[];
+    boutiques: { id: string; name: string }[];
+}
+
+// Les champs datetime-local s'expriment en heure locale, l'API attend de l'ISO
+const versDateLocale = (iso: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const versIso = (valeur: string) => (valeur ? new Date(valeur).toISOString() : null);
+
+/**
+ * Le parent doit passer une `key` différente par code édité :
+ * le formulaire est initialisé une seule fois à partir de `code`.
+ */
+export function CodePromoFormModal({
+    isOpen,
+    onClose,
+    code,
+    estBoutique,
+    categories,
+    boutiques,
+}: CodePromoFormModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [formData, setFormData] = useState({
+        code: code?.code ?? '',
+        description: code?.description ?? '',
+        type: (code?.type ?? 'pourcentage') as TypeCodePromo,
+        valeur: code?.valeur?.toString() ?? '',
+        remise_max: code?.remise_max?.toString() ?? '',
+        montant_min: code?.montant_min?.toString() ?? '0',
+        limite_utilisation: code?.limite_utilisation?.toString() ?? '',
+        limite_par_utilisateur: code ? code.limite_par_utilisateur?.toString() ?? '' : '1',
+        date_debut: versDateLocale(code?.date_debut ?? null),
+        date_fin: versDateLocale(code?.date_fin ?? null),
+        portee: (code?.boutique_id ? 'boutique' : code?.categorie_id ? 'categorie' : 'global') as Portee,
+        categorie_id: code?.categorie_id ?? '',
+        boutique_id: code?.boutique_id ?? '',
+        is_active: code?.is_active ?? true,
+    });
+    const [error, setError] = useState('');
+
+    const { createCode, updateCode, isLoading } = useCodesPromoStore();
+
+    const handleChange = <K extends keyof typeof formData>(field: K, value: (typeof formData)[K]) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        setError('');
+    };
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // La portée d'un code boutique est fixée par l'API (ses propres articles)
+        const portee = estBoutique ? 'boutique' : formData.portee;
+
+        const data: CodePromoInput = {
+            code: normaliserCodePromo(formData.code),
+            description: formData.description.trim() || null,
+            type: formData.type,
+            valeur: Number(formData.valeur),
+            remise_max: formData.type === 'pourcentage' && formData.remise_max ? parseInt(formData.remise_max) : null,
+            montant_min: parseInt(formData.montant_min) || 0,
+            limite_utilisation: formData.limite_utilisation ? parseInt(formData.limite_utilisation) : null,
+            limite_par_utilisateur: formData.limite_par_utilisateur ? parseInt(formData.limite_par_utilisateur) : null,
+            date_debut: versIso(formData.date_debut),
+            date_fin: versIso(formData.date_fin),
+            categorie_id: portee === 'categorie' ? formData.categorie_id || null : null,
+            boutique_id: estBoutique
+                ? code?.boutique_id ?? null
+                : portee === 'boutique' ? formData.boutique_id || null : null,
+            is_active: formData.is_active,
+        };
+
+        if (!data.code || formData.valeur === '' || isNaN(data.valeur) || data.valeur <= 0) {
+            setError('Le code et une valeur positive sont obligatoires');
+            return;
+        }
+        if (!estBoutique && portee !== 'global' && !data.categorie_id && !data.boutique_id) {
+            setError(portee === 'categorie' ? 'Choisissez une catégorie' : 'Choisissez une boutique');
+            return;
+        }
+
+        const erreur = verifierCodePromo(data);
+        if (erreur) {
+            setError(erreur);
+            return;
+        }
+
+        try {
+            if (code) {
+                await updateCode(code.id, data);
+                toast.success('Code promo mis à jour');
+            } else {
+                await createCode(data);
+                toast.success('Code promo créé');
+            }
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors de l’enregistrement');
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{code ? 'Modifier le code promo' : 'Nouveau code promo'}</DialogTitle>
+                    <DialogDescription>
+                        {estBoutique
+                            ? 'La remise s’applique uniquement aux articles de votre boutique.'
+                            : 'La remise s’applique aux articles de la portée choisie, au checkout.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="code">Code</Label>
+                            <Input
+                                id="code"
+                                value={formData.code}
+                                onChange={(e) => handleChange('code', e.target.value.toUpperCase())}
+                                placeholder="Ex. BIENVENUE10"
+                                className="font-mono"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="description">Description</Label>
+                            <Input
+                                id="description"
+                                value={formData.description}
+                                onChange={(e) => handleChange('description', e.target.value)}
+                                placeholder="Optionnelle"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Type de remise</Label>
+                            <Select
+                                value={formData.type}
+                                onValueChange={(value) => handleChange('type', value as TypeCodePromo)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="pourcentage">Pourcentage</SelectItem>
+                                    <SelectItem value="fixe">Montant fixe</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="valeur">
+                                {formData.type === 'pourcentage' ? 'Taux (%)' : 'Montant (FCFA)'}
+                            </Label>
+                            <Input
+                                id="valeur"
+                                type="number"
+                                min="0"
+                                step={formData.type === 'pourcentage' ? '0.01' : '1'}
+                                value={formData.valeur}
+                                onChange={(e) => handleChange('valeur', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="montant_min">Montant minimum (FCFA)</Label>
+                            <Input
+                                id="montant_min"
+                                type="number"
+                                min="0"
+                                value={formData.montant_min}
+                                onChange={(e) => handleChange('montant_min', e.target.value)}
+                            />
+                        </div>
+                        {formData.type === 'pourcentage' && (
+                            <div className="space-y-2">
+                                <Label htmlFor="remise_max">Remise max. (FCFA)</Label>
+                                <Input
+                                    id="remise_max"
+                                    type="number"
+                                    min="1"
+                                    placeholder="Sans plafond"
+                                    value={formData.remise_max}
+                                    onChange={(e) => handleChange('remise_max', e.target.value)}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="limite_utilisation">Utilisations au total</Label>
+                            <Input
+                                id="limite_utilisation"
+                                type="number"
+                                min="1"
+                                placeholder="Illimitées"
+                                value={formData.limite_utilisation}
+                                onChange={(e) => handleChange('limite_utilisation', e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="limite_par_utilisateur">Utilisations par acheteur</Label>
+                            <Input
+                                id="limite_par_utilisateur"
+                                type="number"
+                                min="1"
+                                placeholder="Illimitées"
+                                value={formData.limite_par_utilisateur}
+                                onChange={(e) => handleChange('limite_par_utilisateur', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="date_debut">Valable à partir du</Label>
+                            <Input
+                                id="date_debut"
+                                type="datetime-local"
+                                value={formData.date_debut}
+                                onChange={(e) => handleChange('date_debut', e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="date_fin">Jusqu&apos;au</Label>
+                            <Input
+                                id="date_fin"
+                                type="datetime-local"
+                                value={formData.date_fin}
+                                onChange={(e) => handleChange('date_fin', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    {!estBoutique && (
+                        <div className="space-y-2">
+                            <Label>Portée</Label>
+                            <Select
+                                value={formData.portee}
+                                onValueChange={(value) => handleChange('portee', value as Portee)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="global">Toute la plateforme</SelectItem>
+                                    <SelectItem value="categorie">Une catégorie</SelectItem>
+                                    <SelectItem value="boutique">Une boutique</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {!estBoutique && formData.portee === 'categorie' && (
+                        <div className="space-y-2">
+                            <Label>Catégorie</Label>
+                            <Select
+                                value={formData.categorie_id}
+                                onValueChange={(value) => handleChange('categorie_id', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choisir une catégorie" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {categories.map((cat) => (
+                                        <SelectItem key={cat.id} value={cat.id}>{cat.nom}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {!estBoutique && formData.portee === 'boutique' && (
+                        <div className="space-y-2">
+                            <Label>Boutique</Label>
+                            <Select
+                                value={formData.boutique_id}
+                                onValueChange={(value) => handleChange('boutique_id', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choisir une boutique" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {boutiques.map((b) => (
+                                        <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="space-y-0.5">
+                            <Label htmlFor="is_active">Code actif</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Un code inactif est refusé au checkout
+                            </p>
+                        </div>
+                        <Switch
+                            id="is_active"
+                            checked={formData.is_active}
+                            onCheckedChange={(checked) => handleChange('is_active', checked)}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+                            Annuler
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading ? 'Enregistrement...' : 'Enregistrer'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
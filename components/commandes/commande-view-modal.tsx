@@ -10,7 +10,15 @@ import {
     DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
     Clock,
@@ -26,8 +34,13 @@ import {
     ShoppingBag,
     Calendar,
     CreditCard,
+    FileText,
+    History,
+    Store,
 } from "lucide-react";
 import { type Commande } from "@/stores/types/common";
+import { useCommandesStore } from "@/stores/commandesStore";
+import { type CommandeStatutValue } from "@/app/lib/commandeStatuts";
 
 // ============================================
 // PROPS
@@ -148,9 +161,58 @@ const getStatutConfig = (statut: string) => {
 // COMPOSANT PRINCIPAL
 // ============================================
 
-export function CommandeViewModal({ open, onClose, commande }: CommandeViewModalProps) {
+export function CommandeViewModal({ open, onClose, commande: commandeProp }: CommandeViewModalProps) {
+    const {
+        updateStatut,
+        getStatutsPossibles,
+        isLoading,
+        historique,
+        isHistoriqueLoading,
+        fetchHistorique,
+    } = useCommandesStore();
+    // Version à jour depuis le store (après un changement de statut)
+    const commandeStore = useCommandesStore((state) =>
+        state.commandes.find((cmd) => cmd.id === commandeProp?.id)
+    );
+    const commande = commandeStore ?? commandeProp;
+
+    React.useEffect(() => {
+        if (open && commandeProp?.id) {
+            fetchHistorique(commandeProp.id);
+        }
+    }, [open, commandeProp?.id, fetchHistorique]);
+
+    // La sélection est liée à la commande et à son statut : elle est
+    // ignorée dès que l'un des deux change
+    const selectionKey = `${commande?.id}:${commande?.statut}`;
+    const [selection, setSelection] = React.useState<{ key: string; statut?: CommandeStatutValue; error?: string }>({ key: '' });
+    const [isSaving, setIsSaving] = React.useState(false);
+
     if (!commande) return null;
 
+    const selectedStatut = selection.key === selectionKey ? selection.statut : undefined;
+    const statutError = selection.key === selectionKey ? selection.error : undefined;
+    const setSelectedStatut = (statut: CommandeStatutValue) => setSelection({ key: selectionKey, statut });
+
+    // Seules les transitions permises par la machine à états sont proposées
+    const statutsPossibles = getStatutsPossibles(commande);
+
+    const handleSaveStatut = async () => {
+        if (!selectedStatut) return;
+        setIsSaving(true);
+        try {
+            await updateStatut(commande.id, selectedStatut);
+        } catch (error) {
+            setSelection({
+                key: selectionKey,
+                statut: selectedStatut,
+                error: error instanceof Error ? error.message : 'Erreur de mise à jour du statut',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
     const statutConfig = getStatutConfig(commande.statut as string);
     const StatusIcon = statutConfig.icon;
 
@@ -245,6 +307,18 @@ export function CommandeViewModal({ open, onClose, commande }: CommandeViewModal
                                         </div>
                                     </div>
                                 )}
+                                {commande.isLivrable && commande.frais_livraison > 0 && (
+                                    <div>
+                                        <p className="text-xs text-muted-foreground">Frais de livraison</p>
+                                        <p className="font-medium text-sm">{formatMontant(commande.frais_livraison)}</p>
+                                    </div>
+                                )}
+                                {commande.motif_annulation && (
+                                    <div>
+                                        <p className="text-xs text-muted-foreground">Motif d&apos;annulation</p>
+                                        <p className="text-sm font-medium text-red-600">{commande.motif_annulation}</p>
+                                    </div>
+                                )}
                                 {commande.commentaire && (
                                     <div>
                                         <p className="text-xs text-muted-foreground">Commentaire</p>
@@ -342,6 +416,45 @@ export function CommandeViewModal({ open, onClose, commande }: CommandeViewModal
                         </Card>
                     )}
 
+                    {/* Sous-commandes par boutique */}
+                    {(commande.sous_commandes?.length ?? 0) > 0 && (
+                        <Card>
+                            <CardHeader className="pb-3">
+                                <CardTitle className="text-base flex items-center gap-2">
+                                    <Store className="h-4 w-4" />
+                                    Sous-commandes par boutique ({commande.sous_commandes?.length})
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="space-y-2">
+                                    {commande.sous_commandes?.map((sc) => {
+                                        const config = getStatutConfig(sc.statut as string);
+                                        return (
+                                            <div
+                                                key={sc.id}
+                                                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50"
+                                            >
+                                                <div className="min-w-0">
+                                                    <p className="font-medium text-sm font-mono">{sc.numero}</p>
+                                                    <p className="text-xs text-muted-foreground truncate">
+                                                        {sc.vendeur?.name ?? 'Boutique inconnue'}
+                                                        {' · '}{(sc as { commande_articles?: unknown[] }).commande_articles?.length ?? 0} article(s)
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-3 flex-shrink-0">
+                                                    <Badge variant="outline" className={`${config.bgColor} ${config.color} ${config.borderColor}`}>
+                                                        {config.label}
+                                                    </Badge>
+                                                    <p className="font-semibold text-sm">{formatMontant(sc.prix)}</p>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Métadonnées */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <Card>
@@ -368,6 +481,106 @@ export function CommandeViewModal({ open, onClose, commande }: CommandeViewModal
                         </Card>
                     </div>
 
+                    {/* Historique des statuts */}
+                    <Card>
+                        <CardHeader className="pb-3">
+                            <CardTitle className="text-base flex items-center gap-2">
+                                <History className="h-4 w-4" />
+                                Historique
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {isHistoriqueLoading ? (
+                                <p className="text-sm text-muted-foreground">Chargement...</p>
+                            ) : historique.length === 0 ? (
+                                <p className="text-sm text-muted-foreground italic">Aucun changement de statut enregistré</p>
+                            ) : (
+                                <ol className="relative border-l border-border ml-2 space-y-4">
+                                    {historique.map((entree) => {
+                                        const config = getStatutConfig(entree.nouveau_statut);
+                                        const Icon = config.icon;
+                                        return (
+                                            <li key={entree.id} className="ml-5">
+                                                <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border ${config.bgColor} ${config.borderColor}`}>
+                                                    <Icon className={`h-3 w-3 ${config.color}`} />
+                                                </span>
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <p className="text-sm font-medium">
+                                                        {entree.ancien_statut
+                                                            ? `${entree.ancien_statut} → ${entree.nouveau_statut}`
+                                                            : entree.nouveau_statut}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground flex-shrink-0">
+                                                        {formatDate(entree.created_at)}
+                                                    </p>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Par {entree.acteur?.name ?? 'Système'}
+                                                    {entree.acteur_role ? ` (${entree.acteur_role})` : ''}
+                                                    {' · '}{entree.source}
+                                                </p>
+                                                {entree.note && (
+                                                    <p className="text-xs italic text-muted-foreground mt-0.5">{entree.note}</p>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ol>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Mise à jour du statut */}
+                    <Card>
+                        <CardHeader className="pb-3">
+                            <CardTitle className="text-base flex items-center gap-2">
+                                <FileText className="h-4 w-4" />
+                                Changer le statut
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-2">
+                            {statutsPossibles.length > 0 ? (
+                                <div className="flex items-center gap-3">
+                                    <Select
+                                        value={selectedStatut}
+                                        onValueChange={(value) => setSelectedStatut(value as CommandeStatutValue)}
+                                    >
+                                        <SelectTrigger className="flex-1">
+                                            <SelectValue placeholder="Sélectionner le prochain statut" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {statutsPossibles.map((statut) => {
+                                                const config = getStatutConfig(statut);
+                                                const Icon = config.icon;
+                                                return (
+                                                    <SelectItem key={statut} value={statut}>
+                                                        <div className="flex items-center gap-2">
+                                                            <Icon className="h-3.5 w-3.5" />
+                                                            {statut}
+                                                        </div>
+                                                    </SelectItem>
+                                                );
+                                            })}
+                                        </SelectContent>
+                                    </Select>
+                                    <Button
+                                        onClick={handleSaveStatut}
+                                        disabled={!selectedStatut || isSaving || isLoading}
+                                    >
+                                        {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                                    </Button>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-muted-foreground italic">
+                                    Aucun changement de statut possible depuis « {statutConfig.label} »
+                                </p>
+                            )}
+                            {statutError && (
+                                <p className="text-sm text-red-600">{statutError}</p>
+                            )}
+                        </CardContent>
+                    </Card>
+
                     {/* Identifiant paiement */}
                     {commande.paiement_id && (
                         <Card>
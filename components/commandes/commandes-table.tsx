@@ -64,6 +64,7 @@ interface CommandesTableProps {
     onView: (commande: Commande) => void;
     onDelete: (commande: Commande) => void;
     onUpdateStatut: (commande: Commande, statut: string) => void;
+    getStatutsPossibles: (commande: Commande) => string[];
 }
 
 // ============================================
@@ -149,17 +150,6 @@ const getStatutConfig = (statut: string) => {
     };
 };
 
-// Statuts disponibles pour la mise à jour
-const STATUTS_DISPONIBLES = [
-    'En attente',
-    'En préparation',
-    'Prête pour livraison',
-    'En cours de livraison',
-    'Livrée',
-    'Annulée',
-    'Remboursée',
-];
-
 // ============================================
 // DÉFINITION DES COLONNES
 // ============================================
@@ -168,6 +158,7 @@ const createColumns = (
     onView: (commande: Commande) => void,
     onDelete: (commande: Commande) => void,
     onUpdateStatut: (commande: Commande, statut: string) => void,
+    getStatutsPossibles: (commande: Commande) => string[],
 ): ColumnDef<Commande>[] => [
     {
         id: "select",
@@ -353,7 +344,12 @@ const createColumns = (
                         <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
                             Changer le statut
                         </DropdownMenuLabel>
-                        {STATUTS_DISPONIBLES.map((statut) => {
+                        {getStatutsPossibles(commande).length === 0 && (
+                            <DropdownMenuItem disabled>
+                                Aucune transition possible
+                            </DropdownMenuItem>
+                        )}
+                        {getStatutsPossibles(commande).map((statut) => {
                             const config = getStatutConfig(statut);
                             const Icon = config.icon;
                             return (
@@ -391,6 +387,7 @@ export function CommandesTable({
     onView,
     onDelete,
     onUpdateStatut,
+    getStatutsPossibles,
 }: CommandesTableProps) {
     const [sorting, setSorting] = React.useState<SortingState>([
         { id: "created_at", desc: true }
@@ -400,8 +397,8 @@ export function CommandesTable({
     const [rowSelection, setRowSelection] = React.useState({});
 
     const columns = React.useMemo(
-        () => createColumns(onView, onDelete, onUpdateStatut),
-        [onView, onDelete, onUpdateStatut]
+        () => createColumns(onView, onDelete, onUpdateStatut, getStatutsPossibles),
+        [onView, onDelete, onUpdateStatut, getStatutsPossibles]
     );
 
     const table = useReactTable({
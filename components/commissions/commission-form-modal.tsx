@@ -0,0 +1,289 @@
+// components/commissions/commission-form-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    useCommissionsStore,
+    type RegleCommission,
+    type RegleCommissionInput,
+} from '@/stores/commissionsStore';
+import { verifierRegleCommission, type TypeCommission } from '@/app/lib/commissions';
+
+type Portee = 'global' | 'categorie' | 'boutique';
+
+interface CommissionFormModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    regle: RegleCommission | null; // null = création
+    categories: { id: string; nom: string }[];
+    boutiques: { id: string; name: string }[];
+}
+
+/**
+ * Le parent doit passer une `key` différente par règle éditée :
+ * le formulaire est initialisé une seule fois à partir de `regle`.
+ */
+export function CommissionFormModal({
+    isOpen,
+    onClose,
+    regle,
+    categories,
+    boutiques,
+}: CommissionFormModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [formData, setFormData] = useState({
+        nom: regle?.nom ?? '',
+        type: (regle?.type ?? 'fixe') as TypeCommission,
+        valeur: regle?.valeur?.toString() ?? '',
+        prix_min: regle?.prix_min?.toString() ?? '0',
+        prix_max: regle?.prix_max?.toString() ?? '',
+        portee: (regle?.boutique_id ? 'boutique' : regle?.categorie_id ? 'categorie' : 'global') as Portee,
+        categorie_id: regle?.categorie_id ?? '',
+        boutique_id: regle?.boutique_id ?? '',
+        is_active: regle?.is_active ?? true,
+    });
+    const [error, setError] = useState('');
+
+    const { createRegle, updateRegle, isLoading } = useCommissionsStore();
+
+    const handleChange = <K extends keyof typeof formData>(field: K, value: (typeof formData)[K]) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        setError('');
+    };
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const data: RegleCommissionInput = {
+            nom: formData.nom.trim(),
+            type: formData.type,
+            valeur: Number(formData.valeur),
+            prix_min: parseInt(formData.prix_min) || 0,
+            prix_max: formData.prix_max ? parseInt(formData.prix_max) : null,
+            categorie_id: formData.portee === 'categorie' ? formData.categorie_id || null : null,
+            boutique_id: formData.portee === 'boutique' ? formData.boutique_id || null : null,
+            is_active: formData.is_active,
+        };
+
+        if (!data.nom || formData.valeur === '' || isNaN(data.valeur)) {
+            setError('Le nom et la valeur sont obligatoires');
+            return;
+        }
+        if (formData.portee !== 'global' && !data.categorie_id && !data.boutique_id) {
+            setError(formData.portee === 'categorie' ? 'Choisissez une catégorie' : 'Choisissez une boutique');
+            return;
+        }
+
+        const erreur = verifierRegleCommission(data);
+        if (erreur) {
+            setError(erreur);
+            return;
+        }
+
+        try {
+            if (regle) {
+                await updateRegle(regle.id, data);
+                toast.success('Règle mise à jour');
+            } else {
+                await createRegle(data);
+                toast.success('Règle ajoutée au barème');
+            }
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors de l’enregistrement');
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{regle ? 'Modifier la règle' : 'Nouvelle règle de commission'}</DialogTitle>
+                    <DialogDescription>
+                        S&apos;applique aux articles dont le prix unitaire est dans la tranche.
+                        Priorité : boutique, puis catégorie, puis règle globale.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="nom">Nom</Label>
+                        <Input
+                            id="nom"
+                            value={formData.nom}
+                            onChange={(e) => handleChange('nom', e.target.value)}
+                            placeholder="Ex. Électronique 50 000 FCFA et plus"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Type de frais</Label>
+                            <Select
+                                value={formData.type}
+                                onValueChange={(value) => handleChange('type', value as TypeCommission)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="fixe">Montant fixe par unité</SelectItem>
+                                    <SelectItem value="pourcentage">Pourcentage du prix</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="valeur">
+                                {formData.type === 'pourcentage' ? 'Taux (%)' : 'Montant (FCFA)'}
+                            </Label>
+                            <Input
+                                id="valeur"
+                                type="number"
+                                min="0"
+                                step={formData.type === 'pourcentage' ? '0.01' : '1'}
+                                value={formData.valeur}
+                                onChange={(e) => handleChange('valeur', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="prix_min">Prix unitaire min. (inclus)</Label>
+                            <Input
+                                id="prix_min"
+                                type="number"
+                                min="0"
+                                value={formData.prix_min}
+                                onChange={(e) => handleChange('prix_min', e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="prix_max">Prix unitaire max. (exclu)</Label>
+                            <Input
+                                id="prix_max"
+                                type="number"
+                                min="1"
+                                placeholder="Sans limite"
+                                value={formData.prix_max}
+                                onChange={(e) => handleChange('prix_max', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Portée</Label>
+                        <Select
+                            value={formData.portee}
+                            onValueChange={(value) => handleChange('portee', value as Portee)}
+                        >
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="global">Toute la plateforme</SelectItem>
+                                <SelectItem value="categorie">Une catégorie</SelectItem>
+                                <SelectItem value="boutique">Une boutique</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {formData.portee === 'categorie' && (
+                        <div className="space-y-2">
+                            <Label>Catégorie</Label>
+                            <Select
+                                value={formData.categorie_id}
+                                onValueChange={(value) => handleChange('categorie_id', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choisir une catégorie" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {categories.map((cat) => (
+                                        <SelectItem key={cat.id} value={cat.id}>{cat.nom}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {formData.portee === 'boutique' && (
+                        <div className="space-y-2">
+                            <Label>Boutique</Label>
+                            <Select
+                                value={formData.boutique_id}
+                                onValueChange={(value) => handleChange('boutique_id', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choisir une boutique" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {boutiques.map((b) => (
+                                        <SelectItem key={b.id} value={b.id}>{b.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="space-y-0.5">
+                            <Label htmlFor="is_active">Règle active</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Les règles inactives sont ignorées au checkout
+                            </p>
+                        </div>
+                        <Switch
+                            id="is_active"
+                            checked={formData.is_active}
+                            onCheckedChange={(checked) => handleChange('is_active', checked)}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+                            Annuler
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading ? 'Enregistrement...' : 'Enregistrer'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
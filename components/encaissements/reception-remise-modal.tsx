@@ -0,0 +1,178 @@
+// components/encaissements/reception-remise-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    useEncaissementsStore,
+    type CaisseLivreur,
+    type RemiseEspeces,
+} from '@/stores/encaissementsStore';
+
+// Caisse d'un livreur reçue directement, ou remise déclarée par le livreur
+export type CibleReception =
+    | { type: 'caisse'; caisse: CaisseLivreur }
+    | { type: 'remise'; remise: RemiseEspeces };
+
+interface ReceptionRemiseModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    cible: CibleReception | null;
+    onRecu?: () => void;
+}
+
+const formatMontant = (montant: number) => `${montant.toLocaleString('fr-FR')} FCFA`;
+
+/**
+ * Le parent doit passer une `key` différente à chaque ouverture :
+ * le formulaire est initialisé une seule fois.
+ */
+export function ReceptionRemiseModal({ isOpen, onClose, cible, onRecu }: ReceptionRemiseModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const attendu = cible?.type === 'caisse' ? cible.caisse.en_caisse : cible?.remise.montant_attendu ?? 0;
+    const declare = cible?.type === 'remise' ? cible.remise.montant_declare : null;
+    const livreur = cible?.type === 'caisse' ? cible.caisse.livreur : cible?.remise.livreur ?? null;
+
+    const [montant, setMontant] = useState(String(declare ?? attendu));
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { recevoirRemise, confirmerRemise } = useEncaissementsStore();
+
+    const montantRecu = parseInt(montant);
+    const ecart = isNaN(montantRecu) ? 0 : montantRecu - attendu;
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!cible) return;
+
+        if (isNaN(montantRecu) || montantRecu < 0) {
+            setError('Saisissez le montant compté');
+            return;
+        }
+
+        if (ecart !== 0 && !note.trim()) {
+            setError("Expliquez l'écart dans la note");
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const remise = cible.type === 'caisse'
+                ? await recevoirRemise({
+                    livreur_id: cible.caisse.livreur_id,
+                    montant_declare: montantRecu,
+                    montant_recu: montantRecu,
+                    note: note.trim() || undefined,
+                })
+                : await confirmerRemise(cible.remise.id, montantRecu, note.trim() || undefined);
+
+            if (remise.statut === 'Écart') {
+                toast.warning(`Remise ${remise.reference} enregistrée avec un écart de ${formatMontant(ecart)}`);
+            } else {
+                toast.success(`Remise ${remise.reference} confirmée`);
+            }
+            onRecu?.();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors de la réception');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>
+                        {cible?.type === 'remise'
+                            ? `Confirmer la remise ${cible.remise.reference}`
+                            : 'Recevoir les espèces'}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Comptez les espèces remises par {livreur?.name ?? 'le livreur'} et saisissez le montant reçu.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-3 rounded-lg border p-3 text-sm">
+                        <div>
+                            <div className="text-muted-foreground">Encaissé</div>
+                            <div className="font-mono font-medium">{formatMontant(attendu)}</div>
+                        </div>
+                        {declare !== null && (
+                            <div>
+                                <div className="text-muted-foreground">Déclaré par le livreur</div>
+                                <div className="font-mono font-medium">{formatMontant(declare)}</div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="montant_recu">Montant reçu (FCFA)</Label>
+                        <Input
+                            id="montant_recu"
+                            type="number"
+                            min={0}
+                            value={montant}
+                            onChange={(e) => { setMontant(e.target.value); setError(''); }}
+                        />
+                        {ecart !== 0 && (
+                            <p className="text-sm text-orange-600">
+                                Écart de {ecart > 0 ? '+' : ''}{formatMontant(ecart)} avec les encaissements
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="note">Note</Label>
+                        <Textarea
+                            id="note"
+                            value={note}
+                            onChange={(e) => { setNote(e.target.value); setError(''); }}
+                            placeholder={ecart !== 0 ? "Obligatoire en cas d'écart" : 'Facultative'}
+                            rows={2}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                            Annuler
+                        </Button>
+                        <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting ? 'Enregistrement...' : 'Confirmer la réception'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
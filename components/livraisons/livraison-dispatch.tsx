@@ -0,0 +1,178 @@
+// components/livraisons/livraison-dispatch.tsx
+'use client';
+
+import React from 'react';
+import { toast } from "sonner";
+import { Zap, UserCheck } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    type DispatchLivraison,
+    type Livraison,
+    useLivraisonsStore,
+} from '@/stores/livraisonsStore';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('fr-FR', {
+        day: '2-digit',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+/**
+ * Section "Livreur" de la fiche livraison : recommandation du dispatch,
+ * assignation automatique ou manuelle, journal des attributions
+ */
+export function LivraisonDispatch({ livraison }: { livraison: Livraison }) {
+    const { livreurs, fetchDispatch, assignerLivreur, dispatcherLivraison, isLoading } = useLivraisonsStore();
+    const [dispatch, setDispatch] = React.useState<DispatchLivraison | null>(null);
+    const [livreurChoisi, setLivreurChoisi] = React.useState<string | undefined>(undefined);
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    // Rechargé après chaque (ré)assignation
+    const { id, livreur_id } = livraison;
+    React.useEffect(() => {
+        fetchDispatch(id)
+            .then(setDispatch)
+            .catch(() => setDispatch(null));
+    }, [id, livreur_id, fetchDispatch]);
+
+    const livreurActuel = livraison.livreur_id
+        ? livreurs.find(l => l.id === livraison.livreur_id)?.name ?? livraison.livreur_id
+        : null;
+    const estClose = livraison.statut === 'Livrée' || livraison.statut === 'Annulée';
+    const enAttente = livraison.statut === 'En attente' && !livraison.livreur_id;
+
+    const handleAuto = async () => {
+        setIsSaving(true);
+        try {
+            const resultat = await dispatcherLivraison(livraison.id);
+            if (resultat.livreur) {
+                toast.success(`Livraison assignée à ${resultat.livreur.name}`);
+            } else {
+                toast.warning(`Aucun livreur éligible : ${resultat.raisons.join(', ')}`);
+                setDispatch(await fetchDispatch(livraison.id));
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erreur lors du dispatch');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleManuel = async () => {
+        if (!livreurChoisi) return;
+        setIsSaving(true);
+        try {
+            await assignerLivreur(livraison.id, livreurChoisi);
+            setLivreurChoisi(undefined);
+            toast.success('Livreur assigné');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Erreur lors de l'assignation");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <div className="rounded-lg bg-muted/50 p-3 flex-1">
+                    <p className="text-xs text-muted-foreground mb-1">Livreur assigné</p>
+                    <p className="text-sm font-medium">{livreurActuel ?? 'Aucun'}</p>
+                </div>
+                {enAttente && (
+                    <Button onClick={handleAuto} disabled={isSaving || isLoading}>
+                        <Zap className="mr-2 h-4 w-4" />
+                        Assignation automatique
+                    </Button>
+                )}
+            </div>
+
+            {!estClose && dispatch && (
+                <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">
+                        Classement des livreurs
+                        {dispatch.recommandation && ` · recommandé : ${dispatch.recommandation.name}`}
+                    </p>
+                    {dispatch.candidats.slice(0, 5).map((candidat) => (
+                        <div key={candidat.livreur_id} className="flex items-start justify-between gap-3 rounded-md border px-3 py-2">
+                            <div>
+                                <p className={`text-sm font-medium ${candidat.eligible ? '' : 'text-muted-foreground'}`}>
+                                    {candidat.name}
+                                </p>
+                                <p className="text-xs text-muted-foreground">{candidat.raisons.join(' · ')}</p>
+                            </div>
+                            {candidat.eligible ? (
+                                <Badge variant="outline" className="shrink-0">{candidat.score} / 100</Badge>
+                            ) : (
+                                <Badge variant="outline" className="shrink-0 text-muted-foreground">Écarté</Badge>
+                            )}
+                        </div>
+                    ))}
+
+                    <div className="flex items-center gap-3 pt-1">
+                        <Select value={livreurChoisi} onValueChange={setLivreurChoisi}>
+                            <SelectTrigger className="flex-1">
+                                <SelectValue placeholder="Imposer un livreur" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {dispatch.candidats
+                                    .filter(c => c.livreur_id !== livraison.livreur_id)
+                                    .map((c) => (
+                                        <SelectItem key={c.livreur_id} value={c.livreur_id}>
+                                            {c.name}{c.eligible ? ` (${c.score})` : ` — ${c.raisons[0]}`}
+                                        </SelectItem>
+                                    ))}
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            variant="outline"
+                            onClick={handleManuel}
+                            disabled={!livreurChoisi || isSaving || isLoading}
+                        >
+                            <UserCheck className="mr-2 h-4 w-4" />
+                            Assigner
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            {dispatch && dispatch.attributions.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">Journal des attributions</p>
+                    {dispatch.attributions.map((attribution) => (
+                        <div key={attribution.id} className="rounded-md bg-muted/50 px-3 py-2">
+                            <p className="text-sm">
+                                <Badge variant="secondary" className="mr-2 text-xs">
+                                    {attribution.mode === 'auto' ? 'Automatique' : 'Manuelle'}
+                                </Badge>
+                                {attribution.livreur?.name ?? 'Aucun livreur'}
+                                {attribution.score !== null && ` · ${attribution.score} / 100`}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                                {formatDate(attribution.created_at)}
+                                {' · '}
+                                {attribution.acteur?.name ?? 'À la création'}
+                            </p>
+                            <p className="text-xs mt-1">{attribution.raisons.join(' · ')}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import React from 'react';
+import { toast } from "sonner";
 import {
     Dialog,
     DialogContent,
@@ -12,6 +13,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
     Select,
     SelectContent,
@@ -31,13 +34,19 @@ import {
     CheckCircle,
     XCircle,
     FileText,
+    Banknote,
+    History,
+    ShieldCheck,
+    UserCheck,
 } from "lucide-react";
 import {
     type Livraison,
+    type LivraisonPreuve,
     type LivraisonStatut,
     normalizeStatut,
     useLivraisonsStore,
 } from '@/stores/livraisonsStore';
+import { LivraisonDispatch } from '@/components/livraisons/livraison-dispatch';
 
 // ============================================
 // PROPS
@@ -103,8 +112,11 @@ const STATUTS: LivraisonStatut[] = [
 // ============================================
 
 export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewModalProps) {
-    const { updateStatut, isLoading } = useLivraisonsStore();
+    const { updateStatut, fetchEvenements, fetchPreuve, evenements, isLoading } = useLivraisonsStore();
     const [selectedStatut, setSelectedStatut] = React.useState<LivraisonStatut | undefined>(undefined);
+    const [montantEncaisse, setMontantEncaisse] = React.useState('');
+    const [codeRemise, setCodeRemise] = React.useState('');
+    const [preuve, setPreuve] = React.useState<LivraisonPreuve | null>(null);
     const [isSaving, setIsSaving] = React.useState(false);
 
     React.useEffect(() => {
@@ -113,18 +125,44 @@ export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewMo
         }
     }, [livraison]);
 
+    const livraisonId = livraison?.id;
+    React.useEffect(() => {
+        if (open && livraisonId) fetchEvenements(livraisonId);
+    }, [open, livraisonId, fetchEvenements]);
+
+    // La photo / signature est dans un bucket privé : URL signée à la demande
+    const preuveCloture = `${livraison?.preuve_type ?? ''}|${livraison?.preuve_fichier ?? ''}|${livraison?.preuve_at ?? ''}`;
+    React.useEffect(() => {
+        if (!open || !livraisonId) return;
+        fetchPreuve(livraisonId)
+            .then(setPreuve)
+            .catch(() => setPreuve(null));
+    }, [open, livraisonId, preuveCloture, fetchPreuve]);
+
     if (!livraison) return null;
 
+    const suivi = evenements[livraison.id];
+
     const statutConfig = getStatutConfig(livraison.statut);
     const StatutIcon = statutConfig.icon;
     const displayStatut = normalizeStatut(livraison.statut);
     const hasStatutChanged = selectedStatut && selectedStatut !== displayStatut;
+    const passeLivree = hasStatutChanged && selectedStatut === 'Livrée';
 
     const handleSaveStatut = async () => {
         if (!selectedStatut || !hasStatutChanged) return;
         setIsSaving(true);
         try {
-            await updateStatut(livraison.id, selectedStatut);
+            // Le montant n'est exigé par l'API que pour les commandes payées en espèces
+            const montant = passeLivree && montantEncaisse.trim() !== ''
+                ? Number(montantEncaisse)
+                : undefined;
+            // Sans code, l'API accepte une photo / signature déjà jointe (ou la clôture admin)
+            await updateStatut(livraison.id, selectedStatut, montant, passeLivree ? codeRemise.trim() || undefined : undefined);
+            setMontantEncaisse('');
+            setCodeRemise('');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Erreur lors de la mise à jour du statut');
         } finally {
             setIsSaving(false);
         }
@@ -153,6 +191,16 @@ export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewMo
                         </Badge>
                     </div>
 
+                    {!!livraison.tentatives && (
+                        <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-muted-foreground">Tentatives échouées</span>
+                            <span className={`text-sm font-medium ${livraison.retour_at ? 'text-red-600' : ''}`}>
+                                {livraison.tentatives}
+                                {livraison.retour_at && ` · à retourner à la boutique depuis le ${formatDate(livraison.retour_at)}`}
+                            </span>
+                        </div>
+                    )}
+
                     <Separator />
 
                     {/* Informations client */}
@@ -267,6 +315,122 @@ export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewMo
 
                     <Separator />
 
+                    {/* Livreur et dispatch */}
+                    <div>
+                        <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                            <UserCheck className="h-4 w-4" />
+                            Livreur
+                        </h3>
+                        <LivraisonDispatch livraison={livraison} />
+                    </div>
+
+                    <Separator />
+
+                    {/* Suivi de la livraison */}
+                    <div>
+                        <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                            <History className="h-4 w-4" />
+                            Suivi de la livraison
+                        </h3>
+                        {!suivi ? (
+                            <p className="text-sm text-muted-foreground italic">Chargement du suivi...</p>
+                        ) : suivi.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">Aucune étape enregistrée</p>
+                        ) : (
+                            <ol className="relative border-l border-muted ml-2 space-y-4">
+                                {suivi.map((etape) => (
+                                    <li key={etape.id} className="ml-4">
+                                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                                        <p className="text-sm font-medium">{etape.libelle}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatDate(etape.created_at)}
+                                            {' · '}
+                                            {etape.acteur?.name ?? etape.acteur_role ?? 'Système'}
+                                            {etape.acteur && etape.acteur_role && ` (${etape.acteur_role})`}
+                                        </p>
+                                        {etape.note && <p className="text-xs mt-1">{etape.note}</p>}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+
+                    {preuve && (
+                        <>
+                            <Separator />
+
+                            {/* Preuve de remise au client */}
+                            <div>
+                                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                                    <ShieldCheck className="h-4 w-4" />
+                                    Preuve de remise
+                                </h3>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="rounded-lg bg-muted/50 p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Type</p>
+                                        <p className={`text-sm font-medium ${preuve.type === 'administrateur' ? 'text-orange-600' : ''}`}>
+                                            {preuve.libelle}
+                                        </p>
+                                    </div>
+                                    <div className="rounded-lg bg-muted/50 p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Remise confirmée le</p>
+                                        <p className="text-sm font-medium">
+                                            {preuve.at ? formatDate(preuve.at) : 'En attente de clôture'}
+                                        </p>
+                                    </div>
+                                    {preuve.url && (
+                                        <a
+                                            href={preuve.url}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="col-span-2 block rounded-lg border bg-muted/30 p-2"
+                                        >
+                                            <img
+                                                src={preuve.url}
+                                                alt={preuve.libelle}
+                                                className="mx-auto max-h-64 rounded object-contain"
+                                            />
+                                        </a>
+                                    )}
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    {livraison.encaissement && (
+                        <>
+                            <Separator />
+
+                            {/* Espèces encaissées */}
+                            <div>
+                                <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                                    <Banknote className="h-4 w-4" />
+                                    Encaissement en espèces
+                                </h3>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div className="rounded-lg bg-muted/50 p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Attendu</p>
+                                        <p className="text-sm font-medium">{formatPrice(livraison.encaissement.montant_attendu)}</p>
+                                    </div>
+                                    <div className="rounded-lg bg-muted/50 p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Encaissé</p>
+                                        <p className={`text-sm font-semibold ${livraison.encaissement.montant !== livraison.encaissement.montant_attendu ? 'text-orange-600' : ''}`}>
+                                            {formatPrice(livraison.encaissement.montant)}
+                                        </p>
+                                    </div>
+                                    <div className="rounded-lg bg-muted/50 p-3">
+                                        <p className="text-xs text-muted-foreground mb-1">Remise</p>
+                                        <p className="text-sm font-medium">
+                                            {livraison.encaissement.remise_id ? 'Remis' : 'Chez le livreur'}
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+                        </>
+                    )}
+
+                    <Separator />
+
                     {/* Mise à jour du statut */}
                     <div>
                         <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
@@ -276,7 +440,10 @@ export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewMo
                         <div className="flex items-center gap-3">
                             <Select
                                 value={selectedStatut}
-                                onValueChange={(value) => setSelectedStatut(value as LivraisonStatut)}
+                                onValueChange={(value) => {
+                                    setSelectedStatut(value as LivraisonStatut);
+                                    setMontantEncaisse('');
+                                }}
                             >
                                 <SelectTrigger className="flex-1">
                                     <SelectValue placeholder="Sélectionner un statut" />
@@ -303,6 +470,34 @@ export function LivraisonViewModal({ open, onClose, livraison }: LivraisonViewMo
                                 {isSaving ? 'Enregistrement...' : 'Enregistrer'}
                             </Button>
                         </div>
+                        {passeLivree && (
+                            <div className="mt-3 space-y-2">
+                                <Label htmlFor="code_remise">Code de remise du client</Label>
+                                <Input
+                                    id="code_remise"
+                                    inputMode="numeric"
+                                    maxLength={6}
+                                    value={codeRemise}
+                                    onChange={(e) => setCodeRemise(e.target.value.replace(/\D/g, ''))}
+                                    placeholder={livraison.preuve_fichier
+                                        ? 'Facultatif : photo / signature déjà jointe'
+                                        : 'À défaut, la livraison sera clôturée sans preuve'}
+                                />
+                            </div>
+                        )}
+                        {passeLivree && (
+                            <div className="mt-3 space-y-2">
+                                <Label htmlFor="montant_encaisse">Montant encaissé en espèces (FCFA)</Label>
+                                <Input
+                                    id="montant_encaisse"
+                                    type="number"
+                                    min={0}
+                                    value={montantEncaisse}
+                                    onChange={(e) => setMontantEncaisse(e.target.value)}
+                                    placeholder="Uniquement pour une commande payée en espèces"
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
             </DialogContent>
@@ -205,11 +205,23 @@ const createColumns = (
                 const statut = row.getValue("statut") as string;
                 const config = getStatutConfig(statut);
                 const Icon = config.icon;
+                const { tentatives, retour_at } = row.original;
                 return (
-                    <Badge variant={config.variant} className={config.className}>
-                        <Icon className="mr-1 h-3 w-3" />
-                        {config.label}
-                    </Badge>
+                    <div className="flex flex-col items-start gap-1">
+                        <Badge variant={config.variant} className={config.className}>
+                            <Icon className="mr-1 h-3 w-3" />
+                            {config.label}
+                        </Badge>
+                        {retour_at && statut === 'Reportée' ? (
+                            <Badge variant="outline" className="text-red-600 border-red-300 bg-red-50">
+                                À retourner
+                            </Badge>
+                        ) : !!tentatives && (
+                            <span className="text-xs text-muted-foreground">
+                                {tentatives} tentative{tentatives > 1 ? 's' : ''} échouée{tentatives > 1 ? 's' : ''}
+                            </span>
+                        )}
+                    </div>
                 );
             },
         },
@@ -0,0 +1,174 @@
+// components/livraisons/livreur-profil-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useLivraisonsStore, type LivreurDispatch } from '@/stores/livraisonsStore';
+import type { ZoneLivraison } from '@/app/lib/zonesLivraison';
+
+interface LivreurProfilModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    livreur: LivreurDispatch | null;
+    zones: ZoneLivraison[];
+}
+
+/**
+ * Secteurs, capacité et disponibilité d'un livreur (critères du dispatch)
+ * Le parent doit passer une `key` différente par livreur édité.
+ */
+export function LivreurProfilModal({ isOpen, onClose, livreur, zones }: LivreurProfilModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [formData, setFormData] = useState({
+        villes: livreur?.villes.join(', ') ?? '',
+        zone_ids: livreur?.zone_ids ?? [],
+        capacite: livreur?.capacite.toString() ?? '',
+        disponible: livreur?.disponible ?? true,
+    });
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { updateProfilLivreur } = useLivraisonsStore();
+
+    const toggleZone = (zoneId: string, checked: boolean) => {
+        setFormData(prev => ({
+            ...prev,
+            zone_ids: checked
+                ? [...prev.zone_ids, zoneId]
+                : prev.zone_ids.filter(id => id !== zoneId),
+        }));
+    };
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!livreur) return;
+
+        const capacite = parseInt(formData.capacite);
+        if (isNaN(capacite) || capacite < 1 || capacite > 50) {
+            setError('La capacité doit être comprise entre 1 et 50 livraisons');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await updateProfilLivreur(livreur.id, {
+                villes: formData.villes.split(',').map(v => v.trim()).filter(Boolean),
+                zone_ids: formData.zone_ids,
+                capacite,
+                disponible: formData.disponible,
+            });
+            toast.success('Profil du livreur mis à jour');
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors de la mise à jour');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Secteurs de {livreur?.name}</DialogTitle>
+                    <DialogDescription>
+                        Sans ville ni zone, le livreur peut recevoir des livraisons partout.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="villes">Villes</Label>
+                        <Input
+                            id="villes"
+                            value={formData.villes}
+                            onChange={(e) => { setFormData(prev => ({ ...prev, villes: e.target.value })); setError(''); }}
+                            placeholder="Ex. Libreville, Akanda"
+                        />
+                        <p className="text-xs text-muted-foreground">Séparées par des virgules</p>
+                    </div>
+
+                    {zones.length > 0 && (
+                        <div className="space-y-2">
+                            <Label>Zones de livraison</Label>
+                            <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                                {zones.map((zone) => (
+                                    <label key={zone.id} className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={formData.zone_ids.includes(zone.id)}
+                                            onCheckedChange={(checked) => toggleZone(zone.id, checked === true)}
+                                        />
+                                        {zone.nom}
+                                        <span className="text-xs text-muted-foreground">({zone.ville})</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="capacite">Capacité (livraisons ouvertes)</Label>
+                        <Input
+                            id="capacite"
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={formData.capacite}
+                            onChange={(e) => { setFormData(prev => ({ ...prev, capacite: e.target.value })); setError(''); }}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="space-y-0.5">
+                            <Label htmlFor="disponible">Disponible</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Un livreur indisponible ne reçoit aucune livraison automatiquement
+                            </p>
+                        </div>
+                        <Switch
+                            id="disponible"
+                            checked={formData.disponible}
+                            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, disponible: checked }))}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                            Annuler
+                        </Button>
+                        <Button type="submit" disabled={isSaving}>
+                            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
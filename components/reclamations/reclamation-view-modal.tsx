@@ -31,8 +31,15 @@ import {
     XCircle,
     RefreshCw,
     MessageSquare,
+    ShieldCheck,
 } from "lucide-react";
-import { type Reclamation, type ReclamationStatut, useReclamationsStore } from '@/stores/reclamationsStore';
+import {
+    type PreuveLivraisonReclamation,
+    type Reclamation,
+    type ReclamationStatut,
+    useReclamationsStore,
+} from '@/stores/reclamationsStore';
+import { RemboursementForm } from './remboursement-form';
 
 // ============================================
 // PROPS
@@ -92,9 +99,18 @@ const STATUTS: ReclamationStatut[] = [
 // ============================================
 
 export function ReclamationViewModal({ open, onClose, reclamation }: ReclamationViewModalProps) {
-    const { updateStatut, isLoading } = useReclamationsStore();
+    const { updateStatut, fetchPreuvesLivraison, isLoading } = useReclamationsStore();
     const [selectedStatut, setSelectedStatut] = React.useState<ReclamationStatut | undefined>(undefined);
     const [isSaving, setIsSaving] = React.useState(false);
+    const [preuves, setPreuves] = React.useState<PreuveLivraisonReclamation[] | null>(null);
+
+    const reclamationId = reclamation?.id;
+    React.useEffect(() => {
+        if (!open || !reclamationId) return;
+        fetchPreuvesLivraison(reclamationId)
+            .then(setPreuves)
+            .catch(() => setPreuves([]));
+    }, [open, reclamationId, fetchPreuvesLivraison]);
 
     React.useEffect(() => {
         if (reclamation) {
@@ -107,6 +123,9 @@ export function ReclamationViewModal({ open, onClose, reclamation }: Reclamation
     const statutConfig = getStatutConfig(reclamation.statut);
     const StatutIcon = statutConfig.icon;
     const hasStatutChanged = selectedStatut && selectedStatut !== reclamation.statut;
+    // Le remboursement est définitif ; le passer à « Remboursée » se fait via le formulaire
+    const estRemboursee = reclamation.statut === 'Remboursée';
+    const afficherRemboursement = selectedStatut === 'Remboursée' && !estRemboursee;
 
     const handleSaveStatut = async () => {
         if (!selectedStatut || !hasStatutChanged) return;
@@ -216,6 +235,59 @@ export function ReclamationViewModal({ open, onClose, reclamation }: Reclamation
                         </div>
                     </div>
 
+                    <Separator />
+
+                    {/* Preuves de livraison */}
+                    <div>
+                        <h3 className="text-sm font-semibold mb-3 flex items-center gap-2">
+                            <ShieldCheck className="h-4 w-4" />
+                            Preuves de livraison
+                        </h3>
+                        {preuves === null ? (
+                            <p className="text-sm text-muted-foreground italic">Chargement...</p>
+                        ) : preuves.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">Aucune livraison pour cette commande</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {preuves.map((livraison) => {
+                                    const tentatives = livraison.evenements.filter((e) => e.type === 'tentative_echouee');
+                                    return (
+                                        <div key={livraison.id} className="rounded-lg bg-muted/50 p-3 space-y-2">
+                                            <div className="flex items-center justify-between">
+                                                <p className="text-sm font-mono font-semibold">
+                                                    #{livraison.commande?.numero ?? '—'}
+                                                </p>
+                                                <Badge variant="outline">{livraison.statut}</Badge>
+                                            </div>
+                                            {livraison.preuve ? (
+                                                <p className={`text-sm ${livraison.preuve.type === 'administrateur' ? 'text-orange-600' : ''}`}>
+                                                    {livraison.preuve.libelle}
+                                                    {livraison.preuve.at && ` — ${formatDate(livraison.preuve.at)}`}
+                                                </p>
+                                            ) : (
+                                                <p className="text-sm text-muted-foreground">Aucune preuve de remise</p>
+                                            )}
+                                            {tentatives.length > 0 && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    {tentatives.length} tentative(s) de livraison échouée(s)
+                                                </p>
+                                            )}
+                                            {livraison.preuve?.url && (
+                                                <a href={livraison.preuve.url} target="_blank" rel="noopener noreferrer">
+                                                    <img
+                                                        src={livraison.preuve.url}
+                                                        alt={livraison.preuve.libelle}
+                                                        className="max-h-48 rounded border object-contain"
+                                                    />
+                                                </a>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+
                     {/* Réponse admin (si existante) */}
                     {reclamation.reponse && (
                         <>
@@ -255,6 +327,7 @@ export function ReclamationViewModal({ open, onClose, reclamation }: Reclamation
                             <Select
                                 value={selectedStatut}
                                 onValueChange={(value) => setSelectedStatut(value as ReclamationStatut)}
+                                disabled={estRemboursee}
                             >
                                 <SelectTrigger className="flex-1">
                                     <SelectValue placeholder="Sélectionner un statut" />
@@ -274,13 +347,20 @@ export function ReclamationViewModal({ open, onClose, reclamation }: Reclamation
                                     })}
                                 </SelectContent>
                             </Select>
-                            <Button
-                                onClick={handleSaveStatut}
-                                disabled={!hasStatutChanged || isSaving || isLoading}
-                            >
-                                {isSaving ? 'Enregistrement...' : 'Enregistrer'}
-                            </Button>
+                            {!afficherRemboursement && (
+                                <Button
+                                    onClick={handleSaveStatut}
+                                    disabled={!hasStatutChanged || isSaving || isLoading || estRemboursee}
+                                >
+                                    {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                                </Button>
+                            )}
                         </div>
+                        {afficherRemboursement && (
+                            <div className="mt-3">
+                                <RemboursementForm reclamation={reclamation} onRembourse={onClose} />
+                            </div>
+                        )}
                     </div>
                 </div>
             </DialogContent>
@@ -0,0 +1,250 @@
+// components/reclamations/remboursement-form.tsx
+'use client';
+
+import React from 'react';
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    type InfosRemboursement,
+    type LigneRemboursable,
+    type ModeRemboursement,
+    type Reclamation,
+    useReclamationsStore,
+} from '@/stores/reclamationsStore';
+
+// ============================================
+// PROPS
+// ============================================
+
+interface RemboursementFormProps {
+    reclamation: Reclamation;
+    onRembourse?: () => void;
+}
+
+const formatMontant = (montant: number) => `${montant.toLocaleString('fr-FR')} FCFA`;
+
+/**
+ * Valeur payée pour `quantite` unités de la ligne, remise du code promo
+ * déduite, calculée comme la fonction SQL rembourser_commande (sur le cumul)
+ */
+const valeurRemboursable = (ligne: LigneRemboursable, quantite: number) => {
+    const total = ligne.prix_unitaire * ligne.quantite - (ligne.remise_code_promo ?? 0);
+    return Math.floor(total * (ligne.quantite_remboursee + quantite) / ligne.quantite)
+        - Math.floor(total * ligne.quantite_remboursee / ligne.quantite);
+};
+
+// ============================================
+// COMPOSANT
+// ============================================
+
+/**
+ * Formulaire de remboursement d'une réclamation : lignes et quantités,
+ * remise en stock, montant (partiel), mode et motif
+ */
+export function RemboursementForm({ reclamation, onRembourse }: RemboursementFormProps) {
+    const { updateStatut, fetchInfosRemboursement } = useReclamationsStore();
+
+    const [infos, setInfos] = React.useState<InfosRemboursement | null>(null);
+    const [chargement, setChargement] = React.useState<'en_cours' | 'ok' | 'erreur'>('en_cours');
+    const [quantites, setQuantites] = React.useState<Record<string, number>>({});
+    const [retours, setRetours] = React.useState<Record<string, boolean>>({});
+    const [mode, setMode] = React.useState<ModeRemboursement>('portefeuille');
+    const [montant, setMontant] = React.useState('');
+    const [motif, setMotif] = React.useState('');
+    const [referenceTransfert, setReferenceTransfert] = React.useState('');
+    const [isSaving, setIsSaving] = React.useState(false);
+
+    React.useEffect(() => {
+        fetchInfosRemboursement(reclamation.commande_id)
+            .then((data) => {
+                setInfos(data);
+                // Par défaut, tout ce qui reste remboursable, avec remise en stock
+                setQuantites(Object.fromEntries(data.lignes.map((l) => [l.id, l.quantite_remboursable])));
+                setRetours(Object.fromEntries(data.lignes.map((l) => [l.id, true])));
+                setChargement('ok');
+            })
+            .catch(() => setChargement('erreur'));
+    }, [fetchInfosRemboursement, reclamation.commande_id]);
+
+    if (chargement === 'en_cours') {
+        return <Skeleton className="h-32 w-full" />;
+    }
+
+    if (chargement === 'erreur' || !infos) {
+        return <p className="text-sm text-destructive">Impossible de charger la commande à rembourser.</p>;
+    }
+
+    const lignesRemboursables = infos.lignes.filter((l) => l.quantite_remboursable > 0);
+    const valeur = lignesRemboursables.reduce((somme, l) => somme + valeurRemboursable(l, quantites[l.id] ?? 0), 0);
+    const montantSaisi = montant.trim() === '' ? null : parseInt(montant);
+    const paiementValide = infos.paiement?.statut === 'Validé';
+
+    const handleSubmit = async () => {
+        const lignes = lignesRemboursables
+            .filter((l) => (quantites[l.id] ?? 0) > 0)
+            .map((l) => ({
+                commande_article_id: l.id,
+                quantite: quantites[l.id],
+                remise_en_stock: retours[l.id] ?? true,
+            }));
+
+        if (lignes.length === 0) {
+            toast.error('Sélectionnez au moins une ligne à rembourser');
+            return;
+        }
+
+        if (montantSaisi !== null && (isNaN(montantSaisi) || montantSaisi <= 0 || montantSaisi > valeur)) {
+            toast.error(`Le montant doit être compris entre 1 et ${formatMontant(valeur)}`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await updateStatut(reclamation.id, 'Remboursée', {
+                lignes,
+                montant: montantSaisi ?? undefined,
+                mode,
+                motif: motif.trim() || undefined,
+                reference_transfert: referenceTransfert.trim() || undefined,
+            });
+            toast.success(`Remboursement de ${formatMontant(montantSaisi ?? valeur)} enregistré`);
+            onRembourse?.();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Erreur lors du remboursement');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4 rounded-lg border p-4">
+            {!paiementValide && (
+                <p className="text-sm text-destructive">
+                    Aucun paiement validé pour cette commande : elle ne peut pas être remboursée.
+                </p>
+            )}
+
+            {infos.remboursements.length > 0 && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                    {infos.remboursements.map((r) => (
+                        <p key={r.id}>
+                            Déjà remboursé le {new Date(r.created_at).toLocaleDateString('fr-FR')} :{' '}
+                            {formatMontant(r.montant)} ({r.reference})
+                        </p>
+                    ))}
+                </div>
+            )}
+
+            {/* Lignes à rembourser */}
+            <div className="space-y-2">
+                {lignesRemboursables.length === 0 ? (
+                    <p className="text-sm text-muted-foreground italic">Toutes les lignes ont déjà été remboursées.</p>
+                ) : lignesRemboursables.map((ligne) => (
+                    <div key={ligne.id} className="flex items-center gap-3 text-sm">
+                        <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{ligne.articles?.nom ?? 'Article'}</p>
+                            <p className="text-xs text-muted-foreground">
+                                {[ligne.variations?.couleur, ligne.variations?.taille].filter(Boolean).join(' · ')}
+                                {ligne.commande && ` — ${ligne.commande.numero}`}
+                                {` — ${formatMontant(ligne.prix_unitaire)} / unité`}
+                            </p>
+                        </div>
+                        <Input
+                            type="number"
+                            min={0}
+                            max={ligne.quantite_remboursable}
+                            className="w-20"
+                            value={quantites[ligne.id] ?? 0}
+                            onChange={(e) => setQuantites(prev => ({
+                                ...prev,
+                                [ligne.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), ligne.quantite_remboursable),
+                            }))}
+                            aria-label="Quantité à rembourser"
+                        />
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                checked={retours[ligne.id] ?? true}
+                                onCheckedChange={(checked) => setRetours(prev => ({ ...prev, [ligne.id]: checked }))}
+                                aria-label="Remettre en stock"
+                            />
+                            <span className="text-xs text-muted-foreground">Stock</span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                    <Label>Rembourser sur</Label>
+                    <Select value={mode} onValueChange={(v) => setMode(v as ModeRemboursement)}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="portefeuille">Solde de l&apos;acheteur</SelectItem>
+                            <SelectItem value="methode_origine">Moyen de paiement d&apos;origine</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="montant_remboursement">Montant (FCFA)</Label>
+                    <Input
+                        id="montant_remboursement"
+                        type="number"
+                        min={1}
+                        max={valeur}
+                        placeholder={`${valeur} (valeur des lignes)`}
+                        value={montant}
+                        onChange={(e) => setMontant(e.target.value)}
+                    />
+                </div>
+            </div>
+
+            {mode === 'methode_origine' && (
+                <div className="space-y-2">
+                    <Label htmlFor="reference_transfert">Référence du transfert</Label>
+                    <Input
+                        id="reference_transfert"
+                        value={referenceTransfert}
+                        onChange={(e) => setReferenceTransfert(e.target.value)}
+                        placeholder={infos.paiement ? `Remboursement ${infos.paiement.methode}` : undefined}
+                    />
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <Label htmlFor="motif_remboursement">Motif</Label>
+                <Input
+                    id="motif_remboursement"
+                    value={motif}
+                    onChange={(e) => setMotif(e.target.value)}
+                    placeholder="Par défaut, la description de la réclamation"
+                />
+            </div>
+
+            <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold">
+                    À rembourser : {formatMontant(montantSaisi && !isNaN(montantSaisi) ? montantSaisi : valeur)}
+                </span>
+                <Button
+                    onClick={handleSubmit}
+                    disabled={isSaving || !paiementValide || lignesRemboursables.length === 0}
+                >
+                    {isSaving ? 'Remboursement...' : 'Rembourser'}
+                </Button>
+            </div>
+        </div>
+    );
+}
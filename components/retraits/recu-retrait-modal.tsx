@@ -0,0 +1,80 @@
+// components/retraits/recu-retrait-modal.tsx
+'use client';
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { ExternalLink, Printer } from 'lucide-react';
+import type { Retrait } from '@/stores/retraitsStore';
+
+interface RecuRetraitModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    retrait: Retrait | null;
+}
+
+function Ligne({ label, valeur }: { label: string; valeur: React.ReactNode }) {
+    return (
+        <div className="flex justify-between gap-4 text-sm">
+            <span className="text-muted-foreground">{label}</span>
+            <span className="text-right font-medium">{valeur}</span>
+        </div>
+    );
+}
+
+export function RecuRetraitModal({ isOpen, onClose, retrait }: RecuRetraitModalProps) {
+    const recu = retrait?.recu;
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Reçu {recu?.numero}</DialogTitle>
+                    <DialogDescription>
+                        {recu ? `Émis le ${new Date(recu.emis_le).toLocaleString('fr-FR')}` : 'Aucun reçu pour ce retrait'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {recu && (
+                    <div className="space-y-3">
+                        <Ligne label="Bénéficiaire" valeur={recu.beneficiaire.nom ?? '—'} />
+                        <Ligne label="Numéro" valeur={<span className="font-mono">{recu.beneficiaire.telephone}</span>} />
+                        <Ligne label="Méthode" valeur={recu.methode === 'airtel_money' ? 'Airtel Money' : 'Moov Money'} />
+                        <Separator />
+                        <Ligne label="Montant versé" valeur={`${recu.montant.toLocaleString('fr-FR')} FCFA`} />
+                        <Ligne label="Référence du retrait" valeur={<span className="font-mono">{recu.reference_retrait}</span>} />
+                        <Ligne label="Référence du transfert" valeur={<span className="font-mono">{recu.reference_transfert}</span>} />
+                        {recu.lot && <Ligne label="Lot" valeur={<span className="font-mono">{recu.lot}</span>} />}
+                        <Separator />
+                        <Ligne label="Validé par" valeur={recu.valide_par.nom} />
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {retrait?.recu_url && (
+                        <Button variant="outline" asChild>
+                            <a href={retrait.recu_url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="mr-2 h-4 w-4" />
+                                Justificatif
+                            </a>
+                        </Button>
+                    )}
+                    {recu && (
+                        <Button variant="outline" onClick={() => window.print()}>
+                            <Printer className="mr-2 h-4 w-4" />
+                            Imprimer
+                        </Button>
+                    )}
+                    <Button onClick={onClose}>Fermer</Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,191 @@
+// components/retraits/retrait-traitement-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useRetraitsStore, type Retrait } from '@/stores/retraitsStore';
+
+export type ActionRetrait = 'valider' | 'rejeter';
+
+interface RetraitTraitementModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    action: ActionRetrait;
+    retraits: Retrait[];   // plusieurs = traitement en lot
+    onTraite?: () => void;
+}
+
+const formatMontant = (montant: number) => `${montant.toLocaleString('fr-FR')} FCFA`;
+
+/**
+ * Le parent doit passer une `key` différente à chaque ouverture :
+ * le formulaire est initialisé une seule fois.
+ */
+export function RetraitTraitementModal({ isOpen, onClose, action, retraits, onTraite }: RetraitTraitementModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [reference, setReference] = useState('');
+    const [recuUrl, setRecuUrl] = useState('');
+    const [motif, setMotif] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { validerRetrait, rejeterRetrait, traiterLot } = useRetraitsStore();
+
+    const enLot = retraits.length > 1;
+    const total = retraits.reduce((somme, r) => somme + r.montant, 0);
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (action === 'valider' && !reference.trim()) {
+            setError(enLot ? 'La référence du lot est obligatoire' : 'La référence du transfert est obligatoire');
+            return;
+        }
+
+        if (action === 'rejeter' && !motif.trim()) {
+            setError('Le motif du refus est obligatoire');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            if (enLot) {
+                const { traites, ignores } = await traiterLot(
+                    retraits.map(r => r.id),
+                    action,
+                    action === 'valider'
+                        ? { lot: reference.trim(), recu_url: recuUrl.trim() || undefined }
+                        : { motif: motif.trim() }
+                );
+                toast.success(`${traites.length} retrait(s) traité(s)`);
+                if (ignores.length > 0) {
+                    toast.warning(`${ignores.length} retrait(s) ignoré(s)`, {
+                        description: ignores.map(i => i.error).join('\n'),
+                    });
+                }
+            } else if (action === 'valider') {
+                await validerRetrait(retraits[0].id, {
+                    reference_transfert: reference.trim(),
+                    recu_url: recuUrl.trim() || undefined,
+                });
+                toast.success('Retrait validé, reçu émis');
+            } else {
+                await rejeterRetrait(retraits[0].id, motif.trim());
+                toast.success('Retrait refusé, montant recrédité');
+            }
+            onTraite?.();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors du traitement');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>
+                        {action === 'valider' ? 'Valider' : 'Refuser'}{' '}
+                        {enLot ? `${retraits.length} retraits` : `le retrait ${retraits[0]?.reference ?? ''}`}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {action === 'valider'
+                            ? `Effectuez d'abord le virement de ${formatMontant(total)}, puis saisissez la référence de l'opérateur.`
+                            : `${formatMontant(total)} seront recrédités sur le solde des boutiques concernées.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {!enLot && retraits[0] && (
+                        <div className="rounded-lg border p-3 text-sm">
+                            <div className="font-medium">{retraits[0].user?.name ?? '—'}</div>
+                            <div className="text-muted-foreground">
+                                {retraits[0].methode === 'airtel_money' ? 'Airtel Money' : 'Moov Money'}
+                                {' · '}
+                                <span className="font-mono">{retraits[0].telephone}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    {action === 'valider' ? (
+                        <>
+                            <div className="space-y-2">
+                                <Label htmlFor="reference">
+                                    {enLot ? 'Référence du lot' : 'Référence du transfert'}
+                                </Label>
+                                <Input
+                                    id="reference"
+                                    value={reference}
+                                    onChange={(e) => { setReference(e.target.value); setError(''); }}
+                                    placeholder={enLot ? 'Ex. LOT-2610-01' : "Référence communiquée par l'opérateur"}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="recu_url">Justificatif (URL, facultatif)</Label>
+                                <Input
+                                    id="recu_url"
+                                    type="url"
+                                    value={recuUrl}
+                                    onChange={(e) => { setRecuUrl(e.target.value); setError(''); }}
+                                    placeholder="https://..."
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label htmlFor="motif">Motif du refus</Label>
+                            <Textarea
+                                id="motif"
+                                value={motif}
+                                onChange={(e) => { setMotif(e.target.value); setError(''); }}
+                                placeholder="Communiqué à la boutique"
+                                rows={3}
+                            />
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                            Annuler
+                        </Button>
+                        <Button
+                            type="submit"
+                            variant={action === 'rejeter' ? 'destructive' : 'default'}
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting ? 'Traitement...' : action === 'valider' ? 'Valider' : 'Refuser'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+export interface DeliveryToReturn {
+  id: string
+  ville: string
+  tentatives: number
+  retour_at: string
+  commandes: { numero: string } | null
+  users: { name: string } | null
+}
+
+interface ReturnsToBoutiqueTableProps {
+  deliveries?: DeliveryToReturn[]
+}
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString("fr-FR", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  })
+}
+
+export function ReturnsToBoutiqueTable({ deliveries }: ReturnsToBoutiqueTableProps) {
+  const list = deliveries ?? [];
+  return (
+    <Card className="mx-4 lg:mx-6 border-orange-200">
+      <CardHeader>
+        <CardTitle>Colis à retourner</CardTitle>
+        <CardDescription>
+          Livraisons abandonnées après plusieurs tentatives échouées, les plus anciennes d&apos;abord
+        </CardDescription>
+        <CardAction>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/dashboard/livraisons">Voir les livraisons</Link>
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Commande</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Ville</TableHead>
+              <TableHead>Tentatives</TableHead>
+              <TableHead className="text-right">Depuis le</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {list.map((delivery) => (
+              <TableRow key={delivery.id}>
+                <TableCell className="font-mono text-sm">{delivery.commandes?.numero ?? "—"}</TableCell>
+                <TableCell className="font-medium">{delivery.users?.name ?? "—"}</TableCell>
+                <TableCell>{delivery.ville}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-orange-600 border-orange-200">
+                    {delivery.tentatives} échecs
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right text-sm text-muted-foreground">
+                  {formatDate(delivery.retour_at)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
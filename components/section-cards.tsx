@@ -29,6 +29,7 @@ interface DashboardStats {
     pendingOrders: number
     pendingClaims: number
     pendingDeliveries: number
+    returnsToBoutique: number
     outOfStock: number
     urgentCount: number
   }
@@ -182,7 +183,7 @@ export function SectionCards({ stats }: SectionCardsProps) {
             {alerts ? alerts.pendingOrders : "—"} commandes en attente
           </div>
           <div className="text-muted-foreground">
-            {alerts ? alerts.pendingClaims : "—"} réclamations · {alerts ? alerts.outOfStock : "—"} ruptures
+            {alerts ? alerts.pendingClaims : "—"} réclamations · {alerts ? alerts.outOfStock : "—"} ruptures · {alerts ? alerts.returnsToBoutique : "—"} retours
           </div>
         </CardFooter>
       </Card>
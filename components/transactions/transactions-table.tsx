@@ -52,6 +52,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { type Transaction, type PaiementStatut } from '@/stores/transactionsStore';
+import { type MouvementSolde, type TypeMouvement } from '@/stores/soldesStore';
 
 // ============================================
 // PROPS
@@ -63,6 +64,11 @@ interface TransactionsTableProps {
     onView: (transaction: Transaction) => void;
 }
 
+interface ReleveSoldeTableProps {
+    mouvements: MouvementSolde[];
+    isLoading: boolean;
+}
+
 // ============================================
 // HELPERS
 // ============================================
@@ -106,6 +112,10 @@ const getMethodeConfig = (methode: string) => {
             return { label: 'Carte bancaire', icon: CreditCard };
         case 'mobile_money':
             return { label: 'Mobile Money', icon: Smartphone };
+        case 'airtel_money':
+            return { label: 'Airtel Money', icon: Smartphone };
+        case 'moov_money':
+            return { label: 'Moov Money', icon: Smartphone };
         case 'especes':
             return { label: 'Espèces', icon: Banknote };
         default:
@@ -113,6 +123,20 @@ const getMethodeConfig = (methode: string) => {
     }
 };
 
+const getTypeMouvementConfig = (type: TypeMouvement) => {
+    switch (type) {
+        case 'vente': return { label: 'Vente', className: 'text-green-600 border-green-600' };
+        case 'frais_service': return { label: 'Frais de service', className: 'text-blue-600 border-blue-600' };
+        case 'liberation': return { label: 'Libération', className: 'text-teal-600 border-teal-600' };
+        case 'annulation': return { label: 'Annulation', className: 'text-red-600 border-red-600' };
+        case 'remboursement': return { label: 'Remboursement', className: 'text-orange-600 border-orange-600' };
+        case 'retrait': return { label: 'Retrait', className: 'text-purple-600 border-purple-600' };
+        case 'ajustement': return { label: 'Ajustement', className: '' };
+        case 'ouverture': return { label: "Solde d'ouverture", className: '' };
+        default: return { label: type, className: '' };
+    }
+};
+
 const getUserInitials = (name: string) => {
     return name
         .split(' ')
@@ -325,11 +349,117 @@ const createColumns = (
     },
 ];
 
+const colonnesReleve: ColumnDef<MouvementSolde>[] = [
+    {
+        accessorKey: "created_at",
+        header: ({ column }) => (
+            <Button
+                variant="ghost"
+                onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+            >
+                Date
+                <ArrowUpDown className="ml-2 h-4 w-4" />
+            </Button>
+        ),
+        cell: ({ row }) => (
+            <span className="text-sm text-muted-foreground">
+                {formatDate(row.getValue("created_at"))}
+            </span>
+        ),
+    },
+    {
+        accessorKey: "type",
+        header: "Type",
+        cell: ({ row }) => {
+            const config = getTypeMouvementConfig(row.getValue("type") as TypeMouvement);
+            return (
+                <Badge variant="outline" className={config.className}>
+                    {config.label}
+                </Badge>
+            );
+        },
+    },
+    {
+        accessorKey: "libelle",
+        header: "Libellé",
+        cell: ({ row }) => {
+            const mouvement = row.original;
+            return (
+                <div className="flex flex-col gap-0.5">
+                    <span className="text-sm">{mouvement.libelle ?? '—'}</span>
+                    {mouvement.acteur && (
+                        <span className="text-xs text-muted-foreground">par {mouvement.acteur.name}</span>
+                    )}
+                </div>
+            );
+        },
+    },
+    {
+        id: "reference",
+        header: "Commande / paiement",
+        cell: ({ row }) => {
+            const { commande, paiement } = row.original;
+            if (!commande && !paiement) return <span className="text-muted-foreground text-sm">—</span>;
+            return (
+                <div className="flex flex-col gap-0.5">
+                    {commande && <span className="font-mono text-sm">{commande.numero}</span>}
+                    {paiement && (
+                        <span className="font-mono text-xs text-muted-foreground">{paiement.reference}</span>
+                    )}
+                </div>
+            );
+        },
+        enableSorting: false,
+    },
+    {
+        accessorKey: "montant",
+        header: ({ column }) => (
+            <Button
+                variant="ghost"
+                onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+            >
+                Montant
+                <ArrowUpDown className="ml-2 h-4 w-4" />
+            </Button>
+        ),
+        cell: ({ row }) => {
+            const montant = row.getValue("montant") as number;
+            return (
+                <span className={`font-semibold text-sm ${montant >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {montant > 0 ? '+' : ''}{formatMontant(montant)}
+                </span>
+            );
+        },
+    },
+    {
+        accessorKey: "solde_apres",
+        header: "Solde",
+        cell: ({ row }) => {
+            const solde = row.original.solde_apres;
+            return (
+                <span className="text-sm font-medium">
+                    {solde === null ? '—' : formatMontant(solde)}
+                </span>
+            );
+        },
+        enableSorting: false,
+    },
+];
+
 // ============================================
-// COMPOSANT PRINCIPAL
+// TABLEAU (commun aux paiements et au relevé)
 // ============================================
 
-export function TransactionsTable({ transactions, isLoading, onView }: TransactionsTableProps) {
+interface TableauProps<T> {
+    data: T[];
+    columns: ColumnDef<T>[];
+    isLoading: boolean;
+    colonneRecherche: string;
+    placeholder: string;
+    messageVide: string;
+}
+
+function Tableau<T>({ data, columns, isLoading, colonneRecherche, placeholder, messageVide }: TableauProps<T>) {
     const [sorting, setSorting] = React.useState<SortingState>([
         { id: "created_at", desc: true }
     ]);
@@ -337,10 +467,8 @@ export function TransactionsTable({ transactions, isLoading, onView }: Transacti
     const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
     const [rowSelection, setRowSelection] = React.useState({});
 
-    const columns = React.useMemo(() => createColumns(onView), [onView]);
-
     const table = useReactTable({
-        data: transactions,
+        data,
         columns,
         onSortingChange: setSorting,
         onColumnFiltersChange: setColumnFilters,
@@ -363,10 +491,10 @@ export function TransactionsTable({ transactions, isLoading, onView }: Transacti
             {/* Barre de recherche et filtres */}
             <div className="flex items-center gap-4 py-4">
                 <Input
-                    placeholder="Rechercher par référence, client..."
-                    value={(table.getColumn("reference")?.getFilterValue() as string) ?? ""}
+                    placeholder={placeholder}
+                    value={(table.getColumn(colonneRecherche)?.getFilterValue() as string) ?? ""}
                     onChange={(event) =>
-                        table.getColumn("reference")?.setFilterValue(event.target.value)
+                        table.getColumn(colonneRecherche)?.setFilterValue(event.target.value)
                     }
                     className="max-w-sm"
                 />
@@ -433,7 +561,7 @@ export function TransactionsTable({ transactions, isLoading, onView }: Transacti
                         ) : (
                             <TableRow>
                                 <TableCell colSpan={columns.length} className="h-24 text-center">
-                                    Aucune transaction trouvée.
+                                    {messageVide}
                                 </TableCell>
                             </TableRow>
                         )}
@@ -469,3 +597,38 @@ export function TransactionsTable({ transactions, isLoading, onView }: Transacti
         </div>
     );
 }
+
+// ============================================
+// COMPOSANTS PRINCIPAUX
+// ============================================
+
+export function TransactionsTable({ transactions, isLoading, onView }: TransactionsTableProps) {
+    const columns = React.useMemo(() => createColumns(onView), [onView]);
+
+    return (
+        <Tableau
+            data={transactions}
+            columns={columns}
+            isLoading={isLoading}
+            colonneRecherche="reference"
+            placeholder="Rechercher par référence, client..."
+            messageVide="Aucune transaction trouvée."
+        />
+    );
+}
+
+/**
+ * Relevé du solde d'un utilisateur (grand livre), voir /api/soldes/releve
+ */
+export function ReleveSoldeTable({ mouvements, isLoading }: ReleveSoldeTableProps) {
+    return (
+        <Tableau
+            data={mouvements}
+            columns={colonnesReleve}
+            isLoading={isLoading}
+            colonneRecherche="libelle"
+            placeholder="Rechercher un libellé..."
+            messageVide="Aucun mouvement sur ce solde."
+        />
+    );
+}
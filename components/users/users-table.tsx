@@ -147,9 +147,16 @@ const createColumns = (
             accessorKey: "solde",
             header: "Solde",
             cell: ({ row }) => (
-                <span className="font-medium">
-                    {formatMontant(row.original.solde)}
-                </span>
+                <div className="flex flex-col">
+                    <span className="font-medium">
+                        {formatMontant(row.original.solde)}
+                    </span>
+                    {row.original.solde_en_attente > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                            + {formatMontant(row.original.solde_en_attente)} en attente
+                        </span>
+                    )}
+                </div>
             ),
         },
         {
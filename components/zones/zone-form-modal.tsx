@@ -0,0 +1,221 @@
+// components/zones/zone-form-modal.tsx
+'use client';
+
+import { useState } from 'react';
+import { toast } from "sonner";
+
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useZonesLivraisonStore, type ZoneLivraisonInput } from '@/stores/zonesLivraisonStore';
+import type { ZoneLivraison } from '@/app/lib/zonesLivraison';
+
+interface ZoneFormModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    zone: ZoneLivraison | null; // null = création
+}
+
+const versEntier = (valeur: string) => (valeur.trim() === '' ? null : parseInt(valeur));
+
+/**
+ * Le parent doit passer une `key` différente par zone éditée :
+ * le formulaire est initialisé une seule fois à partir de `zone`.
+ */
+export function ZoneFormModal({ isOpen, onClose, zone }: ZoneFormModalProps) {
+    // ============================================
+    // ÉTAT LOCAL
+    // ============================================
+
+    const [formData, setFormData] = useState({
+        nom: zone?.nom ?? '',
+        ville: zone?.ville ?? '',
+        quartiers: zone?.quartiers.join(', ') ?? '',
+        prix_base: zone?.prix_base?.toString() ?? '',
+        supplement_boutique: zone?.supplement_boutique?.toString() ?? '0',
+        plafond: zone?.plafond?.toString() ?? '',
+        seuil_gratuite: zone?.seuil_gratuite?.toString() ?? '',
+        is_active: zone?.is_active ?? true,
+    });
+    const [error, setError] = useState('');
+
+    const { createZone, updateZone, isLoading } = useZonesLivraisonStore();
+
+    const handleChange = <K extends keyof typeof formData>(field: K, value: (typeof formData)[K]) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        setError('');
+    };
+
+    // ============================================
+    // SOUMISSION
+    // ============================================
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const data: ZoneLivraisonInput = {
+            nom: formData.nom.trim(),
+            ville: formData.ville.trim(),
+            quartiers: formData.quartiers
+                .split(',')
+                .map(q => q.trim())
+                .filter(Boolean),
+            prix_base: parseInt(formData.prix_base),
+            supplement_boutique: parseInt(formData.supplement_boutique) || 0,
+            plafond: versEntier(formData.plafond),
+            seuil_gratuite: versEntier(formData.seuil_gratuite),
+            is_active: formData.is_active,
+        };
+
+        if (!data.nom || !data.ville || isNaN(data.prix_base)) {
+            setError('Le nom, la ville et le prix de base sont obligatoires');
+            return;
+        }
+
+        try {
+            if (zone) {
+                await updateZone(zone.id, data);
+                toast.success('Zone mise à jour');
+            } else {
+                await createZone(data);
+                toast.success('Zone ajoutée');
+            }
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Erreur lors de l’enregistrement');
+        }
+    };
+
+    // ============================================
+    // RENDU
+    // ============================================
+
+    return (
+        <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{zone ? 'Modifier la zone' : 'Nouvelle zone de livraison'}</DialogTitle>
+                    <DialogDescription>
+                        Frais = prix de base + supplément par boutique supplémentaire,
+                        dans la limite du plafond. Gratuit au-delà du seuil.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="nom">Nom</Label>
+                            <Input
+                                id="nom"
+                                value={formData.nom}
+                                onChange={(e) => handleChange('nom', e.target.value)}
+                                placeholder="Ex. Libreville centre"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="ville">Ville</Label>
+                            <Input
+                                id="ville"
+                                value={formData.ville}
+                                onChange={(e) => handleChange('ville', e.target.value)}
+                                placeholder="Ex. Libreville"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="quartiers">Communes / quartiers</Label>
+                        <Input
+                            id="quartiers"
+                            value={formData.quartiers}
+                            onChange={(e) => handleChange('quartiers', e.target.value)}
+                            placeholder="Séparés par des virgules"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="prix_base">Prix de base (FCFA)</Label>
+                            <Input
+                                id="prix_base"
+                                type="number"
+                                min="0"
+                                value={formData.prix_base}
+                                onChange={(e) => handleChange('prix_base', e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="supplement_boutique">Par boutique en plus (FCFA)</Label>
+                            <Input
+                                id="supplement_boutique"
+                                type="number"
+                                min="0"
+                                value={formData.supplement_boutique}
+                                onChange={(e) => handleChange('supplement_boutique', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="plafond">Plafond (FCFA)</Label>
+                            <Input
+                                id="plafond"
+                                type="number"
+                                min="1"
+                                placeholder="Sans plafond"
+                                value={formData.plafond}
+                                onChange={(e) => handleChange('plafond', e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="seuil_gratuite">Gratuit dès (FCFA d&apos;articles)</Label>
+                            <Input
+                                id="seuil_gratuite"
+                                type="number"
+                                min="1"
+                                placeholder="Jamais gratuit"
+                                value={formData.seuil_gratuite}
+                                onChange={(e) => handleChange('seuil_gratuite', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                        <div className="space-y-0.5">
+                            <Label htmlFor="is_active">Zone active</Label>
+                            <p className="text-sm text-muted-foreground">
+                                Seules les zones actives sont proposées au checkout
+                            </p>
+                        </div>
+                        <Switch
+                            id="is_active"
+                            checked={formData.is_active}
+                            onCheckedChange={(checked) => handleChange('is_active', checked)}
+                        />
+                    </div>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+                            Annuler
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading ? 'Enregistrement...' : 'Enregistrer'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
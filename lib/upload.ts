@@ -225,6 +225,78 @@ export async function uploadVariationImage(
     }
 }
 
+/**
+ * Upload une preuve de remise (photo du colis remis ou signature du client)
+ * Bucket privé : `path` est conservé sur la livraison, l'URL se lit via
+ * getPreuveLivraisonUrl
+ */
+export async function uploadPreuveLivraison(
+    file: File,
+    livraisonId: string,
+    type: 'photo' | 'signature'
+): Promise<UploadResult> {
+    try {
+        // Validation
+        const validation = validateImageFile(file);
+        if (!validation.valid) {
+            return { success: false, error: validation.error };
+        }
+
+        // Convertir File en Buffer
+        const arrayBuffer = await file.arrayBuffer();
+        const buffer = Buffer.from(arrayBuffer);
+
+        // Optimiser l'image
+        const optimizedBuffer = await optimizeImage(buffer);
+
+        // Un fichier par envoi : une nouvelle preuve ne remplace pas l'ancienne
+        const filePath = `${livraisonId}/${type}-${Date.now()}.webp`;
+
+        const { error } = await supabase.storage
+            .from('preuves-livraison')
+            .upload(filePath, optimizedBuffer, {
+                contentType: 'image/webp',
+                upsert: false
+            });
+
+        if (error) {
+            console.error('Erreur upload Supabase:', error);
+            return { success: false, error: error.message };
+        }
+
+        return {
+            success: true,
+            path: filePath
+        };
+
+    } catch (error) {
+        console.error('Erreur upload preuve livraison:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Erreur lors de l\'upload'
+        };
+    }
+}
+
+/**
+ * URL signée (temporaire) d'une preuve de remise
+ */
+export async function getPreuveLivraisonUrl(
+    filePath: string,
+    expiresIn: number = 3600
+): Promise<string | null> {
+    const { data, error } = await supabase.storage
+        .from('preuves-livraison')
+        .createSignedUrl(filePath, expiresIn);
+
+    if (error) {
+        console.error('Erreur URL signée preuve livraison:', error);
+        return null;
+    }
+
+    return data.signedUrl;
+}
+
 /**
  * Upload multiple images (galerie article)
  */
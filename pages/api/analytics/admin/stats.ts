@@ -213,7 +213,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         const { data: allDeliveries } = await supabaseAdmin
             .from("livraisons")
-            .select("statut, ville, created_at");
+            .select("statut, ville, retour_at, created_at");
 
         const deliveriesByStatus = {
             en_attente: allDeliveries?.filter(d => d.statut === "En attente").length || 0,
@@ -231,6 +231,26 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         const pendingDeliveries = deliveriesByStatus.en_attente + deliveriesByStatus.en_cours;
 
+        // Colis à retourner à la boutique après trop de tentatives échouées
+        const returnsToBoutique = allDeliveries?.filter(
+            d => d.retour_at && d.statut === "Reportée"
+        ).length || 0;
+
+        const { data: deliveriesToReturn } = await supabaseAdmin
+            .from("livraisons")
+            .select(`
+        id,
+        ville,
+        tentatives,
+        retour_at,
+        commandes (numero),
+        users (name)
+        `)
+            .not("retour_at", "is", null)
+            .eq("statut", "Reportée")
+            .order("retour_at", { ascending: true })
+            .limit(10);
+
         // ============================================
         // 6. STATISTIQUES RÉCLAMATIONS
         // ============================================
@@ -359,8 +379,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             pendingOrders: ordersByStatus.en_attente,
             pendingClaims: claimsByStatus.en_attente_de_traitement,
             pendingDeliveries,
+            returnsToBoutique,
             outOfStock: outOfStockProducts || 0,
-            urgentCount: (ordersByStatus.en_attente || 0) + (claimsByStatus.en_attente_de_traitement || 0),
+            urgentCount: (ordersByStatus.en_attente || 0) + (claimsByStatus.en_attente_de_traitement || 0) + returnsToBoutique,
         };
 
         // ============================================
@@ -421,6 +442,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 byStatus: deliveriesByStatus,
                 byCity: deliveriesByCity,
                 pending: pendingDeliveries,
+                toReturn: deliveriesToReturn || [],
             },
 
             reclamations: {
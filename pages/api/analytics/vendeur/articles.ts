@@ -15,6 +15,13 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *       - bearerAuth: []
  */
 
+// Ligne de commande jointe à l'article, avec le statut de sa commande
+type LigneVendue = {
+    quantite: number;
+    prix_unitaire: number;
+    commandes: { statut: string } | null;
+};
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== "GET")
         return res.status(405).json({ error: "Méthode non autorisée" });
@@ -42,16 +49,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         // Calculer les stats par article
         const statsArticles = articles?.map(article => {
-            const commandesLivrees = article.commande_articles?.filter(
-                (ca: any) => ca.commandes?.statut === 'livree'
-            ) || [];
+            const lignes = (article.commande_articles ?? []) as unknown as LigneVendue[];
+            const commandesLivrees = lignes.filter(
+                (ca) => ca.commandes?.statut === 'Livrée'
+            );
 
             const quantiteVendue = commandesLivrees.reduce(
-                (sum: number, ca: any) => sum + ca.quantite, 0
+                (sum, ca) => sum + ca.quantite, 0
             );
 
             const revenu = commandesLivrees.reduce(
-                (sum: number, ca: any) => sum + (ca.prix_unitaire * ca.quantite), 0
+                (sum, ca) => sum + (ca.prix_unitaire * ca.quantite), 0
             );
 
             const noteMoyenne = article.avis?.length > 0
@@ -66,18 +66,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         }
 
         const total = commandes?.length || 0;
-        const livrees = commandes?.filter(c => c.statut === 'livree').length || 0;
+        const livrees = commandes?.filter(c => c.statut === 'Livrée').length || 0;
         const enCours = commandes?.filter(c =>
-            ['en_preparation', 'prete_pour_livraison', 'en_cours_de_livraison'].includes(c.statut)
+            ['En préparation', 'Prête pour livraison', 'En cours de livraison'].includes(c.statut)
         ).length || 0;
-        const annulees = commandes?.filter(c => c.statut === 'annule').length || 0;
+        const annulees = commandes?.filter(c => c.statut === 'Annulée').length || 0;
 
         const chiffreAffaires = commandes
-            ?.filter(c => c.statut === 'livree')
+            ?.filter(c => c.statut === 'Livrée')
             .reduce((sum, c) => sum + c.prix, 0) || 0;
 
         const chiffreAffairesEnCours = commandes
-            ?.filter(c => ['en_preparation', 'prete_pour_livraison', 'en_cours_de_livraison'].includes(c.statut))
+            ?.filter(c => ['En préparation', 'Prête pour livraison', 'En cours de livraison'].includes(c.statut))
             .reduce((sum, c) => sum + c.prix, 0) || 0;
 
         const panierMoyen = livrees > 0 ? Math.round(chiffreAffaires / livrees) : 0;
@@ -0,0 +1,181 @@
+// pages/api/codes-promo/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { codePromoSchema, verifierCodePromo } from "../../../app/lib/codesPromo";
+
+/**
+ * @swagger
+ * /api/codes-promo/create:
+ *   post:
+ *     summary: Crée un code promo
+ *     description: >
+ *       Remise en pourcentage (plafonnable) ou d'un montant fixe, sur toute la
+ *       plateforme, une catégorie ou les articles d'une boutique. Un
+ *       administrateur choisit la portée ; une boutique ne crée que des codes
+ *       sur ses propres articles (boutique_id est alors le sien). La remise
+ *       est à la charge de la boutique pour ses propres codes, de la
+ *       plateforme pour ceux d'un administrateur.
+ *     tags:
+ *       - Codes promo
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - type
+ *               - valeur
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Lettres, chiffres, - et _ (enregistré en majuscules)
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *               type:
+ *                 type: string
+ *                 enum: [pourcentage, fixe]
+ *               valeur:
+ *                 type: number
+ *                 description: Pourcentage ou montant en FCFA
+ *               remise_max:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Plafond d'une remise en pourcentage
+ *               montant_min:
+ *                 type: integer
+ *                 default: 0
+ *                 description: Montant minimum des articles concernés
+ *               limite_utilisation:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Nombre total d'utilisations (illimité si absent)
+ *               limite_par_utilisateur:
+ *                 type: integer
+ *                 nullable: true
+ *                 default: 1
+ *               date_debut:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               date_fin:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               categorie_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               boutique_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Code promo créé
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin ou boutique seulement)
+ *       409:
+ *         description: Ce code existe déjà
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur" && profile.role !== "Boutique") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        const body = codePromoSchema.parse(req.body);
+
+        // Une boutique ne finance que des remises sur ses propres articles
+        if (profile.role === "Boutique") {
+            if (body.categorie_id || (body.boutique_id && body.boutique_id !== profile.id)) {
+                return res.status(403).json({ error: "Un code boutique ne porte que sur vos articles" });
+            }
+            body.boutique_id = profile.id;
+        }
+
+        const erreur = verifierCodePromo(body);
+        if (erreur) {
+            return res.status(400).json({ error: erreur });
+        }
+
+        if (body.boutique_id && profile.role === "Administrateur") {
+            const { data: boutique } = await supabaseAdmin
+                .from("users")
+                .select("id")
+                .eq("id", body.boutique_id)
+                .eq("role", "Boutique")
+                .single();
+
+            if (!boutique) {
+                return res.status(400).json({ error: "Boutique introuvable" });
+            }
+        }
+
+        const { data: code, error } = await supabaseAdmin
+            .from("codes_promo")
+            .insert({
+                ...body,
+                description: body.description?.trim() || null,
+                createur_id: profile.id,
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users!codes_promo_boutique_id_fkey (id, name),
+        createur:users!codes_promo_createur_id_fkey (id, name, role)
+        `)
+            .single();
+
+        if (error?.code === "23505") {
+            return res.status(409).json({ error: `Le code ${body.code} existe déjà` });
+        }
+
+        if (error) {
+            console.error("Supabase insert error:", error);
+            return res.status(500).json({ error: "Impossible de créer le code promo" });
+        }
+
+        return res.status(201).json({
+            message: "Code promo créé avec succès",
+            code: { ...code, valeur: Number(code.valeur), utilisations: 0, montant_remises: 0 },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/codes-promo/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,92 @@
+// pages/api/codes-promo/delete/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/codes-promo/delete/{id}:
+ *   delete:
+ *     summary: Supprime un code promo jamais utilisé
+ *     description: >
+ *       Un code déjà utilisé par une commande reste lié à celle-ci : il ne
+ *       peut qu'être désactivé. Un administrateur supprime tous les codes, une
+ *       boutique uniquement ceux qu'elle a créés.
+ *     tags:
+ *       - Codes promo
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du code promo
+ *     responses:
+ *       200:
+ *         description: Code promo supprimé
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Code promo introuvable
+ *       409:
+ *         description: Code déjà utilisé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "DELETE") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur" && profile.role !== "Boutique") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de code promo invalide" });
+        }
+
+        let query = supabaseAdmin
+            .from("codes_promo")
+            .delete()
+            .eq("id", id);
+
+        if (profile.role === "Boutique") {
+            query = query.eq("boutique_id", profile.id).eq("createur_id", profile.id);
+        }
+
+        const { data: supprime, error } = await query.select("id");
+
+        // Clé étrangère commandes.code_promo_id (ON DELETE RESTRICT)
+        if (error?.code === "23503") {
+            return res.status(409).json({ error: "Ce code a déjà été utilisé : désactivez-le plutôt" });
+        }
+
+        if (error) {
+            console.error("Supabase delete error:", error);
+            return res.status(500).json({ error: "Impossible de supprimer le code promo" });
+        }
+
+        if (!supprime || supprime.length === 0) {
+            return res.status(404).json({ error: "Code promo introuvable" });
+        }
+
+        return res.status(200).json({ message: "Code promo supprimé avec succès" });
+    } catch (err) {
+        console.error("Error /api/codes-promo/delete/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
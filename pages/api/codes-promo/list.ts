@@ -0,0 +1,98 @@
+// pages/api/codes-promo/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/codes-promo/list:
+ *   get:
+ *     summary: Liste les codes promo
+ *     description: >
+ *       Retourne les codes promo avec leur nombre d'utilisations et le total des
+ *       remises accordées (commandes annulées exclues). Un administrateur voit
+ *       tous les codes, une boutique uniquement les siens.
+ *     tags:
+ *       - Codes promo
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: boutique_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filtrer sur une boutique (admin)
+ *     responses:
+ *       200:
+ *         description: Liste des codes promo
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin ou boutique seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur" && profile.role !== "Boutique") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        let query = supabaseAdmin
+            .from("codes_promo")
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users!codes_promo_boutique_id_fkey (id, name),
+        createur:users!codes_promo_createur_id_fkey (id, name, role)
+        `)
+            .order("created_at", { ascending: false });
+
+        if (profile.role === "Boutique") {
+            query = query.eq("boutique_id", profile.id);
+        } else if (typeof req.query.boutique_id === "string") {
+            query = query.eq("boutique_id", req.query.boutique_id);
+        }
+
+        const { data: codes, error } = await query;
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les codes promo" });
+        }
+
+        const ids = (codes || []).map((c) => c.id);
+        const { data: commandes } = ids.length > 0
+            ? await supabaseAdmin
+                .from("commandes")
+                .select("code_promo_id, remise_code_promo")
+                .in("code_promo_id", ids)
+                .neq("statut", "Annulée")
+            : { data: [] };
+
+        return res.status(200).json({
+            codes: (codes || []).map((code) => {
+                const utilisees = (commandes || []).filter((c) => c.code_promo_id === code.id);
+                return {
+                    ...code,
+                    valeur: Number(code.valeur),
+                    utilisations: utilisees.length,
+                    montant_remises: utilisees.reduce((sum, c) => sum + c.remise_code_promo, 0),
+                };
+            }),
+        });
+    } catch (err) {
+        console.error("Error /api/codes-promo/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,170 @@
+// pages/api/codes-promo/update/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { codePromoSchema, verifierCodePromo } from "../../../../app/lib/codesPromo";
+
+/**
+ * @swagger
+ * /api/codes-promo/update/{id}:
+ *   patch:
+ *     summary: Modifie un code promo
+ *     description: >
+ *       Met à jour tout ou partie d'un code promo (par exemple pour le
+ *       désactiver). Les commandes passées ne sont pas affectées : leur remise
+ *       est figée. Un administrateur modifie tous les codes, une boutique
+ *       uniquement ceux qu'elle a créés, sans en changer la portée : les codes
+ *       d'un administrateur ciblant ses articles sont financés par la
+ *       plateforme.
+ *     tags:
+ *       - Codes promo
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du code promo
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Mêmes champs que /api/codes-promo/create, tous optionnels
+ *     responses:
+ *       200:
+ *         description: Code promo mis à jour
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Code promo introuvable
+ *       409:
+ *         description: Ce code existe déjà
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const updateSchema = codePromoSchema.partial();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur" && profile.role !== "Boutique") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de code promo invalide" });
+        }
+
+        const body = updateSchema.parse(req.body);
+
+        const { data: existant, error: fetchError } = await supabaseAdmin
+            .from("codes_promo")
+            .select("*")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !existant) {
+            return res.status(404).json({ error: "Code promo introuvable" });
+        }
+
+        // Zod complète les champs absents avec leur valeur par défaut :
+        // ne garder que ceux réellement envoyés
+        const envoyes = new Set(Object.keys(req.body ?? {}));
+        const toUpdate = Object.fromEntries(
+            Object.entries(body).filter(([key, value]) => envoyes.has(key) && value !== undefined)
+        );
+
+        if (profile.role === "Boutique") {
+            // Un code d'administrateur ciblant la boutique est financé par la plateforme
+            if (existant.boutique_id !== profile.id || existant.createur_id !== profile.id) {
+                return res.status(403).json({ error: "Accès refusé pour modifier ce code promo" });
+            }
+            if (("boutique_id" in toUpdate && toUpdate.boutique_id !== profile.id)
+                || ("categorie_id" in toUpdate && toUpdate.categorie_id !== null)) {
+                return res.status(403).json({ error: "Un code boutique ne porte que sur vos articles" });
+            }
+        }
+
+        const erreur = verifierCodePromo({
+            ...existant,
+            valeur: Number(existant.valeur),
+            ...toUpdate,
+        });
+        if (erreur) {
+            return res.status(400).json({ error: erreur });
+        }
+
+        if (typeof toUpdate.boutique_id === "string" && toUpdate.boutique_id !== existant.boutique_id) {
+            const { data: boutique } = await supabaseAdmin
+                .from("users")
+                .select("id")
+                .eq("id", toUpdate.boutique_id)
+                .eq("role", "Boutique")
+                .single();
+
+            if (!boutique) {
+                return res.status(400).json({ error: "Boutique introuvable" });
+            }
+        }
+
+        const { data: code, error } = await supabaseAdmin
+            .from("codes_promo")
+            .update({
+                ...toUpdate,
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", id)
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users!codes_promo_boutique_id_fkey (id, name),
+        createur:users!codes_promo_createur_id_fkey (id, name, role)
+        `)
+            .single();
+
+        if (error?.code === "23505") {
+            return res.status(409).json({ error: `Le code ${toUpdate.code} existe déjà` });
+        }
+
+        if (error) {
+            console.error("Supabase update error:", error);
+            return res.status(500).json({ error: "Impossible de mettre à jour le code promo" });
+        }
+
+        return res.status(200).json({
+            message: "Code promo mis à jour avec succès",
+            code: { ...code, valeur: Number(code.valeur) },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/codes-promo/update/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -2,6 +2,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { attacherSousCommandes } from "../../../app/lib/sousCommandes";
 
 /**
  * @swagger
@@ -87,7 +88,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             return res.status(403).json({ error: "Accès refusé à cette commande" });
         }
 
-        return res.status(200).json({ commande });
+        const [commandeAvecSousCommandes] = await attacherSousCommandes([commande]);
+
+        return res.status(200).json({ commande: commandeAvecSousCommandes });
     } catch (err) {
         console.error("Error /api/commandes/[id]:", err);
         return res.status(500).json({ error: "Erreur serveur interne" });
@@ -2,6 +2,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { restituerCommande } from "../../../../app/lib/commandeRestitution";
 
 /**
  * @swagger
@@ -82,13 +83,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        // Une commande parente est supprimée avec ses sous-commandes par boutique
+        const { data: sousCommandes } = await supabaseAdmin
+            .from("commandes")
+            .select("id")
+            .eq("parent_id", id);
+
+        const commandeIds = [id, ...(sousCommandes || []).map((sc) => sc.id)];
+
         // Début de la transaction de suppression
         try {
             // 1. Supprimer les réclamations liées
             const { error: reclamationsError } = await supabaseAdmin
                 .from("reclamations")
                 .delete()
-                .eq("commande_id", id);
+                .in("commande_id", commandeIds);
 
             if (reclamationsError) {
                 console.warn("Erreur suppression réclamations:", reclamationsError);
@@ -98,28 +107,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             const { error: livraisonsError } = await supabaseAdmin
                 .from("livraisons")
                 .delete()
-                .eq("commande_id", id);
+                .in("commande_id", commandeIds);
 
             if (livraisonsError) {
                 console.warn("Erreur suppression livraisons:", livraisonsError);
             }
 
-            // 3. Restaurer les stocks si la commande était en attente
-            if (commande.statut === "en_attente") {
-                const { data: commandeArticles } = await supabaseAdmin
-                    .from("commande_articles")
-                    .select("variation_id, quantite")
-                    .eq("commande_id", id);
-
-                if (commandeArticles) {
-                    for (const ca of commandeArticles) {
-                        if (ca.variation_id) {
-                            await supabaseAdmin.rpc("increment_variation_stock", {
-                                variation_id: ca.variation_id,
-                                quantity: ca.quantite,
-                            });
-                        }
-                    }
+            // 3. Restituer stocks et soldes si la commande était en attente
+            // (une commande annulée a déjà été restituée)
+            if (commande.statut === "En attente") {
+                for (const commandeId of commandeIds) {
+                    await restituerCommande(commandeId);
                 }
             }
 
@@ -127,7 +125,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             const { error: articleCommandeError } = await supabaseAdmin
                 .from("commande_articles")
                 .delete()
-                .eq("commande_id", id);
+                .in("commande_id", commandeIds);
 
             if (articleCommandeError) {
                 throw new Error(`Erreur suppression articles: ${articleCommandeError.message}`);
@@ -137,17 +135,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             const { error: articleCommandesError } = await supabaseAdmin
                 .from("article_commandes")
                 .delete()
-                .eq("commande_id", id);
+                .in("commande_id", commandeIds);
 
             if (articleCommandesError) {
                 console.warn("Erreur suppression article_commandes:", articleCommandesError);
             }
 
-            // 6. Supprimer la commande
+            // 6. Supprimer les sous-commandes puis la commande
             const { error: deleteError } = await supabaseAdmin
                 .from("commandes")
                 .delete()
-                .eq("id", id);
+                .in("id", commandeIds);
 
             if (deleteError) {
                 throw new Error(`Erreur suppression commande: ${deleteError.message}`);
@@ -0,0 +1,107 @@
+// pages/api/commandes/[id]/historique.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/commandes/{id}/historique:
+ *   get:
+ *     summary: Historique des statuts d'une commande
+ *     description: >
+ *       Retourne la chronologie des changements de statut d'une commande
+ *       (ancien et nouveau statut, auteur, date, note), du plus ancien au plus récent.
+ *       Accessible à l'acheteur, aux boutiques concernées, au livreur assigné et aux administrateurs.
+ *     tags:
+ *       - Commandes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la commande
+ *     responses:
+ *       200:
+ *         description: Historique de la commande
+ *       400:
+ *         description: ID invalide
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Commande introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de commande invalide" });
+        }
+
+        // Récupérer la commande pour vérifier les permissions
+        const { data: commande, error: fetchError } = await supabaseAdmin
+            .from("commandes")
+            .select(`
+        id,
+        user_id,
+        commande_articles (
+            articles (user_id)
+        ),
+        livraisons (livreur_id)
+        `)
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !commande) {
+            return res.status(404).json({ error: "Commande introuvable" });
+        }
+
+        const isAdmin = profile.role === "Administrateur";
+        const isOwner = commande.user_id === profile.id;
+        const lignes = (commande.commande_articles ?? []) as unknown as { articles: { user_id: string } | null }[];
+        const isBoutiqueOwner = lignes.some((ca) => ca.articles?.user_id === profile.id);
+        const isLivreur = commande.livraisons?.some(
+            (l: { livreur_id: string | null }) => l.livreur_id === profile.id
+        );
+
+        if (!isAdmin && !isOwner && !isBoutiqueOwner && !isLivreur) {
+            return res.status(403).json({ error: "Accès refusé à cette commande" });
+        }
+
+        const { data: historique, error } = await supabaseAdmin
+            .from("commande_historiques")
+            .select(`
+        *,
+        acteur:users (id, name, role)
+        `)
+            .eq("commande_id", id)
+            .order("created_at", { ascending: true });
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer l'historique" });
+        }
+
+        return res.status(200).json({ historique: historique || [] });
+    } catch (err) {
+        console.error("Error /api/commandes/[id]/historique:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
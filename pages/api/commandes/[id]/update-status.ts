@@ -3,6 +3,20 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z, ZodError } from "zod";
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    COMMANDE_STATUTS,
+    getStatutsSuivants,
+    peutChangerStatut,
+    type RoleCommande,
+} from "../../../../app/lib/commandeStatuts";
+import { enregistrerHistoriqueCommande } from "../../../../app/lib/commandeHistorique";
+import {
+    appliquerStatutCommande,
+    attacherSousCommandes,
+    synchroniserCommandeParente,
+} from "../../../../app/lib/sousCommandes";
+import { restituerCommande, STATUTS_RESTITUTION } from "../../../../app/lib/commandeRestitution";
+import { programmerLiberation } from "../../../../app/lib/soldes";
 
 /**
  * @swagger
@@ -10,8 +24,18 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *   patch:
  *     summary: Met à jour le statut d'une commande
  *     description: >
- *       Change le statut d'une commande. Accessible uniquement aux administrateurs
- *       ou aux boutiques propriétaires des articles de la commande.
+ *       Change le statut d'une commande en respectant la machine à états
+ *       (app/lib/commandeStatuts.ts). Chaque transition n'est permise qu'à
+ *       certains rôles : acheteur (Client), boutique concernée, livreur assigné
+ *       ou administrateur.
+ *       Sur une commande parente, le changement est appliqué à chaque sous-commande
+ *       qui l'autorise, puis le statut de la parente est recalculé.
+ *       Sur une sous-commande, le statut de la parente est recalculé ensuite.
+ *       Le passage à "Annulée" ou "Remboursée" remet les articles en stock et
+ *       annule les crédits de solde des boutiques et de l'admin (une seule fois).
+ *       Une commande confiée à un livreur ne passe pas "Livrée" ici : la remise
+ *       se confirme sur sa livraison (/api/livraisons/{id}/update), avec la
+ *       preuve de remise et l'encaissement des espèces.
  *     tags:
  *       - Commandes
  *     security:
@@ -37,37 +61,40 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *                 type: string
  *                 enum:
  *                   - En attente
- *                   - En preparation
- *                   - Prete pour livraison
+ *                   - En préparation
+ *                   - Prête pour livraison
  *                   - En cours de livraison
  *                   - Livrée
  *                   - Annulée
  *                   - Remboursée
+ *               note:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: >
+ *                   Commentaire conservé dans l'historique de la commande (et
+ *                   comme motif d'annulation pour le statut Annulée)
  *     responses:
  *       200:
  *         description: Statut mis à jour avec succès
  *       400:
- *         description: Données invalides
+ *         description: Données invalides ou transition non autorisée
  *       401:
  *         description: Non autorisé
  *       403:
  *         description: Accès refusé
  *       404:
  *         description: Commande introuvable
+ *       409:
+ *         description: >
+ *           Le statut a été modifié entre-temps, ou la commande a une
+ *           livraison à confirmer via /api/livraisons/{id}/update
  *       500:
  *         description: Erreur serveur
  */
 
 const updateStatusSchema = z.object({
-    statut: z.enum([
-        "En attente",
-        "En préparation",
-        "Prête pour livraison",
-        "En cours de livraison",
-        "Livrée",
-        "Annulée",
-        "Remboursée",
-    ]),
+    statut: z.enum(COMMANDE_STATUTS),
+    note: z.string().max(1000).optional(),
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -95,7 +122,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         *,
         commande_articles (
             articles (user_id)
-        )
+        ),
+        livraisons (livreur_id)
         `)
             .eq("id", id)
             .single();
@@ -113,18 +141,103 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             (ca: any) => ca.articles?.user_id === profile.id
         );
 
-        if (!isAdmin && !isOwner && !isBoutiqueOwner) {
+        const isLivreur = commande.livraisons?.some(
+            (l: { livreur_id: string | null }) => l.livreur_id === profile.id
+        );
+
+        // Rôles de l'utilisateur vis-à-vis de cette commande
+        const roles: RoleCommande[] = [];
+        if (isAdmin) roles.push("Administrateur");
+        if (isOwner) roles.push("Client");
+        if (isBoutiqueOwner) roles.push("Boutique");
+        if (isLivreur) roles.push("Livreur");
+
+        if (roles.length === 0) {
             return res.status(403).json({ error: "Accès refusé pour modifier cette commande" });
         }
 
+        // La remise d'une commande livrée par un livreur passe par sa livraison :
+        // preuve de remise, encaissement des espèces et mise à jour de la livraison
+        if (body.statut === "Livrée") {
+            const { data: sousCommandes } = await supabaseAdmin
+                .from("commandes")
+                .select("id")
+                .eq("parent_id", id);
+
+            const { data: livraisons } = await supabaseAdmin
+                .from("livraisons")
+                .select("id")
+                .in("commande_id", [id, ...(sousCommandes || []).map((c) => c.id)])
+                .limit(1);
+
+            if (livraisons && livraisons.length > 0) {
+                return res.status(409).json({
+                    error: `Cette commande a une livraison : confirmez la remise via /api/livraisons/${livraisons[0].id}/update`,
+                    livraison_id: livraisons[0].id,
+                });
+            }
+        }
+
+        const acteur = { id: profile.id, role: profile.role };
+
+        // Commande parente : le statut s'applique à ses sous-commandes
+        const { count: nbSousCommandes } = await supabaseAdmin
+            .from("commandes")
+            .select("id", { count: "exact", head: true })
+            .eq("parent_id", id);
+
+        if (nbSousCommandes) {
+            const modifiees = await appliquerStatutCommande({
+                commande,
+                statut: body.statut,
+                roles,
+                acteur,
+                source: "commande",
+                note: body.note,
+            });
+
+            if (modifiees.length === 0) {
+                return res.status(400).json({
+                    error: `Aucune sous-commande ne peut passer au statut "${body.statut}"`,
+                    statuts_possibles: getStatutsSuivants(commande.statut, roles),
+                });
+            }
+
+            const { data: parente } = await supabaseAdmin
+                .from("commandes")
+                .select(`
+        *,
+        users!commandes_user_id_fkey (id, name, email)
+        `)
+                .eq("id", id)
+                .single();
+
+            const [parenteAvecSousCommandes] = await attacherSousCommandes(parente ? [parente] : []);
+
+            return res.status(200).json({
+                message: "Statut mis à jour avec succès",
+                commande: parenteAvecSousCommandes ?? null,
+            });
+        }
+
+        if (!peutChangerStatut(commande.statut, body.statut, roles)) {
+            return res.status(400).json({
+                error: `Transition "${commande.statut}" → "${body.statut}" non autorisée`,
+                statuts_possibles: getStatutsSuivants(commande.statut, roles),
+            });
+        }
+
         // Mettre à jour le statut
         const { data: updatedCommande, error: updateError } = await supabaseAdmin
             .from("commandes")
             .update({
                 statut: body.statut,
+                ...(body.statut === "Annulée" && body.note ? { motif_annulation: body.note } : {}),
                 updated_at: new Date().toISOString()
             })
             .eq("id", id)
+            // Ne met à jour que si le statut n'a pas changé depuis la lecture
+            .eq("statut", commande.statut)
             .select(`
         *,
         users!commandes_user_id_fkey (id, name, email),
@@ -136,11 +249,40 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         `)
             .single();
 
+        if (updateError?.code === "PGRST116") {
+            return res.status(409).json({
+                error: "Le statut de la commande a été modifié entre-temps, veuillez réessayer",
+            });
+        }
+
         if (updateError) {
             console.error("Supabase update error:", updateError);
             return res.status(500).json({ error: "Impossible de mettre à jour le statut" });
         }
 
+        await enregistrerHistoriqueCommande({
+            commande_id: id,
+            ancien_statut: commande.statut,
+            nouveau_statut: body.statut,
+            acteur_id: profile.id,
+            acteur_role: profile.role,
+            source: "commande",
+            note: body.note,
+        });
+
+        // Annulation ou remboursement : remise en stock et annulation des crédits
+        if (STATUTS_RESTITUTION.includes(body.statut)) {
+            await restituerCommande(id);
+        }
+
+        // Livraison confirmée : les gains seront libérés après le délai de litige
+        if (body.statut === "Livrée") {
+            await programmerLiberation(id);
+        }
+
+        // Sous-commande : répercuter sur le statut de la commande parente
+        await synchroniserCommandeParente(id, acteur);
+
         return res.status(200).json({
             message: "Statut mis à jour avec succès",
             commande: updatedCommande,
@@ -2,6 +2,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { attacherSousCommandes } from "../../../app/lib/sousCommandes";
 
 /**
  * @swagger
@@ -11,6 +12,8 @@ import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
  *     description: >
  *       Récupère la liste de toutes les commandes avec leurs articles et relations.
  *       Accessible uniquement aux administrateurs.
+ *       Seules les commandes parentes sont listées ; leurs sous-commandes par
+ *       boutique sont incluses dans `sous_commandes`.
  *     tags:
  *       - Commandes
  *     security:
@@ -98,6 +101,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         )
         `, { count: "exact" });
 
+        // Les sous-commandes par boutique sont rattachées à leur commande parente
+        query = query.is("parent_id", null);
+
         // Filtre par statut si fourni
         if (statut) {
             query = query.eq("statut", statut);
@@ -117,7 +123,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const totalPages = count ? Math.ceil(count / limit) : 0;
 
         return res.status(200).json({
-            commandes,
+            commandes: await attacherSousCommandes(commandes || []),
             pagination: {
                 page,
                 limit,
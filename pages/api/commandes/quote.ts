@@ -0,0 +1,168 @@
+// pages/api/commandes/quote.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import {
+    chargerContexteTarification,
+    verifierLignes,
+    type LigneDemandee,
+} from "../../../app/lib/commandeCheckout";
+import { calculerTarification } from "../../../app/lib/tarification";
+
+/**
+ * @swagger
+ * /api/commandes/quote:
+ *   post:
+ *     summary: Calcule le devis d'une commande sans la créer
+ *     description: >
+ *       Prend le même corps que /api/commandes/create (ou un panier_id à la place
+ *       des articles) et retourne le détail du montant, calculé par le même module
+ *       que le passage de commande : prix unitaire de chaque ligne (promo ou
+ *       variation), remises, remise du code promo, frais de service, frais de
+ *       livraison par boutique et total. Rien n'est écrit. Les lignes invalides
+ *       (stock, article retiré...) sont listées dans `erreurs` et exclues du
+ *       devis ; un code promo refusé est expliqué dans devis.erreur_code_promo
+ *       (aucune remise). `commandable` vaut false tant qu'il reste une erreur.
+ *     tags:
+ *       - Commandes
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isLivrable
+ *             properties:
+ *               isLivrable:
+ *                 type: boolean
+ *               zone_livraison_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Obligatoire si isLivrable
+ *               code_promo:
+ *                 type: string
+ *                 maxLength: 50
+ *               panier_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Panier de l'utilisateur, à la place de `articles`
+ *               articles:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - article_id
+ *                     - quantite
+ *                   properties:
+ *                     article_id:
+ *                       type: string
+ *                       format: uuid
+ *                     variation_id:
+ *                       type: string
+ *                       format: uuid
+ *                     quantite:
+ *                       type: integer
+ *                       minimum: 1
+ *     responses:
+ *       200:
+ *         description: Devis (devis, erreurs, commandable)
+ *       400:
+ *         description: Données invalides ou panier vide
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Panier introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const quoteSchema = z.object({
+    commentaire: z.string().optional(),
+    isLivrable: z.boolean(),
+    adresse_livraison: z.string().max(255).optional(),
+    zone_livraison_id: z.string().uuid().optional(),
+    code_promo: z.string().trim().min(1).max(50).optional(),
+    panier_id: z.string().uuid().optional(),
+    articles: z
+        .array(
+            z.object({
+                article_id: z.string().uuid(),
+                variation_id: z.string().uuid().optional(),
+                quantite: z.number().int().min(1),
+            })
+        )
+        .min(1)
+        .optional(),
+}).refine((body) => !body.isLivrable || !!body.zone_livraison_id, {
+    message: "Une zone de livraison est requise pour une livraison à domicile",
+    path: ["zone_livraison_id"],
+}).refine((body) => !!body.articles !== !!body.panier_id, {
+    message: "Envoyez soit des articles, soit un panier_id",
+    path: ["articles"],
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const body = quoteSchema.parse(req.body);
+
+        let demande: LigneDemandee[] = body.articles ?? [];
+
+        if (body.panier_id) {
+            const { data: panier } = await supabaseAdmin
+                .from("paniers")
+                .select("id, panier_items (article_id, variation_id, quantite)")
+                .eq("id", body.panier_id)
+                .eq("user_id", profile.id)
+                .single();
+
+            if (!panier) {
+                return res.status(404).json({ error: "Panier introuvable" });
+            }
+
+            demande = panier.panier_items || [];
+        }
+
+        if (demande.length === 0) {
+            return res.status(400).json({ error: "Votre panier est vide" });
+        }
+
+        const contexte = await chargerContexteTarification(body, profile.id);
+        if (!contexte.ok) {
+            return res.status(contexte.status).json({ error: contexte.error });
+        }
+
+        const { lignes, erreurs } = await verifierLignes(demande);
+
+        const devis = calculerTarification(lignes, contexte.regles, contexte.zone, contexte.codePromo);
+        devis.erreur_code_promo = contexte.erreurCodePromo ?? devis.erreur_code_promo;
+
+        return res.status(200).json({
+            devis,
+            erreurs,
+            commandable: erreurs.length === 0 && !devis.erreur_code_promo,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/commandes/quote:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
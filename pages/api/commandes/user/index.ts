@@ -2,6 +2,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { attacherSousCommandes } from "../../../../app/lib/sousCommandes";
 
 /**
  * @swagger
@@ -10,6 +11,8 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *     summary: Liste les commandes d'un utilisateur
  *     description: >
  *       Récupère toutes les commandes passées par l'utilisateur connecté.
+ *       Une commande multi-boutiques apparaît une seule fois, avec ses
+ *       sous-commandes par boutique dans `sous_commandes`.
  *     tags:
  *       - Commandes
  *     security:
@@ -91,6 +94,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         `, { count: "exact" })
             .eq("user_id", profile.id);
 
+        // Les sous-commandes par boutique sont rattachées à leur commande parente
+        query = query.is("parent_id", null);
+
         // Filtre par statut si fourni
         if (statut) {
             query = query.eq("statut", statut);
@@ -110,7 +116,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const totalPages = count ? Math.ceil(count / limit) : 0;
 
         return res.status(200).json({
-            commandes,
+            commandes: await attacherSousCommandes(commandes || []),
             pagination: {
                 page,
                 limit,
@@ -0,0 +1,142 @@
+// pages/api/commissions/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { regleCommissionSchema, verifierRegleCommission } from "../../../app/lib/commissions";
+
+/**
+ * @swagger
+ * /api/commissions/create:
+ *   post:
+ *     summary: Ajoute une règle au barème des frais de service
+ *     description: >
+ *       Une règle s'applique aux articles dont le prix unitaire est dans
+ *       [prix_min, prix_max[ (prix_max absent = sans limite). Elle peut viser une
+ *       boutique ou une catégorie ; sans les deux, elle est globale.
+ *       Priorité au checkout : boutique > catégorie > global.
+ *       Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Commissions
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nom
+ *               - type
+ *               - valeur
+ *             properties:
+ *               nom:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [fixe, pourcentage]
+ *               valeur:
+ *                 type: number
+ *                 description: FCFA par unité (fixe) ou pourcentage du prix unitaire
+ *               prix_min:
+ *                 type: integer
+ *                 default: 0
+ *               prix_max:
+ *                 type: integer
+ *                 nullable: true
+ *               categorie_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               boutique_id:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Règle créée
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const body = regleCommissionSchema.parse(req.body);
+
+        const erreur = verifierRegleCommission(body);
+        if (erreur) {
+            return res.status(400).json({ error: erreur });
+        }
+
+        if (body.boutique_id) {
+            const { data: boutique } = await supabaseAdmin
+                .from("users")
+                .select("id")
+                .eq("id", body.boutique_id)
+                .eq("role", "Boutique")
+                .single();
+
+            if (!boutique) {
+                return res.status(400).json({ error: "Boutique introuvable" });
+            }
+        }
+
+        const { data: regle, error } = await supabaseAdmin
+            .from("commission_regles")
+            .insert({
+                ...body,
+                nom: body.nom.trim(),
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users (id, name)
+        `)
+            .single();
+
+        if (error) {
+            console.error("Supabase insert error:", error);
+            return res.status(500).json({ error: "Impossible de créer la règle" });
+        }
+
+        return res.status(201).json({
+            message: "Règle créée avec succès",
+            regle: { ...regle, valeur: Number(regle.valeur) },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/commissions/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
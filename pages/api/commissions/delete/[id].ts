@@ -0,0 +1,79 @@
+// pages/api/commissions/delete/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/commissions/delete/{id}:
+ *   delete:
+ *     summary: Supprime une règle du barème des frais de service
+ *     description: >
+ *       Les lignes de commande qui l'avaient appliquée gardent leurs frais figés.
+ *       Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Commissions
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la règle
+ *     responses:
+ *       200:
+ *         description: Règle supprimée
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Règle introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "DELETE") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de règle invalide" });
+        }
+
+        const { data: supprimee, error } = await supabaseAdmin
+            .from("commission_regles")
+            .delete()
+            .eq("id", id)
+            .select("id");
+
+        if (error) {
+            console.error("Supabase delete error:", error);
+            return res.status(500).json({ error: "Impossible de supprimer la règle" });
+        }
+
+        if (!supprimee || supprimee.length === 0) {
+            return res.status(404).json({ error: "Règle introuvable" });
+        }
+
+        return res.status(200).json({ message: "Règle supprimée avec succès" });
+    } catch (err) {
+        console.error("Error /api/commissions/delete/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,67 @@
+// pages/api/commissions/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/commissions/list:
+ *   get:
+ *     summary: Liste le barème des frais de service
+ *     description: >
+ *       Retourne toutes les règles de commission (globales, par catégorie et
+ *       par boutique), triées par portée puis par tranche de prix.
+ *       Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Commissions
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Liste des règles
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { data: regles, error } = await supabaseAdmin
+            .from("commission_regles")
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users (id, name)
+        `)
+            .order("boutique_id", { ascending: true, nullsFirst: true })
+            .order("categorie_id", { ascending: true, nullsFirst: true })
+            .order("prix_min", { ascending: true });
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer le barème" });
+        }
+
+        return res.status(200).json({
+            regles: (regles || []).map((r) => ({ ...r, valeur: Number(r.valeur) })),
+        });
+    } catch (err) {
+        console.error("Error /api/commissions/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
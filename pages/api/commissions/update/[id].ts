@@ -0,0 +1,134 @@
+// pages/api/commissions/update/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { regleCommissionSchema, verifierRegleCommission } from "../../../../app/lib/commissions";
+
+/**
+ * @swagger
+ * /api/commissions/update/{id}:
+ *   patch:
+ *     summary: Modifie une règle du barème des frais de service
+ *     description: >
+ *       Met à jour tout ou partie d'une règle de commission. Les commandes
+ *       passées ne sont pas affectées : leurs frais sont figés sur chaque ligne.
+ *       Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Commissions
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la règle
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Mêmes champs que /api/commissions/create, tous optionnels
+ *     responses:
+ *       200:
+ *         description: Règle mise à jour
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Règle introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const updateSchema = regleCommissionSchema.partial();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de règle invalide" });
+        }
+
+        const body = updateSchema.parse(req.body);
+
+        const { data: existante, error: fetchError } = await supabaseAdmin
+            .from("commission_regles")
+            .select("*")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !existante) {
+            return res.status(404).json({ error: "Règle introuvable" });
+        }
+
+        // Ne garder que les champs envoyés, puis valider la règle complète
+        const toUpdate = Object.fromEntries(
+            Object.entries(body).filter(([, value]) => value !== undefined)
+        );
+
+        const erreur = verifierRegleCommission({
+            ...existante,
+            valeur: Number(existante.valeur),
+            ...toUpdate,
+        });
+        if (erreur) {
+            return res.status(400).json({ error: erreur });
+        }
+
+        const { data: regle, error } = await supabaseAdmin
+            .from("commission_regles")
+            .update({
+                ...toUpdate,
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", id)
+            .select(`
+        *,
+        categorie:categories (id, nom),
+        boutique:users (id, name)
+        `)
+            .single();
+
+        if (error) {
+            console.error("Supabase update error:", error);
+            return res.status(500).json({ error: "Impossible de mettre à jour la règle" });
+        }
+
+        return res.status(200).json({
+            message: "Règle mise à jour avec succès",
+            regle: { ...regle, valeur: Number(regle.valeur) },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/commissions/update/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
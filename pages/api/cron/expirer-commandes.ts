@@ -0,0 +1,67 @@
+// pages/api/cron/expirer-commandes.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireCronSecret } from "../../../app/lib/middlewares/requireCronSecret";
+import { expirerCommandesImpayees } from "../../../app/lib/commandeExpiration";
+
+/**
+ * @swagger
+ * /api/cron/expirer-commandes:
+ *   post:
+ *     summary: Annule les commandes restées impayées
+ *     description: >
+ *       Tâche planifiée (toutes les heures par exemple) : les commandes encore
+ *       "En attente" sans paiement validé après DELAI_EXPIRATION_COMMANDE_HEURES
+ *       (24 h par défaut) sont annulées, leur stock restitué, le motif
+ *       enregistré (motif_annulation) et l'acheteur prévenu. Les commandes
+ *       payables en espèces ont leur propre délai, DELAI_EXPIRATION_ESPECES_JOURS
+ *       (7 jours par défaut). Celles dont un paiement a été initié pendant le
+ *       délai et celles déjà en préparation sont ignorées. Protégée par le
+ *       secret CRON_SECRET. GET est accepté pour les crons Vercel ; en local :
+ *       npm run cron:expirer-commandes.
+ *     tags:
+ *       - Commandes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: delai_heures
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Remplace le délai configuré pour cet appel
+ *     responses:
+ *       200:
+ *         description: Commandes annulées, commandes ignorées par motif et erreurs
+ *       400:
+ *         description: Délai invalide
+ *       401:
+ *         description: Secret invalide
+ *       503:
+ *         description: CRON_SECRET non configuré
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST" && req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    if (!requireCronSecret(req, res)) return;
+
+    const { delai_heures } = req.query;
+    const delaiHeures = typeof delai_heures === "string" ? Number(delai_heures) : undefined;
+
+    if (delaiHeures !== undefined && (!Number.isInteger(delaiHeures) || delaiHeures < 1)) {
+        return res.status(400).json({ error: "delai_heures doit être un entier positif" });
+    }
+
+    try {
+        const resultat = await expirerCommandesImpayees({ delaiHeures });
+
+        return res.status(200).json(resultat);
+    } catch (err) {
+        console.error("Error /api/cron/expirer-commandes:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
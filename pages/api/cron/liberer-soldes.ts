@@ -0,0 +1,47 @@
+// pages/api/cron/liberer-soldes.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireCronSecret } from "../../../app/lib/middlewares/requireCronSecret";
+import { libererSoldesEchus } from "../../../app/lib/soldes";
+
+/**
+ * @swagger
+ * /api/cron/liberer-soldes:
+ *   post:
+ *     summary: Libère les soldes en attente arrivés à échéance
+ *     description: >
+ *       Tâche planifiée (à appeler au moins une fois par jour) : les gains des
+ *       commandes livrées dont le délai de litige (DELAI_LITIGE_JOURS) est
+ *       écoulé passent du solde en attente au solde disponible. Les commandes
+ *       faisant l'objet d'une réclamation ouverte sont ignorées jusqu'à sa clôture.
+ *       Protégée par le secret CRON_SECRET. GET est accepté pour les crons Vercel.
+ *     tags:
+ *       - Soldes
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Nombre de crédits libérés, montant total et crédits suspendus
+ *       401:
+ *         description: Secret invalide
+ *       503:
+ *         description: CRON_SECRET non configuré
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST" && req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    if (!requireCronSecret(req, res)) return;
+
+    try {
+        const resultat = await libererSoldesEchus();
+
+        return res.status(200).json(resultat);
+    } catch (err) {
+        console.error("Error /api/cron/liberer-soldes:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,120 @@
+// pages/api/encaissements/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { caissesLivreurs } from "../../../app/lib/encaissements";
+
+/**
+ * @swagger
+ * /api/encaissements/list:
+ *   get:
+ *     summary: Liste les encaissements en espèces des livreurs
+ *     description: >
+ *       Retourne les espèces encaissées à la livraison et la caisse de chaque
+ *       livreur (montant encaissé non encore remis, montant attendu, écart).
+ *       Un administrateur voit tous les livreurs, un livreur uniquement sa
+ *       caisse.
+ *     tags:
+ *       - Encaissements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: livreur_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Livreur (administrateurs seulement)
+ *       - in: query
+ *         name: en_caisse
+ *         schema:
+ *           type: boolean
+ *         description: Uniquement les encaissements non encore remis
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Encaissements paginés et caisses des livreurs
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const isAdmin = profile.role === "Administrateur";
+
+        if (!isAdmin && profile.role !== "Livreur") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const livreurId = isAdmin ? (req.query.livreur_id as string | undefined) : profile.id;
+        const enCaisse = req.query.en_caisse === "true";
+        const offset = (page - 1) * limit;
+
+        let query = supabaseAdmin
+            .from("encaissements")
+            .select(`
+                *,
+                livreur:users!encaissements_livreur_id_fkey (id, name, phone),
+                commande:commandes (id, numero, statut),
+                paiement:paiements (id, reference, statut),
+                remise:remises_especes (id, reference, statut)
+            `, { count: "exact" });
+
+        if (livreurId) {
+            query = query.eq("livreur_id", livreurId);
+        }
+
+        if (enCaisse) {
+            query = query.is("remise_id", null);
+        }
+
+        const [{ data: encaissements, error, count }, caisses] = await Promise.all([
+            query
+                .order("created_at", { ascending: false })
+                .range(offset, offset + limit - 1),
+            caissesLivreurs(livreurId),
+        ]);
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les encaissements" });
+        }
+
+        return res.status(200).json({
+            encaissements: encaissements || [],
+            caisses,
+            pagination: {
+                page,
+                limit,
+                total: count || 0,
+                totalPages: count ? Math.ceil(count / limit) : 0,
+            },
+        });
+    } catch (err) {
+        console.error("Error /api/encaissements/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,110 @@
+// pages/api/encaissements/remises/[id]/confirm.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../../../app/lib/middlewares/requireUserAuth";
+import { confirmerRemise } from "../../../../../app/lib/encaissements";
+
+/**
+ * @swagger
+ * /api/encaissements/remises/{id}/confirm:
+ *   patch:
+ *     summary: Confirme le montant reçu d'une remise d'espèces
+ *     description: >
+ *       L'administrateur saisit le montant compté. La remise passe à
+ *       « Confirmée » s'il correspond aux encaissements remis, à « Écart »
+ *       sinon (le livreur et les administrateurs sont prévenus).
+ *     tags:
+ *       - Encaissements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - montant_recu
+ *             properties:
+ *               montant_recu:
+ *                 type: integer
+ *               note:
+ *                 type: string
+ *                 maxLength: 255
+ *     responses:
+ *       200:
+ *         description: Remise confirmée
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé. Administrateur requis.
+ *       404:
+ *         description: Remise introuvable
+ *       409:
+ *         description: Remise déjà confirmée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const confirmationSchema = z.object({
+    montant_recu: z.number().int().min(0),
+    note: z.string().trim().min(1).max(255).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de remise invalide" });
+        }
+
+        const body = confirmationSchema.parse(req.body);
+
+        const resultat = await confirmerRemise(
+            id,
+            { montantRecu: body.montant_recu, note: body.note },
+            { id: profile.id, name: profile.name }
+        );
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        return res.status(200).json({
+            message: resultat.remise.statut === "Confirmée" ? "Remise confirmée" : "Remise confirmée avec un écart",
+            remise: resultat.remise,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/encaissements/remises/[id]/confirm:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
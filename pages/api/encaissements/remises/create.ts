@@ -0,0 +1,167 @@
+// pages/api/encaissements/remises/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../../app/lib/middlewares/requireIdempotency";
+import { confirmerRemise, declarerRemise } from "../../../../app/lib/encaissements";
+
+/**
+ * @swagger
+ * /api/encaissements/remises/create:
+ *   post:
+ *     summary: Remet les espèces en caisse d'un livreur
+ *     description: >
+ *       Le livreur déclare en fin de journée la remise de toutes ses espèces
+ *       encaissées et non remises ; un administrateur confirme ensuite le
+ *       montant reçu. Un administrateur peut aussi enregistrer la remise d'un
+ *       livreur (livreur_id) et la confirmer directement avec montant_recu.
+ *     tags:
+ *       - Encaissements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par remise. Une requête renvoyée avec la même clé rejoue
+ *           la réponse d'origine sans créer une seconde remise.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - montant_declare
+ *             properties:
+ *               montant_declare:
+ *                 type: integer
+ *                 description: Montant remis annoncé par le livreur
+ *               livreur_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Livreur (obligatoire pour un administrateur)
+ *               montant_recu:
+ *                 type: integer
+ *                 description: Montant compté à la réception (administrateurs seulement)
+ *               note:
+ *                 type: string
+ *                 maxLength: 255
+ *     responses:
+ *       201:
+ *         description: Remise enregistrée (et confirmée si montant_recu est fourni)
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livreur introuvable
+ *       409:
+ *         description: >
+ *           Aucune espèce en caisse à remettre, ou requête avec la même
+ *           Idempotency-Key en cours
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const remiseSchema = z.object({
+    montant_declare: z.number().int().min(0),
+    livreur_id: z.string().uuid().optional(),
+    montant_recu: z.number().int().min(0).optional(),
+    note: z.string().trim().min(1).max(255).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const isAdmin = profile.role === "Administrateur";
+
+        if (!isAdmin && profile.role !== "Livreur") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "encaissements/remises/create" }))) return;
+
+        const body = remiseSchema.parse(req.body);
+
+        if (!isAdmin && (body.livreur_id || body.montant_recu !== undefined)) {
+            return res.status(403).json({ error: "Seul un administrateur peut enregistrer la remise d'un livreur" });
+        }
+
+        let livreur = { id: profile.id, name: profile.name };
+
+        if (isAdmin) {
+            if (!body.livreur_id) {
+                return res.status(400).json({
+                    errors: [{ field: "livreur_id", message: "Livreur requis" }],
+                });
+            }
+
+            const { data } = await supabaseAdmin
+                .from("users")
+                .select("id, name")
+                .eq("id", body.livreur_id)
+                .eq("role", "Livreur")
+                .single();
+
+            if (!data) {
+                return res.status(404).json({ error: "Livreur introuvable" });
+            }
+
+            livreur = data;
+        }
+
+        const resultat = await declarerRemise({
+            livreur,
+            montantDeclare: body.montant_declare,
+            note: body.note,
+            acteur: { id: profile.id, role: profile.role },
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        if (body.montant_recu !== undefined) {
+            const confirmation = await confirmerRemise(
+                resultat.remise.id as string,
+                { montantRecu: body.montant_recu, note: body.note },
+                { id: profile.id, name: profile.name }
+            );
+
+            if (!confirmation.ok) {
+                return res.status(confirmation.status).json({ error: confirmation.error, details: confirmation.details });
+            }
+
+            return res.status(201).json({ message: "Remise enregistrée et confirmée", remise: confirmation.remise });
+        }
+
+        return res.status(201).json({ message: "Remise enregistrée", remise: resultat.remise });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/encaissements/remises/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
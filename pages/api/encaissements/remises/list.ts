@@ -0,0 +1,129 @@
+// pages/api/encaissements/remises/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/encaissements/remises/list:
+ *   get:
+ *     summary: Liste les remises d'espèces des livreurs
+ *     description: >
+ *       Un administrateur voit toutes les remises (filtrables par statut ou
+ *       livreur), un livreur uniquement les siennes.
+ *     tags:
+ *       - Encaissements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: statut
+ *         schema:
+ *           type: string
+ *           enum: [En attente, Confirmée, Écart]
+ *       - in: query
+ *         name: livreur_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Livreur (administrateurs seulement)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Remises paginées et total des remises à confirmer
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const isAdmin = profile.role === "Administrateur";
+
+        if (!isAdmin && profile.role !== "Livreur") {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const statut = req.query.statut as string | undefined;
+        const livreurId = isAdmin ? (req.query.livreur_id as string | undefined) : profile.id;
+        const offset = (page - 1) * limit;
+
+        let query = supabaseAdmin
+            .from("remises_especes")
+            .select(`
+                *,
+                livreur:users!remises_especes_livreur_id_fkey (id, name, phone),
+                confirmateur:users!remises_especes_confirme_par_fkey (id, name),
+                encaissements (id, montant, montant_attendu, commande:commandes (id, numero))
+            `, { count: "exact" });
+
+        if (livreurId) {
+            query = query.eq("livreur_id", livreurId);
+        }
+
+        if (statut) {
+            query = query.eq("statut", statut);
+        }
+
+        // Remises à confirmer, indépendamment des filtres
+        let enAttenteQuery = supabaseAdmin
+            .from("remises_especes")
+            .select("montant_declare")
+            .eq("statut", "En attente");
+
+        if (!isAdmin) {
+            enAttenteQuery = enAttenteQuery.eq("livreur_id", profile.id);
+        }
+
+        const [{ data: remises, error, count }, { data: enAttente }] = await Promise.all([
+            query
+                .order("created_at", { ascending: false })
+                .range(offset, offset + limit - 1),
+            enAttenteQuery,
+        ]);
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les remises" });
+        }
+
+        return res.status(200).json({
+            remises: remises || [],
+            en_attente: {
+                nombre: enAttente?.length || 0,
+                montant: (enAttente || []).reduce((total, r) => total + r.montant_declare, 0),
+            },
+            pagination: {
+                page,
+                limit,
+                total: count || 0,
+                totalPages: count ? Math.ceil(count / limit) : 0,
+            },
+        });
+    } catch (err) {
+        console.error("Error /api/encaissements/remises/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,168 @@
+// pages/api/livraisons/[id]/dispatch.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    CHAMPS_DISPATCH,
+    chargerCandidats,
+    choisirLivreur,
+    dispatcherLivraison,
+} from "../../../../app/lib/dispatchLivreurs";
+
+/**
+ * @swagger
+ * /api/livraisons/{id}/dispatch:
+ *   get:
+ *     summary: Recommandation de livreur et journal des attributions
+ *     description: >
+ *       Classement des livreurs actifs pour la livraison (score sur 100 et
+ *       motifs, ou motif d'exclusion) et historique des attributions,
+ *       automatiques ou manuelles, avec leur auteur. Accessible uniquement
+ *       aux administrateurs.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     responses:
+ *       200:
+ *         description: Classement des candidats et attributions passées
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Livraison introuvable
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Assigne automatiquement un livreur à la livraison
+ *     description: >
+ *       Retient le livreur le mieux noté et l'assigne (la livraison passe
+ *       "En cours de livraison"). Si aucun livreur n'est éligible, la
+ *       livraison reste en attente et la décision est tout de même journalisée.
+ *       Pour imposer un livreur, utiliser /api/livraisons/{id}/update.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     responses:
+ *       200:
+ *         description: Résultat du dispatch et livraison à jour
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Livraison introuvable
+ *       409:
+ *         description: Livraison déjà assignée ou plus en attente
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livraison invalide" });
+        }
+
+        const { data: livraison, error: fetchError } = await supabaseAdmin
+            .from("livraisons")
+            .select(CHAMPS_DISPATCH)
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !livraison) {
+            return res.status(404).json({ error: "Livraison introuvable" });
+        }
+
+        if (req.method === "GET") {
+            const decision = choisirLivreur(livraison, await chargerCandidats());
+
+            const { data: attributions, error } = await supabaseAdmin
+                .from("attributions_livreur")
+                .select(`
+        id,
+        livreur_id,
+        mode,
+        score,
+        raisons,
+        created_at,
+        livreur:users!attributions_livreur_livreur_id_fkey (id, name),
+        acteur:users!attributions_livreur_acteur_id_fkey (id, name)
+        `)
+                .eq("livraison_id", livraison.id)
+                .order("created_at", { ascending: false });
+
+            if (error) {
+                console.error("Supabase select error:", error);
+                return res.status(500).json({ error: "Impossible de récupérer les attributions" });
+            }
+
+            return res.status(200).json({
+                recommandation: decision.livreur
+                    ? { livreur_id: decision.livreur.id, name: decision.livreur.name, score: decision.score, raisons: decision.raisons }
+                    : null,
+                candidats: decision.candidats,
+                attributions: attributions || [],
+            });
+        }
+
+        const dispatch = await dispatcherLivraison(livraison, { id: profile.id, role: profile.role });
+
+        if (!dispatch.ok) {
+            return res.status(dispatch.status).json({ error: dispatch.error });
+        }
+
+        const { data: livraisonAJour } = await supabaseAdmin
+            .from("livraisons")
+            .select(`
+        *,
+        commandes (id, numero, statut, prix, adresse_livraison),
+        users (id, name, email, phone),
+        encaissement:encaissements (id, montant, montant_attendu, remise_id, created_at)
+        `)
+            .eq("id", livraison.id)
+            .single();
+
+        return res.status(200).json({
+            message: dispatch.resultat.livreur
+                ? `Livraison assignée à ${dispatch.resultat.livreur.name}`
+                : "Aucun livreur éligible : la livraison reste en attente",
+            dispatch: dispatch.resultat,
+            livraison: livraisonAJour,
+        });
+    } catch (err) {
+        console.error("Error /api/livraisons/[id]/dispatch:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,208 @@
+// pages/api/livraisons/[id]/evenements.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    EVENEMENTS_LIVREUR,
+    LIBELLES_EVENEMENT_LIVRAISON,
+    type TypeEvenementLivraison,
+} from "../../../../app/lib/livraisonEvenements";
+
+/**
+ * @swagger
+ * /api/livraisons/{id}/evenements:
+ *   get:
+ *     summary: Chronologie d'une livraison
+ *     description: >
+ *       Étapes du suivi de la livraison, de la plus ancienne à la plus
+ *       récente, avec leur date et leur auteur. Accessible à l'admin, à
+ *       l'acheteur, à la boutique de la commande et au livreur assigné.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     responses:
+ *       200:
+ *         description: Étapes du suivi
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Ajoute une étape au suivi d'une livraison
+ *     description: >
+ *       Permet au livreur assigné (ou à un administrateur) de signaler une
+ *       étape sans changement de statut : colis récupéré, en route. Les
+ *       tentatives échouées passent par /api/livraisons/{id}/tentatives et
+ *       les changements de statut par /api/livraisons/{id}/update.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [recuperee, en_transit]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Étape enregistrée
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       409:
+ *         description: Livraison déjà livrée ou annulée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const evenementSchema = z.object({
+    type: z.enum(EVENEMENTS_LIVREUR),
+    note: z.string().trim().max(500).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livraison invalide" });
+        }
+
+        const { data: livraison, error: fetchError } = await supabaseAdmin
+            .from("livraisons")
+            .select("id, statut, user_id, livreur_id, commandes (user_id, vendeur_id)")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !livraison) {
+            return res.status(404).json({ error: "Livraison introuvable" });
+        }
+
+        const commande = livraison.commandes as { user_id?: string; vendeur_id?: string | null } | null;
+        const isAdmin = profile.role === "Administrateur";
+        const isLivreur = livraison.livreur_id === profile.id;
+
+        if (req.method === "GET") {
+            const isAcheteur = livraison.user_id === profile.id || commande?.user_id === profile.id;
+            const isBoutique = !!commande?.vendeur_id && commande.vendeur_id === profile.id;
+
+            if (!isAdmin && !isLivreur && !isAcheteur && !isBoutique) {
+                return res.status(403).json({ error: "Accès refusé à cette livraison" });
+            }
+
+            const { data: evenements, error } = await supabaseAdmin
+                .from("livraison_evenements")
+                .select(`
+        id,
+        type,
+        note,
+        acteur_role,
+        created_at,
+        acteur:users!livraison_evenements_acteur_id_fkey (id, name)
+        `)
+                .eq("livraison_id", id)
+                .order("created_at", { ascending: true });
+
+            if (error) {
+                console.error("Supabase select error:", error);
+                return res.status(500).json({ error: "Impossible de récupérer le suivi de la livraison" });
+            }
+
+            return res.status(200).json({
+                evenements: (evenements || []).map((e) => ({
+                    ...e,
+                    libelle: LIBELLES_EVENEMENT_LIVRAISON[e.type as TypeEvenementLivraison] ?? e.type,
+                })),
+            });
+        }
+
+        if (!isAdmin && !isLivreur) {
+            return res.status(403).json({ error: "Seul le livreur assigné peut compléter le suivi" });
+        }
+
+        const body = evenementSchema.parse(req.body);
+
+        if (livraison.statut === "Livrée" || livraison.statut === "Annulée") {
+            return res.status(409).json({ error: `Livraison déjà ${livraison.statut.toLowerCase()}` });
+        }
+
+        // Ici l'étape est l'opération elle-même : une erreur doit remonter
+        const { data: evenement, error } = await supabaseAdmin
+            .from("livraison_evenements")
+            .insert({
+                livraison_id: livraison.id,
+                type: body.type,
+                acteur_id: profile.id,
+                acteur_role: profile.role,
+                note: body.note || null,
+                created_at: new Date().toISOString(),
+            })
+            .select("id, type, note, acteur_role, created_at")
+            .single();
+
+        if (error) {
+            console.error("Supabase insert error:", error);
+            return res.status(500).json({ error: "Impossible d'enregistrer l'étape" });
+        }
+
+        return res.status(201).json({
+            message: "Étape enregistrée",
+            evenement: { ...evenement, libelle: LIBELLES_EVENEMENT_LIVRAISON[body.type] },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/livraisons/[id]/evenements:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
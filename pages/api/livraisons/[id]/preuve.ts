@@ -0,0 +1,212 @@
+// pages/api/livraisons/[id]/preuve.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import formidable, { File as FormidableFile } from "formidable";
+import fs from "fs";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { chargerPreuveLivraison } from "../../../../app/lib/preuveLivraison";
+import { uploadPreuveLivraison } from "../../../../lib/upload";
+
+// Désactiver le body parser de Next.js (multipart)
+export const config = {
+    api: {
+        bodyParser: false,
+    },
+};
+
+/**
+ * @swagger
+ * /api/livraisons/{id}/preuve:
+ *   get:
+ *     summary: Preuve de remise d'une livraison
+ *     description: >
+ *       Type de preuve retenu à la clôture (code, photo, signature ou clôture
+ *       par un administrateur), avec une URL signée valable une heure pour
+ *       une photo ou une signature. Accessible à l'admin, à l'acheteur et au
+ *       livreur assigné.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     responses:
+ *       200:
+ *         description: Preuve de remise (null si aucune)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Dépose une photo ou une signature de remise
+ *     description: >
+ *       Le livreur assigné (ou un administrateur) joint une photo du colis
+ *       remis ou la signature du client, à défaut du code de remise. La
+ *       livraison peut ensuite passer à « Livrée » sans code.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *               - type
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Image (max 5MB)
+ *               type:
+ *                 type: string
+ *                 enum: [photo, signature]
+ *     responses:
+ *       201:
+ *         description: Preuve enregistrée
+ *       400:
+ *         description: Fichier ou type invalide
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       409:
+ *         description: Livraison déjà livrée ou annulée
+ *       500:
+ *         description: Erreur serveur
+ */
+
+// Parse FormData avec formidable
+async function parseForm(req: NextApiRequest): Promise<{
+    fields: formidable.Fields;
+    files: formidable.Files;
+}> {
+    return new Promise((resolve, reject) => {
+        const form = formidable({ multiples: false, maxFileSize: 5 * 1024 * 1024 });
+        form.parse(req, (err, fields, files) => {
+            if (err) reject(err);
+            else resolve({ fields, files });
+        });
+    });
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livraison invalide" });
+        }
+
+        const { data: livraison, error: fetchError } = await supabaseAdmin
+            .from("livraisons")
+            .select("id, statut, user_id, livreur_id, preuve_type, preuve_fichier, preuve_at, preuve_par, commandes (user_id)")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !livraison) {
+            return res.status(404).json({ error: "Livraison introuvable" });
+        }
+
+        const isAdmin = profile.role === "Administrateur";
+        const isLivreur = livraison.livreur_id === profile.id;
+
+        if (req.method === "GET") {
+            const acheteurId = (livraison.commandes as { user_id?: string } | null)?.user_id;
+            const isAcheteur = livraison.user_id === profile.id || acheteurId === profile.id;
+
+            if (!isAdmin && !isLivreur && !isAcheteur) {
+                return res.status(403).json({ error: "Accès refusé à cette livraison" });
+            }
+
+            return res.status(200).json({ preuve: await chargerPreuveLivraison(livraison) });
+        }
+
+        if (!isAdmin && !isLivreur) {
+            return res.status(403).json({ error: "Seul le livreur assigné peut joindre une preuve de remise" });
+        }
+
+        if (livraison.statut === "Livrée" || livraison.statut === "Annulée") {
+            return res.status(409).json({ error: `Livraison déjà ${livraison.statut.toLowerCase()}` });
+        }
+
+        const { fields, files } = await parseForm(req);
+
+        const type = Array.isArray(fields.type) ? fields.type[0] : fields.type;
+        if (type !== "photo" && type !== "signature") {
+            return res.status(400).json({ error: "Type de preuve invalide (photo ou signature)" });
+        }
+        if (!files.file) {
+            return res.status(400).json({ error: "Fichier image requis" });
+        }
+
+        const file = (Array.isArray(files.file) ? files.file[0] : files.file) as FormidableFile;
+        const fileBuffer = fs.readFileSync(file.filepath);
+        const imageFile = new File([fileBuffer], file.originalFilename || `${type}.jpg`, {
+            type: file.mimetype || "image/jpeg",
+        });
+
+        const upload = await uploadPreuveLivraison(imageFile, livraison.id, type);
+
+        // Nettoyer le fichier temporaire
+        fs.unlinkSync(file.filepath);
+
+        if (!upload.success || !upload.path) {
+            return res.status(400).json({ error: upload.error || "Impossible d'enregistrer la preuve" });
+        }
+
+        const { data: misAJour, error } = await supabaseAdmin
+            .from("livraisons")
+            .update({
+                preuve_type: type,
+                preuve_fichier: upload.path,
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", livraison.id)
+            .select("preuve_type, preuve_fichier, preuve_at, preuve_par")
+            .single();
+
+        if (error || !misAJour) {
+            console.error("Supabase update error:", error);
+            return res.status(500).json({ error: "Impossible d'enregistrer la preuve" });
+        }
+
+        return res.status(201).json({
+            message: "Preuve de remise enregistrée",
+            preuve: await chargerPreuveLivraison(misAJour),
+        });
+    } catch (err) {
+        console.error("Error /api/livraisons/[id]/preuve:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,132 @@
+// pages/api/livraisons/[id]/replanifier.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    replanifierLivraison,
+    type LivraisonTentative,
+} from "../../../../app/lib/tentativesLivraison";
+
+/**
+ * @swagger
+ * /api/livraisons/{id}/replanifier:
+ *   post:
+ *     summary: Choisit un nouveau créneau après une livraison manquée
+ *     description: >
+ *       Réservé à l'acheteur (ou à un administrateur), pour une livraison
+ *       « Reportée » qui n'est pas en retour vers la boutique. Le créneau doit
+ *       être à venir, dans les 14 prochains jours. La livraison repart en
+ *       cours avec le même livreur, ou revient « En attente » si aucun n'est
+ *       assigné ; le livreur est prévenu.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - date_livraison
+ *             properties:
+ *               date_livraison:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Livraison replanifiée
+ *       400:
+ *         description: Créneau invalide
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       409:
+ *         description: Livraison non reportée ou en retour vers la boutique
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const replanifierSchema = z.object({
+    date_livraison: z.string().datetime(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livraison invalide" });
+        }
+
+        const body = replanifierSchema.parse(req.body);
+
+        const { data: livraison, error: fetchError } = await supabaseAdmin
+            .from("livraisons")
+            .select("id, statut, commande_id, user_id, livreur_id, tentatives, retour_at, commandes (user_id)")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !livraison) {
+            return res.status(404).json({ error: "Livraison introuvable" });
+        }
+
+        const commande = livraison.commandes as { user_id?: string } | null;
+        const isAcheteur = livraison.user_id === profile.id || commande?.user_id === profile.id;
+
+        if (profile.role !== "Administrateur" && !isAcheteur) {
+            return res.status(403).json({ error: "Seul l'acheteur peut choisir un nouveau créneau" });
+        }
+
+        const resultat = await replanifierLivraison({
+            livraison: livraison as LivraisonTentative,
+            date: body.date_livraison,
+            acteur: { id: profile.id, role: profile.role },
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error });
+        }
+
+        return res.status(200).json({
+            message: "Livraison replanifiée",
+            livraison: {
+                id: livraison.id,
+                statut: resultat.statut,
+                date_livraison: body.date_livraison,
+                tentatives: livraison.tentatives,
+            },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/livraisons/[id]/replanifier:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
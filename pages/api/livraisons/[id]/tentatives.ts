@@ -0,0 +1,202 @@
+// pages/api/livraisons/[id]/tentatives.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    enregistrerTentativeEchouee,
+    LIBELLES_MOTIF_ECHEC,
+    MOTIFS_ECHEC_LIVRAISON,
+    TENTATIVES_AVANT_RETOUR,
+    type LivraisonTentative,
+    type MotifEchecLivraison,
+} from "../../../../app/lib/tentativesLivraison";
+
+/**
+ * @swagger
+ * /api/livraisons/{id}/tentatives:
+ *   get:
+ *     summary: Tentatives de livraison échouées
+ *     description: >
+ *       Tentatives échouées de la livraison avec leur motif et le créneau
+ *       choisi ensuite par l'acheteur. Accessible à l'admin, à l'acheteur, à
+ *       la boutique de la commande et au livreur assigné.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     responses:
+ *       200:
+ *         description: Tentatives, nombre maximum avant retour et date du retour éventuel
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Signale une tentative de livraison échouée
+ *     description: >
+ *       Réservé au livreur assigné (ou à un administrateur), pour une
+ *       livraison en cours. La livraison passe « Reportée » et l'acheteur est
+ *       invité à choisir un nouveau créneau. Au-delà du nombre maximum de
+ *       tentatives (TENTATIVES_LIVRAISON_MAX, 3 par défaut), le colis est
+ *       marqué à retourner à la boutique et les administrateurs sont prévenus.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la livraison
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - motif
+ *             properties:
+ *               motif:
+ *                 type: string
+ *                 enum: [absent, adresse_erronee, refus, injoignable, autre]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Tentative enregistrée
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livraison introuvable
+ *       409:
+ *         description: Livraison pas en cours ou modifiée entre-temps
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const tentativeSchema = z.object({
+    motif: z.enum(MOTIFS_ECHEC_LIVRAISON),
+    note: z.string().trim().max(500).optional(),
+}).refine((body) => body.motif !== "autre" || !!body.note, {
+    message: "Précisez le motif",
+    path: ["note"],
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livraison invalide" });
+        }
+
+        const { data: livraison, error: fetchError } = await supabaseAdmin
+            .from("livraisons")
+            .select("id, statut, commande_id, user_id, livreur_id, tentatives, retour_at, commandes (user_id, vendeur_id)")
+            .eq("id", id)
+            .single();
+
+        if (fetchError || !livraison) {
+            return res.status(404).json({ error: "Livraison introuvable" });
+        }
+
+        const commande = livraison.commandes as { user_id?: string; vendeur_id?: string | null } | null;
+        const isAdmin = profile.role === "Administrateur";
+        const isLivreur = livraison.livreur_id === profile.id;
+
+        if (req.method === "GET") {
+            const isAcheteur = livraison.user_id === profile.id || commande?.user_id === profile.id;
+            const isBoutique = !!commande?.vendeur_id && commande.vendeur_id === profile.id;
+
+            if (!isAdmin && !isLivreur && !isAcheteur && !isBoutique) {
+                return res.status(403).json({ error: "Accès refusé à cette livraison" });
+            }
+
+            const { data: tentatives, error } = await supabaseAdmin
+                .from("tentatives_livraison")
+                .select("id, numero, motif, note, nouvelle_date, replanifiee_at, created_at")
+                .eq("livraison_id", id)
+                .order("numero", { ascending: true });
+
+            if (error) {
+                console.error("Supabase select error:", error);
+                return res.status(500).json({ error: "Impossible de récupérer les tentatives de livraison" });
+            }
+
+            return res.status(200).json({
+                tentatives: (tentatives || []).map((t) => ({
+                    ...t,
+                    libelle: LIBELLES_MOTIF_ECHEC[t.motif as MotifEchecLivraison] ?? t.motif,
+                })),
+                tentatives_max: TENTATIVES_AVANT_RETOUR,
+                retour_at: livraison.retour_at,
+            });
+        }
+
+        if (!isAdmin && !isLivreur) {
+            return res.status(403).json({ error: "Seul le livreur assigné peut signaler un échec de livraison" });
+        }
+
+        const body = tentativeSchema.parse(req.body);
+
+        const resultat = await enregistrerTentativeEchouee({
+            livraison: livraison as LivraisonTentative,
+            motif: body.motif,
+            note: body.note,
+            acteur: { id: profile.id, role: profile.role },
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error });
+        }
+
+        return res.status(201).json({
+            message: resultat.retour
+                ? "Tentative enregistrée : colis à retourner à la boutique"
+                : "Tentative enregistrée : l'acheteur va choisir un nouveau créneau",
+            tentative: { ...resultat.tentative, libelle: LIBELLES_MOTIF_ECHEC[body.motif] },
+            tentatives_max: TENTATIVES_AVANT_RETOUR,
+            retour: resultat.retour,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/livraisons/[id]/tentatives:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -3,6 +3,31 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z, ZodError } from "zod";
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    peutChangerStatut,
+    type CommandeStatutValue,
+    type RoleCommande,
+} from "../../../../app/lib/commandeStatuts";
+import { appliquerStatutCommande } from "../../../../app/lib/sousCommandes";
+import {
+    annulerEncaissement,
+    encaissementAttendu,
+    enregistrerEncaissement,
+    finaliserEncaissement,
+    type Encaissement,
+    type EncaissementAttendu,
+} from "../../../../app/lib/encaissements";
+import {
+    enregistrerEvenementsLivraison,
+    evenementPourStatut,
+    type NouvelEvenementLivraison,
+} from "../../../../app/lib/livraisonEvenements";
+import {
+    consommerCodeRemise,
+    genererCodeRemise,
+    verifierPreuveRemise,
+} from "../../../../app/lib/preuveLivraison";
+import { journaliserAttributionManuelle } from "../../../../app/lib/dispatchLivreurs";
 
 /**
  * @swagger
@@ -12,6 +37,21 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *     description: >
  *       Permet de modifier les informations d'une livraison.
  *       Accessible aux administrateurs ou au livreur assigné.
+ *       Pour une commande payée en espèces, le passage à « Livrée » exige le
+ *       montant encaissé par le livreur (montant_encaisse) ; un écart avec le
+ *       montant attendu est signalé aux administrateurs. L'assignation d'un
+ *       livreur et chaque changement de statut sont ajoutés au suivi de la
+ *       livraison ; une assignation par un administrateur (livreur_id) prime
+ *       sur le dispatch automatique et est journalisée avec la recommandation
+ *       de celui-ci. Le statut de la commande suit celui de la livraison selon
+ *       la machine à états des commandes, avec le rôle de l'appelant : une
+ *       transition qu'elle interdit est refusée. Au départ du colis, un code
+ *       de remise est envoyé à l'acheteur : le livreur doit le saisir
+ *       (code_remise) pour passer la livraison à « Livrée », à défaut d'une
+ *       photo ou d'une signature déposée via /api/livraisons/{id}/preuve.
+ *       Le livreur ne reporte pas
+ *       une livraison ici : il signale la tentative échouée et son motif via
+ *       /api/livraisons/{id}/tentatives.
  *     tags:
  *       - Livraisons
  *     security:
@@ -49,6 +89,17 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *               statut:
  *                 type: string
  *                 maxLength: 255
+ *               livreur_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Livreur actif à assigner (administrateur uniquement)
+ *               montant_encaisse:
+ *                 type: integer
+ *                 description: Espèces encaissées à la livraison (commande payée en espèces)
+ *               code_remise:
+ *                 type: string
+ *                 pattern: '^[0-9]{6}$'
+ *                 description: Code communiqué par l'acheteur à la remise du colis
  *     responses:
  *       200:
  *         description: Livraison mise à jour avec succès
@@ -60,6 +111,13 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *         description: Accès refusé
  *       404:
  *         description: Livraison introuvable
+ *       409:
+ *         description: >
+ *           Transition refusée pour la commande (machine à états des commandes),
+ *           encaissement impossible (aucun livreur assigné, livraison déjà
+ *           encaissée) ou aucun code de remise actif
+ *       429:
+ *         description: Trop de codes de remise erronés
  *       500:
  *         description: Erreur serveur
  */
@@ -78,6 +136,8 @@ const updateLivraisonSchema = z.object({
         "Reportée"
     ]).optional(),
     livreur_id: z.string().uuid().optional(),
+    montant_encaisse: z.number().int().min(0).optional(),
+    code_remise: z.string().trim().regex(/^\d{6}$/, "Le code de remise comporte 6 chiffres").optional(),
 });
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -110,8 +170,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         id,
         statut,
         commande_id,
+        user_id,
         livreur_id,
-        commandes (statut)
+        ville,
+        zone_livraison_id,
+        preuve_type,
+        preuve_fichier,
+        commandes (id, numero, statut)
         `)
             .eq("id", id)
             .single();
@@ -136,6 +201,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        // 📵 Un report côté livreur est une tentative échouée, comptée avec son motif
+        if (body.statut === "Reportée" && livraison.statut !== "Reportée" && !isAdmin) {
+            return res.status(400).json({
+                error: "Signalez la tentative échouée et son motif via /api/livraisons/{id}/tentatives"
+            });
+        }
+
+        if (body.livreur_id) {
+            const { data: livreur } = await supabaseAdmin
+                .from("users")
+                .select("id")
+                .eq("id", body.livreur_id)
+                .eq("role", "Livreur")
+                .eq("is_active", true)
+                .single();
+
+            if (!livreur) {
+                return res.status(400).json({ error: "Livreur introuvable ou inactif" });
+            }
+        }
+
         // 🛠 Construction de la mise à jour
         const updateData: any = {
             updated_at: new Date().toISOString(),
@@ -150,7 +236,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // 📦 Assignation livreur
         if (body.livreur_id) {
             updateData.livreur_id = body.livreur_id;
-            updateData.statut = "en_cours_de_livraison";
+            updateData.statut = "En cours de livraison";
         }
 
         // 🚚 Mise à jour statut
@@ -158,6 +244,88 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             updateData.statut = body.statut;
         }
 
+        // 🔁 Statut de commande correspondant : la machine à états des commandes
+        // s'applique avec le rôle de l'appelant, sinon la mise à jour est refusée
+        const statutsCommande: Record<string, CommandeStatutValue> = {
+            "En cours de livraison": "En cours de livraison",
+            "Livrée": "Livrée",
+            "Annulée": "Annulée",
+        };
+
+        const commande = livraison.commandes as unknown as { id: string; numero: string; statut: string } | null;
+        const rolesCommande: RoleCommande[] = isAdmin ? ["Administrateur"] : ["Livreur"];
+        const commandeStatut = body.statut || body.livreur_id ? statutsCommande[updateData.statut] : undefined;
+        const syncCommande = !!commande && !!commandeStatut && commandeStatut !== commande.statut;
+
+        if (syncCommande && !peutChangerStatut(commande.statut, commandeStatut, rolesCommande)) {
+            return res.status(409).json({
+                error: `La commande ${commande.numero} ne peut pas passer de « ${commande.statut} » à « ${commandeStatut} »`
+            });
+        }
+
+        const livree = updateData.statut === "Livrée" && livraison.statut !== "Livrée";
+
+        // 💵 Espèces encaissées à la livraison : contrôlées avant la preuve de
+        // remise, pour qu'une saisie incomplète ne coûte pas un essai de code
+        let encaissement: Encaissement | null = null;
+        let attendu: EncaissementAttendu | null = null;
+        let livreurId: string | null = null;
+
+        if (livree) {
+            attendu = await encaissementAttendu(livraison.commande_id);
+        }
+
+        if (attendu) {
+            if (body.montant_encaisse === undefined) {
+                return res.status(400).json({
+                    errors: [{
+                        field: "montant_encaisse",
+                        message: `Commande payée en espèces : montant encaissé requis (${attendu.montant} FCFA attendus)`,
+                    }],
+                });
+            }
+
+            livreurId = updateData.livreur_id ?? livraison.livreur_id;
+            if (!livreurId) {
+                return res.status(409).json({
+                    error: "Assignez un livreur avant d'enregistrer l'encaissement"
+                });
+            }
+        }
+
+        // ✍️ Preuve de remise au client (le code n'est consommé qu'après l'enregistrement)
+        let codeRemiseId: string | undefined;
+
+        if (livree) {
+            const preuve = await verifierPreuveRemise({
+                livraison,
+                code: body.code_remise,
+                acteur: { id: profile.id, role: profile.role },
+            });
+
+            if (!preuve.ok) {
+                return res.status(preuve.status).json({ error: preuve.error });
+            }
+
+            Object.assign(updateData, preuve.champs);
+            codeRemiseId = preuve.codeRemiseId;
+        }
+
+        if (attendu && livreurId && body.montant_encaisse !== undefined) {
+            const resultat = await enregistrerEncaissement({
+                livraisonId: livraison.id,
+                livreurId,
+                attendu,
+                montant: body.montant_encaisse,
+            });
+
+            if (!resultat.ok) {
+                return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+            }
+
+            encaissement = resultat.encaissement;
+        }
+
         // 🔄 Mise à jour livraison
         const { data: updatedLivraison, error: updateError } =
             await supabaseAdmin
@@ -167,40 +335,69 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 .select(`
           *,
             commandes (id, numero, statut),
-            users (id, name, email, phone)
+            users (id, name, email, phone),
+            encaissement:encaissements (id, montant, montant_attendu, remise_id, created_at)
         `)
                 .single();
 
         if (updateError) {
+            if (encaissement) await annulerEncaissement(encaissement.id);
             console.error("Update livraison error:", updateError);
             return res.status(500).json({
                 error: "Impossible de mettre à jour la livraison"
             });
         }
 
+        if (codeRemiseId) {
+            await consommerCodeRemise(codeRemiseId, updateData.preuve_at);
+        }
+
+        // 🧭 Suivi : assignation puis changement de statut demandé
+        // (le passage automatique en cours à l'assignation n'est pas un départ)
+        const acteur = { acteur_id: profile.id, acteur_role: profile.role };
+        const evenements: NouvelEvenementLivraison[] = [];
+
+        if (body.livreur_id && body.livreur_id !== livraison.livreur_id) {
+            evenements.push({ livraison_id: livraison.id, type: "assignee", ...acteur });
+        }
+
+        const etape = body.statut && body.statut !== livraison.statut ? evenementPourStatut(body.statut) : null;
+        if (etape) {
+            evenements.push({ livraison_id: livraison.id, type: etape, ...acteur });
+        }
+
+        await enregistrerEvenementsLivraison(evenements);
+
+        // 🧾 Assignation manuelle : journalisée comme celles du dispatch
+        if (body.livreur_id && body.livreur_id !== livraison.livreur_id) {
+            await journaliserAttributionManuelle(livraison, body.livreur_id, profile.id);
+        }
+
+        // 🔑 Départ du colis : code de remise envoyé à l'acheteur
+        if (updateData.statut === "En cours de livraison" && livraison.statut !== "En cours de livraison") {
+            await genererCodeRemise(livraison);
+        }
+
         // 🔁 Synchronisation statut commande
-        if (body.statut || body.livreur_id) {
-            let commandeStatut: string | null = null;
-
-            if (updateData.statut === "en_cours_de_livraison") {
-                commandeStatut = "en_livraison";
-            } else if (updateData.statut === "livree") {
-                commandeStatut = "livree";
-            } else if (updateData.statut === "annulee") {
-                commandeStatut = "annulee";
-            }
+        if (syncCommande) {
+            await appliquerStatutCommande({
+                commande,
+                statut: commandeStatut,
+                roles: rolesCommande,
+                acteur: { id: profile.id, role: profile.role },
+                source: "livraison",
+                note: `Livraison : ${updateData.statut}`,
+            });
+        }
 
-            if (commandeStatut) {
-                await supabaseAdmin
-                    .from("commandes")
-                    .update({ statut: commandeStatut })
-                    .eq("id", livraison.commande_id);
-            }
+        if (encaissement && attendu) {
+            await finaliserEncaissement(encaissement, attendu);
         }
 
         return res.status(200).json({
             message: "Livraison mise à jour avec succès",
             livraison: updatedLivraison,
+            encaissement,
         });
 
     } catch (err) {
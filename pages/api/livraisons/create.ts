@@ -3,6 +3,11 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z, ZodError } from "zod";
 import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { enregistrerHistoriqueCommande } from "../../../app/lib/commandeHistorique";
+import { synchroniserCommandeParente } from "../../../app/lib/sousCommandes";
+import { enregistrerEvenementsLivraison, evenementPourStatut } from "../../../app/lib/livraisonEvenements";
+import { genererCodeRemise } from "../../../app/lib/preuveLivraison";
+import { DISPATCH_AUTO_LIVRAISONS, dispatcherLivraison, type ResultatDispatch } from "../../../app/lib/dispatchLivreurs";
 
 /**
  * @swagger
@@ -12,6 +17,11 @@ import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
  *     description: >
  *       Crée une livraison pour une commande. Accessible aux administrateurs
  *       ou aux boutiques propriétaires des articles de la commande.
+ *       Pour une commande multi-boutiques, la livraison se crée sur chaque
+ *       sous-commande (une livraison par boutique), pas sur la commande parente.
+ *       Une livraison créée "En attente" reçoit automatiquement le livreur le
+ *       mieux noté s'il y en a un d'éligible (désactivable par
+ *       DISPATCH_AUTO_LIVRAISONS=false) : voir `dispatch` dans la réponse.
  *     tags:
  *       - Livraisons
  *     security:
@@ -44,6 +54,12 @@ import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
  *               phone:
  *                 type: string
  *                 maxLength: 255
+ *               zone_livraison_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: >
+ *                   Zone de livraison ; par défaut celle choisie au checkout
+ *                   (commande ou commande parente)
  *               date_livraison:
  *                 type: string
  *                 format: date-time
@@ -78,6 +94,7 @@ const createLivraisonSchema = z.object({
     details: z.string().max(255).optional().default(""),
     ville: z.string().max(255).min(1),
     phone: z.string().max(255).min(1),
+    zone_livraison_id: z.string().uuid().optional(),
     date_livraison: z.string().datetime(),
     statut: z.string().max(255).optional().default("En attente"),
 });
@@ -102,6 +119,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         user_id,
         numero,
         statut,
+        zone_livraison_id,
+        parent_id,
         commande_articles (
           articles (user_id)
         )
@@ -125,6 +144,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        // Une livraison n'est close qu'avec une preuve de remise (voir update)
+        if (body.statut === "Livrée" && !isAdmin) {
+            return res.status(400).json({
+                error: "Une livraison ne peut pas être créée déjà livrée"
+            });
+        }
+
+        // Une commande multi-boutiques est livrée par sous-commande
+        const { count: nbSousCommandes } = await supabaseAdmin
+            .from("commandes")
+            .select("id", { count: "exact", head: true })
+            .eq("parent_id", body.commande_id);
+
+        if (nbSousCommandes) {
+            return res.status(400).json({
+                error: "Cette commande est répartie par boutique : créez la livraison sur chaque sous-commande"
+            });
+        }
+
         // Vérifier qu'il n'existe pas déjà une livraison pour cette commande
         const { data: existingLivraison } = await supabaseAdmin
             .from("livraisons")
@@ -138,6 +176,32 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        // Zone de livraison : celle demandée, sinon celle choisie au checkout
+        // (pour une sous-commande, la zone est portée par la commande parente)
+        let zoneId: string | null = body.zone_livraison_id ?? commande.zone_livraison_id ?? null;
+
+        if (!zoneId && commande.parent_id) {
+            const { data: parent } = await supabaseAdmin
+                .from("commandes")
+                .select("zone_livraison_id")
+                .eq("id", commande.parent_id)
+                .single();
+
+            zoneId = parent?.zone_livraison_id ?? null;
+        }
+
+        if (zoneId) {
+            const { data: zone } = await supabaseAdmin
+                .from("zones_livraison")
+                .select("id")
+                .eq("id", zoneId)
+                .single();
+
+            if (!zone) {
+                return res.status(400).json({ error: "Zone de livraison introuvable" });
+            }
+        }
+
         // Créer la livraison
         const { data: livraison, error: insertError } = await supabaseAdmin
             .from("livraisons")
@@ -149,6 +213,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 details: body.details,
                 ville: body.ville,
                 phone: body.phone,
+                zone_livraison_id: zoneId,
                 date_livraison: body.date_livraison,
                 statut: body.statut,
                 created_at: new Date().toISOString(),
@@ -166,17 +231,64 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             return res.status(500).json({ error: "Impossible de créer la livraison" });
         }
 
+        // Première étape du suivi, puis le statut initial s'il en est une
+        const acteur = { acteur_id: profile.id, acteur_role: profile.role };
+        const etapeInitiale = evenementPourStatut(body.statut);
+        await enregistrerEvenementsLivraison([
+            { livraison_id: livraison.id, type: "creee", ...acteur },
+            ...(etapeInitiale ? [{ livraison_id: livraison.id, type: etapeInitiale, ...acteur }] : []),
+        ]);
+
+        if (body.statut === "En cours de livraison") {
+            await genererCodeRemise(livraison);
+        }
+
         // Mettre à jour le statut de la commande si nécessaire
-        if (commande.statut === "En attente" || commande.statut === "en_preparation") {
-            await supabaseAdmin
+        if (commande.statut === "En attente" || commande.statut === "En préparation") {
+            const { error: commandeError } = await supabaseAdmin
                 .from("commandes")
-                .update({ statut: "prete_pour_livraison" })
+                .update({
+                    statut: "Prête pour livraison",
+                    updated_at: new Date().toISOString(),
+                })
                 .eq("id", body.commande_id);
+
+            if (!commandeError) {
+                await enregistrerHistoriqueCommande({
+                    commande_id: body.commande_id,
+                    ancien_statut: commande.statut,
+                    nouveau_statut: "Prête pour livraison",
+                    acteur_id: profile.id,
+                    acteur_role: profile.role,
+                    source: "livraison",
+                    note: "Livraison créée",
+                });
+
+                await synchroniserCommandeParente(body.commande_id, {
+                    id: profile.id,
+                    role: profile.role,
+                });
+            }
+        }
+
+        // Dispatch automatique : ne fait jamais échouer la création
+        let dispatch: ResultatDispatch | null = null;
+
+        if (DISPATCH_AUTO_LIVRAISONS && livraison.statut === "En attente") {
+            try {
+                const resultat = await dispatcherLivraison(livraison, null);
+                if (resultat.ok) dispatch = resultat.resultat;
+            } catch (err) {
+                console.error("Dispatch automatique impossible:", err);
+            }
         }
 
         return res.status(201).json({
             message: "Livraison créée avec succès",
-            livraison,
+            livraison: dispatch?.livreur
+                ? { ...livraison, livreur_id: dispatch.livreur.id, statut: "En cours de livraison" }
+                : livraison,
+            dispatch,
         });
     } catch (err) {
         if (err instanceof ZodError) {
@@ -0,0 +1,57 @@
+// pages/api/livraisons/dispatch.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { dispatcherLivraisonsEnAttente } from "../../../app/lib/dispatchLivreurs";
+
+/**
+ * @swagger
+ * /api/livraisons/dispatch:
+ *   post:
+ *     summary: Assigne un livreur à toutes les livraisons en attente
+ *     description: >
+ *       Dispatch automatique des livraisons "En attente" sans livreur, de la
+ *       plus urgente à la moins urgente (au plus 100 par appel). Chaque
+ *       livraison reçoit le livreur le mieux noté (secteur, charge,
+ *       ponctualité, disponibilité) ; la décision et ses motifs sont
+ *       journalisés, y compris lorsqu'aucun livreur n'est éligible.
+ *       Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Livraisons assignées et livraisons restées sans livreur, avec les motifs
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const resultat = await dispatcherLivraisonsEnAttente({ id: profile.id, role: profile.role });
+
+        return res.status(200).json({
+            message: `${resultat.assignees.length} livraison(s) assignée(s)`,
+            ...resultat,
+        });
+    } catch (err) {
+        console.error("Error /api/livraisons/dispatch:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
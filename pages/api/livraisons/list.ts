@@ -96,7 +96,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             .select(`
         *,
         commandes (id, numero, statut, prix, adresse_livraison),
-        users (id, name, email, phone)
+        users (id, name, email, phone),
+        encaissement:encaissements (id, montant, montant_attendu, remise_id, created_at)
       `, { count: "exact" });
 
         // Filtres
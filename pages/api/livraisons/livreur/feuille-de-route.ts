@@ -0,0 +1,187 @@
+// pages/api/livraisons/livreur/feuille-de-route.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import {
+    construireFeuilleDeRoute,
+    lireDateTournee,
+    marquerArret,
+    ordonnerArrets,
+} from "../../../../app/lib/feuilleDeRoute";
+
+/**
+ * @swagger
+ * /api/livraisons/livreur/feuille-de-route:
+ *   get:
+ *     summary: Feuille de route du livreur pour une journée
+ *     description: >
+ *       Arrêts de la tournée : une collecte par boutique, puis les remises
+ *       regroupées par ville et quartier, avec les téléphones à contacter et
+ *       les espèces à encaisser. L'ordre choisi par le livreur et les arrêts
+ *       effectués sont conservés. Un administrateur peut consulter la feuille
+ *       d'un livreur (livreur_id).
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Journée (AAAA-MM-JJ), aujourd'hui par défaut
+ *       - in: query
+ *         name: livreur_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Livreur consulté (administrateur uniquement)
+ *     responses:
+ *       200:
+ *         description: Feuille de route
+ *       400:
+ *         description: Date invalide
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livreur introuvable
+ *       500:
+ *         description: Erreur serveur
+ *   patch:
+ *     summary: Réordonne les arrêts ou marque un arrêt effectué
+ *     description: >
+ *       `ordre` reprend toutes les clés d'arrêts de la feuille dans l'ordre
+ *       voulu (une collecte doit précéder les remises de sa boutique).
+ *       `arret` marque un arrêt effectué ou le rouvre ; une collecte
+ *       effectuée ajoute l'étape "colis récupéré" au suivi de ses livraisons.
+ *     tags:
+ *       - Livraisons
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - date
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               livreur_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Administrateur uniquement
+ *               ordre:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["collecte:uuid-boutique", "remise:uuid-livraison"]
+ *               arret:
+ *                 type: object
+ *                 properties:
+ *                   cle:
+ *                     type: string
+ *                   fait:
+ *                     type: boolean
+ *     responses:
+ *       200:
+ *         description: Feuille de route à jour
+ *       400:
+ *         description: Données invalides ou collecte placée après ses remises
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livreur ou arrêt introuvable
+ *       409:
+ *         description: La feuille a changé depuis sa lecture
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const feuilleDeRouteSchema = z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date attendue au format AAAA-MM-JJ"),
+    livreur_id: z.string().uuid().optional(),
+    ordre: z.array(z.string().max(100)).max(500).optional(),
+    arret: z.object({
+        cle: z.string().max(100),
+        fait: z.boolean(),
+    }).optional(),
+}).refine((body) => body.ordre || body.arret, {
+    message: "Indiquez un ordre d'arrêts ou un arrêt à mettre à jour",
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const isAdmin = profile.role === "Administrateur";
+        if (!isAdmin && profile.role !== "Livreur") {
+            return res.status(403).json({ error: "Accès réservé aux livreurs" });
+        }
+
+        const body = req.method === "PATCH" ? feuilleDeRouteSchema.parse(req.body) : null;
+        const livreurDemande = body ? body.livreur_id : req.query.livreur_id;
+
+        if (livreurDemande && !isAdmin && livreurDemande !== profile.id) {
+            return res.status(403).json({ error: "Accès refusé à la feuille de route d'un autre livreur" });
+        }
+
+        const livreurId = typeof livreurDemande === "string" ? livreurDemande : profile.id;
+        const date = lireDateTournee(body ? body.date : req.query.date ?? new Date().toISOString().slice(0, 10));
+
+        if (!date) {
+            return res.status(400).json({ error: "Date invalide (AAAA-MM-JJ)" });
+        }
+
+        const feuille = await construireFeuilleDeRoute(livreurId, date);
+        if (!feuille) {
+            return res.status(404).json({ error: "Livreur introuvable" });
+        }
+
+        if (!body) {
+            return res.status(200).json({ feuille });
+        }
+
+        const acteur = { id: profile.id, role: profile.role };
+
+        if (body.ordre) {
+            const resultat = await ordonnerArrets(feuille, body.ordre);
+            if (!resultat.ok) return res.status(resultat.status).json({ error: resultat.error });
+        }
+
+        if (body.arret) {
+            const resultat = await marquerArret(feuille, body.arret.cle, body.arret.fait, acteur);
+            if (!resultat.ok) return res.status(resultat.status).json({ error: resultat.error });
+        }
+
+        return res.status(200).json({
+            message: "Feuille de route mise à jour",
+            feuille: await construireFeuilleDeRoute(livreurId, date),
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/livraisons/livreur/feuille-de-route:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
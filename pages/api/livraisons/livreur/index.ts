@@ -81,7 +81,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             .from("livraisons")
             .select(`
         *,
-        commandes (id, numero, statut, prix, adresse_livraison)
+        commandes (id, numero, statut, prix, adresse_livraison),
+        encaissement:encaissements (id, montant, montant_attendu, remise_id, created_at)
       `, { count: "exact" })
             .eq("livreur_id", profile.id);
 
@@ -0,0 +1,158 @@
+// pages/api/livreurs/[id]/profil.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/livreurs/{id}/profil:
+ *   patch:
+ *     summary: Met à jour les secteurs et la disponibilité d'un livreur
+ *     description: >
+ *       Critères utilisés par le dispatch automatique. Un administrateur
+ *       modifie tous les champs ; le livreur ne peut changer que sa propre
+ *       disponibilité. Sans secteur (villes et zones vides), le livreur est
+ *       candidat partout.
+ *     tags: [Livreurs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du livreur
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               villes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               zone_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               disponible:
+ *                 type: boolean
+ *               capacite:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 description: Nombre maximal de livraisons ouvertes
+ *     responses:
+ *       200:
+ *         description: Profil mis à jour
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Livreur introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const profilLivreurSchema = z.object({
+    villes: z.array(z.string().trim().min(1).max(255)).max(20).optional(),
+    zone_ids: z.array(z.string().uuid()).max(50).optional(),
+    disponible: z.boolean().optional(),
+    capacite: z.number().int().min(1).max(50).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de livreur invalide" });
+        }
+
+        const body = profilLivreurSchema.parse(req.body);
+
+        if (Object.keys(body).length === 0) {
+            return res.status(400).json({
+                error: "Au moins un champ doit être fourni pour la mise à jour"
+            });
+        }
+
+        const isAdmin = profile.role === "Administrateur";
+        const isSoiMeme = profile.id === id;
+
+        if (!isAdmin && !(isSoiMeme && Object.keys(body).every((champ) => champ === "disponible"))) {
+            return res.status(403).json({
+                error: "Seul un administrateur peut modifier les secteurs et la capacité d'un livreur"
+            });
+        }
+
+        const { data: livreur } = await supabaseAdmin
+            .from("users")
+            .select("id")
+            .eq("id", id)
+            .eq("role", "Livreur")
+            .single();
+
+        if (!livreur) {
+            return res.status(404).json({ error: "Livreur introuvable" });
+        }
+
+        if (body.zone_ids && body.zone_ids.length > 0) {
+            const { data: zones } = await supabaseAdmin
+                .from("zones_livraison")
+                .select("id")
+                .in("id", body.zone_ids);
+
+            if ((zones || []).length !== new Set(body.zone_ids).size) {
+                return res.status(400).json({ error: "Zone de livraison introuvable" });
+            }
+        }
+
+        const { data: profil, error } = await supabaseAdmin
+            .from("livreurs_profils")
+            .upsert({
+                user_id: livreur.id,
+                ...body,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: "user_id" })
+            .select("villes, zone_ids, disponible, capacite, updated_at")
+            .single();
+
+        if (error) {
+            console.error("Supabase upsert error:", error);
+            return res.status(500).json({ error: "Impossible de mettre à jour le profil du livreur" });
+        }
+
+        return res.status(200).json({
+            message: "Profil du livreur mis à jour",
+            profil,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/livreurs/[id]/profil:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,52 @@
+// pages/api/livreurs/dispatch.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { PONCTUALITE_JOURS, chargerCandidats } from "../../../app/lib/dispatchLivreurs";
+
+/**
+ * @swagger
+ * /api/livreurs/dispatch:
+ *   get:
+ *     summary: Livreurs actifs et critères du dispatch
+ *     description: >
+ *       Pour chaque livreur actif : secteurs (villes, zones), disponibilité,
+ *       capacité, nombre de livraisons ouvertes et taux de livraisons remises
+ *       à l'heure sur la période de référence. Accessible uniquement aux
+ *       administrateurs.
+ *     tags: [Livreurs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Livreurs et période de calcul de la ponctualité (jours)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        return res.status(200).json({
+            livreurs: await chargerCandidats(),
+            ponctualite_jours: PONCTUALITE_JOURS,
+        });
+    } catch (err) {
+        console.error("Error /api/livreurs/dispatch:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,253 @@
+// pages/api/paiements/initiate.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../app/lib/middlewares/requireIdempotency";
+import {
+    appliquerNotificationPaiement,
+    fournisseurPaiement,
+    genererReferencePaiement,
+    lierPaiementCommande,
+    METHODES_PAIEMENT,
+    STATUT_PAIEMENT,
+} from "../../../app/lib/paiements";
+
+/**
+ * @swagger
+ * /api/paiements/initiate:
+ *   post:
+ *     summary: Lance le paiement d'une commande
+ *     description: >
+ *       Crée une tentative de paiement (statut "En attente") pour une commande de
+ *       l'acheteur connecté et la transmet au fournisseur choisi. Pour le mobile
+ *       money, l'acheteur valide sur son téléphone et le résultat arrive sur
+ *       /api/paiements/webhook/{methode}. Pour les espèces, la commande est
+ *       rattachée au paiement tout de suite, encaissé à la livraison.
+ *       Une nouvelle tentative remplace (Echoué) un paiement en espèces encore
+ *       en attente ; une tentative mobile money reste en attente, car
+ *       l'acheteur peut encore la valider : sa confirmation est enregistrée et
+ *       un second paiement validé est signalé aux administrateurs.
+ *     tags:
+ *       - Paiements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par tentative. Une requête renvoyée avec la même clé rejoue
+ *           la réponse d'origine sans relancer de demande de paiement.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - commande_id
+ *               - methode
+ *             properties:
+ *               commande_id:
+ *                 type: string
+ *                 format: uuid
+ *               methode:
+ *                 type: string
+ *                 enum: [airtel_money, moov_money, especes, mock]
+ *                 description: mock n'est disponible qu'hors production
+ *               telephone:
+ *                 type: string
+ *                 description: Numéro mobile money à débiter (obligatoire pour Airtel/Moov)
+ *     responses:
+ *       201:
+ *         description: Paiement initié (paiement, message à afficher)
+ *       400:
+ *         description: Données invalides ou méthode indisponible
+ *       401:
+ *         description: Non autorisé
+ *       404:
+ *         description: Commande introuvable
+ *       409:
+ *         description: Commande déjà réglée, annulée, ou requête identique en cours
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
+ *       502:
+ *         description: Le fournisseur a refusé la demande
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const initiateSchema = z.object({
+    commande_id: z.string().uuid(),
+    methode: z.enum(METHODES_PAIEMENT),
+    telephone: z.string().min(8).max(20).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "paiements/initiate" }))) return;
+
+        const body = initiateSchema.parse(req.body);
+
+        const fournisseur = fournisseurPaiement(body.methode);
+        if (!fournisseur) {
+            return res.status(400).json({ error: "Méthode de paiement indisponible" });
+        }
+
+        if (fournisseur.telephoneRequis && !body.telephone) {
+            return res.status(400).json({
+                errors: [{ field: "telephone", message: `Numéro ${fournisseur.libelle} requis` }],
+            });
+        }
+
+        // Le paiement porte sur la commande vue par l'acheteur (parente)
+        const { data: commande } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, prix, statut, user_id, parent_id, paiement_id")
+            .eq("id", body.commande_id)
+            .eq("user_id", profile.id)
+            .is("parent_id", null)
+            .single();
+
+        if (!commande) {
+            return res.status(404).json({ error: "Commande introuvable" });
+        }
+
+        if (commande.statut === "Annulée" || commande.statut === "Remboursée") {
+            return res.status(409).json({ error: `Commande ${commande.statut.toLowerCase()} : paiement impossible` });
+        }
+
+        if (commande.paiement_id) {
+            const { data: actuel } = await supabaseAdmin
+                .from("paiements")
+                .select("statut, methode")
+                .eq("id", commande.paiement_id)
+                .single();
+
+            if (actuel?.statut === STATUT_PAIEMENT.VALIDE) {
+                return res.status(409).json({ error: "Cette commande est déjà réglée" });
+            }
+        }
+
+        // Espèces abandonnées au profit d'une autre tentative ; le mobile money
+        // reste en attente, l'acheteur pouvant encore valider sur son téléphone
+        const { data: enAttente } = await supabaseAdmin
+            .from("paiements")
+            .select("id, details")
+            .eq("commande_id", commande.id)
+            .eq("methode", "especes")
+            .eq("statut", STATUT_PAIEMENT.EN_ATTENTE);
+
+        for (const tentative of enAttente || []) {
+            await supabaseAdmin
+                .from("paiements")
+                .update({
+                    statut: STATUT_PAIEMENT.ECHOUE,
+                    details: {
+                        ...(tentative.details as Record<string, unknown> | null),
+                        motif: "Remplacé par une nouvelle tentative",
+                    },
+                    updated_at: new Date().toISOString(),
+                })
+                .eq("id", tentative.id)
+                .eq("statut", STATUT_PAIEMENT.EN_ATTENTE);
+        }
+
+        const reference = genererReferencePaiement(commande.numero);
+
+        const { data: paiement, error: insertError } = await supabaseAdmin
+            .from("paiements")
+            .insert({
+                user_id: profile.id,
+                commande_id: commande.id,
+                montant: commande.prix,
+                methode: body.methode,
+                statut: STATUT_PAIEMENT.EN_ATTENTE,
+                reference,
+                details: { telephone: body.telephone ?? null },
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .select()
+            .single();
+
+        if (insertError || !paiement) {
+            console.error("Supabase insert error:", insertError);
+            return res.status(500).json({ error: "Impossible de créer le paiement" });
+        }
+
+        let resultat;
+        try {
+            resultat = await fournisseur.initier({
+                reference,
+                montant: commande.prix,
+                telephone: body.telephone ?? null,
+                description: `Commande ${commande.numero}`,
+            });
+        } catch (err) {
+            console.error(`Erreur fournisseur ${body.methode}:`, err);
+            resultat = { statut: "echoue" as const, message: `${fournisseur.libelle} est indisponible, réessayez plus tard` };
+        }
+
+        await supabaseAdmin
+            .from("paiements")
+            .update({
+                transaction_id: resultat.transaction_id ?? null,
+                details: { telephone: body.telephone ?? null, initiation: resultat.details ?? null },
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", paiement.id);
+
+        if (resultat.statut !== "en_attente") {
+            await appliquerNotificationPaiement(body.methode, {
+                reference,
+                statut: resultat.statut,
+                transaction_id: resultat.transaction_id,
+                details: { message: resultat.message },
+            });
+        } else if (!fournisseur.lireNotification) {
+            // Pas de confirmation externe (espèces) : la commande est réglée à la livraison
+            await lierPaiementCommande(paiement.id, commande.id);
+        }
+
+        const { data: paiementAJour } = await supabaseAdmin
+            .from("paiements")
+            .select("*")
+            .eq("id", paiement.id)
+            .single();
+
+        if (resultat.statut === "echoue") {
+            return res.status(502).json({
+                error: resultat.message || "Le paiement a été refusé",
+                paiement: paiementAJour,
+            });
+        }
+
+        return res.status(201).json({
+            message: resultat.message ?? "Paiement initié",
+            paiement: paiementAJour,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/paiements/initiate:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -75,7 +75,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             .select(`
                 *,
                 users!paiements_user_id_fkey (id, name, email, phone),
-                commandes (id, statut, prix)
+                commandes!commandes_paiement_id_fkey (id, statut, prix),
+                commande:commandes!paiements_commande_id_fkey (id, numero, statut, prix)
             `, { count: "exact" });
 
         if (statut) {
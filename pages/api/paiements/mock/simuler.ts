@@ -0,0 +1,120 @@
+// pages/api/paiements/mock/simuler.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { appliquerNotificationPaiement, signerCorps } from "../../../../app/lib/paiements";
+import { mock, mockActive, MOCK_PAIEMENT_SECRET } from "../../../../app/lib/paiements/mock";
+
+/**
+ * @swagger
+ * /api/paiements/mock/simuler:
+ *   post:
+ *     summary: Simule la réponse du fournisseur pour un paiement "mock"
+ *     description: >
+ *       Outil de test hors ligne, indisponible en production (sauf PAIEMENTS_MOCK=true).
+ *       Construit et signe la notification comme le ferait un fournisseur, puis la
+ *       fait passer par le même traitement que /api/paiements/webhook/mock.
+ *       Réservé à l'acheteur du paiement ou à un administrateur.
+ *     tags:
+ *       - Paiements
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reference
+ *               - statut
+ *             properties:
+ *               reference:
+ *                 type: string
+ *               statut:
+ *                 type: string
+ *                 enum: [valide, echoue]
+ *     responses:
+ *       200:
+ *         description: Notification simulée traitée
+ *       400:
+ *         description: Données invalides
+ *       404:
+ *         description: Simulateur désactivé ou paiement introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const simulerSchema = z.object({
+    reference: z.string().min(1).max(255),
+    statut: z.enum(["valide", "echoue"]),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    if (!mockActive() || !MOCK_PAIEMENT_SECRET) {
+        return res.status(404).json({ error: "Simulateur de paiement désactivé" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const body = simulerSchema.parse(req.body);
+
+        const { data: paiement } = await supabaseAdmin
+            .from("paiements")
+            .select("id, user_id, methode, transaction_id")
+            .eq("reference", body.reference)
+            .eq("methode", "mock")
+            .single();
+
+        if (!paiement || (paiement.user_id !== profile.id && profile.role !== "Administrateur")) {
+            return res.status(404).json({ error: "Paiement introuvable" });
+        }
+
+        // Même chemin qu'un vrai webhook : corps signé puis vérifié par le fournisseur
+        const corps = JSON.stringify({
+            reference: body.reference,
+            statut: body.statut,
+            transaction_id: paiement.transaction_id,
+        });
+        const notification = mock.lireNotification?.({
+            headers: { "x-signature": signerCorps(corps, MOCK_PAIEMENT_SECRET) },
+            corps,
+        });
+
+        if (!notification) {
+            return res.status(500).json({ error: "Notification simulée invalide" });
+        }
+
+        const resultat = await appliquerNotificationPaiement("mock", notification);
+
+        const { data: paiementAJour } = await supabaseAdmin
+            .from("paiements")
+            .select("*")
+            .eq("id", paiement.id)
+            .single();
+
+        return res.status(200).json({
+            message: resultat.modifie ? "Notification simulée traitée" : "Paiement déjà traité",
+            paiement: paiementAJour,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/paiements/mock/simuler:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
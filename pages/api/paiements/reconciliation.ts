@@ -0,0 +1,143 @@
+// pages/api/paiements/reconciliation.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { METHODES_PAIEMENT } from "../../../app/lib/paiements";
+import { commandesSansPaiementValide, rapprocherReleve } from "../../../app/lib/paiements/rapprochement";
+
+/**
+ * @swagger
+ * /api/paiements/reconciliation:
+ *   get:
+ *     summary: Commandes réglées sans paiement validé
+ *     description: >
+ *       Liste les commandes rattachées à un paiement (commandes.paiement_id)
+ *       qui n'est ni validé ni remboursé. Les paiements en espèces ne sont
+ *       signalés qu'une fois la commande livrée. Accessible uniquement aux
+ *       administrateurs.
+ *     tags:
+ *       - Paiements
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Anomalies constatées (vide si tout est rapproché)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Rapproche un relevé de règlement fournisseur
+ *     description: >
+ *       Compare un relevé CSV du fournisseur aux paiements enregistrés, sur
+ *       paiements.reference puis transaction_id. Les colonnes sont repérées
+ *       sur l'en-tête (reference ou transaction_id, montant, et en option
+ *       statut et date ; séparateur ; ou ,). Signale les règlements inconnus,
+ *       les paiements validés absents du relevé sur la période, les doublons,
+ *       les écarts de montant, les statuts divergents et les commandes réglées
+ *       sans paiement validé. Rien n'est modifié en base.
+ *     tags:
+ *       - Paiements
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - methode
+ *               - contenu
+ *             properties:
+ *               methode:
+ *                 type: string
+ *                 enum: [airtel_money, moov_money, especes, mock]
+ *               contenu:
+ *                 type: string
+ *                 description: Contenu du fichier CSV
+ *               date_debut:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Début de la période du relevé (par défaut, première date du fichier)
+ *               date_fin:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Fin de la période du relevé (par défaut, dernière date du fichier)
+ *     responses:
+ *       200:
+ *         description: Rapport de rapprochement (résumé et anomalies)
+ *       400:
+ *         description: Données invalides ou fichier illisible
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+// Relevés mensuels de plusieurs milliers de lignes
+export const config = {
+    api: {
+        bodyParser: {
+            sizeLimit: "5mb",
+        },
+    },
+};
+
+const rapprochementSchema = z.object({
+    methode: z.enum(METHODES_PAIEMENT),
+    contenu: z.string().min(1, "Le fichier est vide"),
+    date_debut: z.string().datetime().optional(),
+    date_fin: z.string().datetime().optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        if (req.method === "GET") {
+            const anomalies = await commandesSansPaiementValide();
+            return res.status(200).json({ anomalies });
+        }
+
+        const body = rapprochementSchema.parse(req.body);
+
+        const resultat = await rapprocherReleve({
+            methode: body.methode,
+            contenu: body.contenu,
+            dateDebut: body.date_debut,
+            dateFin: body.date_fin,
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        return res.status(200).json(resultat.rapport);
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/paiements/reconciliation:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,86 @@
+// pages/api/paiements/webhook/[methode].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { appliquerNotificationPaiement, fournisseurPaiement } from "../../../../app/lib/paiements";
+
+/**
+ * @swagger
+ * /api/paiements/webhook/{methode}:
+ *   post:
+ *     summary: Reçoit le résultat d'un paiement envoyé par le fournisseur
+ *     description: >
+ *       Appelé par Airtel Money ou Moov Money (ou par le simulateur). Le corps doit
+ *       être signé en HMAC-SHA256 avec le secret du fournisseur (en-tête X-Signature).
+ *       Passe le paiement à Validé ou Echoué et, s'il est validé, le rattache à la
+ *       commande (commandes.paiement_id). Les notifications rejouées sont ignorées.
+ *     tags:
+ *       - Paiements
+ *     parameters:
+ *       - in: path
+ *         name: methode
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [airtel_money, moov_money, mock]
+ *       - in: header
+ *         name: X-Signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: HMAC-SHA256 (hex) du corps brut
+ *     responses:
+ *       200:
+ *         description: Notification traitée (ou déjà traitée)
+ *       401:
+ *         description: Signature invalide
+ *       404:
+ *         description: Méthode ou paiement inconnu
+ *       500:
+ *         description: Erreur serveur (le fournisseur doit réessayer)
+ */
+
+// La signature porte sur le corps brut : pas de parsing JSON par Next
+export const config = {
+    api: {
+        bodyParser: false,
+    },
+};
+
+async function lireCorpsBrut(req: NextApiRequest): Promise<string> {
+    const morceaux: Buffer[] = [];
+    for await (const morceau of req) {
+        morceaux.push(typeof morceau === "string" ? Buffer.from(morceau) : morceau);
+    }
+    return Buffer.concat(morceaux).toString("utf8");
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const fournisseur = fournisseurPaiement(String(req.query.methode));
+        if (!fournisseur?.lireNotification) {
+            return res.status(404).json({ error: "Fournisseur de paiement inconnu" });
+        }
+
+        const corps = await lireCorpsBrut(req);
+        const notification = fournisseur.lireNotification({ headers: req.headers, corps });
+
+        if (!notification) {
+            console.warn(`Webhook ${fournisseur.methode} rejeté : signature ou contenu invalide`);
+            return res.status(401).json({ error: "Signature invalide" });
+        }
+
+        const { trouve, modifie } = await appliquerNotificationPaiement(fournisseur.methode, notification);
+
+        if (!trouve) {
+            return res.status(404).json({ error: "Paiement introuvable" });
+        }
+
+        return res.status(200).json({ received: true, deja_traite: !modifie });
+    } catch (err) {
+        console.error("Error /api/paiements/webhook:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z, ZodError } from "zod";
 import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { prixUnitaireArticle } from "../../../app/lib/tarification";
 
 /**
  * @swagger
@@ -64,10 +65,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         // Vérifier le stock
         let stockDisponible = 0;
+        let prixVariation: { prix: number } | null = null;
         if (body.variation_id) {
             const { data: variation } = await supabaseAdmin
                 .from("variations")
-                .select("stock")
+                .select("stock, prix")
                 .eq("id", body.variation_id)
                 .single();
 
@@ -76,6 +78,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             }
 
             stockDisponible = variation.stock;
+            prixVariation = variation;
         } else {
             const { data: variations } = await supabaseAdmin
                 .from("variations")
@@ -91,6 +94,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             });
         }
 
+        // Prix vu par l'acheteur, revérifié au checkout
+        const prixUnitaire = prixUnitaireArticle(article, prixVariation);
+
         // Récupérer ou créer le panier
         let { data: panier } = await supabaseAdmin
             .from("paniers")
@@ -134,6 +140,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 .from("panier_items")
                 .update({
                     quantite: nouvelleQuantite,
+                    prix_unitaire: prixUnitaire,
                     updated_at: new Date().toISOString(),
                 })
                 .eq("id", existingItem.id)
@@ -156,6 +163,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 article_id: body.article_id,
                 variation_id: body.variation_id || null,
                 quantite: body.quantite,
+                prix_unitaire: prixUnitaire,
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
             })
@@ -0,0 +1,226 @@
+// pages/api/panier/checkout.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../app/lib/middlewares/requireIdempotency";
+import {
+    chargerCommandeCreee,
+    passerCommande,
+    verifierLignes,
+} from "../../../app/lib/commandeCheckout";
+
+/**
+ * @swagger
+ * /api/panier/checkout:
+ *   post:
+ *     summary: Passe commande à partir du panier
+ *     description: >
+ *       Revérifie le prix et le stock de chaque article du panier, crée la commande
+ *       (mêmes règles que /api/commandes/create) puis retire du panier les articles
+ *       achetés. Si un article a changé (prix, stock, disponibilité), rien n'est créé
+ *       et `erreurs` détaille chaque ligne en cause ; le prix enregistré dans le panier
+ *       est alors mis à jour pour que l'acheteur puisse valider le nouveau montant.
+ *     tags:
+ *       - Panier
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par tentative (ex. UUID généré par le client). Une requête
+ *           renvoyée avec la même clé rejoue la réponse d'origine sans recréer la
+ *           commande (en-tête Idempotent-Replayed: true).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - isLivrable
+ *               - adresse_livraison
+ *             properties:
+ *               commentaire:
+ *                 type: string
+ *               isLivrable:
+ *                 type: boolean
+ *               adresse_livraison:
+ *                 type: string
+ *                 maxLength: 255
+ *               zone_livraison_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Obligatoire si isLivrable
+ *               code_promo:
+ *                 type: string
+ *                 maxLength: 50
+ *                 description: >
+ *                   Code promo à appliquer. Refusé (400) s'il est inconnu, expiré,
+ *                   épuisé ou si la commande ne remplit pas ses conditions.
+ *               item_ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Articles du panier à commander (par défaut tout le panier)
+ *     responses:
+ *       201:
+ *         description: Commande créée, articles retirés du panier
+ *       400:
+ *         description: Données invalides ou panier vide
+ *       401:
+ *         description: Non autorisé
+ *       409:
+ *         description: >
+ *           Le panier a changé : `erreurs` liste chaque ligne en cause
+ *           (panier_item_id, code, message, stock_disponible, prix_actuel...),
+ *           ou limite du code promo atteinte par une autre commande
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const checkoutSchema = z.object({
+    commentaire: z.string().optional().default(""),
+    isLivrable: z.boolean(),
+    adresse_livraison: z.string().max(255),
+    zone_livraison_id: z.string().uuid().optional(),
+    code_promo: z.string().trim().min(1).max(50).optional(),
+    item_ids: z.array(z.string().uuid()).min(1).optional(),
+}).refine((body) => !body.isLivrable || !!body.zone_livraison_id, {
+    message: "Une zone de livraison est requise pour une livraison à domicile",
+    path: ["zone_livraison_id"],
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "panier/checkout" }))) return;
+
+        const body = checkoutSchema.parse(req.body);
+
+        const { data: panier } = await supabaseAdmin
+            .from("paniers")
+            .select("id")
+            .eq("user_id", profile.id)
+            .single();
+
+        if (!panier) {
+            return res.status(400).json({ error: "Votre panier est vide" });
+        }
+
+        let query = supabaseAdmin
+            .from("panier_items")
+            .select("id, article_id, variation_id, quantite, prix_unitaire")
+            .eq("panier_id", panier.id)
+            .order("created_at", { ascending: true });
+
+        if (body.item_ids) {
+            query = query.in("id", body.item_ids);
+        }
+
+        const { data: items, error: itemsErr } = await query;
+
+        if (itemsErr) {
+            console.error("Erreur récupération items:", itemsErr);
+            return res.status(500).json({ error: "Erreur lors de la récupération du panier" });
+        }
+
+        if (!items || items.length === 0) {
+            return res.status(400).json({ error: "Votre panier est vide" });
+        }
+
+        if (body.item_ids && items.length !== new Set(body.item_ids).size) {
+            return res.status(400).json({ error: "Certains articles ne sont plus dans votre panier" });
+        }
+
+        // Revérifier prix et stock de chaque ligne
+        const { lignes, erreurs } = await verifierLignes(
+            items.map((item) => ({
+                article_id: item.article_id,
+                variation_id: item.variation_id,
+                quantite: item.quantite,
+                prix_attendu: item.prix_unitaire,
+            }))
+        );
+
+        if (erreurs.length > 0) {
+            // Aligner le panier sur les prix actuels : l'acheteur revoit le total puis revalide
+            for (const erreur of erreurs) {
+                if (erreur.code === "PRIX_MODIFIE") {
+                    await supabaseAdmin
+                        .from("panier_items")
+                        .update({
+                            prix_unitaire: erreur.prix_actuel,
+                            updated_at: new Date().toISOString(),
+                        })
+                        .eq("id", items[erreur.index].id);
+                }
+            }
+
+            return res.status(409).json({
+                error: "Votre panier a changé depuis l'ajout de certains articles",
+                erreurs: erreurs.map((erreur) => ({
+                    ...erreur,
+                    panier_item_id: items[erreur.index].id,
+                })),
+            });
+        }
+
+        const resultat = await passerCommande({
+            acheteur: { id: profile.id, role: profile.role },
+            commentaire: body.commentaire,
+            isLivrable: body.isLivrable,
+            adresse_livraison: body.adresse_livraison,
+            zone_livraison_id: body.zone_livraison_id,
+            code_promo: body.code_promo,
+            lignes,
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({
+                error: resultat.error,
+                details: resultat.details,
+            });
+        }
+
+        // Retirer du panier uniquement les articles achetés
+        const { error: deleteErr } = await supabaseAdmin
+            .from("panier_items")
+            .delete()
+            .in("id", items.map((item) => item.id));
+
+        if (deleteErr) {
+            console.error("Erreur vidage panier après commande:", deleteErr);
+        }
+
+        return res.status(201).json({
+            message: "Commande créée avec succès",
+            commande: await chargerCommandeCreee(resultat.commandeId, resultat.numero),
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/panier/checkout:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { calculerFraisLivraison } from "../../../app/lib/zonesLivraison";
+import { prixUnitaireArticle } from "../../../app/lib/tarification";
 
 /**
  * @swagger
@@ -11,9 +13,20 @@ import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
  *       - Panier
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: zone_livraison_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: >
+ *           Zone de livraison choisie ; le panier inclut alors l'estimation des
+ *           frais de livraison (frais_livraison, total_avec_livraison)
  *     responses:
  *       200:
  *         description: Panier récupéré
+ *       400:
+ *         description: Zone de livraison introuvable
  */
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -68,15 +81,38 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         // Calculer le total
         const total = items?.reduce((sum, item) => {
-            const prix = item.variations?.prix || item.articles.prix;
-            const prixFinal = item.articles.is_promotion && item.articles.prix_promotion
-                ? item.articles.prix_promotion
-                : prix;
+            const prixFinal = prixUnitaireArticle(item.articles, item.variations);
             return sum + (prixFinal * item.quantite);
         }, 0) || 0;
 
         const totalQuantite = items?.reduce((sum, item) => sum + item.quantite, 0) || 0;
 
+        // Estimation des frais de livraison pour la zone choisie
+        let estimationLivraison = {};
+        const zoneId = req.query.zone_livraison_id as string | undefined;
+
+        if (zoneId) {
+            const { data: zone } = await supabaseAdmin
+                .from("zones_livraison")
+                .select("*")
+                .eq("id", zoneId)
+                .eq("is_active", true)
+                .single();
+
+            if (!zone) {
+                return res.status(400).json({ error: "Zone de livraison introuvable" });
+            }
+
+            const nombreBoutiques = new Set(items?.map((item) => item.articles.user_id)).size;
+            const fraisLivraison = calculerFraisLivraison(zone, nombreBoutiques, total);
+
+            estimationLivraison = {
+                zone_livraison: zone,
+                frais_livraison: fraisLivraison,
+                total_avec_livraison: total + fraisLivraison,
+            };
+        }
+
         return res.status(200).json({
             panier: {
                 id: panier.id,
@@ -84,6 +120,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 total_items: items?.length || 0,
                 total_quantite: totalQuantite,
                 total_prix: total,
+                ...estimationLivraison,
             }
         });
     } catch (err) {
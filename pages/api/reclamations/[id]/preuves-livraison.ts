@@ -0,0 +1,125 @@
+// pages/api/reclamations/[id]/preuves-livraison.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { chargerPreuveLivraison } from "../../../../app/lib/preuveLivraison";
+import {
+    LIBELLES_EVENEMENT_LIVRAISON,
+    chargerEvenementsLivraisons,
+    type TypeEvenementLivraison,
+} from "../../../../app/lib/livraisonEvenements";
+
+/**
+ * @swagger
+ * /api/reclamations/{id}/preuves-livraison:
+ *   get:
+ *     summary: Preuves de livraison de la commande d'une réclamation
+ *     description: >
+ *       Pour chaque livraison de la commande réclamée (une par sous-commande),
+ *       retourne la preuve de remise (code, photo, signature ou clôture par un
+ *       administrateur, avec URL signée) et la chronologie du suivi, pour
+ *       instruire la réclamation. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Réclamations
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la réclamation
+ *     responses:
+ *       200:
+ *         description: Livraisons, preuves et suivi (vide si la commande n'a pas été expédiée)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Réclamation introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de réclamation invalide" });
+        }
+
+        const { data: reclamation } = await supabaseAdmin
+            .from("reclamations")
+            .select("id, commande_id")
+            .eq("id", id)
+            .single();
+
+        if (!reclamation) {
+            return res.status(404).json({ error: "Réclamation introuvable" });
+        }
+
+        // Une commande multi-boutiques est livrée par sous-commande
+        const { data: enfants } = await supabaseAdmin
+            .from("commandes")
+            .select("id")
+            .eq("parent_id", reclamation.commande_id);
+
+        const idsCommandes = [reclamation.commande_id, ...(enfants || []).map((e) => e.id)];
+
+        const { data: livraisons, error } = await supabaseAdmin
+            .from("livraisons")
+            .select(`
+        id,
+        statut,
+        date_livraison,
+        livreur_id,
+        preuve_type,
+        preuve_fichier,
+        preuve_at,
+        preuve_par,
+        commandes (id, numero)
+        `)
+            .in("commande_id", idsCommandes);
+
+        if (error) {
+            console.error("Supabase select error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les livraisons de la commande" });
+        }
+
+        const evenements = await chargerEvenementsLivraisons((livraisons || []).map((l) => l.id));
+
+        const resultat = await Promise.all((livraisons || []).map(async (livraison) => ({
+            id: livraison.id,
+            statut: livraison.statut,
+            date_livraison: livraison.date_livraison,
+            commande: livraison.commandes,
+            preuve: await chargerPreuveLivraison(livraison),
+            evenements: evenements
+                .filter((e) => e.livraison_id === livraison.id)
+                .map((e) => ({
+                    ...e,
+                    libelle: LIBELLES_EVENEMENT_LIVRAISON[e.type as TypeEvenementLivraison] ?? e.type,
+                })),
+        })));
+
+        return res.status(200).json({ livraisons: resultat });
+    } catch (err) {
+        console.error("Error /api/reclamations/[id]/preuves-livraison:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
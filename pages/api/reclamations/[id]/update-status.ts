@@ -3,6 +3,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { z, ZodError } from "zod";
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { MODES_REMBOURSEMENT, rembourserCommande } from "../../../../app/lib/remboursements";
 
 /**
  * @swagger
@@ -11,6 +12,13 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *     summary: Met à jour le statut d'une réclamation
  *     description: >
  *       Change le statut d'une réclamation. Accessible uniquement aux administrateurs.
+ *       Passer la réclamation à "Remboursée" rembourse l'acheteur (voir
+ *       /api/remboursements/create) : par défaut toutes les quantités restantes
+ *       de la commande, pour leur valeur, sur le solde de l'acheteur. Les
+ *       parts boutique et frais de service sont reprises, les articles remis
+ *       en stock, le paiement mis à jour et les sous-commandes entièrement
+ *       remboursées passent à "Remboursée". Si le remboursement échoue, le
+ *       statut de la réclamation n'est pas modifié.
  *     tags:
  *       - Réclamations
  *     security:
@@ -39,6 +47,40 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *                   - En cours
  *                   - Rejetée
  *                   - Remboursée
+ *               remboursement:
+ *                 type: object
+ *                 description: Détail du remboursement (statut Remboursée uniquement)
+ *                 properties:
+ *                   lignes:
+ *                     type: array
+ *                     description: Lignes et quantités à rembourser (toutes par défaut)
+ *                     items:
+ *                       type: object
+ *                       required:
+ *                         - commande_article_id
+ *                         - quantite
+ *                       properties:
+ *                         commande_article_id:
+ *                           type: string
+ *                           format: uuid
+ *                         quantite:
+ *                           type: integer
+ *                         remise_en_stock:
+ *                           type: boolean
+ *                           default: true
+ *                   montant:
+ *                     type: integer
+ *                     description: Montant remboursé si inférieur à la valeur des lignes
+ *                   mode:
+ *                     type: string
+ *                     enum: [portefeuille, methode_origine]
+ *                     default: portefeuille
+ *                   motif:
+ *                     type: string
+ *                     description: Par défaut, la description de la réclamation
+ *                   reference_transfert:
+ *                     type: string
+ *                     description: Référence du transfert (remboursement par mobile money)
  *     responses:
  *       200:
  *         description: Statut mis à jour avec succès
@@ -50,6 +92,8 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *         description: Accès refusé (admin seulement)
  *       404:
  *         description: Réclamation introuvable
+ *       409:
+ *         description: Réclamation déjà remboursée (statut définitif), commande non remboursable ou sans paiement validé
  *       500:
  *         description: Erreur serveur
  */
@@ -61,8 +105,25 @@ const updateStatusSchema = z.object({
         "Rejetée",
         "Remboursée",
     ]),
+    remboursement: z.object({
+        lignes: z.array(z.object({
+            commande_article_id: z.string().uuid(),
+            quantite: z.number().int().positive(),
+            remise_en_stock: z.boolean().optional(),
+        })).min(1).optional(),
+        montant: z.number().int().positive().optional(),
+        mode: z.enum(MODES_REMBOURSEMENT).default("portefeuille"),
+        motif: z.string().trim().min(1).max(255).optional(),
+        reference_transfert: z.string().trim().min(1).max(255).optional(),
+    }).optional(),
 });
 
+const SELECT_RECLAMATION = `
+    *,
+    users!reclamations_user_id_fkey (id, name, email, phone),
+    commandes (id, numero, statut, prix)
+`;
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
     if (req.method !== "PATCH") {
         return res.status(405).json({ error: "Méthode non autorisée" });
@@ -97,6 +158,40 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             return res.status(404).json({ error: "Réclamation introuvable" });
         }
 
+        // Le remboursement est définitif : il ne peut pas être défait en changeant le statut
+        if (reclamation.statut === "Remboursée") {
+            return res.status(409).json({ error: "Cette réclamation a déjà été remboursée" });
+        }
+
+        // Remboursement : l'opération passe aussi la réclamation à « Remboursée »
+        if (body.statut === "Remboursée") {
+            const resultat = await rembourserCommande({
+                reclamationId: id,
+                lignes: body.remboursement?.lignes,
+                montant: body.remboursement?.montant,
+                mode: body.remboursement?.mode ?? "portefeuille",
+                motif: body.remboursement?.motif,
+                reference_transfert: body.remboursement?.reference_transfert,
+                acteur: { id: profile.id, role: profile.role },
+            });
+
+            if (!resultat.ok) {
+                return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+            }
+
+            const { data: reclamationRemboursee } = await supabaseAdmin
+                .from("reclamations")
+                .select(SELECT_RECLAMATION)
+                .eq("id", id)
+                .single();
+
+            return res.status(200).json({
+                message: "Réclamation remboursée",
+                reclamation: reclamationRemboursee,
+                remboursement: resultat.remboursement,
+            });
+        }
+
         // Mettre à jour le statut
         const { data: updatedReclamation, error: updateError } = await supabaseAdmin
             .from("reclamations")
@@ -105,11 +200,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 updated_at: new Date().toISOString()
             })
             .eq("id", id)
-            .select(`
-        *,
-        users!reclamations_user_id_fkey (id, name, email, phone),
-        commandes (id, numero, statut, prix)
-        `)
+            .select(SELECT_RECLAMATION)
             .single();
 
         if (updateError) {
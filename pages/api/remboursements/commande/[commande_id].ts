@@ -0,0 +1,138 @@
+// pages/api/remboursements/commande/[commande_id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/remboursements/commande/{commande_id}:
+ *   get:
+ *     summary: Remboursements et lignes remboursables d'une commande
+ *     description: >
+ *       Retourne le paiement de la commande, ses lignes avec la quantité
+ *       encore remboursable, et les remboursements déjà accordés. Pour une
+ *       sous-commande, seules ses lignes sont listées. Accessible à l'acheteur
+ *       ou aux administrateurs.
+ *     tags:
+ *       - Remboursements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: commande_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la commande (parente ou sous-commande)
+ *     responses:
+ *       200:
+ *         description: Paiement, lignes et remboursements de la commande
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Commande introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { commande_id } = req.query;
+
+        if (!commande_id || typeof commande_id !== "string") {
+            return res.status(400).json({ error: "ID de commande invalide" });
+        }
+
+        const { data: commande } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut, user_id, parent_id, paiement_id")
+            .eq("id", commande_id)
+            .single();
+
+        if (!commande) {
+            return res.status(404).json({ error: "Commande introuvable" });
+        }
+
+        if (profile.role !== "Administrateur" && commande.user_id !== profile.id) {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        // Le paiement et les remboursements sont portés par la commande parente
+        const racineId = commande.parent_id ?? commande.id;
+
+        const { data: racine } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, paiement_id")
+            .eq("id", racineId)
+            .single();
+
+        let idsCommandes = [commande.id];
+        if (!commande.parent_id) {
+            const { data: enfants } = await supabaseAdmin
+                .from("commandes")
+                .select("id")
+                .eq("parent_id", commande.id);
+
+            if (enfants && enfants.length > 0) idsCommandes = enfants.map((e) => e.id);
+        }
+
+        const [{ data: lignes, error }, { data: remboursements }, { data: paiement }] = await Promise.all([
+            supabaseAdmin
+                .from("commande_articles")
+                .select(`
+                    id, commande_id, quantite, quantite_remboursee, prix_unitaire, frais_service,
+                    remise_code_promo, remise_financee_par,
+                    commande:commandes (id, numero, statut),
+                    articles (id, nom, image_principale),
+                    variations (id, couleur, taille)
+                `)
+                .in("commande_id", idsCommandes)
+                .order("created_at", { ascending: true }),
+            supabaseAdmin
+                .from("remboursements")
+                .select(`
+                    *,
+                    acteur:users!remboursements_acteur_id_fkey (id, name),
+                    reclamation:reclamations (id, description)
+                `)
+                .eq("commande_id", racineId)
+                .order("created_at", { ascending: false }),
+            racine?.paiement_id
+                ? supabaseAdmin
+                    .from("paiements")
+                    .select("id, reference, methode, statut, montant, details")
+                    .eq("id", racine.paiement_id)
+                    .single()
+                : Promise.resolve({ data: null }),
+        ]);
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les lignes de la commande" });
+        }
+
+        return res.status(200).json({
+            commande: { id: commande.id, numero: commande.numero, statut: commande.statut },
+            paiement,
+            lignes: (lignes || []).map((ligne) => ({
+                ...ligne,
+                quantite_remboursable: ligne.quantite - ligne.quantite_remboursee,
+            })),
+            remboursements: remboursements || [],
+        });
+    } catch (err) {
+        console.error("Error /api/remboursements/commande/[commande_id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,168 @@
+// pages/api/remboursements/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../app/lib/middlewares/requireIdempotency";
+import { MODES_REMBOURSEMENT, rembourserCommande } from "../../../app/lib/remboursements";
+
+/**
+ * @swagger
+ * /api/remboursements/create:
+ *   post:
+ *     summary: Rembourse tout ou partie d'une commande
+ *     description: >
+ *       Rembourse l'acheteur pour des lignes de la commande (toutes les
+ *       quantités restantes par défaut), pour leur valeur ou un montant
+ *       inférieur. Les parts boutique et frais de service sont reprises au
+ *       prorata sur les soldes, les articles retournés remis en stock, et le
+ *       paiement passe à Remboursée une fois toutes les lignes remboursées.
+ *       L'acheteur est remboursé sur son solde (portefeuille) ou par son moyen
+ *       de paiement d'origine (transfert effectué au préalable, dont la
+ *       référence est enregistrée). Avec reclamation_id, la réclamation passe
+ *       à Remboursée. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Remboursements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par remboursement. Une requête renvoyée avec la même clé
+ *           rejoue la réponse d'origine sans rembourser une seconde fois.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mode
+ *             properties:
+ *               commande_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Commande (parente ou sous-commande) ; facultatif avec reclamation_id
+ *               reclamation_id:
+ *                 type: string
+ *                 format: uuid
+ *               lignes:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - commande_article_id
+ *                     - quantite
+ *                   properties:
+ *                     commande_article_id:
+ *                       type: string
+ *                       format: uuid
+ *                     quantite:
+ *                       type: integer
+ *                     remise_en_stock:
+ *                       type: boolean
+ *                       default: true
+ *               montant:
+ *                 type: integer
+ *                 description: Montant remboursé si inférieur à la valeur des lignes
+ *               mode:
+ *                 type: string
+ *                 enum: [portefeuille, methode_origine]
+ *               motif:
+ *                 type: string
+ *                 description: Obligatoire sans réclamation
+ *               reference_transfert:
+ *                 type: string
+ *                 description: Référence du transfert (obligatoire pour un remboursement par mobile money)
+ *     responses:
+ *       201:
+ *         description: Remboursement enregistré
+ *       400:
+ *         description: Données invalides (quantités, montant, motif, référence)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé. Administrateur requis.
+ *       404:
+ *         description: Commande, réclamation ou ligne introuvable
+ *       409:
+ *         description: >
+ *           Commande non remboursable, sans paiement validé, réclamation déjà
+ *           remboursée, ou requête avec la même Idempotency-Key en cours
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const remboursementSchema = z.object({
+    commande_id: z.string().uuid().optional(),
+    reclamation_id: z.string().uuid().optional(),
+    lignes: z.array(z.object({
+        commande_article_id: z.string().uuid(),
+        quantite: z.number().int().positive(),
+        remise_en_stock: z.boolean().optional(),
+    })).min(1).optional(),
+    montant: z.number().int().positive().optional(),
+    mode: z.enum(MODES_REMBOURSEMENT),
+    motif: z.string().trim().min(1).max(255).optional(),
+    reference_transfert: z.string().trim().min(1).max(255).optional(),
+}).refine((data) => data.commande_id || data.reclamation_id, {
+    message: "commande_id ou reclamation_id est requis",
+    path: ["commande_id"],
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "remboursements/create" }))) return;
+
+        const body = remboursementSchema.parse(req.body);
+
+        const resultat = await rembourserCommande({
+            commandeId: body.commande_id,
+            reclamationId: body.reclamation_id,
+            lignes: body.lignes,
+            montant: body.montant,
+            mode: body.mode,
+            motif: body.motif,
+            reference_transfert: body.reference_transfert,
+            acteur: { id: profile.id, role: profile.role },
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        return res.status(201).json({
+            message: "Remboursement enregistré",
+            remboursement: resultat.remboursement,
+            commandes_remboursees: resultat.commandesRemboursees,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/remboursements/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,156 @@
+// pages/api/retraits/[id]/update-status.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { rejeterRetrait, validerRetrait } from "../../../../app/lib/retraits";
+
+/**
+ * @swagger
+ * /api/retraits/{id}/update-status:
+ *   patch:
+ *     summary: Traite une demande de retrait
+ *     description: >
+ *       Un administrateur valide la demande une fois le virement effectué
+ *       (référence de l'opérateur obligatoire, un reçu est émis) ou la refuse
+ *       avec un motif. La boutique peut annuler sa propre demande tant
+ *       qu'elle est en attente. En cas de refus ou d'annulation, le montant
+ *       réservé est recrédité sur le solde.
+ *     tags:
+ *       - Retraits
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID du retrait
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statut
+ *             properties:
+ *               statut:
+ *                 type: string
+ *                 enum: [Validé, Echoué]
+ *               reference_transfert:
+ *                 type: string
+ *                 description: Référence du transfert chez l'opérateur (obligatoire pour Validé)
+ *               recu_url:
+ *                 type: string
+ *                 format: uri
+ *                 description: Justificatif du transfert
+ *               motif:
+ *                 type: string
+ *                 description: Motif du refus (obligatoire pour un administrateur)
+ *     responses:
+ *       200:
+ *         description: Retrait traité
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé
+ *       404:
+ *         description: Retrait introuvable
+ *       409:
+ *         description: Retrait déjà traité
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const updateStatutSchema = z.object({
+    statut: z.enum(["Validé", "Echoué"]),
+    reference_transfert: z.string().trim().min(1).max(100).optional(),
+    recu_url: z.string().url().optional(),
+    motif: z.string().trim().min(1).max(500).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const { id } = req.query;
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de retrait invalide" });
+        }
+
+        const body = updateStatutSchema.parse(req.body);
+
+        const { data: retrait } = await supabaseAdmin
+            .from("retraits")
+            .select("id, user_id")
+            .eq("id", id)
+            .single();
+
+        if (!retrait) {
+            return res.status(404).json({ error: "Retrait introuvable" });
+        }
+
+        const isAdmin = profile.role === "Administrateur";
+        const isProprietaire = retrait.user_id === profile.id;
+
+        // 🔐 Seul l'administrateur valide ; la boutique ne peut qu'annuler sa demande
+        if (!isAdmin && !(isProprietaire && body.statut === "Echoué")) {
+            return res.status(403).json({ error: "Accès refusé" });
+        }
+
+        let resultat;
+
+        if (body.statut === "Validé") {
+            if (!body.reference_transfert) {
+                return res.status(400).json({ error: "La référence du transfert est obligatoire" });
+            }
+
+            resultat = await validerRetrait(
+                id,
+                { reference_transfert: body.reference_transfert, recu_url: body.recu_url },
+                { id: profile.id, name: profile.name }
+            );
+        } else {
+            if (isAdmin && !isProprietaire && !body.motif) {
+                return res.status(400).json({ error: "Le motif du refus est obligatoire" });
+            }
+
+            resultat = await rejeterRetrait(
+                id,
+                body.motif ?? "Annulé par la boutique",
+                { id: profile.id, role: profile.role }
+            );
+        }
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        return res.status(200).json({
+            message: body.statut === "Validé" ? "Retrait validé" : "Retrait refusé",
+            retrait: resultat.retrait,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/retraits/[id]/update-status:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
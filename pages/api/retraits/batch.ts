@@ -0,0 +1,137 @@
+// pages/api/retraits/batch.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { rejeterRetrait, validerRetrait } from "../../../app/lib/retraits";
+
+/**
+ * @swagger
+ * /api/retraits/batch:
+ *   post:
+ *     summary: Traite plusieurs demandes de retrait en lot
+ *     description: >
+ *       Valide ou refuse un ensemble de demandes en une fois (administrateur).
+ *       Pour une validation groupée (paiement de masse chez l'opérateur), la
+ *       référence du lot sert de référence de transfert à chaque demande, qui
+ *       reçoit son propre reçu. Les demandes déjà traitées sont ignorées et
+ *       listées dans la réponse.
+ *     tags:
+ *       - Retraits
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ids
+ *               - action
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 maxItems: 100
+ *               action:
+ *                 type: string
+ *                 enum: [valider, rejeter]
+ *               lot:
+ *                 type: string
+ *                 description: Référence du lot de virements (obligatoire pour valider)
+ *               recu_url:
+ *                 type: string
+ *                 format: uri
+ *                 description: Justificatif commun du lot
+ *               motif:
+ *                 type: string
+ *                 description: Motif du refus (obligatoire pour rejeter)
+ *     responses:
+ *       200:
+ *         description: Demandes traitées et demandes ignorées avec la raison
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé. Administrateur requis.
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const batchSchema = z.object({
+    ids: z.array(z.string().uuid()).min(1).max(100),
+    action: z.enum(["valider", "rejeter"]),
+    lot: z.string().trim().min(1).max(50).optional(),
+    recu_url: z.string().url().optional(),
+    motif: z.string().trim().min(1).max(500).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const body = batchSchema.parse(req.body);
+
+        if (body.action === "valider" && !body.lot) {
+            return res.status(400).json({ error: "La référence du lot est obligatoire" });
+        }
+
+        if (body.action === "rejeter" && !body.motif) {
+            return res.status(400).json({ error: "Le motif du refus est obligatoire" });
+        }
+
+        const traites: Record<string, unknown>[] = [];
+        const ignores: { id: string; error: string }[] = [];
+
+        // Séquentiel : chaque retrait est traité (et notifié) indépendamment
+        for (const id of new Set(body.ids)) {
+            const resultat = body.action === "valider"
+                ? await validerRetrait(
+                    id,
+                    {
+                        reference_transfert: body.lot as string,
+                        recu_url: body.recu_url,
+                        lot: body.lot,
+                    },
+                    { id: profile.id, name: profile.name }
+                )
+                : await rejeterRetrait(id, body.motif as string, { id: profile.id, role: profile.role });
+
+            if (resultat.ok) {
+                traites.push(resultat.retrait);
+            } else {
+                ignores.push({ id, error: resultat.error });
+            }
+        }
+
+        return res.status(200).json({
+            message: `${traites.length} retrait(s) traité(s), ${ignores.length} ignoré(s)`,
+            traites,
+            ignores,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/retraits/batch:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,119 @@
+// pages/api/retraits/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../app/lib/middlewares/requireIdempotency";
+import { demanderRetrait, METHODES_RETRAIT } from "../../../app/lib/retraits";
+
+/**
+ * @swagger
+ * /api/retraits/create:
+ *   post:
+ *     summary: Demande un retrait du solde
+ *     description: >
+ *       Une boutique demande le versement d'une partie de son solde disponible
+ *       sur un numéro mobile money. Le montant est réservé (débité du solde)
+ *       jusqu'au traitement de la demande par un administrateur, et recrédité
+ *       si elle est refusée. Montant minimum : RETRAIT_MONTANT_MIN (1000 FCFA par défaut).
+ *     tags:
+ *       - Retraits
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par demande. Une requête renvoyée avec la même clé rejoue
+ *           la réponse d'origine sans réserver le montant une seconde fois.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - montant
+ *               - methode
+ *               - telephone
+ *             properties:
+ *               montant:
+ *                 type: integer
+ *                 description: Montant à retirer (FCFA)
+ *               methode:
+ *                 type: string
+ *                 enum: [airtel_money, moov_money]
+ *               telephone:
+ *                 type: string
+ *                 description: Numéro mobile money du bénéficiaire
+ *     responses:
+ *       201:
+ *         description: Demande enregistrée, montant réservé
+ *       400:
+ *         description: Données invalides ou solde insuffisant
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Réservé aux boutiques
+ *       409:
+ *         description: Requête avec la même Idempotency-Key en cours
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const retraitSchema = z.object({
+    montant: z.number().int().positive(),
+    methode: z.enum(METHODES_RETRAIT),
+    telephone: z.string().min(8).max(20),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Boutique") {
+            return res.status(403).json({ error: "Seules les boutiques peuvent demander un retrait" });
+        }
+
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "retraits/create" }))) return;
+
+        const body = retraitSchema.parse(req.body);
+
+        const resultat = await demanderRetrait({
+            user: { id: profile.id, name: profile.name },
+            montant: body.montant,
+            methode: body.methode,
+            telephone: body.telephone,
+        });
+
+        if (!resultat.ok) {
+            return res.status(resultat.status).json({ error: resultat.error, details: resultat.details });
+        }
+
+        return res.status(201).json({
+            message: "Demande de retrait enregistrée",
+            retrait: resultat.retrait,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/retraits/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,133 @@
+// pages/api/retraits/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/retraits/list:
+ *   get:
+ *     summary: Liste les demandes de retrait
+ *     description: >
+ *       Un administrateur voit toutes les demandes (filtrables par statut,
+ *       boutique ou lot), une boutique uniquement les siennes.
+ *     tags:
+ *       - Retraits
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: statut
+ *         schema:
+ *           type: string
+ *           enum: [En attente, Validé, Echoué]
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Boutique (administrateurs seulement)
+ *       - in: query
+ *         name: lot
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Demandes de retrait paginées et total des demandes en attente
+ *       401:
+ *         description: Non autorisé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const isAdmin = profile.role === "Administrateur";
+
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const statut = req.query.statut as string | undefined;
+        const userId = req.query.user_id as string | undefined;
+        const lot = req.query.lot as string | undefined;
+        const offset = (page - 1) * limit;
+
+        let query = supabaseAdmin
+            .from("retraits")
+            .select(`
+                *,
+                user:users!retraits_user_id_fkey (id, name, email, phone, solde),
+                traitant:users!retraits_traite_par_fkey (id, name)
+            `, { count: "exact" });
+
+        if (!isAdmin) {
+            query = query.eq("user_id", profile.id);
+        } else if (userId) {
+            query = query.eq("user_id", userId);
+        }
+
+        if (statut) {
+            query = query.eq("statut", statut);
+        }
+
+        if (lot) {
+            query = query.eq("lot", lot);
+        }
+
+        // Total des demandes à traiter, indépendamment des filtres
+        let enAttenteQuery = supabaseAdmin
+            .from("retraits")
+            .select("montant")
+            .eq("statut", "En attente");
+
+        if (!isAdmin) {
+            enAttenteQuery = enAttenteQuery.eq("user_id", profile.id);
+        }
+
+        const [{ data: retraits, error, count }, { data: enAttente }] = await Promise.all([
+            query
+                .order("created_at", { ascending: false })
+                .range(offset, offset + limit - 1),
+            enAttenteQuery,
+        ]);
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les retraits" });
+        }
+
+        return res.status(200).json({
+            retraits: retraits || [],
+            en_attente: {
+                nombre: enAttente?.length || 0,
+                montant: (enAttente || []).reduce((total, r) => total + r.montant, 0),
+            },
+            pagination: {
+                page,
+                limit,
+                total: count || 0,
+                totalPages: count ? Math.ceil(count / limit) : 0,
+            },
+        });
+    } catch (err) {
+        console.error("Error /api/retraits/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
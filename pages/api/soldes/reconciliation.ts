@@ -0,0 +1,143 @@
+// pages/api/soldes/reconciliation.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/soldes/reconciliation:
+ *   get:
+ *     summary: Rapproche les soldes du grand livre
+ *     description: >
+ *       Liste les utilisateurs dont le solde (users.solde) diffère de la somme
+ *       des mouvements de leur portefeuille, c'est-à-dire modifié sans passer
+ *       par le grand livre. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Soldes
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Écarts constatés (vide si tout est rapproché)
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ *   post:
+ *     summary: Régularise l'écart d'un utilisateur
+ *     description: >
+ *       Passe l'écart au grand livre comme ajustement, sans modifier le solde :
+ *       le solde actuel est considéré comme juste et le relevé l'explique.
+ *     tags:
+ *       - Soldes
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - user_id
+ *             properties:
+ *               user_id:
+ *                 type: string
+ *                 format: uuid
+ *               motif:
+ *                 type: string
+ *                 maxLength: 255
+ *     responses:
+ *       200:
+ *         description: Écart régularisé (0 si aucun)
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Utilisateur introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const regularisationSchema = z.object({
+    user_id: z.string().uuid(),
+    motif: z.string().trim().min(1).max(255).optional(),
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET" && req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        if (req.method === "GET") {
+            const { data: ecarts, error } = await supabaseAdmin.rpc("ecarts_soldes");
+
+            if (error) {
+                console.error("Supabase error:", error);
+                return res.status(500).json({ error: "Impossible de rapprocher les soldes" });
+            }
+
+            const lignes = (ecarts || []) as { user_id: string; solde: number; solde_grand_livre: number; ecart: number }[];
+
+            const { data: users } = lignes.length
+                ? await supabaseAdmin
+                    .from("users")
+                    .select("id, name, email, role")
+                    .in("id", lignes.map((l) => l.user_id))
+                : { data: [] };
+
+            const parId = new Map((users || []).map((u) => [u.id, u]));
+
+            return res.status(200).json({
+                ecarts: lignes.map((l) => ({ ...l, user: parId.get(l.user_id) ?? null })),
+            });
+        }
+
+        const body = regularisationSchema.parse(req.body);
+
+        const { data: ecart, error } = await supabaseAdmin.rpc("regulariser_solde", {
+            p_user_id: body.user_id,
+            p_acteur_id: profile.id,
+            ...(body.motif ? { p_libelle: body.motif } : {}),
+        });
+
+        if (error) {
+            if (error.code === "P0002") {
+                return res.status(404).json({ error: "Utilisateur introuvable" });
+            }
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de régulariser le solde" });
+        }
+
+        return res.status(200).json({
+            message: ecart ? "Écart régularisé" : "Aucun écart à régulariser",
+            ecart: ecart ?? 0,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/soldes/reconciliation:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
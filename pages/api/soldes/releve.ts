@@ -0,0 +1,194 @@
+// pages/api/soldes/releve.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { TYPES_MOUVEMENT, type TypeMouvement } from "../../../app/lib/soldes";
+
+/**
+ * @swagger
+ * /api/soldes/releve:
+ *   get:
+ *     summary: Relevé du solde d'un utilisateur
+ *     description: >
+ *       Retourne les mouvements du portefeuille d'un utilisateur (ventes, frais,
+ *       remboursements, retraits, ajustements), du plus récent au plus ancien,
+ *       avec le solde obtenu après chacun. Le solde disponible et le solde en
+ *       attente (gains des commandes pas encore livrées ou dans le délai de
+ *       litige) sont donnés séparément, avec le détail des fonds en attente.
+ *       Sans user_id, relevé de l'utilisateur connecté ; le relevé d'un autre
+ *       utilisateur est réservé aux administrateurs.
+ *     tags:
+ *       - Soldes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: user_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Titulaire du relevé (administrateurs seulement)
+ *       - in: query
+ *         name: compte
+ *         schema:
+ *           type: string
+ *           enum: [portefeuille, sequestre]
+ *           default: portefeuille
+ *         description: Solde disponible (portefeuille) ou en attente (sequestre)
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [vente, frais_service, liberation, annulation, remboursement, retrait, ajustement, ouverture]
+ *         description: Filtrer par type de mouvement
+ *       - in: query
+ *         name: date_debut
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: date_fin
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Titulaire, soldes disponible et en attente, fonds en attente et mouvements paginés
+ *       400:
+ *         description: Paramètres invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Relevé d'un autre utilisateur (admin seulement)
+ *       404:
+ *         description: Utilisateur introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const userId = (req.query.user_id as string | undefined) || profile.id;
+        const compte = (req.query.compte as string | undefined) || "portefeuille";
+        const type = req.query.type as string | undefined;
+        const dateDebut = req.query.date_debut as string | undefined;
+        const dateFin = req.query.date_fin as string | undefined;
+
+        if (userId !== profile.id && profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        if (compte !== "portefeuille" && compte !== "sequestre") {
+            return res.status(400).json({ error: "Compte invalide" });
+        }
+
+        if (type && !TYPES_MOUVEMENT.includes(type as TypeMouvement)) {
+            return res.status(400).json({ error: "Type de mouvement invalide" });
+        }
+
+        if ((dateDebut && isNaN(Date.parse(dateDebut))) || (dateFin && isNaN(Date.parse(dateFin)))) {
+            return res.status(400).json({ error: "Date invalide" });
+        }
+
+        const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const offset = (page - 1) * limit;
+
+        const { data: titulaire } = await supabaseAdmin
+            .from("users")
+            .select("id, name, email, role, solde, solde_en_attente")
+            .eq("id", userId)
+            .single();
+
+        if (!titulaire) {
+            return res.status(404).json({ error: "Utilisateur introuvable" });
+        }
+
+        let query = supabaseAdmin
+            .from("mouvements_solde")
+            .select(`
+                id, ecriture_id, type, montant, solde_apres, libelle,
+                commande_id, paiement_id, created_at,
+                commande:commandes (id, numero),
+                paiement:paiements (id, reference, methode),
+                acteur:users!mouvements_solde_acteur_id_fkey (id, name)
+            `, { count: "exact" })
+            .eq("compte", compte)
+            .eq("user_id", userId);
+
+        if (type) {
+            query = query.eq("type", type);
+        }
+
+        if (dateDebut) {
+            query = query.gte("created_at", new Date(dateDebut).toISOString());
+        }
+
+        if (dateFin) {
+            // Date de fin incluse : jusqu'à la fin de la journée
+            const fin = new Date(dateFin);
+            fin.setUTCHours(23, 59, 59, 999);
+            query = query.lte("created_at", fin.toISOString());
+        }
+
+        const [{ data: mouvements, error, count }, { data: fondsEnAttente }] = await Promise.all([
+            query
+                .order("created_at", { ascending: false })
+                .range(offset, offset + limit - 1),
+            // Détail du solde en attente : crédits ni libérés ni annulés
+            supabaseAdmin
+                .from("commande_soldes")
+                .select("id, montant, montant_rembourse, liberable_at, created_at, commande:commandes (id, numero, statut)")
+                .eq("user_id", userId)
+                .is("libere_at", null)
+                .is("annule_at", null)
+                .order("created_at", { ascending: false })
+                .limit(100),
+        ]);
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer le relevé" });
+        }
+
+        return res.status(200).json({
+            titulaire,
+            solde: titulaire.solde,
+            solde_en_attente: titulaire.solde_en_attente,
+            // Part restant due après d'éventuels remboursements partiels
+            fonds_en_attente: (fondsEnAttente || []).map(({ montant_rembourse, ...fonds }) => ({
+                ...fonds,
+                montant: fonds.montant - montant_rembourse,
+            })),
+            mouvements: mouvements || [],
+            pagination: {
+                page,
+                limit,
+                total: count || 0,
+                totalPages: count ? Math.ceil(count / limit) : 0,
+            },
+        });
+    } catch (err) {
+        console.error("Error /api/soldes/releve:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
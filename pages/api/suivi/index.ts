@@ -0,0 +1,169 @@
+// pages/api/suivi/index.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z, ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { empreinteClient, requireRateLimit } from "../../../app/lib/middlewares/requireRateLimit";
+import { normaliserTelephone } from "../../../app/lib/paiements";
+import {
+    LIBELLES_EVENEMENT_LIVRAISON,
+    acteurPublic,
+    chargerEvenementsLivraisons,
+    type TypeEvenementLivraison,
+} from "../../../app/lib/livraisonEvenements";
+
+/**
+ * @swagger
+ * /api/suivi:
+ *   post:
+ *     summary: Suivi public d'une commande
+ *     description: >
+ *       Retourne, sans authentification, le statut d'une commande et la
+ *       chronologie de ses livraisons (une par boutique). Le numéro de
+ *       téléphone doit être celui de la livraison ou du compte de l'acheteur.
+ *       Aucune donnée personnelle n'est renvoyée (ni nom, ni adresse, ni
+ *       téléphone) : l'auteur d'une étape n'est désigné que par son rôle.
+ *       Limité à 20 recherches par adresse IP et 10 par numéro de commande
+ *       sur 15 minutes.
+ *     tags:
+ *       - Livraisons
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - numero
+ *               - telephone
+ *             properties:
+ *               numero:
+ *                 type: string
+ *                 example: CMD-26-00042
+ *               telephone:
+ *                 type: string
+ *                 example: "+241 06 12 34 56"
+ *     responses:
+ *       200:
+ *         description: Statut de la commande et étapes de livraison
+ *       400:
+ *         description: Données invalides
+ *       404:
+ *         description: Aucune commande ne correspond à ce numéro et ce téléphone
+ *       429:
+ *         description: Trop de recherches, réessayer plus tard
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const suiviSchema = z.object({
+    numero: z.string().trim().min(1).max(50),
+    telephone: z.string().trim().min(6).max(30),
+});
+
+const FENETRE_MINUTES = 15;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const body = suiviSchema.parse(req.body);
+        const numero = body.numero.toUpperCase();
+
+        // Par numéro aussi : empêche d'essayer tous les téléphones d'une commande
+        const autorise = await requireRateLimit(req, res, {
+            portee: "suivi",
+            limites: [
+                { cle: `ip:${empreinteClient(req)}`, limite: 20, fenetreMinutes: FENETRE_MINUTES },
+                { cle: `numero:${numero}`, limite: 10, fenetreMinutes: FENETRE_MINUTES },
+            ],
+        });
+        if (!autorise) return;
+
+        // Même réponse pour un numéro inconnu et un mauvais téléphone
+        const introuvable = () =>
+            res.status(404).json({ error: "Aucune commande ne correspond à ce numéro et ce téléphone" });
+
+        const { data: commande } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut, created_at, acheteur:users!commandes_user_id_fkey (phone)")
+            .eq("numero", numero)
+            .maybeSingle();
+
+        if (!commande) return introuvable();
+
+        // Une commande multi-boutiques est livrée par sous-commande
+        const { data: sousCommandes } = await supabaseAdmin
+            .from("commandes")
+            .select("id, numero, statut")
+            .eq("parent_id", commande.id)
+            .order("numero", { ascending: true });
+
+        const colisCommandes = sousCommandes && sousCommandes.length > 0
+            ? sousCommandes
+            : [{ id: commande.id, numero: commande.numero, statut: commande.statut }];
+
+        const { data: livraisons, error: livraisonsError } = await supabaseAdmin
+            .from("livraisons")
+            .select("id, commande_id, statut, phone, date_livraison")
+            .in("commande_id", colisCommandes.map((c) => c.id));
+
+        if (livraisonsError) {
+            console.error("Supabase select error:", livraisonsError);
+            return res.status(500).json({ error: "Impossible de récupérer le suivi" });
+        }
+
+        const telephone = normaliserTelephone(body.telephone);
+        const acheteur = commande.acheteur as { phone?: string | null } | null;
+        const telephones = [acheteur?.phone, ...(livraisons || []).map((l) => l.phone)]
+            .filter((t): t is string => !!t)
+            .map(normaliserTelephone);
+
+        if (!telephone || !telephones.includes(telephone)) return introuvable();
+
+        const evenements = await chargerEvenementsLivraisons((livraisons || []).map((l) => l.id));
+
+        const colis = colisCommandes.map((c) => {
+            const livraison = (livraisons || []).find((l) => l.commande_id === c.id);
+            return {
+                numero: c.numero,
+                statut_commande: c.statut,
+                livraison: livraison
+                    ? {
+                        statut: livraison.statut,
+                        date_prevue: livraison.date_livraison,
+                        evenements: evenements
+                            .filter((e) => e.livraison_id === livraison.id)
+                            .map((e) => ({
+                                type: e.type,
+                                libelle: LIBELLES_EVENEMENT_LIVRAISON[e.type as TypeEvenementLivraison] ?? e.type,
+                                date: e.created_at,
+                                acteur: acteurPublic(e.acteur_role),
+                            })),
+                    }
+                    : null,
+            };
+        });
+
+        return res.status(200).json({
+            suivi: {
+                numero: commande.numero,
+                statut: commande.statut,
+                date_commande: commande.created_at,
+                colis,
+            },
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/suivi:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
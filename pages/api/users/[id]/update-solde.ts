@@ -3,13 +3,18 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
 import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { requireIdempotency } from "../../../../app/lib/middlewares/requireIdempotency";
+import { enregistrerMouvement } from "../../../../app/lib/soldes";
 
 /**
  * @swagger
  * /api/users/{id}/update-solde:
  *   patch:
  *     summary: Met à jour le solde d'un utilisateur
- *     description: Crédite ou débite le compte d'un utilisateur
+ *     description: >
+ *       Crédite ou débite le compte d'un utilisateur. L'opération est passée au
+ *       grand livre des soldes (type "ajustement") avec l'administrateur qui
+ *       l'a faite et le motif indiqué.
  *     tags:
  *       - Users
  *     security:
@@ -22,6 +27,14 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *           type: string
  *           format: uuid
  *         description: ID de l'utilisateur
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >
+ *           Clé unique par opération. Une requête renvoyée avec la même clé
+ *           rejoue la réponse d'origine sans créditer/débiter une seconde fois.
  *     requestBody:
  *       required: true
  *       content:
@@ -40,6 +53,10 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *                 type: string
  *                 enum: [credit, debit]
  *                 description: Type d'opération
+ *               motif:
+ *                 type: string
+ *                 maxLength: 255
+ *                 description: Motif de l'ajustement, repris sur le relevé
  *     responses:
  *       200:
  *         description: Solde mis à jour avec succès
@@ -47,6 +64,10 @@ import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth
  *         description: Données invalides
  *       404:
  *         description: Utilisateur introuvable
+ *       409:
+ *         description: Requête avec la même Idempotency-Key en cours
+ *       422:
+ *         description: Idempotency-Key déjà utilisée pour une autre requête
  *       500:
  *         description: Erreur serveur
  */
@@ -112,13 +133,15 @@ export default async function handler(
     }
 
     try {
-        const { montant, action } = req.body;
+        if (!(await requireIdempotency(req, res, { userId: profile.id, portee: "users/update-solde" }))) return;
+
+        const { montant, action, motif } = req.body;
 
         // Validation des données
-        if (typeof montant !== 'number' || montant < 0) {
+        if (typeof montant !== 'number' || !Number.isInteger(montant) || montant < 0) {
             return res.status(400).json({
                 error: 'Montant invalide',
-                details: 'Le montant doit être un nombre positif',
+                details: 'Le montant doit être un nombre entier positif',
             });
         }
 
@@ -129,9 +152,16 @@ export default async function handler(
             });
         }
 
+        if (motif !== undefined && (typeof motif !== 'string' || motif.length > 255)) {
+            return res.status(400).json({
+                error: 'Motif invalide',
+                details: 'Le motif doit être un texte de 255 caractères maximum',
+            });
+        }
+
         console.log(`💰 ${action === 'credit' ? 'Crédit' : 'Débit'} de ${montant} FCFA pour l'utilisateur ${id}`);
 
-        // Récupération du solde actuel
+        // Récupération de l'utilisateur
         const { data: currentUser, error: fetchError } = await supabase
             .from('users')
             .select('solde, name')
@@ -145,43 +175,36 @@ export default async function handler(
             });
         }
 
-        const ancienSolde = currentUser.solde;
-
-        // Calcul du nouveau solde
-        let nouveauSolde: number;
-        if (action === 'credit') {
-            nouveauSolde = ancienSolde + montant;
-        } else {
-            nouveauSolde = ancienSolde - montant;
-
-            // Vérification du solde négatif (optionnel selon vos règles métier)
-            if (nouveauSolde < 0) {
-                return res.status(400).json({
-                    error: 'Solde insuffisant',
-                    details: `Le solde actuel (${ancienSolde} FCFA) ne permet pas un débit de ${montant} FCFA`,
-                });
-            }
+        // Mise à jour du solde et écriture au grand livre (le débit ne peut
+        // pas rendre le solde négatif, vérifié sous verrou côté SQL)
+        const mouvement = await enregistrerMouvement({
+            user_id: id,
+            montant: action === 'credit' ? montant : -montant,
+            type: 'ajustement',
+            contrepartie: 'ajustements',
+            libelle: motif || `${action === 'credit' ? 'Crédit' : 'Débit'} manuel`,
+            acteur_id: profile.id,
+            solde_min: action === 'debit' ? 0 : null,
+        });
+
+        if (!mouvement.ok) {
+            return res.status(mouvement.status).json({
+                error: mouvement.status === 400 ? 'Solde insuffisant' : 'Erreur lors de la mise à jour du solde',
+                details: mouvement.status === 400
+                    ? `Le solde actuel ne permet pas un débit de ${montant} FCFA`
+                    : mouvement.error,
+            });
         }
 
-        // Mise à jour du solde
-        const { data: updatedUser, error: updateError } = await supabase
+        const nouveauSolde = mouvement.solde;
+        const ancienSolde = nouveauSolde - (action === 'credit' ? montant : -montant);
+
+        const { data: updatedUser } = await supabase
             .from('users')
-            .update({
-                solde: nouveauSolde,
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', id)
             .select()
+            .eq('id', id)
             .single();
 
-        if (updateError) {
-            console.error('❌ Erreur Supabase:', updateError);
-            return res.status(500).json({
-                error: 'Erreur lors de la mise à jour du solde',
-                details: updateError.message,
-            });
-        }
-
         console.log(`✅ Solde mis à jour: ${currentUser.name} - ${ancienSolde} FCFA → ${nouveauSolde} FCFA`);
 
         return res.status(200).json({
@@ -0,0 +1,118 @@
+// pages/api/zones/create.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+import { zoneLivraisonSchema } from "../../../app/lib/zonesLivraison";
+
+/**
+ * @swagger
+ * /api/zones/create:
+ *   post:
+ *     summary: Crée une zone de livraison
+ *     description: >
+ *       Frais d'une commande = prix_base + supplement_boutique par boutique
+ *       supplémentaire, limités à plafond ; gratuits si le montant des articles
+ *       atteint seuil_gratuite. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Zones de livraison
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nom
+ *               - ville
+ *               - prix_base
+ *             properties:
+ *               nom:
+ *                 type: string
+ *               ville:
+ *                 type: string
+ *               quartiers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Communes / quartiers couverts
+ *               prix_base:
+ *                 type: integer
+ *               supplement_boutique:
+ *                 type: integer
+ *                 default: 0
+ *               plafond:
+ *                 type: integer
+ *                 nullable: true
+ *               seuil_gratuite:
+ *                 type: integer
+ *                 nullable: true
+ *               is_active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Zone créée
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "POST") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const body = zoneLivraisonSchema.parse(req.body);
+
+        const { data: zone, error } = await supabaseAdmin
+            .from("zones_livraison")
+            .insert({
+                ...body,
+                nom: body.nom.trim(),
+                ville: body.ville.trim(),
+                quartiers: body.quartiers.map((q) => q.trim()),
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString(),
+            })
+            .select()
+            .single();
+
+        if (error) {
+            console.error("Supabase insert error:", error);
+            return res.status(500).json({ error: "Impossible de créer la zone" });
+        }
+
+        return res.status(201).json({
+            message: "Zone créée avec succès",
+            zone,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/zones/create:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,80 @@
+// pages/api/zones/delete/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/zones/delete/{id}:
+ *   delete:
+ *     summary: Supprime une zone de livraison
+ *     description: >
+ *       Les commandes et livraisons rattachées à la zone la perdent (zone_livraison_id
+ *       mis à null) mais gardent leurs frais. Pour simplement la retirer du checkout,
+ *       préférez la désactiver. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Zones de livraison
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la zone
+ *     responses:
+ *       200:
+ *         description: Zone supprimée
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Zone introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "DELETE") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de zone invalide" });
+        }
+
+        const { data: supprimee, error } = await supabaseAdmin
+            .from("zones_livraison")
+            .delete()
+            .eq("id", id)
+            .select("id");
+
+        if (error) {
+            console.error("Supabase delete error:", error);
+            return res.status(500).json({ error: "Impossible de supprimer la zone" });
+        }
+
+        if (!supprimee || supprimee.length === 0) {
+            return res.status(404).json({ error: "Zone introuvable" });
+        }
+
+        return res.status(200).json({ message: "Zone supprimée avec succès" });
+    } catch (err) {
+        console.error("Error /api/zones/delete/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
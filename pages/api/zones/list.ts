@@ -0,0 +1,72 @@
+// pages/api/zones/list.ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../app/lib/middlewares/requireUserAuth";
+
+/**
+ * @swagger
+ * /api/zones/list:
+ *   get:
+ *     summary: Liste les zones de livraison
+ *     description: >
+ *       Retourne les zones de livraison avec leur grille tarifaire (prix de base,
+ *       supplément par boutique, plafond, seuil de gratuité) et leurs quartiers.
+ *       Les administrateurs voient aussi les zones inactives.
+ *     tags:
+ *       - Zones de livraison
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: ville
+ *         schema:
+ *           type: string
+ *         description: Filtrer par ville
+ *     responses:
+ *       200:
+ *         description: Liste des zones
+ *       401:
+ *         description: Non autorisé
+ *       500:
+ *         description: Erreur serveur
+ */
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "GET") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        const ville = req.query.ville as string | undefined;
+
+        let query = supabaseAdmin
+            .from("zones_livraison")
+            .select("*")
+            .order("ville", { ascending: true })
+            .order("nom", { ascending: true });
+
+        if (profile.role !== "Administrateur") {
+            query = query.eq("is_active", true);
+        }
+
+        if (ville) {
+            query = query.ilike("ville", ville);
+        }
+
+        const { data: zones, error } = await query;
+
+        if (error) {
+            console.error("Supabase error:", error);
+            return res.status(500).json({ error: "Impossible de récupérer les zones" });
+        }
+
+        return res.status(200).json({ zones: zones || [] });
+    } catch (err) {
+        console.error("Error /api/zones/list:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
@@ -0,0 +1,109 @@
+// pages/api/zones/update/[id].ts
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ZodError } from "zod";
+import { supabaseAdmin } from "../../../../app/lib/supabaseAdmin";
+import { requireUserAuth } from "../../../../app/lib/middlewares/requireUserAuth";
+import { zoneLivraisonSchema } from "../../../../app/lib/zonesLivraison";
+
+/**
+ * @swagger
+ * /api/zones/update/{id}:
+ *   patch:
+ *     summary: Modifie une zone de livraison
+ *     description: >
+ *       Met à jour tout ou partie d'une zone. Les commandes passées gardent les
+ *       frais de livraison calculés au checkout. Accessible uniquement aux administrateurs.
+ *     tags:
+ *       - Zones de livraison
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID de la zone
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Mêmes champs que /api/zones/create, tous optionnels
+ *     responses:
+ *       200:
+ *         description: Zone mise à jour
+ *       400:
+ *         description: Données invalides
+ *       401:
+ *         description: Non autorisé
+ *       403:
+ *         description: Accès refusé (admin seulement)
+ *       404:
+ *         description: Zone introuvable
+ *       500:
+ *         description: Erreur serveur
+ */
+
+const updateSchema = zoneLivraisonSchema.partial();
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== "PATCH") {
+        return res.status(405).json({ error: "Méthode non autorisée" });
+    }
+
+    try {
+        const auth = await requireUserAuth(req, res);
+        if (!auth) return;
+        const { profile } = auth;
+
+        if (profile.role !== "Administrateur") {
+            return res.status(403).json({ error: "Accès refusé. Administrateur requis." });
+        }
+
+        const { id } = req.query;
+
+        if (!id || typeof id !== "string") {
+            return res.status(400).json({ error: "ID de zone invalide" });
+        }
+
+        const body = updateSchema.parse(req.body);
+
+        // Ne garder que les champs envoyés
+        const toUpdate = Object.fromEntries(
+            Object.entries(body).filter(([, value]) => value !== undefined)
+        );
+
+        const { data: zone, error } = await supabaseAdmin
+            .from("zones_livraison")
+            .update({
+                ...toUpdate,
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", id)
+            .select()
+            .single();
+
+        if (error || !zone) {
+            return res.status(404).json({ error: "Zone introuvable" });
+        }
+
+        return res.status(200).json({
+            message: "Zone mise à jour avec succès",
+            zone,
+        });
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return res.status(400).json({
+                errors: err.issues.map((i) => ({
+                    field: i.path.join("."),
+                    message: i.message,
+                })),
+            });
+        }
+        console.error("Error /api/zones/update/[id]:", err);
+        return res.status(500).json({ error: "Erreur serveur interne" });
+    }
+}
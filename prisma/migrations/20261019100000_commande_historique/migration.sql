@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "commande_historiques" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "commande_id" UUID NOT NULL,
+    "ancien_statut" "commandes_statut",
+    "nouveau_statut" "commandes_statut" NOT NULL,
+    "acteur_id" UUID,
+    "acteur_role" VARCHAR(50),
+    "source" VARCHAR(50) NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "commande_historiques_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commande_historiques_commande_id_idx" ON "commande_historiques"("commande_id");
+
+-- CreateIndex
+CREATE INDEX "commande_historiques_created_at_idx" ON "commande_historiques"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "commande_historiques" ADD CONSTRAINT "commande_historiques_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commande_historiques" ADD CONSTRAINT "commande_historiques_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "commandes" ADD COLUMN "parent_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "commandes_parent_id_idx" ON "commandes"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "commandes" ADD CONSTRAINT "commandes_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "commandes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: renseigner le vendeur des commandes existantes mono-boutique
+UPDATE "commandes" c
+SET "vendeur_id" = v."vendeur_id"
+FROM (
+    SELECT ca."commande_id", MIN(a."user_id"::text)::uuid AS "vendeur_id"
+    FROM "commande_articles" ca
+    JOIN "articles" a ON a."id" = ca."article_id"
+    GROUP BY ca."commande_id"
+    HAVING COUNT(DISTINCT a."user_id") = 1
+) v
+WHERE c."id" = v."commande_id" AND c."vendeur_id" IS NULL;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "commandes" ADD COLUMN "restituee_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "commande_soldes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "commande_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "montant" INTEGER NOT NULL,
+    "annule_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "commande_soldes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "commande_soldes_commande_id_idx" ON "commande_soldes"("commande_id");
+
+-- CreateIndex
+CREATE INDEX "commande_soldes_user_id_idx" ON "commande_soldes"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "commande_soldes" ADD CONSTRAINT "commande_soldes_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commande_soldes" ADD CONSTRAINT "commande_soldes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Les commandes déjà annulées ou remboursées ne doivent pas être restituées une seconde fois.
+-- Les commandes antérieures n'ont pas de crédits mémorisés : seul leur stock sera restitué.
+UPDATE "commandes" SET "restituee_at" = "updated_at" WHERE "statut" IN ('Annulée', 'Remboursée');
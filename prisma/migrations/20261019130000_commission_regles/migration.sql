@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "commission_regles" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "nom" VARCHAR(255) NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "valeur" DECIMAL(10,2) NOT NULL,
+    "prix_min" INTEGER NOT NULL DEFAULT 0,
+    "prix_max" INTEGER,
+    "categorie_id" UUID,
+    "boutique_id" UUID,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commission_regles_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "commande_articles" ADD COLUMN "frais_service" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "commission_regle_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "commission_regles_categorie_id_idx" ON "commission_regles"("categorie_id");
+
+-- CreateIndex
+CREATE INDEX "commission_regles_boutique_id_idx" ON "commission_regles"("boutique_id");
+
+-- AddForeignKey
+ALTER TABLE "commission_regles" ADD CONSTRAINT "commission_regles_categorie_id_fkey" FOREIGN KEY ("categorie_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commission_regles" ADD CONSTRAINT "commission_regles_boutique_id_fkey" FOREIGN KEY ("boutique_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commande_articles" ADD CONSTRAINT "commande_articles_commission_regle_id_fkey" FOREIGN KEY ("commission_regle_id") REFERENCES "commission_regles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Barème par défaut : reprend les frais historiques (300 / 500 / 1000 FCFA par unité)
+INSERT INTO "commission_regles" ("nom", "type", "valeur", "prix_min", "prix_max", "updated_at") VALUES
+    ('Moins de 15 000 FCFA', 'fixe', 300, 0, 15000, CURRENT_TIMESTAMP),
+    ('De 15 000 à 50 000 FCFA', 'fixe', 500, 15000, 50000, CURRENT_TIMESTAMP),
+    ('50 000 FCFA et plus', 'fixe', 1000, 50000, NULL, CURRENT_TIMESTAMP);
+
+-- Les lignes existantes reçoivent les frais qui leur avaient été appliqués
+UPDATE "commande_articles" SET "frais_service" = "quantite" * CASE
+    WHEN "prix_unitaire" < 15000 THEN 300
+    WHEN "prix_unitaire" < 50000 THEN 500
+    ELSE 1000
+END;
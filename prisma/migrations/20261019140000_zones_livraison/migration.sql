@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "zones_livraison" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "nom" VARCHAR(255) NOT NULL,
+    "ville" VARCHAR(255) NOT NULL,
+    "quartiers" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "prix_base" INTEGER NOT NULL,
+    "supplement_boutique" INTEGER NOT NULL DEFAULT 0,
+    "plafond" INTEGER,
+    "seuil_gratuite" INTEGER,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "zones_livraison_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "commandes" ADD COLUMN "zone_livraison_id" UUID,
+ADD COLUMN "frais_livraison" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "livraisons" ADD COLUMN "zone_livraison_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "zones_livraison_ville_idx" ON "zones_livraison"("ville");
+
+-- AddForeignKey
+ALTER TABLE "commandes" ADD CONSTRAINT "commandes_zone_livraison_id_fkey" FOREIGN KEY ("zone_livraison_id") REFERENCES "zones_livraison"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "livraisons" ADD CONSTRAINT "livraisons_zone_livraison_id_fkey" FOREIGN KEY ("zone_livraison_id") REFERENCES "zones_livraison"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Zones par défaut : reprennent les tarifs historiques (prix par boutique, plafond 8 000 FCFA)
+INSERT INTO "zones_livraison" ("nom", "ville", "prix_base", "supplement_boutique", "plafond", "updated_at") VALUES
+    ('Libreville', 'Libreville', 2500, 2500, 8000, CURRENT_TIMESTAMP),
+    ('Akanda', 'Akanda', 2000, 2000, 8000, CURRENT_TIMESTAMP),
+    ('Owendo', 'Owendo', 3000, 3000, 8000, CURRENT_TIMESTAMP);
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Prix unitaire vu par l'acheteur au moment de l'ajout au panier, pour
+-- signaler au checkout les articles dont le prix a changé entretemps
+ALTER TABLE "panier_items" ADD COLUMN "prix_unitaire" INTEGER;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "idempotency_keys" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "cle" VARCHAR(255) NOT NULL,
+    "user_id" UUID NOT NULL,
+    "portee" VARCHAR(100) NOT NULL,
+    "empreinte" VARCHAR(64) NOT NULL,
+    "statut_http" INTEGER,
+    "reponse" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_user_id_cle_key" ON "idempotency_keys"("user_id", "cle");
+
+-- CreateIndex
+CREATE INDEX "idempotency_keys_created_at_idx" ON "idempotency_keys"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "idempotency_keys" ADD CONSTRAINT "idempotency_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "commande_sequences" (
+    "annee" INTEGER NOT NULL,
+    "dernier_numero" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "commande_sequences_pkey" PRIMARY KEY ("annee")
+);
+
+-- Initialiser le compteur de chaque année au plus grand numéro déjà attribué
+-- (numéros au format CMD-YY-XXXXX des commandes acheteur)
+INSERT INTO "commande_sequences" ("annee", "dernier_numero", "updated_at")
+SELECT 2000 + substring("numero" FROM '^CMD-(\d{2})-\d+$')::INTEGER,
+       MAX(substring("numero" FROM '^CMD-\d{2}-(\d+)$')::INTEGER),
+       NOW()
+FROM "commandes"
+WHERE "parent_id" IS NULL AND "numero" ~ '^CMD-\d{2}-\d+$'
+GROUP BY 1;
+
+-- Réparer les numéros en double : la plus ancienne commande garde son numéro,
+-- les suivantes reçoivent un nouveau numéro de la séquence de leur année,
+-- reporté sur leurs sous-commandes
+DO $$
+DECLARE
+  v_doublon RECORD;
+  v_annee INTEGER;
+  v_sequence INTEGER;
+  v_nouveau TEXT;
+BEGIN
+  FOR v_doublon IN
+    SELECT "id", "numero", "created_at"
+    FROM (
+      SELECT "id", "numero", "created_at",
+             ROW_NUMBER() OVER (PARTITION BY "numero" ORDER BY "created_at", "id") AS rang
+      FROM "commandes"
+      WHERE "parent_id" IS NULL
+    ) AS numeros
+    WHERE rang > 1
+    ORDER BY "created_at", "id"
+  LOOP
+    v_annee := EXTRACT(YEAR FROM v_doublon."created_at")::INTEGER;
+
+    INSERT INTO "commande_sequences" ("annee", "dernier_numero", "updated_at")
+    VALUES (v_annee, 1, NOW())
+    ON CONFLICT ("annee") DO UPDATE
+    SET "dernier_numero" = "commande_sequences"."dernier_numero" + 1,
+        "updated_at" = NOW()
+    RETURNING "dernier_numero" INTO v_sequence;
+
+    v_nouveau := 'CMD-' || to_char(v_doublon."created_at", 'YY') || '-' || lpad(v_sequence::TEXT, 5, '0');
+
+    UPDATE "commandes"
+    SET "numero" = v_nouveau || substring("numero" FROM length(v_doublon."numero") + 1)
+    WHERE "parent_id" = v_doublon."id";
+
+    UPDATE "commandes" SET "numero" = v_nouveau WHERE "id" = v_doublon."id";
+
+    RAISE NOTICE 'Commande % : numéro % en double, renumérotée %', v_doublon."id", v_doublon."numero", v_nouveau;
+  END LOOP;
+END $$;
+
+-- Doublons restants (sous-commandes héritées d'un même numéro) : suffixe de rang
+UPDATE "commandes" AS c
+SET "numero" = c."numero" || '-' || d.rang
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "numero" ORDER BY "created_at", "id") AS rang
+  FROM "commandes"
+) AS d
+WHERE c."id" = d."id" AND d.rang > 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "commandes_numero_key" ON "commandes"("numero");
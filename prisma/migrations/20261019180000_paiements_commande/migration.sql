@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "paiements" ADD COLUMN "commande_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "paiements_commande_id_idx" ON "paiements"("commande_id");
+
+-- AddForeignKey
+ALTER TABLE "paiements" ADD CONSTRAINT "paiements_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Rattacher les paiements existants à la commande qui les référence
+UPDATE "paiements" p
+SET "commande_id" = c."id"
+FROM "commandes" c
+WHERE c."paiement_id" = p."id";
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "mouvements_solde" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "ecriture_id" UUID NOT NULL,
+    "compte" VARCHAR(30) NOT NULL,
+    "user_id" UUID,
+    "type" VARCHAR(30) NOT NULL,
+    "montant" INTEGER NOT NULL,
+    "solde_apres" INTEGER,
+    "libelle" VARCHAR(255),
+    "commande_id" UUID,
+    "paiement_id" UUID,
+    "acteur_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mouvements_solde_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mouvements_solde_user_id_created_at_idx" ON "mouvements_solde"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "mouvements_solde_ecriture_id_idx" ON "mouvements_solde"("ecriture_id");
+
+-- CreateIndex
+CREATE INDEX "mouvements_solde_commande_id_idx" ON "mouvements_solde"("commande_id");
+
+-- CreateIndex
+CREATE INDEX "mouvements_solde_type_idx" ON "mouvements_solde"("type");
+
+-- AddForeignKey
+ALTER TABLE "mouvements_solde" ADD CONSTRAINT "mouvements_solde_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mouvements_solde" ADD CONSTRAINT "mouvements_solde_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mouvements_solde" ADD CONSTRAINT "mouvements_solde_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mouvements_solde" ADD CONSTRAINT "mouvements_solde_paiement_id_fkey" FOREIGN KEY ("paiement_id") REFERENCES "paiements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Solde d'ouverture : les soldes existants n'ont pas d'historique, ils sont
+-- repris en une écriture par utilisateur pour que le grand livre les explique
+CREATE TEMP TABLE "ouvertures" AS
+SELECT gen_random_uuid() AS "ecriture_id", "id" AS "user_id", "solde"
+FROM "users"
+WHERE "solde" <> 0;
+
+INSERT INTO "mouvements_solde" ("ecriture_id", "compte", "user_id", "type", "montant", "solde_apres", "libelle")
+SELECT "ecriture_id", 'portefeuille', "user_id", 'ouverture', "solde", "solde", 'Solde d''ouverture'
+FROM "ouvertures";
+
+INSERT INTO "mouvements_solde" ("ecriture_id", "compte", "user_id", "type", "montant", "libelle")
+SELECT "ecriture_id", 'ajustements', NULL, 'ouverture', -"solde", 'Solde d''ouverture'
+FROM "ouvertures";
+
+DROP TABLE "ouvertures";
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "solde_en_attente" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "commande_soldes" ADD COLUMN "liberable_at" TIMESTAMP(3),
+ADD COLUMN "libere_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "commande_soldes_liberable_at_idx" ON "commande_soldes"("liberable_at");
+
+-- Les crédits antérieurs ont été versés directement sur le solde disponible :
+-- ils sont considérés comme déjà libérés
+UPDATE "commande_soldes" SET "libere_at" = "created_at" WHERE "annule_at" IS NULL;
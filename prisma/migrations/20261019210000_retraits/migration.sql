@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "retraits" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "reference" VARCHAR(50) NOT NULL,
+    "user_id" UUID NOT NULL,
+    "montant" INTEGER NOT NULL,
+    "methode" VARCHAR(50) NOT NULL,
+    "telephone" VARCHAR(20) NOT NULL,
+    "statut" "paiement_statut" NOT NULL DEFAULT 'En attente',
+    "reference_transfert" VARCHAR(255),
+    "recu_url" VARCHAR(255),
+    "recu" JSONB,
+    "lot" VARCHAR(100),
+    "motif_rejet" VARCHAR(255),
+    "traite_par" UUID,
+    "traite_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "retraits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "retraits_reference_key" ON "retraits"("reference");
+
+-- CreateIndex
+CREATE INDEX "retraits_user_id_idx" ON "retraits"("user_id");
+
+-- CreateIndex
+CREATE INDEX "retraits_statut_idx" ON "retraits"("statut");
+
+-- CreateIndex
+CREATE INDEX "retraits_lot_idx" ON "retraits"("lot");
+
+-- AddForeignKey
+ALTER TABLE "retraits" ADD CONSTRAINT "retraits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "retraits" ADD CONSTRAINT "retraits_traite_par_fkey" FOREIGN KEY ("traite_par") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "commande_articles" ADD COLUMN "quantite_remboursee" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "commande_soldes" ADD COLUMN "montant_rembourse" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "remboursements" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "reference" VARCHAR(50) NOT NULL,
+    "commande_id" UUID NOT NULL,
+    "reclamation_id" UUID,
+    "paiement_id" UUID,
+    "user_id" UUID NOT NULL,
+    "montant" INTEGER NOT NULL,
+    "mode" VARCHAR(20) NOT NULL,
+    "motif" VARCHAR(255) NOT NULL,
+    "lignes" JSONB NOT NULL,
+    "reference_transfert" VARCHAR(255),
+    "acteur_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "remboursements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "remboursements_reference_key" ON "remboursements"("reference");
+
+-- CreateIndex
+CREATE INDEX "remboursements_commande_id_idx" ON "remboursements"("commande_id");
+
+-- CreateIndex
+CREATE INDEX "remboursements_reclamation_id_idx" ON "remboursements"("reclamation_id");
+
+-- CreateIndex
+CREATE INDEX "remboursements_user_id_idx" ON "remboursements"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "remboursements" ADD CONSTRAINT "remboursements_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remboursements" ADD CONSTRAINT "remboursements_reclamation_id_fkey" FOREIGN KEY ("reclamation_id") REFERENCES "reclamations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remboursements" ADD CONSTRAINT "remboursements_paiement_id_fkey" FOREIGN KEY ("paiement_id") REFERENCES "paiements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remboursements" ADD CONSTRAINT "remboursements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remboursements" ADD CONSTRAINT "remboursements_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
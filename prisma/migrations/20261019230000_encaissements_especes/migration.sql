@@ -0,0 +1,74 @@
+-- CreateTable
+CREATE TABLE "encaissements" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livraison_id" UUID NOT NULL,
+    "commande_id" UUID NOT NULL,
+    "paiement_id" UUID,
+    "livreur_id" UUID NOT NULL,
+    "montant_attendu" INTEGER NOT NULL,
+    "montant" INTEGER NOT NULL,
+    "remise_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "encaissements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "remises_especes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "reference" VARCHAR(50) NOT NULL,
+    "livreur_id" UUID NOT NULL,
+    "montant_attendu" INTEGER NOT NULL,
+    "montant_declare" INTEGER NOT NULL,
+    "montant_recu" INTEGER,
+    "statut" VARCHAR(20) NOT NULL DEFAULT 'En attente',
+    "note" VARCHAR(255),
+    "confirme_par" UUID,
+    "confirme_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "remises_especes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "encaissements_livraison_id_key" ON "encaissements"("livraison_id");
+
+-- CreateIndex
+CREATE INDEX "encaissements_livreur_id_idx" ON "encaissements"("livreur_id");
+
+-- CreateIndex
+CREATE INDEX "encaissements_remise_id_idx" ON "encaissements"("remise_id");
+
+-- CreateIndex
+CREATE INDEX "encaissements_paiement_id_idx" ON "encaissements"("paiement_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "remises_especes_reference_key" ON "remises_especes"("reference");
+
+-- CreateIndex
+CREATE INDEX "remises_especes_livreur_id_idx" ON "remises_especes"("livreur_id");
+
+-- CreateIndex
+CREATE INDEX "remises_especes_statut_idx" ON "remises_especes"("statut");
+
+-- AddForeignKey
+ALTER TABLE "encaissements" ADD CONSTRAINT "encaissements_livraison_id_fkey" FOREIGN KEY ("livraison_id") REFERENCES "livraisons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "encaissements" ADD CONSTRAINT "encaissements_commande_id_fkey" FOREIGN KEY ("commande_id") REFERENCES "commandes"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "encaissements" ADD CONSTRAINT "encaissements_paiement_id_fkey" FOREIGN KEY ("paiement_id") REFERENCES "paiements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "encaissements" ADD CONSTRAINT "encaissements_livreur_id_fkey" FOREIGN KEY ("livreur_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "encaissements" ADD CONSTRAINT "encaissements_remise_id_fkey" FOREIGN KEY ("remise_id") REFERENCES "remises_especes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remises_especes" ADD CONSTRAINT "remises_especes_livreur_id_fkey" FOREIGN KEY ("livreur_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "remises_especes" ADD CONSTRAINT "remises_especes_confirme_par_fkey" FOREIGN KEY ("confirme_par") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
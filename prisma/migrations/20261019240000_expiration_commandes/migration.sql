@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "commandes" ADD COLUMN "motif_annulation" VARCHAR(1000);
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "codes_promo" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "code" VARCHAR(50) NOT NULL,
+    "description" VARCHAR(255),
+    "type" VARCHAR(20) NOT NULL,
+    "valeur" DECIMAL(10,2) NOT NULL,
+    "remise_max" INTEGER,
+    "montant_min" INTEGER NOT NULL DEFAULT 0,
+    "limite_utilisation" INTEGER,
+    "limite_par_utilisateur" INTEGER DEFAULT 1,
+    "date_debut" TIMESTAMP(3),
+    "date_fin" TIMESTAMP(3),
+    "categorie_id" UUID,
+    "boutique_id" UUID,
+    "createur_id" UUID NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "codes_promo_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "commandes" ADD COLUMN "code_promo_id" UUID,
+ADD COLUMN "remise_code_promo" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "commande_articles" ADD COLUMN "remise_code_promo" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "codes_promo_code_key" ON "codes_promo"("code");
+
+-- CreateIndex
+CREATE INDEX "codes_promo_categorie_id_idx" ON "codes_promo"("categorie_id");
+
+-- CreateIndex
+CREATE INDEX "codes_promo_boutique_id_idx" ON "codes_promo"("boutique_id");
+
+-- CreateIndex
+CREATE INDEX "commandes_code_promo_id_idx" ON "commandes"("code_promo_id");
+
+-- AddForeignKey
+ALTER TABLE "codes_promo" ADD CONSTRAINT "codes_promo_categorie_id_fkey" FOREIGN KEY ("categorie_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "codes_promo" ADD CONSTRAINT "codes_promo_boutique_id_fkey" FOREIGN KEY ("boutique_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "codes_promo" ADD CONSTRAINT "codes_promo_createur_id_fkey" FOREIGN KEY ("createur_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "commandes" ADD CONSTRAINT "commandes_code_promo_id_fkey" FOREIGN KEY ("code_promo_id") REFERENCES "codes_promo"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "livraison_evenements" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livraison_id" UUID NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "acteur_id" UUID,
+    "acteur_role" VARCHAR(50),
+    "note" VARCHAR(500),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "livraison_evenements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "limites_requetes" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "portee" VARCHAR(100) NOT NULL,
+    "cle" VARCHAR(255) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "limites_requetes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "livraison_evenements_livraison_id_created_at_idx" ON "livraison_evenements"("livraison_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "limites_requetes_portee_cle_created_at_idx" ON "limites_requetes"("portee", "cle", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "livraison_evenements" ADD CONSTRAINT "livraison_evenements_livraison_id_fkey" FOREIGN KEY ("livraison_id") REFERENCES "livraisons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "livraison_evenements" ADD CONSTRAINT "livraison_evenements_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Livraisons existantes : création, puis statut actuel à la dernière mise à jour
+INSERT INTO "livraison_evenements" ("livraison_id", "type", "created_at")
+SELECT "id", 'creee', "created_at" FROM "livraisons";
+
+INSERT INTO "livraison_evenements" ("livraison_id", "type", "created_at")
+SELECT "id",
+       CASE "statut"
+           WHEN 'En cours de livraison' THEN 'en_transit'
+           WHEN 'Livrée' THEN 'livree'
+           WHEN 'Annulée' THEN 'annulee'
+           WHEN 'Reportée' THEN 'reportee'
+       END,
+       "updated_at"
+FROM "livraisons"
+WHERE "statut" IN ('En cours de livraison', 'Livrée', 'Annulée', 'Reportée');
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "livraisons" ADD COLUMN "preuve_type" VARCHAR(20),
+ADD COLUMN "preuve_fichier" VARCHAR(500),
+ADD COLUMN "preuve_at" TIMESTAMP(3),
+ADD COLUMN "preuve_par" UUID;
+
+-- CreateTable
+CREATE TABLE "codes_remise" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livraison_id" UUID NOT NULL,
+    "code_hash" VARCHAR(64) NOT NULL,
+    "essais" INTEGER NOT NULL DEFAULT 0,
+    "utilise_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "codes_remise_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "codes_remise_livraison_id_key" ON "codes_remise"("livraison_id");
+
+-- AddForeignKey
+ALTER TABLE "codes_remise" ADD CONSTRAINT "codes_remise_livraison_id_fkey" FOREIGN KEY ("livraison_id") REFERENCES "livraisons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "livreurs_profils" (
+    "user_id" UUID NOT NULL,
+    "villes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "zone_ids" UUID[] DEFAULT ARRAY[]::UUID[],
+    "disponible" BOOLEAN NOT NULL DEFAULT true,
+    "capacite" INTEGER NOT NULL DEFAULT 8,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "livreurs_profils_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateTable
+CREATE TABLE "attributions_livreur" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livraison_id" UUID NOT NULL,
+    "livreur_id" UUID,
+    "mode" VARCHAR(20) NOT NULL,
+    "score" INTEGER,
+    "raisons" JSONB NOT NULL DEFAULT '[]',
+    "candidats" JSONB NOT NULL DEFAULT '[]',
+    "acteur_id" UUID,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attributions_livreur_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attributions_livreur_livraison_id_created_at_idx" ON "attributions_livreur"("livraison_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "attributions_livreur_livreur_id_idx" ON "attributions_livreur"("livreur_id");
+
+-- AddForeignKey
+ALTER TABLE "livreurs_profils" ADD CONSTRAINT "livreurs_profils_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attributions_livreur" ADD CONSTRAINT "attributions_livreur_livraison_id_fkey" FOREIGN KEY ("livraison_id") REFERENCES "livraisons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attributions_livreur" ADD CONSTRAINT "attributions_livreur_livreur_id_fkey" FOREIGN KEY ("livreur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attributions_livreur" ADD CONSTRAINT "attributions_livreur_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "tournee_arrets" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livreur_id" UUID NOT NULL,
+    "date_tournee" DATE NOT NULL,
+    "cle" VARCHAR(100) NOT NULL,
+    "ordre" INTEGER,
+    "fait_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tournee_arrets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournee_arrets_livreur_id_date_tournee_cle_key" ON "tournee_arrets"("livreur_id", "date_tournee", "cle");
+
+-- AddForeignKey
+ALTER TABLE "tournee_arrets" ADD CONSTRAINT "tournee_arrets_livreur_id_fkey" FOREIGN KEY ("livreur_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "livraisons" ADD COLUMN     "tentatives" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "retour_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "tentatives_livraison" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "livraison_id" UUID NOT NULL,
+    "numero" INTEGER NOT NULL,
+    "motif" VARCHAR(30) NOT NULL,
+    "note" VARCHAR(500),
+    "acteur_id" UUID,
+    "nouvelle_date" TIMESTAMP(3),
+    "replanifiee_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tentatives_livraison_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tentatives_livraison_livraison_id_numero_key" ON "tentatives_livraison"("livraison_id", "numero");
+
+-- AddForeignKey
+ALTER TABLE "tentatives_livraison" ADD CONSTRAINT "tentatives_livraison_livraison_id_fkey" FOREIGN KEY ("livraison_id") REFERENCES "livraisons"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tentatives_livraison" ADD CONSTRAINT "tentatives_livraison_acteur_id_fkey" FOREIGN KEY ("acteur_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
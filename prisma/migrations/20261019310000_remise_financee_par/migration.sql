@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "commande_articles" ADD COLUMN "remise_financee_par" VARCHAR(20);
@@ -38,6 +38,7 @@ END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- 3. Fonction pour incrémenter le solde d'un utilisateur
+-- Ne passe rien au grand livre : utiliser mouvement_solde (10)
 CREATE OR REPLACE FUNCTION increment_user_solde(
   user_id UUID,
   amount INTEGER
@@ -56,6 +57,7 @@ END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
 -- 4. Fonction pour décrémenter le solde d'un utilisateur (pour les remboursements)
+-- Ne passe rien au grand livre : utiliser mouvement_solde (10)
 CREATE OR REPLACE FUNCTION decrement_user_solde(
   user_id UUID,
   amount INTEGER
@@ -148,5 +150,1063 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- 7. Fonction de création atomique d'une commande (checkout)
+-- Toute la commande est écrite dans une seule transaction : insertion de la
+-- commande parente, d'une sous-commande par boutique avec ses articles,
+-- décrément des stocks et crédit des soldes en attente (séquestre, libérés
+-- après la livraison, voir liberer_credit_solde).
+-- La moindre erreur (stock insuffisant, utilisateur absent...) annule tout.
+-- Les variations sont verrouillées (FOR UPDATE) dans un ordre stable pour que
+-- deux acheteurs ne puissent pas obtenir la dernière unité en même temps.
+--
+-- p_commande.sous_commandes : [{ vendeur_id, numero, prix }]
+-- p_commande.code_promo_id, remise_code_promo : code promo utilisé ; ses limites
+--                             d'utilisation sont revérifiées sous verrou
+-- p_articles[].vendeur_id   : boutique de l'article, pour le rattacher à sa sous-commande
+-- p_articles[].frais_service, commission_regle_id : frais de service figés sur la ligne
+-- p_articles[].remise_code_promo : part de la remise du code promo sur la ligne
+-- p_articles[].remise_financee_par : boutique ou plateforme, qui finance cette remise
+-- p_soldes[].vendeur_id     : sous-commande à laquelle le crédit est rattaché
+-- p_soldes[].type           : vente (part boutique) ou frais_service (plateforme,
+--                             négatif quand elle finance une remise plus forte que ses frais)
+-- Retourne l'id de la commande parente (celle que voit l'acheteur).
+CREATE OR REPLACE FUNCTION create_commande_atomique(
+  p_commande JSONB,
+  p_articles JSONB,
+  p_soldes JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_commande_id UUID;
+  v_sous_commande_id UUID;
+  v_sous_commande JSONB;
+  v_ligne RECORD;
+  v_stock INTEGER;
+  v_solde JSONB;
+  v_code_promo_id UUID := NULLIF(p_commande->>'code_promo_id', '')::UUID;
+  v_code RECORD;
+  v_utilisations INTEGER;
+BEGIN
+  -- Code promo : verrouillé pour que deux commandes simultanées ne dépassent
+  -- pas ses limites (les commandes annulées ne comptent pas)
+  IF v_code_promo_id IS NOT NULL THEN
+    SELECT code, is_active, date_debut, date_fin, limite_utilisation, limite_par_utilisateur
+    INTO v_code
+    FROM codes_promo
+    WHERE id = v_code_promo_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_code.is_active
+       OR (v_code.date_debut IS NOT NULL AND v_code.date_debut > NOW())
+       OR (v_code.date_fin IS NOT NULL AND v_code.date_fin < NOW()) THEN
+      RAISE EXCEPTION 'Code promo invalide ou expiré'
+        USING ERRCODE = 'raise_exception';
+    END IF;
+
+    IF v_code.limite_utilisation IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_utilisations
+      FROM commandes
+      WHERE code_promo_id = v_code_promo_id AND statut <> 'Annulée';
+
+      IF v_utilisations >= v_code.limite_utilisation THEN
+        RAISE EXCEPTION 'Le code promo % a atteint sa limite d''utilisation', v_code.code
+          USING ERRCODE = 'raise_exception';
+      END IF;
+    END IF;
+
+    IF v_code.limite_par_utilisateur IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_utilisations
+      FROM commandes
+      WHERE code_promo_id = v_code_promo_id AND statut <> 'Annulée'
+        AND user_id = (p_commande->>'user_id')::UUID;
+
+      IF v_utilisations >= v_code.limite_par_utilisateur THEN
+        RAISE EXCEPTION 'Vous avez déjà utilisé le code promo %', v_code.code
+          USING ERRCODE = 'raise_exception';
+      END IF;
+    END IF;
+  END IF;
+
+  -- Verrouiller et vérifier le stock de chaque variation (quantités cumulées)
+  FOR v_ligne IN
+    SELECT (value->>'variation_id')::UUID AS variation_id,
+           SUM((value->>'quantite')::INTEGER) AS quantite
+    FROM jsonb_array_elements(p_articles)
+    WHERE value->>'variation_id' IS NOT NULL
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock INTO v_stock
+    FROM variations
+    WHERE id = v_ligne.variation_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variation non trouvée: %', v_ligne.variation_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_stock < v_ligne.quantite THEN
+      RAISE EXCEPTION 'Stock insuffisant pour la variation %', v_ligne.variation_id
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE variations
+    SET stock = stock - v_ligne.quantite,
+        updated_at = NOW()
+    WHERE id = v_ligne.variation_id;
+
+    UPDATE stocks
+    SET quantite = quantite - v_ligne.quantite,
+        updated_at = NOW()
+    WHERE variation_id = v_ligne.variation_id;
+  END LOOP;
+
+  -- Créer la commande parente
+  INSERT INTO commandes (
+    id, numero, user_id, commentaire, statut, "isLivrable",
+    prix, adresse_livraison, zone_livraison_id, frais_livraison,
+    code_promo_id, remise_code_promo, created_at, updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_commande->>'numero',
+    (p_commande->>'user_id')::UUID,
+    COALESCE(p_commande->>'commentaire', ''),
+    'En attente',
+    (p_commande->>'isLivrable')::BOOLEAN,
+    (p_commande->>'prix')::INTEGER,
+    p_commande->>'adresse_livraison',
+    NULLIF(p_commande->>'zone_livraison_id', '')::UUID,
+    COALESCE((p_commande->>'frais_livraison')::INTEGER, 0),
+    v_code_promo_id,
+    COALESCE((p_commande->>'remise_code_promo')::INTEGER, 0),
+    NOW(),
+    NOW()
+  )
+  RETURNING id INTO v_commande_id;
+
+  -- Créer une sous-commande par boutique et y rattacher ses articles
+  FOR v_sous_commande IN
+    SELECT value FROM jsonb_array_elements(COALESCE(p_commande->'sous_commandes', '[]'::JSONB))
+  LOOP
+    INSERT INTO commandes (
+      id, numero, user_id, vendeur_id, parent_id, commentaire, statut, "isLivrable",
+      prix, adresse_livraison, created_at, updated_at
+    )
+    VALUES (
+      gen_random_uuid(),
+      v_sous_commande->>'numero',
+      (p_commande->>'user_id')::UUID,
+      (v_sous_commande->>'vendeur_id')::UUID,
+      v_commande_id,
+      COALESCE(p_commande->>'commentaire', ''),
+      'En attente',
+      (p_commande->>'isLivrable')::BOOLEAN,
+      (v_sous_commande->>'prix')::INTEGER,
+      p_commande->>'adresse_livraison',
+      NOW(),
+      NOW()
+    )
+    RETURNING id INTO v_sous_commande_id;
+
+    INSERT INTO commande_articles (
+      id, commande_id, article_id, variation_id, quantite, prix_unitaire,
+      frais_service, commission_regle_id, remise_code_promo, remise_financee_par,
+      created_at, updated_at
+    )
+    SELECT
+      gen_random_uuid(),
+      v_sous_commande_id,
+      (value->>'article_id')::UUID,
+      NULLIF(value->>'variation_id', '')::UUID,
+      (value->>'quantite')::INTEGER,
+      (value->>'prix_unitaire')::INTEGER,
+      COALESCE((value->>'frais_service')::INTEGER, 0),
+      NULLIF(value->>'commission_regle_id', '')::UUID,
+      COALESCE((value->>'remise_code_promo')::INTEGER, 0),
+      NULLIF(value->>'remise_financee_par', ''),
+      NOW(),
+      NOW()
+    FROM jsonb_array_elements(p_articles)
+    WHERE value->>'vendeur_id' = v_sous_commande->>'vendeur_id';
+
+    -- Créditer les soldes en attente liés à cette sous-commande (boutique et
+    -- admin) et les mémoriser pour les libérer ou les annuler ensuite
+    FOR v_solde IN
+      SELECT value FROM jsonb_array_elements(p_soldes)
+      WHERE value->>'vendeur_id' = v_sous_commande->>'vendeur_id'
+    LOOP
+      PERFORM mouvement_sequestre(
+        (v_solde->>'user_id')::UUID,
+        (v_solde->>'amount')::INTEGER,
+        COALESCE(v_solde->>'type', 'vente'),
+        'encaissements',
+        'Commande ' || (v_sous_commande->>'numero'),
+        v_sous_commande_id
+      );
+
+      INSERT INTO commande_soldes (id, commande_id, user_id, montant, created_at)
+      VALUES (
+        gen_random_uuid(),
+        v_sous_commande_id,
+        (v_solde->>'user_id')::UUID,
+        (v_solde->>'amount')::INTEGER,
+        NOW()
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_commande_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 8. Fonction de restitution d'une commande annulée ou remboursée
+-- Remet en stock les quantités de la commande (variations et table stocks)
+-- et annule les crédits de solde enregistrés au checkout (commande_soldes) :
+-- repris sur le solde en attente s'ils n'ont pas encore été libérés, sinon
+-- sur le solde disponible. Les quantités et montants déjà traités par un
+-- remboursement partiel (rembourser_commande) ne sont pas repris une seconde fois.
+-- Idempotente : la commande est verrouillée puis marquée (restituee_at), un
+-- second appel ne fait rien et retourne FALSE.
+CREATE OR REPLACE FUNCTION restituer_commande(
+  p_commande_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_restituee_at TIMESTAMP;
+  v_numero TEXT;
+  v_ligne RECORD;
+BEGIN
+  SELECT restituee_at, numero INTO v_restituee_at, v_numero
+  FROM commandes
+  WHERE id = p_commande_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commande non trouvée: %', p_commande_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_restituee_at IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Remettre les quantités en stock
+  FOR v_ligne IN
+    SELECT variation_id, SUM(quantite - quantite_remboursee) AS quantite
+    FROM commande_articles
+    WHERE commande_id = p_commande_id AND variation_id IS NOT NULL
+      AND quantite > quantite_remboursee
+    GROUP BY variation_id
+    ORDER BY variation_id
+  LOOP
+    UPDATE variations
+    SET stock = stock + v_ligne.quantite,
+        updated_at = NOW()
+    WHERE id = v_ligne.variation_id;
+
+    UPDATE stocks
+    SET quantite = quantite + v_ligne.quantite,
+        updated_at = NOW()
+    WHERE variation_id = v_ligne.variation_id;
+  END LOOP;
+
+  -- Annuler les crédits de solde de la commande
+  FOR v_ligne IN
+    SELECT id, user_id, montant - montant_rembourse AS montant, libere_at
+    FROM commande_soldes
+    WHERE commande_id = p_commande_id AND annule_at IS NULL
+    FOR UPDATE
+  LOOP
+    IF v_ligne.libere_at IS NULL THEN
+      PERFORM mouvement_sequestre(
+        v_ligne.user_id,
+        -v_ligne.montant,
+        'annulation',
+        'encaissements',
+        'Annulation commande ' || v_numero,
+        p_commande_id
+      );
+    ELSE
+      PERFORM mouvement_solde(
+        v_ligne.user_id,
+        -v_ligne.montant,
+        'annulation',
+        'encaissements',
+        'Annulation commande ' || v_numero,
+        p_commande_id
+      );
+    END IF;
+
+    UPDATE commande_soldes
+    SET annule_at = NOW()
+    WHERE id = v_ligne.id;
+  END LOOP;
+
+  UPDATE commandes
+  SET restituee_at = NOW()
+  WHERE id = p_commande_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 9. Fonction d'attribution du prochain numéro de commande d'une année
+-- Incrémente le compteur de l'année (créé au premier appel) en une seule
+-- instruction : deux checkouts simultanés ne peuvent pas obtenir le même numéro.
+-- Un numéro attribué à une commande qui échoue ensuite n'est pas réutilisé.
+CREATE OR REPLACE FUNCTION prochain_numero_commande(
+  p_annee INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_numero INTEGER;
+BEGIN
+  INSERT INTO commande_sequences (annee, dernier_numero, updated_at)
+  VALUES (p_annee, 1, NOW())
+  ON CONFLICT (annee) DO UPDATE
+  SET dernier_numero = commande_sequences.dernier_numero + 1,
+      updated_at = NOW()
+  RETURNING dernier_numero INTO v_numero;
+
+  RETURN v_numero;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 10. Fonction d'écriture au grand livre des soldes
+-- Point d'entrée unique pour modifier users.solde : le portefeuille est
+-- verrouillé (FOR UPDATE), crédité ou débité, puis l'opération est passée au
+-- grand livre (mouvements_solde) en deux lignes de somme nulle : le
+-- portefeuille, avec le solde obtenu, et le compte de contrepartie.
+--
+-- p_montant      : positif = crédit du portefeuille, négatif = débit
+-- p_contrepartie : encaissements (argent des acheteurs), ajustements
+--                  (opérations manuelles), decaissements (retraits)
+-- p_solde_min    : si renseigné, refuse un solde final inférieur
+-- Retourne le nouveau solde.
+CREATE OR REPLACE FUNCTION mouvement_solde(
+  p_user_id UUID,
+  p_montant INTEGER,
+  p_type TEXT,
+  p_contrepartie TEXT,
+  p_libelle TEXT DEFAULT NULL,
+  p_commande_id UUID DEFAULT NULL,
+  p_paiement_id UUID DEFAULT NULL,
+  p_acteur_id UUID DEFAULT NULL,
+  p_solde_min INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_solde INTEGER;
+  v_ecriture_id UUID := gen_random_uuid();
+BEGIN
+  SELECT solde INTO v_solde
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Utilisateur non trouvé: %', p_user_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Rien à passer (frais de service nuls par exemple)
+  IF p_montant = 0 THEN
+    RETURN v_solde;
+  END IF;
+
+  IF p_solde_min IS NOT NULL AND v_solde + p_montant < p_solde_min THEN
+    RAISE EXCEPTION 'Solde insuffisant: % FCFA disponibles', v_solde
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  v_solde := v_solde + p_montant;
+
+  UPDATE users
+  SET solde = v_solde,
+      updated_at = NOW()
+  WHERE id = p_user_id;
+
+  INSERT INTO mouvements_solde (
+    id, ecriture_id, compte, user_id, type, montant, solde_apres,
+    libelle, commande_id, paiement_id, acteur_id, created_at
+  )
+  VALUES
+    (gen_random_uuid(), v_ecriture_id, 'portefeuille', p_user_id, p_type, p_montant, v_solde,
+     p_libelle, p_commande_id, p_paiement_id, p_acteur_id, clock_timestamp()),
+    (gen_random_uuid(), v_ecriture_id, p_contrepartie, NULL, p_type, -p_montant, NULL,
+     p_libelle, p_commande_id, p_paiement_id, p_acteur_id, clock_timestamp());
+
+  RETURN v_solde;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 11. Rapprochement des soldes avec le grand livre
+-- Liste les utilisateurs dont users.solde diffère de la somme des lignes de
+-- leur portefeuille, c'est-à-dire modifié sans passer par mouvement_solde.
+CREATE OR REPLACE FUNCTION ecarts_soldes()
+RETURNS TABLE (
+  user_id UUID,
+  solde INTEGER,
+  solde_grand_livre INTEGER,
+  ecart INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT u.id,
+         u.solde,
+         COALESCE(m.total, 0)::INTEGER,
+         (u.solde - COALESCE(m.total, 0))::INTEGER
+  FROM users u
+  LEFT JOIN (
+    SELECT mouvements_solde.user_id, SUM(montant) AS total
+    FROM mouvements_solde
+    WHERE compte = 'portefeuille'
+    GROUP BY mouvements_solde.user_id
+  ) m ON m.user_id = u.id
+  WHERE u.solde <> COALESCE(m.total, 0)
+  ORDER BY ABS(u.solde - COALESCE(m.total, 0)) DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 12. Régularisation d'un écart de solde
+-- Passe au grand livre, sans toucher à users.solde, l'écart constaté par
+-- ecarts_soldes : le solde réel est conservé et l'écart devient explicable
+-- (ligne d'ajustement avec son auteur). Retourne l'écart régularisé.
+CREATE OR REPLACE FUNCTION regulariser_solde(
+  p_user_id UUID,
+  p_acteur_id UUID,
+  p_libelle TEXT DEFAULT 'Régularisation du solde'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_solde INTEGER;
+  v_ecart INTEGER;
+  v_ecriture_id UUID := gen_random_uuid();
+BEGIN
+  SELECT solde INTO v_solde
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Utilisateur non trouvé: %', p_user_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT v_solde - COALESCE(SUM(montant), 0) INTO v_ecart
+  FROM mouvements_solde
+  WHERE user_id = p_user_id AND compte = 'portefeuille';
+
+  IF v_ecart = 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO mouvements_solde (
+    id, ecriture_id, compte, user_id, type, montant, solde_apres,
+    libelle, acteur_id, created_at
+  )
+  VALUES
+    (gen_random_uuid(), v_ecriture_id, 'portefeuille', p_user_id, 'ajustement', v_ecart, v_solde,
+     p_libelle, p_acteur_id, NOW()),
+    (gen_random_uuid(), v_ecriture_id, 'ajustements', NULL, 'ajustement', -v_ecart, NULL,
+     p_libelle, p_acteur_id, NOW());
+
+  RETURN v_ecart;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 13. Fonction d'écriture sur le solde en attente (séquestre)
+-- Même principe que mouvement_solde, sur users.solde_en_attente : les gains
+-- d'une commande y restent jusqu'à la livraison et la fin du délai de litige.
+-- Lignes du grand livre sur le compte 'sequestre' de l'utilisateur.
+-- Retourne le nouveau solde en attente.
+CREATE OR REPLACE FUNCTION mouvement_sequestre(
+  p_user_id UUID,
+  p_montant INTEGER,
+  p_type TEXT,
+  p_contrepartie TEXT,
+  p_libelle TEXT DEFAULT NULL,
+  p_commande_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_solde INTEGER;
+  v_ecriture_id UUID := gen_random_uuid();
+BEGIN
+  SELECT solde_en_attente INTO v_solde
+  FROM users
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Utilisateur non trouvé: %', p_user_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_montant = 0 THEN
+    RETURN v_solde;
+  END IF;
+
+  v_solde := v_solde + p_montant;
+
+  UPDATE users
+  SET solde_en_attente = v_solde,
+      updated_at = NOW()
+  WHERE id = p_user_id;
+
+  INSERT INTO mouvements_solde (
+    id, ecriture_id, compte, user_id, type, montant, solde_apres,
+    libelle, commande_id, created_at
+  )
+  VALUES
+    (gen_random_uuid(), v_ecriture_id, 'sequestre', p_user_id, p_type, p_montant, v_solde,
+     p_libelle, p_commande_id, clock_timestamp()),
+    (gen_random_uuid(), v_ecriture_id, p_contrepartie, NULL, p_type, -p_montant, NULL,
+     p_libelle, p_commande_id, clock_timestamp());
+
+  RETURN v_solde;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 14. Libération d'un crédit de commande
+-- Transfère un crédit du solde en attente vers le solde disponible (écriture
+-- 'liberation' : séquestre débité, portefeuille crédité) et le marque libéré.
+-- Seule la part non remboursée du crédit est transférée.
+-- Idempotente : retourne FALSE si le crédit est déjà libéré ou annulé.
+CREATE OR REPLACE FUNCTION liberer_credit_solde(
+  p_credit_id UUID
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_credit RECORD;
+  v_numero TEXT;
+  v_en_attente INTEGER;
+  v_solde INTEGER;
+  v_ecriture_id UUID := gen_random_uuid();
+BEGIN
+  SELECT id, commande_id, user_id, montant - montant_rembourse AS montant, libere_at, annule_at INTO v_credit
+  FROM commande_soldes
+  WHERE id = p_credit_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Crédit non trouvé: %', p_credit_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_credit.libere_at IS NOT NULL OR v_credit.annule_at IS NOT NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT numero INTO v_numero FROM commandes WHERE id = v_credit.commande_id;
+
+  UPDATE users
+  SET solde_en_attente = solde_en_attente - v_credit.montant,
+      solde = solde + v_credit.montant,
+      updated_at = NOW()
+  WHERE id = v_credit.user_id
+  RETURNING solde_en_attente, solde INTO v_en_attente, v_solde;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Utilisateur non trouvé: %', v_credit.user_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_credit.montant <> 0 THEN
+    INSERT INTO mouvements_solde (
+      id, ecriture_id, compte, user_id, type, montant, solde_apres,
+      libelle, commande_id, created_at
+    )
+    VALUES
+      (gen_random_uuid(), v_ecriture_id, 'sequestre', v_credit.user_id, 'liberation', -v_credit.montant, v_en_attente,
+       'Libération commande ' || v_numero, v_credit.commande_id, clock_timestamp()),
+      (gen_random_uuid(), v_ecriture_id, 'portefeuille', v_credit.user_id, 'liberation', v_credit.montant, v_solde,
+       'Libération commande ' || v_numero, v_credit.commande_id, clock_timestamp());
+  END IF;
+
+  UPDATE commande_soldes
+  SET libere_at = NOW()
+  WHERE id = p_credit_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 15. Demande de retrait du solde
+-- Réserve le montant (débit du solde disponible, qui ne peut pas devenir
+-- négatif) et crée la demande dans la même transaction : deux demandes
+-- simultanées ne peuvent pas dépasser le solde.
+-- Retourne l'id du retrait.
+CREATE OR REPLACE FUNCTION demander_retrait(
+  p_user_id UUID,
+  p_montant INTEGER,
+  p_methode TEXT,
+  p_telephone TEXT,
+  p_reference TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_retrait_id UUID;
+BEGIN
+  IF p_montant <= 0 THEN
+    RAISE EXCEPTION 'Montant de retrait invalide: %', p_montant
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM mouvement_solde(
+    p_user_id,
+    -p_montant,
+    'retrait',
+    'decaissements',
+    'Retrait ' || p_reference,
+    NULL,
+    NULL,
+    p_user_id,
+    0
+  );
+
+  INSERT INTO retraits (
+    id, reference, user_id, montant, methode, telephone, statut, created_at, updated_at
+  )
+  VALUES (
+    gen_random_uuid(), p_reference, p_user_id, p_montant, p_methode, p_telephone,
+    'En attente', NOW(), NOW()
+  )
+  RETURNING id INTO v_retrait_id;
+
+  RETURN v_retrait_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 16. Refus (ou annulation) d'une demande de retrait
+-- Recrédite le montant réservé et passe la demande à Echoué.
+-- Idempotente : retourne FALSE si la demande n'est plus en attente.
+CREATE OR REPLACE FUNCTION rejeter_retrait(
+  p_retrait_id UUID,
+  p_acteur_id UUID,
+  p_motif TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_retrait RECORD;
+BEGIN
+  SELECT id, reference, user_id, montant, statut INTO v_retrait
+  FROM retraits
+  WHERE id = p_retrait_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Retrait non trouvé: %', p_retrait_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_retrait.statut <> 'En attente' THEN
+    RETURN FALSE;
+  END IF;
+
+  PERFORM mouvement_solde(
+    v_retrait.user_id,
+    v_retrait.montant,
+    'retrait',
+    'decaissements',
+    'Retrait ' || v_retrait.reference || ' non effectué',
+    NULL,
+    NULL,
+    p_acteur_id
+  );
+
+  UPDATE retraits
+  SET statut = 'Echoué',
+      motif_rejet = p_motif,
+      traite_par = p_acteur_id,
+      traite_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_retrait_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 17. Remboursement total ou partiel d'une commande
+-- Dans une seule transaction : vérifie et marque les quantités remboursées
+-- (commande_articles.quantite_remboursee), remet en stock les lignes
+-- retournées, reprend sur chaque sous-commande la part de la boutique et
+-- les frais de service (sur le solde en attente si le crédit n'est pas encore
+-- libéré, sinon sur le solde disponible), crédite le solde de l'acheteur si
+-- le remboursement se fait sur son portefeuille, enregistre le remboursement
+-- et met à jour le paiement (Remboursée une fois toutes les lignes remboursées).
+-- Une sous-commande déjà restituée (annulée) n'est ni remise en stock ni
+-- reprise : ses crédits ont déjà été annulés. Une sous-commande dont toutes
+-- les lignes sont remboursées est marquée restituée pour que
+-- restituer_commande ne la reprenne pas.
+--
+-- p_remboursement : { reference, commande_id (parente), reclamation_id, paiement_id,
+--                     user_id (acheteur), montant, mode, motif, reference_transfert, acteur_id }
+-- p_lignes        : [{ commande_article_id, quantite, remise_en_stock }]
+-- La valeur d'une ligne est son prix payé (remise du code promo déduite) ; sa
+-- part boutique exclut la remise quand celle-ci est financée par la plateforme.
+-- Sans montant, l'acheteur reçoit la valeur des lignes ; un montant inférieur
+-- (geste commercial) est réparti au prorata entre sous-commandes, puis entre
+-- part boutique et frais de service.
+-- Retourne l'id du remboursement.
+CREATE OR REPLACE FUNCTION rembourser_commande(
+  p_remboursement JSONB,
+  p_lignes JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_commande_id UUID := (p_remboursement->>'commande_id')::UUID;
+  v_paiement_id UUID := NULLIF(p_remboursement->>'paiement_id', '')::UUID;
+  v_acteur_id UUID := NULLIF(p_remboursement->>'acteur_id', '')::UUID;
+  v_libelle TEXT := 'Remboursement ' || (p_remboursement->>'reference');
+  v_demande JSONB;
+  v_ligne RECORD;
+  v_quantite INTEGER;
+  v_frais INTEGER;
+  v_valeur INTEGER;
+  v_remise_en_stock BOOLEAN;
+  v_lignes JSONB := '[]'::JSONB;
+  v_valeur_totale INTEGER;
+  v_montant INTEGER;
+  v_nb_sous INTEGER;
+  v_index INTEGER := 0;
+  v_reparti INTEGER := 0;
+  v_sous RECORD;
+  v_part_sous INTEGER;
+  v_part_boutique INTEGER;
+  v_credit RECORD;
+  v_reprise INTEGER;
+  v_remboursement_id UUID;
+BEGIN
+  -- Un seul remboursement à la fois par commande
+  PERFORM 1 FROM commandes WHERE id = v_commande_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commande non trouvée: %', v_commande_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Vérifier et marquer les quantités remboursées ligne par ligne
+  FOR v_demande IN
+    SELECT value FROM jsonb_array_elements(p_lignes)
+    ORDER BY value->>'commande_article_id'
+  LOOP
+    SELECT ca.id, ca.commande_id, ca.variation_id, ca.quantite, ca.quantite_remboursee,
+           ca.prix_unitaire, ca.frais_service, ca.remise_code_promo, ca.remise_financee_par,
+           c.restituee_at
+    INTO v_ligne
+    FROM commande_articles ca
+    JOIN commandes c ON c.id = ca.commande_id
+    WHERE ca.id = (v_demande->>'commande_article_id')::UUID
+      AND (c.id = v_commande_id OR c.parent_id = v_commande_id)
+    FOR UPDATE OF ca;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Ligne de commande non trouvée: %', v_demande->>'commande_article_id'
+        USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_quantite := (v_demande->>'quantite')::INTEGER;
+
+    IF v_quantite IS NULL OR v_quantite <= 0
+       OR v_quantite > v_ligne.quantite - v_ligne.quantite_remboursee THEN
+      RAISE EXCEPTION 'Quantité à rembourser invalide pour la ligne % (% restante(s))',
+        v_ligne.id, v_ligne.quantite - v_ligne.quantite_remboursee
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Frais de service de la ligne au prorata des quantités, calculés sur le
+    -- cumul pour que la somme des remboursements retombe exactement sur le total
+    v_frais := v_ligne.frais_service * (v_ligne.quantite_remboursee + v_quantite) / v_ligne.quantite
+             - v_ligne.frais_service * v_ligne.quantite_remboursee / v_ligne.quantite;
+
+    -- Même calcul pour la valeur payée, remise du code promo déduite
+    v_valeur := (v_ligne.prix_unitaire * v_ligne.quantite - v_ligne.remise_code_promo)
+                  * (v_ligne.quantite_remboursee + v_quantite) / v_ligne.quantite
+              - (v_ligne.prix_unitaire * v_ligne.quantite - v_ligne.remise_code_promo)
+                  * v_ligne.quantite_remboursee / v_ligne.quantite;
+
+    v_remise_en_stock := COALESCE((v_demande->>'remise_en_stock')::BOOLEAN, TRUE)
+                         AND v_ligne.variation_id IS NOT NULL
+                         AND v_ligne.restituee_at IS NULL;
+
+    UPDATE commande_articles
+    SET quantite_remboursee = quantite_remboursee + v_quantite,
+        updated_at = NOW()
+    WHERE id = v_ligne.id;
+
+    IF v_remise_en_stock THEN
+      UPDATE variations
+      SET stock = stock + v_quantite,
+          updated_at = NOW()
+      WHERE id = v_ligne.variation_id;
+
+      UPDATE stocks
+      SET quantite = quantite + v_quantite,
+          updated_at = NOW()
+      WHERE variation_id = v_ligne.variation_id;
+    END IF;
+
+    v_lignes := v_lignes || jsonb_build_object(
+      'commande_article_id', v_ligne.id,
+      'sous_commande_id', v_ligne.commande_id,
+      'quantite', v_quantite,
+      'valeur', v_valeur,
+      'frais_service', v_frais,
+      'part_boutique', CASE
+        WHEN v_ligne.remise_financee_par = 'plateforme' THEN v_ligne.prix_unitaire * v_quantite
+        ELSE v_valeur
+      END - v_frais,
+      'remis_en_stock', v_remise_en_stock,
+      'deja_restituee', v_ligne.restituee_at IS NOT NULL
+    );
+  END LOOP;
+
+  IF jsonb_array_length(v_lignes) = 0 THEN
+    RAISE EXCEPTION 'Aucune ligne à rembourser'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT SUM((value->>'valeur')::INTEGER), COUNT(DISTINCT value->>'sous_commande_id')
+  INTO v_valeur_totale, v_nb_sous
+  FROM jsonb_array_elements(v_lignes);
+
+  v_montant := COALESCE((p_remboursement->>'montant')::INTEGER, v_valeur_totale);
+
+  IF v_montant <= 0 OR v_montant > v_valeur_totale THEN
+    RAISE EXCEPTION 'Montant de remboursement invalide: % (maximum %)', v_montant, v_valeur_totale
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Reprendre les parts boutique et frais de service de chaque sous-commande
+  FOR v_sous IN
+    SELECT (value->>'sous_commande_id')::UUID AS id,
+           BOOL_OR((value->>'deja_restituee')::BOOLEAN) AS deja_restituee,
+           SUM((value->>'valeur')::INTEGER) AS valeur,
+           SUM((value->>'part_boutique')::INTEGER) AS part_boutique
+    FROM jsonb_array_elements(v_lignes)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    v_index := v_index + 1;
+
+    -- La dernière sous-commande porte l'arrondi : la somme vaut v_montant
+    IF v_index = v_nb_sous THEN
+      v_part_sous := v_montant - v_reparti;
+    ELSE
+      v_part_sous := v_sous.valeur * v_montant / v_valeur_totale;
+    END IF;
+    v_reparti := v_reparti + v_part_sous;
+
+    CONTINUE WHEN v_sous.deja_restituee;
+
+    v_part_boutique := CASE
+      WHEN v_sous.valeur = 0 THEN 0
+      ELSE v_sous.part_boutique * v_part_sous / v_sous.valeur
+    END;
+
+    FOR v_credit IN
+      SELECT cs.id, cs.user_id, cs.montant - cs.montant_rembourse AS restant,
+             cs.libere_at, u.role
+      FROM commande_soldes cs
+      JOIN users u ON u.id = cs.user_id
+      WHERE cs.commande_id = v_sous.id AND cs.annule_at IS NULL
+      ORDER BY cs.id
+      FOR UPDATE OF cs
+    LOOP
+      -- Le crédit de l'administrateur porte les frais de service, l'autre la part boutique
+      v_reprise := CASE WHEN v_credit.role = 'Administrateur'
+        THEN v_part_sous - v_part_boutique
+        ELSE v_part_boutique
+      END;
+
+      -- Un crédit négatif (remise financée par la plateforme) se reprend en
+      -- sens inverse : la plateforme récupère sa part de la remise
+      v_reprise := CASE WHEN v_credit.restant < 0
+        THEN GREATEST(v_reprise, v_credit.restant)
+        ELSE LEAST(v_reprise, v_credit.restant)
+      END;
+
+      CONTINUE WHEN v_reprise = 0 OR SIGN(v_reprise) <> SIGN(v_credit.restant);
+
+      IF v_credit.libere_at IS NULL THEN
+        PERFORM mouvement_sequestre(
+          v_credit.user_id,
+          -v_reprise,
+          'remboursement',
+          'encaissements',
+          v_libelle,
+          v_sous.id
+        );
+      ELSE
+        PERFORM mouvement_solde(
+          v_credit.user_id,
+          -v_reprise,
+          'remboursement',
+          'encaissements',
+          v_libelle,
+          v_sous.id,
+          v_paiement_id,
+          v_acteur_id
+        );
+      END IF;
+
+      UPDATE commande_soldes
+      SET montant_rembourse = montant_rembourse + v_reprise,
+          annule_at = CASE WHEN v_reprise = v_credit.restant THEN NOW() ELSE annule_at END
+      WHERE id = v_credit.id;
+    END LOOP;
+
+    -- Sous-commande entièrement remboursée : plus rien à restituer
+    UPDATE commandes
+    SET restituee_at = NOW()
+    WHERE id = v_sous.id
+      AND restituee_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM commande_articles
+        WHERE commande_id = v_sous.id AND quantite_remboursee < quantite
+      );
+  END LOOP;
+
+  -- Remboursement sur le solde de l'acheteur
+  IF p_remboursement->>'mode' = 'portefeuille' THEN
+    PERFORM mouvement_solde(
+      (p_remboursement->>'user_id')::UUID,
+      v_montant,
+      'remboursement',
+      'encaissements',
+      v_libelle,
+      v_commande_id,
+      v_paiement_id,
+      v_acteur_id
+    );
+  END IF;
+
+  INSERT INTO remboursements (
+    id, reference, commande_id, reclamation_id, paiement_id, user_id, montant,
+    mode, motif, lignes, reference_transfert, acteur_id, created_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    p_remboursement->>'reference',
+    v_commande_id,
+    NULLIF(p_remboursement->>'reclamation_id', '')::UUID,
+    v_paiement_id,
+    (p_remboursement->>'user_id')::UUID,
+    v_montant,
+    p_remboursement->>'mode',
+    p_remboursement->>'motif',
+    v_lignes,
+    NULLIF(p_remboursement->>'reference_transfert', ''),
+    v_acteur_id,
+    NOW()
+  )
+  RETURNING id INTO v_remboursement_id;
+
+  -- Paiement : cumul remboursé, et statut Remboursée une fois tout remboursé
+  IF v_paiement_id IS NOT NULL THEN
+    UPDATE paiements
+    SET details = jsonb_set(
+          COALESCE(details, '{}'::JSONB),
+          '{montant_rembourse}',
+          to_jsonb(COALESCE((details->>'montant_rembourse')::INTEGER, 0) + v_montant)
+        ),
+        statut = CASE
+          WHEN NOT EXISTS (
+            SELECT 1
+            FROM commande_articles ca
+            JOIN commandes c ON c.id = ca.commande_id
+            WHERE (c.id = v_commande_id OR c.parent_id = v_commande_id)
+              AND ca.quantite_remboursee < ca.quantite
+          ) THEN 'Remboursée'::paiement_statut
+          ELSE statut
+        END,
+        updated_at = NOW()
+    WHERE id = v_paiement_id;
+  END IF;
+
+  RETURN v_remboursement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 18. Remise des espèces d'un livreur
+-- Rattache à une nouvelle remise tous les encaissements encore dans la caisse
+-- du livreur (verrouillés : un encaissement ne peut pas être remis deux fois)
+-- et fixe le montant attendu à leur somme.
+-- Retourne l'id de la remise.
+CREATE OR REPLACE FUNCTION declarer_remise_especes(
+  p_livreur_id UUID,
+  p_reference TEXT,
+  p_montant_declare INTEGER,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_remise_id UUID;
+  v_ids UUID[];
+  v_total INTEGER;
+BEGIN
+  IF p_montant_declare < 0 THEN
+    RAISE EXCEPTION 'Montant remis invalide: %', p_montant_declare
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT ARRAY_AGG(id), COALESCE(SUM(montant), 0) INTO v_ids, v_total
+  FROM (
+    SELECT id, montant
+    FROM encaissements
+    WHERE livreur_id = p_livreur_id
+      AND remise_id IS NULL
+    FOR UPDATE
+  ) AS en_caisse;
+
+  IF v_ids IS NULL THEN
+    RAISE EXCEPTION 'Aucun encaissement à remettre pour le livreur %', p_livreur_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO remises_especes (
+    id, reference, livreur_id, montant_attendu, montant_declare, statut, note, created_at, updated_at
+  )
+  VALUES (
+    gen_random_uuid(), p_reference, p_livreur_id, v_total, p_montant_declare,
+    'En attente', p_note, NOW(), NOW()
+  )
+  RETURNING id INTO v_remise_id;
+
+  UPDATE encaissements
+  SET remise_id = v_remise_id
+  WHERE id = ANY(v_ids);
+
+  RETURN v_remise_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 19. Essai de code de remise
+-- Compte un essai sur le code de remise d'une livraison tant qu'il en reste
+-- (essais < p_max) et que le code n'a pas servi : l'incrément est atomique,
+-- des saisies parallèles ne peuvent pas dépasser la limite.
+-- Retourne le nombre d'essais après incrément, NULL s'il n'en reste plus.
+CREATE OR REPLACE FUNCTION essai_code_remise(
+  p_code_id UUID,
+  p_max INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_essais INTEGER;
+BEGIN
+  UPDATE codes_remise
+  SET essais = essais + 1
+  WHERE id = p_code_id
+    AND essais < p_max
+    AND utilise_at IS NULL
+  RETURNING essais INTO v_essais;
+
+  RETURN v_essais;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Note: Pour utiliser ces fonctions, exécutez ce script SQL dans votre base Supabase
 -- via le SQL Editor ou via les migrations Prisma
\ No newline at end of file
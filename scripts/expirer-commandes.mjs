@@ -0,0 +1,41 @@
+// Déclenche l'expiration des commandes impayées (/api/cron/expirer-commandes)
+// Usage : npm run cron:expirer-commandes [-- <delai_heures>]
+const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+if (!cronSecret) {
+  console.error("❌ Erreur : variable d'environnement CRON_SECRET manquante.");
+  process.exit(1);
+}
+
+async function expirerCommandes() {
+  const delaiHeures = process.argv[2];
+  const url = new URL('/api/cron/expirer-commandes', appUrl);
+  if (delaiHeures) url.searchParams.set('delai_heures', delaiHeures);
+
+  console.log(`⏳ Expiration des commandes impayées via ${url.origin}...`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${cronSecret}` },
+  });
+
+  const resultat = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    console.error(`❌ Échec : HTTP ${response.status}`, resultat?.error ?? '');
+    process.exit(1);
+  }
+
+  const { expirees, ignorees, erreurs, delai_heures } = resultat;
+  console.log(`✅ ${expirees.length} commande(s) annulée(s) après ${delai_heures} h sans paiement`);
+  expirees.forEach((c) => console.log(`   - ${c.numero}`));
+  console.log(`   Ignorées : ${ignorees.especes} en espèces, ${ignorees.paiement_en_cours} paiement en cours, ${ignorees.en_preparation} en préparation`);
+
+  if (erreurs.length > 0) {
+    erreurs.forEach((e) => console.error(`❌ ${e.numero} : ${e.error}`));
+    process.exit(1);
+  }
+}
+
+expirerCommandes();
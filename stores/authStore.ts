@@ -37,6 +37,7 @@ export interface User {
 
     // Status
     solde: number;
+    solde_en_attente: number;      // Gains en attente de livraison
     is_verified: boolean;
     is_active: boolean;
 
@@ -0,0 +1,199 @@
+// stores/codesPromoStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+import type { CodePromo, TypeCodePromo } from '@/app/lib/codesPromo';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CodePromoDetail extends CodePromo {
+    categorie: { id: string; nom: string } | null;
+    boutique: { id: string; name: string } | null;
+    createur: { id: string; name: string; role: string } | null;
+    utilisations: number;     // commandes non annulées
+    montant_remises: number;  // total des remises accordées
+}
+
+export interface CodePromoInput {
+    code: string;
+    description: string | null;
+    type: TypeCodePromo;
+    valeur: number;
+    remise_max: number | null;
+    montant_min: number;
+    limite_utilisation: number | null;
+    limite_par_utilisateur: number | null;
+    date_debut: string | null;
+    date_fin: string | null;
+    categorie_id: string | null;
+    boutique_id: string | null;
+    is_active: boolean;
+}
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface CodesPromoState extends LoadingState {
+    codes: CodePromoDetail[];
+
+    fetchCodes: () => Promise<void>;
+    createCode: (data: CodePromoInput) => Promise<CodePromoDetail>;
+    updateCode: (id: string, data: Partial<CodePromoInput>) => Promise<CodePromoDetail>;
+    deleteCode: (id: string) => Promise<void>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé.'; break;
+            case 404: errorMessage = 'Code promo introuvable.'; break;
+            case 409: errorMessage = 'Ce code existe déjà ou a déjà été utilisé.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useCodesPromoStore = createWithEqualityFn<CodesPromoState>((set, get) => ({
+    codes: [],
+    isLoading: false,
+    error: null,
+
+    fetchCodes: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/codes-promo/list', {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({ codes: data.codes || [], isLoading: false, error: null });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, codes: [] });
+
+            if (errorMessage.includes('authentifié')) {
+                useAuthStore.getState().logout();
+            }
+        }
+    },
+
+    createCode: async (data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/codes-promo/create', {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const { code } = await response.json();
+            set({ codes: [code, ...get().codes], isLoading: false, error: null });
+            return code;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de création';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    updateCode: async (id, data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/codes-promo/update/${id}`, {
+                method: 'PATCH',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            // Les statistiques d'utilisation ne sont renvoyées que par la liste
+            const { code } = await response.json();
+            const codes = get().codes.map(c => c.id === id ? { ...c, ...code } : c);
+            set({ codes, isLoading: false, error: null });
+            return codes.find(c => c.id === id) ?? code;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de mise à jour';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    deleteCode: async (id) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/codes-promo/delete/${id}`, {
+                method: 'DELETE',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            set({
+                codes: get().codes.filter(c => c.id !== id),
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de suppression';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    clearError: () => set({ error: null }),
+}));
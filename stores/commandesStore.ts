@@ -21,11 +21,17 @@ import { create } from 'zustand';
 import { useAuthStore } from './authStore';
 import {
     Commande,
+    CommandeHistorique,
     CommandeStatut,
     LoadingState,
     PaginationParams,
     SearchFilters
 } from './types/common';
+import {
+    getStatutsSuivants,
+    peutChangerStatut,
+    type CommandeStatutValue,
+} from '@/app/lib/commandeStatuts';
 
 // ============================================
 // FONCTIONS UTILITAIRES D'AUTH
@@ -66,6 +72,13 @@ interface CommandesState extends LoadingState {
      */
     selectedCommande: Commande | null;
 
+    /**
+     * Historique des statuts de la commande affichée
+     * Chargé à la demande par fetchHistorique
+     */
+    historique: CommandeHistorique[];
+    isHistoriqueLoading: boolean;
+
     /**
      * Informations de pagination
      */
@@ -108,12 +121,25 @@ interface CommandesState extends LoadingState {
      */
     fetchCommandeDetails: (id: string) => Promise<void>;
 
+    /**
+     * Récupère l'historique des changements de statut d'une commande
+     * @param id - ID de la commande
+     */
+    fetchHistorique: (id: string) => Promise<void>;
+
     /**
      * Met à jour le statut d'une commande
+     * La transition est vérifiée avec la machine à états avant l'appel API
      * @param id - ID de la commande
      * @param nouveauStatut - Le nouveau statut à appliquer
      */
-    updateStatut: (id: string, nouveauStatut: CommandeStatut) => Promise<void>;
+    updateStatut: (id: string, nouveauStatut: CommandeStatutValue) => Promise<void>;
+
+    /**
+     * Statuts que l'utilisateur connecté peut appliquer à une commande
+     * @param commande - La commande concernée
+     */
+    getStatutsPossibles: (commande: Commande) => CommandeStatutValue[];
 
     /**
      * Supprime une commande
@@ -156,6 +182,8 @@ export const useCommandesStore = create<CommandesState>((set, get) => ({
     // -------- ÉTAT INITIAL --------
     commandes: [],
     selectedCommande: null,
+    historique: [],
+    isHistoriqueLoading: false,
     isLoading: false,
     error: null,
 
@@ -306,20 +334,66 @@ export const useCommandesStore = create<CommandesState>((set, get) => ({
         }
     },
 
+    /**
+     * FETCH HISTORIQUE - Chronologie des statuts d'une commande
+     * 
+     * Chaque changement de statut (dashboard, livraison, remboursement)
+     * est enregistré côté serveur avec son auteur et sa date.
+     */
+    fetchHistorique: async (id: string) => {
+        set({ isHistoriqueLoading: true, historique: [] });
+
+        try {
+            const response = await fetch(`/api/commandes/${id}/historique`, {
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                const errBody = await response.json().catch(() => ({}));
+                throw new Error(errBody?.error ?? 'Erreur de chargement de l\'historique');
+            }
+
+            const data = await response.json();
+
+            set({
+                historique: data.historique ?? [],
+                isHistoriqueLoading: false,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error
+                ? error.message
+                : 'Erreur de chargement de l\'historique';
+
+            set({ isHistoriqueLoading: false });
+
+            console.error('❌ Erreur fetchHistorique:', errorMessage);
+        }
+    },
+
     /**
      * UPDATE STATUT - Changer le statut d'une commande
      * 
      * Cette fonction est très importante pour un admin.
      * Elle permet de faire avancer une commande dans son cycle de vie :
-     * en_attente → en_preparation → prete_pour_livraison → etc.
+     * En attente → En préparation → Prête pour livraison → etc.
      * 
      * Note : On met à jour localement ET côté serveur
-     * pour garder la cohérence des données
+     * pour garder la cohérence des données. La transition est d'abord
+     * vérifiée localement (même machine à états que l'API).
      */
-    updateStatut: async (id: string, nouveauStatut: CommandeStatut) => {
+    updateStatut: async (id: string, nouveauStatut: CommandeStatutValue) => {
         set({ isLoading: true, error: null });
 
         try {
+            const commande = get().commandes.find(cmd => cmd.id === id)
+                ?? (get().selectedCommande?.id === id ? get().selectedCommande : null);
+            const role = useAuthStore.getState().user?.role;
+
+            if (commande && role && !peutChangerStatut(commande.statut, nouveauStatut, [role])) {
+                throw new Error(`Transition "${commande.statut}" → "${nouveauStatut}" non autorisée`);
+            }
+
             // Appeler l'API pour mettre à jour le statut
             const response = await fetch(`/api/commandes/${id}/update-status`, {
                 method: 'PATCH',
@@ -328,8 +402,8 @@ export const useCommandesStore = create<CommandesState>((set, get) => ({
             });
 
             if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.message || 'Erreur de mise à jour du statut');
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || errorData.message || 'Erreur de mise à jour du statut');
             }
 
             // L'API retourne { message, commande }
@@ -358,6 +432,9 @@ export const useCommandesStore = create<CommandesState>((set, get) => ({
             // Recalculer les stats car le statut a changé
             get().calculateStats();
 
+            // Le changement vient d'être ajouté à l'historique
+            get().fetchHistorique(id);
+
             console.log(`✅ Statut de la commande ${commandeMiseAJour.numero} mis à jour:`, nouveauStatut);
 
         } catch (error) {
@@ -375,6 +452,18 @@ export const useCommandesStore = create<CommandesState>((set, get) => ({
         }
     },
 
+    /**
+     * GET STATUTS POSSIBLES - Prochains statuts valides
+     * 
+     * Utilisé par l'interface pour ne proposer que les transitions
+     * permises au rôle de l'utilisateur connecté
+     */
+    getStatutsPossibles: (commande: Commande) => {
+        const role = useAuthStore.getState().user?.role;
+        if (!role) return [];
+        return getStatutsSuivants(commande.statut, [role]);
+    },
+
     /**
      * DELETE COMMANDE - Supprimer une commande
      * 
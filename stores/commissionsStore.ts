@@ -0,0 +1,192 @@
+// stores/commissionsStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+import type { CommissionRegle, TypeCommission } from '@/app/lib/commissions';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RegleCommission extends CommissionRegle {
+    categorie: { id: string; nom: string } | null;
+    boutique: { id: string; name: string } | null;
+}
+
+export interface RegleCommissionInput {
+    nom: string;
+    type: TypeCommission;
+    valeur: number;
+    prix_min: number;
+    prix_max: number | null;
+    categorie_id: string | null;
+    boutique_id: string | null;
+    is_active: boolean;
+}
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface CommissionsState extends LoadingState {
+    regles: RegleCommission[];
+
+    fetchRegles: () => Promise<void>;
+    createRegle: (data: RegleCommissionInput) => Promise<RegleCommission>;
+    updateRegle: (id: string, data: Partial<RegleCommissionInput>) => Promise<RegleCommission>;
+    deleteRegle: (id: string) => Promise<void>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé. Privilèges administrateur requis.'; break;
+            case 404: errorMessage = 'Règle introuvable.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useCommissionsStore = createWithEqualityFn<CommissionsState>((set, get) => ({
+    regles: [],
+    isLoading: false,
+    error: null,
+
+    fetchRegles: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/commissions/list', {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({ regles: data.regles || [], isLoading: false, error: null });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, regles: [] });
+
+            if (errorMessage.includes('authentifié')) {
+                useAuthStore.getState().logout();
+            }
+        }
+    },
+
+    createRegle: async (data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/commissions/create', {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const { regle } = await response.json();
+            set({ regles: [...get().regles, regle], isLoading: false, error: null });
+            return regle;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de création';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    updateRegle: async (id, data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/commissions/update/${id}`, {
+                method: 'PATCH',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const { regle } = await response.json();
+            set({
+                regles: get().regles.map(r => r.id === id ? regle : r),
+                isLoading: false,
+                error: null,
+            });
+            return regle;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de mise à jour';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    deleteRegle: async (id) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/commissions/delete/${id}`, {
+                method: 'DELETE',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            set({
+                regles: get().regles.filter(r => r.id !== id),
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de suppression';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    clearError: () => set({ error: null }),
+}));
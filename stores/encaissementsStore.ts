@@ -0,0 +1,222 @@
+// stores/encaissementsStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StatutRemise = 'En attente' | 'Confirmée' | 'Écart';
+
+export interface CaisseLivreur {
+    livreur: { id: string; name: string; phone: string | null } | null;
+    livreur_id: string;
+    en_caisse: number;
+    attendu: number;
+    ecart: number;
+    nombre: number;
+    depuis: string;
+}
+
+export interface Encaissement {
+    id: string;
+    livraison_id: string;
+    commande_id: string;
+    livreur_id: string;
+    montant_attendu: number;
+    montant: number;
+    remise_id: string | null;
+    created_at: string;
+    livreur: { id: string; name: string; phone: string | null } | null;
+    commande: { id: string; numero: string; statut: string } | null;
+    paiement: { id: string; reference: string; statut: string } | null;
+    remise: { id: string; reference: string; statut: StatutRemise } | null;
+}
+
+export interface RemiseEspeces {
+    id: string;
+    reference: string;
+    livreur_id: string;
+    montant_attendu: number;
+    montant_declare: number;
+    montant_recu: number | null;
+    statut: StatutRemise;
+    note: string | null;
+    confirme_at: string | null;
+    created_at: string;
+    livreur: { id: string; name: string; phone: string | null } | null;
+    confirmateur: { id: string; name: string } | null;
+    encaissements: { id: string; montant: number; montant_attendu: number; commande: { id: string; numero: string } | null }[];
+}
+
+export interface ReceptionRemise {
+    livreur_id: string;
+    montant_declare: number;
+    montant_recu: number;
+    note?: string;
+}
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface EncaissementsState extends LoadingState {
+    caisses: CaisseLivreur[];
+    encaissements: Encaissement[];
+    remises: RemiseEspeces[];
+    remisesEnAttente: { nombre: number; montant: number };
+
+    fetchEncaissements: (filters?: { livreur_id?: string; en_caisse?: boolean }) => Promise<void>;
+    fetchRemises: (filters?: { statut?: StatutRemise }) => Promise<void>;
+    recevoirRemise: (reception: ReceptionRemise) => Promise<RemiseEspeces>;
+    confirmerRemise: (id: string, montantRecu: number, note?: string) => Promise<RemiseEspeces>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé. Privilèges administrateur requis.'; break;
+            case 404: errorMessage = 'Remise introuvable.'; break;
+            case 409: errorMessage = 'Cette remise a déjà été confirmée.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useEncaissementsStore = createWithEqualityFn<EncaissementsState>((set, get) => ({
+    caisses: [],
+    encaissements: [],
+    remises: [],
+    remisesEnAttente: { nombre: 0, montant: 0 },
+    isLoading: false,
+    error: null,
+
+    fetchEncaissements: async (filters = {}) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const params = new URLSearchParams({ limit: '200' });
+            if (filters.livreur_id) params.set('livreur_id', filters.livreur_id);
+            if (filters.en_caisse) params.set('en_caisse', 'true');
+
+            const response = await fetch(`/api/encaissements/list?${params.toString()}`, {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({
+                caisses: data.caisses || [],
+                encaissements: data.encaissements || [],
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, caisses: [], encaissements: [] });
+
+            if (errorMessage.includes('authentifié')) {
+                useAuthStore.getState().logout();
+            }
+        }
+    },
+
+    fetchRemises: async (filters = {}) => {
+        try {
+            const params = new URLSearchParams({ limit: '200' });
+            if (filters.statut) params.set('statut', filters.statut);
+
+            const response = await fetch(`/api/encaissements/remises/list?${params.toString()}`, {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({
+                remises: data.remises || [],
+                remisesEnAttente: data.en_attente || { nombre: 0, montant: 0 },
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, remises: [] });
+        }
+    },
+
+    recevoirRemise: async (reception) => {
+        const response = await fetch('/api/encaissements/remises/create', {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(reception),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const { remise } = await response.json();
+        set({
+            caisses: get().caisses.filter(c => c.livreur_id !== reception.livreur_id),
+            remises: [remise, ...get().remises],
+        });
+        return remise;
+    },
+
+    confirmerRemise: async (id, montantRecu, note) => {
+        const response = await fetch(`/api/encaissements/remises/${id}/confirm`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ montant_recu: montantRecu, note }),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const { remise } = await response.json();
+        set({ remises: get().remises.map(r => r.id === id ? remise : r) });
+        return remise;
+    },
+
+    clearError: () => set({ error: null }),
+}));
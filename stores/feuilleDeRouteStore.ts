@@ -0,0 +1,173 @@
+// stores/feuilleDeRouteStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+
+// ============================================
+// TYPES (réponse de /api/livraisons/livreur/feuille-de-route)
+// ============================================
+
+export interface ArretCollecte {
+    cle: string;
+    type: 'collecte';
+    fait_at: string | null;
+    boutique: { id: string; name: string; phone: string | null; adresse: string | null };
+    livraisons: { id: string; numero: string | null }[];
+}
+
+export interface ArretRemise {
+    cle: string;
+    type: 'remise';
+    fait_at: string | null;
+    ville: string;
+    quartier: string;
+    boutique_id: string | null;
+    livraison: {
+        id: string;
+        numero: string | null;
+        statut: string;
+        adresse: string;
+        details: string;
+        phone: string;
+        client: string | null;
+        date_livraison: string;
+        tentatives: number;
+    };
+    especes: number | null;
+}
+
+export type ArretTournee = ArretCollecte | ArretRemise;
+
+export type MotifEchecLivraison = 'absent' | 'adresse_erronee' | 'refus' | 'injoignable' | 'autre';
+
+export interface FeuilleDeRoute {
+    date: string;
+    livreur: { id: string; name: string; phone: string | null };
+    arrets: ArretTournee[];
+    especes_total: number;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface FeuilleDeRouteState {
+    feuille: FeuilleDeRoute | null;
+    isLoading: boolean;
+    error: string | null;
+
+    fetchFeuille: (date: string) => Promise<void>;
+    ordonnerArrets: (cles: string[]) => Promise<void>;
+    marquerArret: (cle: string, fait: boolean) => Promise<void>;
+    signalerEchec: (livraisonId: string, motif: MotifEchecLivraison, note?: string) => Promise<string>;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès réservé aux livreurs.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useFeuilleDeRouteStore = createWithEqualityFn<FeuilleDeRouteState>((set, get) => ({
+    feuille: null,
+    isLoading: false,
+    error: null,
+
+    /**
+     * FETCH FEUILLE - Tournée du livreur connecté pour une journée
+     */
+    fetchFeuille: async (date: string) => {
+        set({ isLoading: true, error: null });
+        try {
+            const response = await fetch(`/api/livraisons/livreur/feuille-de-route?date=${date}`, {
+                headers: getAuthHeaders(),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            set({ feuille: data.feuille, isLoading: false });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, feuille: null });
+            if (errorMessage.includes('authentifié')) useAuthStore.getState().logout();
+        }
+    },
+
+    /**
+     * ORDONNER ARRETS - Enregistre l'ordre de passage choisi
+     */
+    ordonnerArrets: async (cles: string[]) => {
+        const feuille = get().feuille;
+        if (!feuille) return;
+
+        const response = await fetch('/api/livraisons/livreur/feuille-de-route', {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ date: feuille.date, ordre: cles }),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+        set({ feuille: data.feuille });
+    },
+
+    /**
+     * MARQUER ARRET - Arrêt effectué (ou rouvert)
+     */
+    marquerArret: async (cle: string, fait: boolean) => {
+        const feuille = get().feuille;
+        if (!feuille) return;
+
+        const response = await fetch('/api/livraisons/livreur/feuille-de-route', {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ date: feuille.date, arret: { cle, fait } }),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+        set({ feuille: data.feuille });
+    },
+
+    /**
+     * SIGNALER ECHEC - Tentative de livraison échouée, avec son motif
+     * Retourne le message de l'API (report ou retour à la boutique).
+     */
+    signalerEchec: async (livraisonId: string, motif: MotifEchecLivraison, note?: string) => {
+        const response = await fetch(`/api/livraisons/${livraisonId}/tentatives`, {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ motif, note }),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+
+        const feuille = get().feuille;
+        if (feuille) await get().fetchFeuille(feuille.date);
+        return data.message;
+    },
+}));
@@ -39,10 +39,102 @@ export interface Livraison {
     commande_id: string;
     user_id: string | null;
     livreur_id: string | null;
+    // Preuve de remise au client (code, photo, signature ou clôture admin)
+    preuve_type?: string | null;
+    preuve_fichier?: string | null;
+    preuve_at?: string | null;
+    preuve_par?: string | null;
+    // Tentatives échouées ; retour_at : colis à retourner à la boutique
+    tentatives?: number;
+    retour_at?: string | null;
     created_at: string;
     updated_at: string;
     commandes?: LivraisonCommande;
     users?: LivraisonUser;
+    // Espèces encaissées à la livraison (commandes payées en espèces)
+    encaissement?: LivraisonEncaissement | null;
+}
+
+export interface LivraisonEncaissement {
+    id: string;
+    montant: number;
+    montant_attendu: number;
+    remise_id: string | null;
+    created_at: string;
+}
+
+export interface LivraisonPreuve {
+    type: string;
+    libelle: string;
+    url: string | null; // URL signée, valable une heure
+    at: string | null;
+    par: string | null;
+}
+
+// Étape du suivi (livraison_evenements)
+export interface LivraisonEvenement {
+    id: string;
+    type: string;
+    libelle: string;
+    note: string | null;
+    acteur_role: string | null;
+    created_at: string;
+    acteur: { id: string; name: string } | null;
+}
+
+// Livreur et critères du dispatch automatique (/api/livreurs/dispatch)
+export interface LivreurDispatch {
+    id: string;
+    name: string;
+    phone: string | null;
+    villes: string[];
+    zone_ids: string[];
+    disponible: boolean;
+    capacite: number;
+    charge: number;              // livraisons ouvertes
+    ponctualite: number | null;  // part livrée à l'heure, null sans historique
+    livrees: number;
+}
+
+export type ProfilLivreurInput = Partial<Pick<LivreurDispatch, 'villes' | 'zone_ids' | 'disponible' | 'capacite'>>;
+
+export interface EvaluationLivreur {
+    livreur_id: string;
+    name: string;
+    eligible: boolean;
+    score: number | null;  // sur 100, null si écarté
+    raisons: string[];
+}
+
+// Décision journalisée (attributions_livreur)
+export interface AttributionLivreur {
+    id: string;
+    livreur_id: string | null;
+    mode: 'auto' | 'manuel';
+    score: number | null;
+    raisons: string[];
+    created_at: string;
+    livreur: { id: string; name: string } | null;
+    acteur: { id: string; name: string } | null;  // null : dispatch à la création
+}
+
+export interface DispatchLivraison {
+    recommandation: { livreur_id: string; name: string; score: number | null; raisons: string[] } | null;
+    candidats: EvaluationLivreur[];
+    attributions: AttributionLivreur[];
+}
+
+export interface ResultatDispatch {
+    livraison_id: string;
+    numero?: string | null;
+    livreur: { id: string; name: string } | null;
+    score: number | null;
+    raisons: string[];
+}
+
+export interface ResultatDispatchLot {
+    assignees: ResultatDispatch[];
+    non_assignees: ResultatDispatch[];
 }
 
 export interface LivraisonStats {
@@ -63,10 +155,20 @@ interface LivraisonsState {
     isLoading: boolean;
     error: string | null;
     stats: LivraisonStats;
+    evenements: Record<string, LivraisonEvenement[]>; // par livraison
+    livreurs: LivreurDispatch[];
 
     fetchLivraisons: () => Promise<void>;
-    updateStatut: (id: string, statut: LivraisonStatut) => Promise<void>;
+    fetchEvenements: (id: string) => Promise<void>;
+    fetchPreuve: (id: string) => Promise<LivraisonPreuve | null>;
+    updateStatut: (id: string, statut: LivraisonStatut, montantEncaisse?: number, codeRemise?: string) => Promise<void>;
     deleteLivraison: (id: string) => Promise<void>;
+    fetchLivreurs: () => Promise<void>;
+    fetchDispatch: (id: string) => Promise<DispatchLivraison>;
+    assignerLivreur: (id: string, livreurId: string) => Promise<void>;
+    dispatcherLivraison: (id: string) => Promise<ResultatDispatch>;
+    dispatcherEnAttente: () => Promise<ResultatDispatchLot>;
+    updateProfilLivreur: (id: string, data: ProfilLivreurInput) => Promise<void>;
     setSelectedLivraison: (livraison: Livraison | null) => void;
     calculateStats: () => void;
     clearError: () => void;
@@ -94,7 +196,10 @@ async function handleApiError(response: Response): Promise<never> {
     let errorMessage = 'Une erreur est survenue';
     try {
         const errorData = await response.json();
-        errorMessage = errorData.error || errorData.message || errorMessage;
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorData.message
+            || errorMessage;
     } catch {
         switch (response.status) {
             case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
@@ -143,6 +248,8 @@ export const useLivraisonsStore = createWithEqualityFn<LivraisonsState>((set, ge
     isLoading: false,
     error: null,
     stats: initialStats,
+    evenements: {},
+    livreurs: [],
 
     /**
      * FETCH LIVRAISONS - Récupérer toutes les livraisons (admin)
@@ -172,16 +279,44 @@ export const useLivraisonsStore = createWithEqualityFn<LivraisonsState>((set, ge
         }
     },
 
+    /**
+     * FETCH EVENEMENTS - Chronologie du suivi d'une livraison
+     */
+    fetchEvenements: async (id: string) => {
+        try {
+            const response = await fetch(`/api/livraisons/${id}/evenements`, {
+                headers: getAuthHeaders(),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            set({ evenements: { ...get().evenements, [id]: data.evenements || [] } });
+        } catch (error) {
+            console.error('❌ Erreur fetchEvenements:', error instanceof Error ? error.message : error);
+        }
+    },
+
+    /**
+     * FETCH PREUVE - Preuve de remise au client d'une livraison
+     */
+    fetchPreuve: async (id: string) => {
+        const response = await fetch(`/api/livraisons/${id}/preuve`, {
+            headers: getAuthHeaders(),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+        return data.preuve ?? null;
+    },
+
     /**
      * UPDATE STATUT - Mettre à jour le statut d'une livraison (admin)
      */
-    updateStatut: async (id: string, statut: LivraisonStatut) => {
+    updateStatut: async (id: string, statut: LivraisonStatut, montantEncaisse?: number, codeRemise?: string) => {
         set({ isLoading: true, error: null });
         try {
             const response = await fetch(`/api/livraisons/${id}/update`, {
                 method: 'PATCH',
                 headers: getAuthHeaders(),
-                body: JSON.stringify({ statut }),
+                body: JSON.stringify({ statut, montant_encaisse: montantEncaisse, code_remise: codeRemise }),
             });
             if (!response.ok) await handleApiError(response);
             const data = await response.json();
@@ -192,6 +327,7 @@ export const useLivraisonsStore = createWithEqualityFn<LivraisonsState>((set, ge
                 : get().selectedLivraison;
             set({ livraisons, selectedLivraison, isLoading: false, error: null });
             get().calculateStats();
+            if (get().evenements[id]) await get().fetchEvenements(id);
             console.log(`✅ Statut mis à jour : ${statut}`);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Erreur de mise à jour';
@@ -225,6 +361,135 @@ export const useLivraisonsStore = createWithEqualityFn<LivraisonsState>((set, ge
         }
     },
 
+    /**
+     * FETCH LIVREURS - Livreurs actifs, secteurs, charge et ponctualité (admin)
+     */
+    fetchLivreurs: async () => {
+        try {
+            const response = await fetch('/api/livreurs/dispatch', {
+                headers: getAuthHeaders(),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            set({ livreurs: data.livreurs || [] });
+        } catch (error) {
+            console.error('❌ Erreur fetchLivreurs:', error instanceof Error ? error.message : error);
+        }
+    },
+
+    /**
+     * FETCH DISPATCH - Classement des livreurs et journal des attributions
+     */
+    fetchDispatch: async (id: string) => {
+        const response = await fetch(`/api/livraisons/${id}/dispatch`, {
+            headers: getAuthHeaders(),
+        });
+        if (!response.ok) await handleApiError(response);
+        return response.json();
+    },
+
+    /**
+     * ASSIGNER LIVREUR - Assignation manuelle (prime sur le dispatch)
+     */
+    assignerLivreur: async (id: string, livreurId: string) => {
+        set({ isLoading: true, error: null });
+        try {
+            const response = await fetch(`/api/livraisons/${id}/update`, {
+                method: 'PATCH',
+                headers: getAuthHeaders(),
+                body: JSON.stringify({ livreur_id: livreurId }),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            const updated: Livraison = data.livraison;
+            const livraisons = get().livraisons.map(l => l.id === id ? updated : l);
+            set({ livraisons, isLoading: false, error: null });
+            get().calculateStats();
+            if (get().evenements[id]) await get().fetchEvenements(id);
+            await get().fetchLivreurs();
+            console.log('✅ Livreur assigné');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Erreur d'assignation";
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    /**
+     * DISPATCHER LIVRAISON - Assigne automatiquement le livreur le mieux noté
+     */
+    dispatcherLivraison: async (id: string) => {
+        set({ isLoading: true, error: null });
+        try {
+            const response = await fetch(`/api/livraisons/${id}/dispatch`, {
+                method: 'POST',
+                headers: getAuthHeaders(),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            const updated: Livraison | null = data.livraison;
+            const livraisons = updated
+                ? get().livraisons.map(l => l.id === id ? updated : l)
+                : get().livraisons;
+            set({ livraisons, isLoading: false, error: null });
+            get().calculateStats();
+            if (get().evenements[id]) await get().fetchEvenements(id);
+            await get().fetchLivreurs();
+            return data.dispatch;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de dispatch';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    /**
+     * DISPATCHER EN ATTENTE - Assigne toutes les livraisons en attente
+     */
+    dispatcherEnAttente: async () => {
+        set({ isLoading: true, error: null });
+        try {
+            const response = await fetch('/api/livraisons/dispatch', {
+                method: 'POST',
+                headers: getAuthHeaders(),
+            });
+            if (!response.ok) await handleApiError(response);
+            const data = await response.json();
+            set({ isLoading: false });
+            await Promise.all([get().fetchLivraisons(), get().fetchLivreurs()]);
+            console.log(`✅ ${data.assignees?.length ?? 0} livraison(s) assignée(s)`);
+            return { assignees: data.assignees || [], non_assignees: data.non_assignees || [] };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de dispatch';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    /**
+     * UPDATE PROFIL LIVREUR - Secteurs, capacité et disponibilité (admin)
+     */
+    updateProfilLivreur: async (id: string, data: ProfilLivreurInput) => {
+        const response = await fetch(`/api/livreurs/${id}/profil`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify(data),
+        });
+        if (!response.ok) await handleApiError(response);
+        const { profil } = await response.json();
+        set({
+            livreurs: get().livreurs.map(l => l.id === id
+                ? {
+                    ...l,
+                    villes: profil.villes ?? [],
+                    zone_ids: profil.zone_ids ?? [],
+                    disponible: profil.disponible,
+                    capacite: profil.capacite,
+                }
+                : l),
+        });
+    },
+
     setSelectedLivraison: (livraison) => set({ selectedLivraison: livraison }),
 
     calculateStats: () => {
@@ -40,6 +40,62 @@ export interface Reclamation {
     commandes?: ReclamationCommande;
 }
 
+export type ModeRemboursement = 'portefeuille' | 'methode_origine';
+
+export interface LigneRemboursable {
+    id: string;
+    commande_id: string;
+    quantite: number;
+    quantite_remboursee: number;
+    quantite_remboursable: number;
+    prix_unitaire: number;
+    remise_code_promo: number; // part de la remise du code promo sur la ligne
+    commande: { id: string; numero: string; statut: string } | null;
+    articles: { id: string; nom: string; image_principale: string | null } | null;
+    variations: { id: string; couleur: string | null; taille: string | null } | null;
+}
+
+export interface Remboursement {
+    id: string;
+    reference: string;
+    montant: number;
+    mode: ModeRemboursement;
+    motif: string;
+    reference_transfert: string | null;
+    created_at: string;
+    acteur: { id: string; name: string } | null;
+}
+
+export interface InfosRemboursement {
+    paiement: { id: string; reference: string; methode: string; statut: string; montant: number } | null;
+    lignes: LigneRemboursable[];
+    remboursements: Remboursement[];
+}
+
+export interface DemandeRemboursement {
+    lignes?: { commande_article_id: string; quantite: number; remise_en_stock?: boolean }[];
+    montant?: number;
+    mode: ModeRemboursement;
+    motif?: string;
+    reference_transfert?: string;
+}
+
+// Preuve de remise et suivi d'une livraison de la commande réclamée
+export interface PreuveLivraisonReclamation {
+    id: string;
+    statut: string;
+    date_livraison: string;
+    commande: { id: string; numero: string } | null;
+    preuve: {
+        type: string;
+        libelle: string;
+        url: string | null;
+        at: string | null;
+        par: string | null;
+    } | null;
+    evenements: { id: string; type: string; libelle: string; note: string | null; acteur_role: string | null; created_at: string }[];
+}
+
 export interface ReclamationStats {
     total: number;
     en_attente: number;
@@ -60,7 +116,9 @@ interface ReclamationsState {
     stats: ReclamationStats;
 
     fetchReclamations: () => Promise<void>;
-    updateStatut: (id: string, statut: ReclamationStatut) => Promise<void>;
+    updateStatut: (id: string, statut: ReclamationStatut, remboursement?: DemandeRemboursement) => Promise<void>;
+    fetchInfosRemboursement: (commandeId: string) => Promise<InfosRemboursement>;
+    fetchPreuvesLivraison: (id: string) => Promise<PreuveLivraisonReclamation[]>;
     deleteReclamation: (id: string) => Promise<void>;
     setSelectedReclamation: (reclamation: Reclamation | null) => void;
     calculateStats: () => void;
@@ -150,14 +208,17 @@ export const useReclamationsStore = createWithEqualityFn<ReclamationsState>((set
 
     /**
      * UPDATE STATUT - Mettre à jour le statut d'une réclamation (admin)
+     *
+     * Passer à « Remboursée » rembourse l'acheteur selon `remboursement`
+     * (par défaut : tout le restant, sur son solde).
      */
-    updateStatut: async (id: string, statut: ReclamationStatut) => {
+    updateStatut: async (id: string, statut: ReclamationStatut, remboursement?: DemandeRemboursement) => {
         set({ isLoading: true, error: null });
         try {
             const response = await fetch(`/api/reclamations/${id}/update-status`, {
                 method: 'PATCH',
                 headers: getAuthHeaders(),
-                body: JSON.stringify({ statut }),
+                body: JSON.stringify({ statut, remboursement }),
             });
             if (!response.ok) await handleApiError(response);
             const data = await response.json();
@@ -176,6 +237,36 @@ export const useReclamationsStore = createWithEqualityFn<ReclamationsState>((set
         }
     },
 
+    /**
+     * FETCH INFOS REMBOURSEMENT - Lignes remboursables, paiement et
+     * remboursements déjà accordés pour la commande d'une réclamation
+     */
+    fetchInfosRemboursement: async (commandeId: string) => {
+        const response = await fetch(`/api/remboursements/commande/${commandeId}`, {
+            headers: getAuthHeaders(),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+        return {
+            paiement: data.paiement ?? null,
+            lignes: data.lignes || [],
+            remboursements: data.remboursements || [],
+        };
+    },
+
+    /**
+     * FETCH PREUVES LIVRAISON - Preuves de remise et suivi des livraisons
+     * de la commande réclamée
+     */
+    fetchPreuvesLivraison: async (id: string) => {
+        const response = await fetch(`/api/reclamations/${id}/preuves-livraison`, {
+            headers: getAuthHeaders(),
+        });
+        if (!response.ok) await handleApiError(response);
+        const data = await response.json();
+        return data.livraisons || [];
+    },
+
     /**
      * DELETE RECLAMATION - Supprimer une réclamation (admin)
      */
@@ -0,0 +1,212 @@
+// stores/retraitsStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StatutRetrait = 'En attente' | 'Validé' | 'Echoué';
+
+export type MethodeRetrait = 'airtel_money' | 'moov_money';
+
+export interface RecuRetrait {
+    numero: string;
+    emis_le: string;
+    beneficiaire: { id: string; nom: string | null; telephone: string };
+    montant: number;
+    methode: MethodeRetrait;
+    reference_retrait: string;
+    reference_transfert: string;
+    lot: string | null;
+    valide_par: { id: string; nom: string };
+}
+
+export interface Retrait {
+    id: string;
+    reference: string;
+    user_id: string;
+    montant: number;
+    methode: MethodeRetrait;
+    telephone: string;
+    statut: StatutRetrait;
+    reference_transfert: string | null;
+    recu_url: string | null;
+    recu: RecuRetrait | null;
+    lot: string | null;
+    motif_rejet: string | null;
+    traite_at: string | null;
+    created_at: string;
+    user: { id: string; name: string; email: string; phone: string | null; solde?: number } | null;
+    traitant: { id: string; name: string } | null;
+}
+
+export interface RetraitsFilters {
+    statut?: StatutRetrait;
+    user_id?: string;
+    lot?: string;
+}
+
+export interface ValidationRetrait {
+    reference_transfert: string;
+    recu_url?: string;
+}
+
+export interface ResultatLotRetraits {
+    traites: Retrait[];
+    ignores: { id: string; error: string }[];
+}
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface RetraitsState extends LoadingState {
+    retraits: Retrait[];
+    enAttente: { nombre: number; montant: number };
+
+    fetchRetraits: (filters?: RetraitsFilters) => Promise<void>;
+    validerRetrait: (id: string, data: ValidationRetrait) => Promise<Retrait>;
+    rejeterRetrait: (id: string, motif: string) => Promise<Retrait>;
+    traiterLot: (
+        ids: string[],
+        action: 'valider' | 'rejeter',
+        data: { lot?: string; recu_url?: string; motif?: string }
+    ) => Promise<ResultatLotRetraits>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé. Privilèges administrateur requis.'; break;
+            case 404: errorMessage = 'Retrait introuvable.'; break;
+            case 409: errorMessage = 'Ce retrait a déjà été traité.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useRetraitsStore = createWithEqualityFn<RetraitsState>((set, get) => ({
+    retraits: [],
+    enAttente: { nombre: 0, montant: 0 },
+    isLoading: false,
+    error: null,
+
+    fetchRetraits: async (filters = {}) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const params = new URLSearchParams({ limit: '200' });
+            if (filters.statut) params.set('statut', filters.statut);
+            if (filters.user_id) params.set('user_id', filters.user_id);
+            if (filters.lot) params.set('lot', filters.lot);
+
+            const response = await fetch(`/api/retraits/list?${params.toString()}`, {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({
+                retraits: data.retraits || [],
+                enAttente: data.en_attente || { nombre: 0, montant: 0 },
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, retraits: [] });
+
+            if (errorMessage.includes('authentifié')) {
+                useAuthStore.getState().logout();
+            }
+        }
+    },
+
+    validerRetrait: async (id, data) => {
+        const response = await fetch(`/api/retraits/${id}/update-status`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ statut: 'Validé', ...data }),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const { retrait } = await response.json();
+        set({ retraits: get().retraits.map(r => r.id === id ? retrait : r) });
+        return retrait;
+    },
+
+    rejeterRetrait: async (id, motif) => {
+        const response = await fetch(`/api/retraits/${id}/update-status`, {
+            method: 'PATCH',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ statut: 'Echoué', motif }),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const { retrait } = await response.json();
+        set({ retraits: get().retraits.map(r => r.id === id ? retrait : r) });
+        return retrait;
+    },
+
+    traiterLot: async (ids, action, data) => {
+        const response = await fetch('/api/retraits/batch', {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ ids, action, ...data }),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const resultat: ResultatLotRetraits = await response.json();
+        const traites = new Map(resultat.traites.map(r => [r.id, r]));
+        set({ retraits: get().retraits.map(r => traites.get(r.id) ?? r) });
+        return resultat;
+    },
+
+    clearError: () => set({ error: null }),
+}));
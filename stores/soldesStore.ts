@@ -0,0 +1,210 @@
+// stores/soldesStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TypeMouvement =
+    | 'vente'
+    | 'frais_service'
+    | 'liberation'
+    | 'annulation'
+    | 'remboursement'
+    | 'retrait'
+    | 'ajustement'
+    | 'ouverture';
+
+export interface MouvementSolde {
+    id: string;
+    ecriture_id: string;
+    type: TypeMouvement;
+    montant: number;
+    solde_apres: number | null;
+    libelle: string | null;
+    commande_id: string | null;
+    paiement_id: string | null;
+    created_at: string;
+    commande: { id: string; numero: string } | null;
+    paiement: { id: string; reference: string; methode: string } | null;
+    acteur: { id: string; name: string } | null;
+}
+
+export interface TitulaireSolde {
+    id: string;
+    name: string;
+    email: string;
+    role: string;
+    solde: number;
+    solde_en_attente: number;
+}
+
+export interface FondsEnAttente {
+    id: string;
+    montant: number;
+    liberable_at: string | null;   // null tant que la commande n'est pas livrée
+    created_at: string;
+    commande: { id: string; numero: string; statut: string } | null;
+}
+
+export type CompteSolde = 'portefeuille' | 'sequestre';
+
+export interface EcartSolde {
+    user_id: string;
+    solde: number;
+    solde_grand_livre: number;
+    ecart: number;
+    user: { id: string; name: string; email: string; role: string } | null;
+}
+
+export interface ReleveFilters {
+    compte?: CompteSolde;
+    type?: TypeMouvement;
+    date_debut?: string;
+    date_fin?: string;
+}
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface SoldesState extends LoadingState {
+    titulaire: TitulaireSolde | null;
+    mouvements: MouvementSolde[];
+    fondsEnAttente: FondsEnAttente[];
+    ecarts: EcartSolde[];
+
+    fetchReleve: (userId?: string, filters?: ReleveFilters) => Promise<void>;
+    fetchEcarts: () => Promise<void>;
+    regulariser: (userId: string, motif?: string) => Promise<number>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé. Privilèges administrateur requis.'; break;
+            case 404: errorMessage = 'Utilisateur introuvable.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useSoldesStore = createWithEqualityFn<SoldesState>((set, get) => ({
+    titulaire: null,
+    mouvements: [],
+    fondsEnAttente: [],
+    ecarts: [],
+    isLoading: false,
+    error: null,
+
+    fetchReleve: async (userId, filters = {}) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const params = new URLSearchParams({ limit: '200' });
+            if (userId) params.set('user_id', userId);
+            if (filters.compte) params.set('compte', filters.compte);
+            if (filters.type) params.set('type', filters.type);
+            if (filters.date_debut) params.set('date_debut', filters.date_debut);
+            if (filters.date_fin) params.set('date_fin', filters.date_fin);
+
+            const response = await fetch(`/api/soldes/releve?${params.toString()}`, {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({
+                titulaire: data.titulaire,
+                mouvements: data.mouvements || [],
+                fondsEnAttente: data.fonds_en_attente || [],
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, titulaire: null, mouvements: [], fondsEnAttente: [] });
+        }
+    },
+
+    fetchEcarts: async () => {
+        try {
+            const response = await fetch('/api/soldes/reconciliation', {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({ ecarts: data.ecarts || [] });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de rapprochement';
+            set({ error: errorMessage, ecarts: [] });
+        }
+    },
+
+    regulariser: async (userId, motif) => {
+        const response = await fetch('/api/soldes/reconciliation', {
+            method: 'POST',
+            headers: getAuthHeaders(),
+            body: JSON.stringify({ user_id: userId, motif }),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const data = await response.json();
+        await get().fetchEcarts();
+
+        // Le relevé affiché inclut désormais la ligne de régularisation
+        if (get().titulaire?.id === userId) {
+            await get().fetchReleve(userId);
+        }
+
+        return data.ecart as number;
+    },
+
+    clearError: () => set({ error: null }),
+}));
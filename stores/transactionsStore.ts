@@ -7,7 +7,7 @@ import { useAuthStore } from './authStore';
 // ============================================
 
 export type PaiementStatut = 'en_attente' | 'valide' | 'echoue' | 'rembourse';
-export type PaiementMethode = 'carte' | 'mobile_money' | 'especes';
+export type PaiementMethode = 'carte' | 'mobile_money' | 'airtel_money' | 'moov_money' | 'especes' | 'mock';
 
 export interface TransactionUser {
     id: string;
@@ -35,6 +35,8 @@ export interface Transaction {
     updated_at: string;
     users: TransactionUser | null;
     commandes: TransactionCommande[];
+    commande_id: string | null;
+    commande: (TransactionCommande & { numero: string }) | null;
 }
 
 export interface TransactionStats {
@@ -53,6 +55,49 @@ export interface TransactionFilters {
     search?: string;
 }
 
+export type TypeAnomalie =
+    | 'absent_plateforme'
+    | 'absent_releve'
+    | 'doublon'
+    | 'ecart_montant'
+    | 'statut_divergent'
+    | 'commande_sans_paiement_valide';
+
+export interface AnomalieRapprochement {
+    type: TypeAnomalie;
+    ligne: number | null;              // ligne du relevé (null si absente du relevé)
+    reference: string | null;
+    transaction_id: string | null;
+    montant_releve: number | null;
+    montant_plateforme: number | null;
+    statut_releve: string | null;
+    statut_plateforme: string | null;
+    paiement_id: string | null;
+    commande: { id: string; numero: string; statut: string } | null;
+    message: string;
+}
+
+export interface RapportRapprochement {
+    methode: string;
+    periode: { debut: string | null; fin: string | null };
+    resume: {
+        lignes: number;
+        rapprochees: number;
+        montant_releve: number;
+        montant_rapproche: number;
+        anomalies: Record<TypeAnomalie, number>;
+    };
+    anomalies: AnomalieRapprochement[];
+    erreurs: string[];
+}
+
+export interface ReleveFournisseur {
+    methode: PaiementMethode;
+    contenu: string;
+    date_debut?: string;
+    date_fin?: string;
+}
+
 interface LoadingState {
     isLoading: boolean;
     error: string | null;
@@ -66,11 +111,16 @@ interface TransactionsState extends LoadingState {
     transactions: Transaction[];
     stats: TransactionStats;
     currentFilters: TransactionFilters;
+    rapport: RapportRapprochement | null;
+    commandesSansPaiement: AnomalieRapprochement[];
 
     fetchTransactions: (filters?: TransactionFilters) => Promise<void>;
     setFilters: (filters: TransactionFilters) => void;
     resetFilters: () => void;
     calculateStats: () => void;
+    rapprocher: (releve: ReleveFournisseur) => Promise<RapportRapprochement>;
+    fetchCommandesSansPaiement: () => Promise<void>;
+    clearRapport: () => void;
     clearError: () => void;
     refresh: () => Promise<void>;
 }
@@ -89,7 +139,11 @@ async function handleApiError(response: Response): Promise<never> {
     let errorMessage = 'Une erreur est survenue';
     try {
         const errorData = await response.json();
-        errorMessage = errorData.error || errorData.message || errorMessage;
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorData.message
+            || errorMessage;
+        if (errorData.details) errorMessage = `${errorMessage} (${errorData.details})`;
     } catch {
         switch (response.status) {
             case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
@@ -147,6 +201,8 @@ export const useTransactionsStore = createWithEqualityFn<TransactionsState>((set
     transactions: [],
     stats: initialStats,
     currentFilters: {},
+    rapport: null,
+    commandesSansPaiement: [],
     isLoading: false,
     error: null,
 
@@ -224,6 +280,47 @@ export const useTransactionsStore = createWithEqualityFn<TransactionsState>((set
         get().fetchTransactions({});
     },
 
+    rapprocher: async (releve) => {
+        const response = await fetch('/api/paiements/reconciliation', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${getAuthToken()}`,
+            },
+            body: JSON.stringify(releve),
+        });
+
+        if (!response.ok) {
+            await handleApiError(response);
+        }
+
+        const rapport: RapportRapprochement = await response.json();
+        set({ rapport });
+        return rapport;
+    },
+
+    fetchCommandesSansPaiement: async () => {
+        try {
+            const response = await fetch('/api/paiements/reconciliation', {
+                method: 'GET',
+                headers: { 'Authorization': `Bearer ${getAuthToken()}` },
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({ commandesSansPaiement: data.anomalies || [] });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de rapprochement';
+            set({ error: errorMessage, commandesSansPaiement: [] });
+        }
+    },
+
+    clearRapport: () => set({ rapport: null }),
+
     clearError: () => set({ error: null }),
 
     refresh: async () => {
@@ -83,7 +83,11 @@ export interface Commande {
     user_id: string;
     vendeur_id: string | null;
     paiement_id: string | null;
+    parent_id: string | null;
     adresse_livraison: string;
+    zone_livraison_id: string | null;
+    frais_livraison: number;
+    motif_annulation?: string | null;
     created_at: string;
     updated_at: string;
 
@@ -93,6 +97,26 @@ export interface Commande {
     articles?: ArticleCommande[];
     livraison?: Livraison;
     paiement?: Paiement;
+    sous_commandes?: Commande[]; // Une par boutique pour une commande multi-boutiques
+}
+
+/**
+ * Type pour une entrée de l'historique des statuts d'une commande
+ * Correspond à la table commande_historiques
+ */
+export interface CommandeHistorique {
+    id: string;
+    commande_id: string;
+    ancien_statut: string | null;
+    nouveau_statut: string;
+    acteur_id: string | null;
+    acteur_role: string | null;
+    source: 'commande' | 'livraison' | 'remboursement' | 'systeme';
+    note: string | null;
+    created_at: string;
+
+    // Relations
+    acteur?: { id: string; name: string; role: string } | null;
 }
 
 /**
@@ -181,6 +205,7 @@ export interface User {
     description: string | null;
     address: string | null;
     solde: number;
+    solde_en_attente: number;
     is_verified: boolean;
     is_active: boolean;
     created_at: string;
@@ -212,6 +237,7 @@ export interface Livraison {
     commande_id: string;
     user_id: string | null;
     livreur_id: string | null;
+    zone_livraison_id: string | null;
     created_at: string;
     updated_at: string;
 
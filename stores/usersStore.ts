@@ -20,6 +20,7 @@ export interface User {
     description: string | null;
     address: string | null;
     solde: number;
+    solde_en_attente: number;
     is_verified: boolean;
     is_active: boolean;
     created_at: string;
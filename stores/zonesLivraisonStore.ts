@@ -0,0 +1,178 @@
+// stores/zonesLivraisonStore.ts
+import { createWithEqualityFn } from 'zustand/traditional';
+import { useAuthStore } from './authStore';
+import type { ZoneLivraison } from '@/app/lib/zonesLivraison';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ZoneLivraisonInput = Omit<ZoneLivraison, 'id' | 'created_at' | 'updated_at'>;
+
+interface LoadingState {
+    isLoading: boolean;
+    error: string | null;
+}
+
+// ============================================
+// INTERFACE DU STORE
+// ============================================
+
+interface ZonesLivraisonState extends LoadingState {
+    zones: ZoneLivraison[];
+
+    fetchZones: () => Promise<void>;
+    createZone: (data: ZoneLivraisonInput) => Promise<ZoneLivraison>;
+    updateZone: (id: string, data: Partial<ZoneLivraisonInput>) => Promise<ZoneLivraison>;
+    deleteZone: (id: string) => Promise<void>;
+    clearError: () => void;
+}
+
+// ============================================
+// FONCTIONS UTILITAIRES
+// ============================================
+
+function getAuthHeaders(): HeadersInit {
+    const token = useAuthStore.getState().token;
+    if (!token) throw new Error('Non authentifié. Veuillez vous connecter.');
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+    };
+}
+
+async function handleApiError(response: Response): Promise<never> {
+    let errorMessage = 'Une erreur est survenue';
+    try {
+        const errorData = await response.json();
+        errorMessage = errorData.error
+            || errorData.errors?.map((e: { message: string }) => e.message).join(', ')
+            || errorMessage;
+    } catch {
+        switch (response.status) {
+            case 401: errorMessage = 'Non authentifié. Veuillez vous reconnecter.'; break;
+            case 403: errorMessage = 'Accès refusé. Privilèges administrateur requis.'; break;
+            case 404: errorMessage = 'Zone introuvable.'; break;
+            case 500: errorMessage = 'Erreur serveur. Veuillez réessayer plus tard.'; break;
+        }
+    }
+    throw new Error(errorMessage);
+}
+
+// ============================================
+// CRÉATION DU STORE
+// ============================================
+
+export const useZonesLivraisonStore = createWithEqualityFn<ZonesLivraisonState>((set, get) => ({
+    zones: [],
+    isLoading: false,
+    error: null,
+
+    fetchZones: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/zones/list', {
+                method: 'GET',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const data = await response.json();
+            set({ zones: data.zones || [], isLoading: false, error: null });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de chargement';
+            set({ error: errorMessage, isLoading: false, zones: [] });
+
+            if (errorMessage.includes('authentifié')) {
+                useAuthStore.getState().logout();
+            }
+        }
+    },
+
+    createZone: async (data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch('/api/zones/create', {
+                method: 'POST',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const { zone } = await response.json();
+            set({ zones: [...get().zones, zone], isLoading: false, error: null });
+            return zone;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de création';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    updateZone: async (id, data) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/zones/update/${id}`, {
+                method: 'PATCH',
+                headers: getAuthHeaders(),
+                body: JSON.stringify(data),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            const { zone } = await response.json();
+            set({
+                zones: get().zones.map(z => z.id === id ? zone : z),
+                isLoading: false,
+                error: null,
+            });
+            return zone;
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de mise à jour';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    deleteZone: async (id) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const response = await fetch(`/api/zones/delete/${id}`, {
+                method: 'DELETE',
+                headers: getAuthHeaders(),
+            });
+
+            if (!response.ok) {
+                await handleApiError(response);
+            }
+
+            set({
+                zones: get().zones.filter(z => z.id !== id),
+                isLoading: false,
+                error: null,
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Erreur de suppression';
+            set({ error: errorMessage, isLoading: false });
+            throw error;
+        }
+    },
+
+    clearError: () => set({ error: null }),
+}));
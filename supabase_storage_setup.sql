@@ -134,6 +134,23 @@ FOR DELETE
 TO authenticated
 USING (bucket_id = 'categories-images');
 
+-- ============================================
+-- Bucket privé 'preuves-livraison'
+-- ============================================
+
+-- 16) Photos et signatures de remise au client (lib/upload.ts) : bucket
+-- privé, lu uniquement par URL signée. Upload et lecture passent par l'API
+-- (clé service), aucune politique n'est donc ouverte aux utilisateurs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'preuves-livraison',
+    'preuves-livraison',
+    false,
+    5242880,
+    ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
 -- ============================================
 -- NOTES
 -- ============================================